@@ -1,7 +1,7 @@
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import dotenv from 'dotenv';
 
 import authRoutes from './routes/auth.routes';
@@ -13,8 +13,20 @@ import taskRoutes from './routes/task.routes';
 import inviteRoutes from './routes/invite.routes';
 import threadRoutes from './routes/thread.routes';
 import notificationRoutes from './routes/notification.routes';
+import viewRoutes from './routes/view.routes';
+import automationRoutes from './routes/automation.routes';
+import propertyRoutes from './routes/property.routes';
+import renovationRoutes from './routes/renovation.routes';
 import { errorHandler } from './middleware/errorHandler';
 import { prisma } from './lib/prisma';
+import { startAutomationScheduler } from './lib/automations';
+import { startRentLedgerScheduler } from './lib/rentLedger';
+import { startMailScheduler } from './lib/mailer';
+import { boardRoom, emitToThread, sessionRoom, setSocketServer, threadRoom, userRoom, workspaceRoom } from './lib/realtime';
+import { markThreadRead, postMessage, resolveThread } from './lib/chat';
+import { checkBoardAccess } from './lib/boardAccess';
+import { dropPresence, dropSocketPresence, startPresenceSweeper, trackPresence } from './lib/presence';
+import { authenticateSocket, AuthRequest } from './middleware/auth';
 
 dotenv.config();
 
@@ -205,25 +217,144 @@ app.use('/api/tasks', taskRoutes);
 app.use('/api/invites', inviteRoutes);
 app.use('/api/threads', threadRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/views', viewRoutes);
+app.use('/api/automations', automationRoutes);
+app.use('/api/properties', propertyRoutes);
+app.use('/api/renovations', renovationRoutes);
 
 // Error handler
 app.use(errorHandler);
 
-// Basic Socket.io connection handler
+// Every socket belongs to a signed-in user; room joins are checked against that user's memberships
+io.use(authenticateSocket);
+
+// Tells the client a join was refused, so it can stop waiting for events from that room
+const refuseJoin = (socket: Socket, room: string) => socket.emit('join-error', { room, error: 'Access denied' });
+
 io.on('connection', (socket) => {
+  const user: NonNullable<AuthRequest['user']> = socket.data.user;
   console.log('Client connected:', socket.id);
 
-  socket.on('join-workspace', (workspaceId: string) => {
-    socket.join(`workspace:${workspaceId}`);
+  // Personal room, so a user's other devices can be reached
+  socket.join(userRoom(user.id));
+
+  // Session room, so signing the session out closes the socket
+  socket.join(sessionRoom(user.sessionId));
+
+  socket.on('join-workspace', async (workspaceId: string) => {
+    try {
+      const membership = typeof workspaceId === 'string' && await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId: user.id } },
+      });
+      if (membership && membership.isActive) {
+        socket.join(workspaceRoom(workspaceId));
+      } else {
+        refuseJoin(socket, workspaceRoom(workspaceId));
+      }
+    } catch (error) {
+      console.error('Join workspace error:', error);
+    }
+  });
+
+  socket.on('leave-workspace', (workspaceId: string) => {
+    socket.leave(workspaceRoom(workspaceId));
+  });
+
+  // Board rooms carry task and column changes, so joining needs the same access as opening the board
+  socket.on('join-board', async (boardId: string) => {
+    try {
+      if (typeof boardId === 'string' && await checkBoardAccess(boardId, user.id)) {
+        socket.join(boardRoom(boardId));
+        trackPresence(boardId, socket.id, user);
+      } else {
+        refuseJoin(socket, boardRoom(boardId));
+      }
+    } catch (error) {
+      console.error('Join board error:', error);
+    }
+  });
+
+  socket.on('leave-board', (boardId: string) => {
+    socket.leave(boardRoom(boardId));
+    dropPresence(boardId, socket.id);
+  });
+
+  // Sent every PRESENCE_HEARTBEAT_MS while a board is open, and straight away when the task being edited changes
+  socket.on('presence-heartbeat', (data: { boardId: string; taskId?: string | null }) => {
+    if (!data || !socket.rooms.has(boardRoom(data.boardId))) return;
+    trackPresence(data.boardId, socket.id, user, typeof data.taskId === 'string' ? data.taskId : null);
+  });
+
+  socket.on('join-thread', async (threadId: string) => {
+    try {
+      const participant = typeof threadId === 'string' && await prisma.threadParticipant.findUnique({
+        where: { threadId_userId: { threadId, userId: user.id } },
+      });
+      if (participant) {
+        socket.join(threadRoom(threadId));
+      } else {
+        refuseJoin(socket, threadRoom(threadId));
+      }
+    } catch (error) {
+      console.error('Join thread error:', error);
+    }
+  });
+
+  socket.on('leave-thread', (threadId: string) => {
+    socket.leave(threadRoom(threadId));
+  });
+
+  // Chat events name the conversation by threadId, or by receiverId for a 1:1 thread
+  type ChatTarget = { threadId?: string; receiverId?: string };
+
+  socket.on('send_message', async (data: ChatTarget & { content?: string }) => {
+    try {
+      const content = typeof data?.content === 'string' ? data.content.trim() : '';
+      const thread = content && await resolveThread(user.id, data);
+      if (!thread) {
+        socket.emit('message_error', { ...data, error: content ? 'Access denied' : 'Message is empty' });
+        return;
+      }
+      await postMessage(thread.threadId, user, content);
+    } catch (error) {
+      console.error('Send message error:', error);
+    }
+  });
+
+  const relayTyping = (event: 'user_typing' | 'user_stop_typing') => async (data: ChatTarget) => {
+    try {
+      const thread = data && await resolveThread(user.id, data);
+      if (thread) emitToThread(thread.threadId, thread.participantIds, event, { userId: user.id, name: user.name }, user.id);
+    } catch (error) {
+      console.error('Typing error:', error);
+    }
+  };
+
+  socket.on('typing', relayTyping('user_typing'));
+  socket.on('stop_typing', relayTyping('user_stop_typing'));
+
+  // Read receipts: the reader's lastReadAt moves to now, whether they name the thread or the message they saw
+  socket.on('mark_read', async (data: ChatTarget & { messageId?: string }) => {
+    try {
+      const message = typeof data?.messageId === 'string'
+        ? await prisma.message.findUnique({ where: { id: data.messageId }, select: { threadId: true } })
+        : null;
+      const thread = await resolveThread(user.id, message ? { threadId: message.threadId } : data || {});
+      if (thread) await markThreadRead(thread.threadId, user.id, thread.participantIds, message ? data.messageId : undefined);
+    } catch (error) {
+      console.error('Mark read error:', error);
+    }
   });
 
   socket.on('disconnect', () => {
+    dropSocketPresence(socket.id);
     console.log('Client disconnected:', socket.id);
   });
 });
 
 // Make io accessible to routes
 app.set('io', io);
+setSocketServer(io);
 
 const PORT = process.env.PORT || 3000;
 
@@ -249,6 +380,18 @@ async function startServer() {
     httpServer.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
     });
+
+    // Hourly sweep for date-based automations
+    startAutomationScheduler();
+
+    // Raises each running lease's monthly rent charge
+    startRentLedgerScheduler();
+
+    // Drops viewers whose heartbeats stopped without a disconnect
+    startPresenceSweeper();
+
+    // Sends queued emails and retries failed ones
+    startMailScheduler();
   } catch (err) {
     console.error('❌ Database connection failed:', err);
     process.exit(1);
@@ -0,0 +1,156 @@
+import { Column, FieldType, Prisma } from '@prisma/client';
+import { applyBoardQuery, BoardQuery, FilterOperator, QueryContext, validateBoardQuery } from '../boardQuery';
+
+const column = (id: string, type: FieldType, settings: Prisma.JsonValue = null): Column => ({
+  id,
+  boardId: 'board',
+  name: id,
+  type,
+  width: 150,
+  position: 0,
+  settings,
+  isRequired: false,
+  isVisible: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const price = column('price', FieldType.NUMBER);
+const rent = column('rent', FieldType.MONEY);
+const due = column('due', FieldType.DATE);
+const owner = column('owner', FieldType.PERSON);
+const status = column('status', FieldType.STATUS, {
+  options: [
+    { id: 'todo', label: 'To do' },
+    { id: 'doing', label: 'Working on it' },
+    { id: 'done', label: 'Done' },
+  ],
+});
+const columns = [price, rent, due, owner, status];
+
+// A Friday
+const ctx: QueryContext = {
+  userId: 'u1',
+  now: new Date('2024-03-15T10:00:00Z'),
+  userNames: new Map([
+    ['u1', 'Dana'],
+    ['u2', 'Avi'],
+  ]),
+};
+
+const task = (name: string, values: Record<string, Prisma.JsonValue>, assignees: string[] = []) => ({
+  name,
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  fieldValues: Object.entries(values).map(([columnId, value]) => ({ columnId, value })),
+  assignments: assignees.map((id) => ({ user: { id } })),
+});
+
+const tasks = [
+  task('Paint hallway', { price: 300, status: 'doing', due: '2024-03-14', owner: 'u1' }, ['u2']),
+  task('Fix boiler', { price: '1200', rent: { amount: 900, currency: 'USD' }, status: 'todo', due: '2024-03-20' }),
+  task('Replace locks', { price: 80, status: 'done', owner: 'u2' }, ['u1']),
+  task('Inspect roof', {}),
+];
+
+const names = (query: BoardQuery) => applyBoardQuery(tasks, query, columns, ctx).map((t) => t.name);
+const filter = (columnId: string, operator: FilterOperator, value?: unknown) =>
+  names({ filters: { match: 'all', conditions: [{ columnId, operator, value }] } });
+
+describe('validateBoardQuery', () => {
+  it('accepts a well-formed query', () => {
+    expect(
+      validateBoardQuery(
+        {
+          filters: { match: 'all', conditions: [{ columnId: 'price', operator: 'gt', value: 10 }] },
+          sort: [{ columnId: 'name', direction: 'asc' }],
+        },
+        columns
+      )
+    ).toBeNull();
+    expect(validateBoardQuery({}, columns)).toBeNull();
+    expect(validateBoardQuery({ filters: null, sort: null }, columns)).toBeNull();
+  });
+
+  // Queries come straight from request bodies, so the shapes here are what a client could send
+  it.each([
+    [{ filters: 'price > 10' }, 'Filters must be an object'],
+    [{ filters: [] }, 'Filters must be an object'],
+    [{ filters: { conditions: {} } }, 'Filter conditions must be a list'],
+    [{ filters: { conditions: [null] } }, 'Each filter condition must be an object'],
+    [{ filters: { conditions: ['price'] } }, 'Each filter condition must be an object'],
+    [{ filters: { conditions: [{ columnId: 'nope', operator: 'is' }] } }, 'Unknown filter column: nope'],
+    [{ filters: { conditions: [{ columnId: 7, operator: 'is' }] } }, 'Unknown filter column: 7'],
+    [{ filters: { conditions: [{ columnId: 'price', operator: 'between' }] } }, 'Unknown filter operator: between'],
+    [{ sort: { columnId: 'price' } }, 'Sort must be a list'],
+    [{ sort: [7] }, 'Each sort rule must be an object'],
+    [{ sort: [{ columnId: 'nope', direction: 'asc' }] }, 'Unknown sort column: nope'],
+    [{ sort: [{ columnId: 'price', direction: 'up' }] }, 'Sort direction must be asc or desc'],
+  ])('rejects %j', (query, error) => {
+    expect(validateBoardQuery(query as unknown as BoardQuery, columns)).toBe(error);
+  });
+});
+
+describe('applyBoardQuery', () => {
+  it('compares numbers, including numeric strings and money amounts', () => {
+    expect(filter('price', 'gte', '300')).toEqual(['Paint hallway', 'Fix boiler']);
+    expect(filter('rent', 'lt', 1000)).toEqual(['Fix boiler']);
+  });
+
+  it('matches status options by id or label', () => {
+    expect(filter('status', 'is', 'done')).toEqual(['Replace locks']);
+    expect(filter('status', 'is_not', ['To do', 'Done'])).toEqual(['Paint hallway', 'Inspect roof']);
+  });
+
+  it('resolves "me" to the current user', () => {
+    expect(filter('owner', 'is', 'me')).toEqual(['Paint hallway']);
+    expect(filter('assignee', 'is', 'me')).toEqual(['Replace locks']);
+  });
+
+  it('resolves relative date ranges against now', () => {
+    expect(filter('due', 'is', 'this_week')).toEqual(['Paint hallway']);
+    expect(filter('due', 'before', 'today')).toEqual(['Paint hallway']);
+    expect(filter('due', 'is', 'next_week')).toEqual(['Fix boiler']);
+  });
+
+  it('combines conditions with all or any', () => {
+    const conditions = [
+      { columnId: 'price', operator: 'lt' as const, value: 100 },
+      { columnId: 'due', operator: 'is_not_empty' as const },
+    ];
+    expect(names({ filters: { match: 'all', conditions } })).toEqual([]);
+    expect(names({ filters: { match: 'any', conditions } })).toEqual(['Paint hallway', 'Fix boiler', 'Replace locks']);
+  });
+
+  it('matches nothing for a condition on a deleted column', () => {
+    expect(filter('gone', 'is_empty')).toEqual([]);
+  });
+
+  it('searches names and status labels', () => {
+    expect(names({ search: 'ROOF' })).toEqual(['Inspect roof']);
+    expect(names({ search: 'working' })).toEqual(['Paint hallway']);
+  });
+
+  it('sorts by several rules, with empty values last in either direction', () => {
+    expect(names({ sort: [{ columnId: 'price', direction: 'desc' }] })).toEqual([
+      'Fix boiler',
+      'Paint hallway',
+      'Replace locks',
+      'Inspect roof',
+    ]);
+    expect(names({ sort: [{ columnId: 'due', direction: 'asc' }, { columnId: 'name', direction: 'asc' }] })).toEqual([
+      'Paint hallway',
+      'Fix boiler',
+      'Inspect roof',
+      'Replace locks',
+    ]);
+  });
+
+  it('sorts status options in their configured order', () => {
+    expect(names({ sort: [{ columnId: 'status', direction: 'asc' }] })).toEqual([
+      'Fix boiler',
+      'Paint hallway',
+      'Replace locks',
+      'Inspect roof',
+    ]);
+  });
+});
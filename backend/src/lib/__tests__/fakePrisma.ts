@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+
+// An in-memory stand-in for the Prisma client, covering the queries the libraries under test make. Tests mock
+// ../prisma with this module and seed the tables they need.
+
+type Row = Record<string, any>;
+
+const tables: Record<string, Row[]> = {};
+
+const same = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+// Where clauses: equality (null matches unset), lt/lte/gt/gte, in, not, OR and AND
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return (condition as Row[]).some((c) => matches(row, c));
+    if (key === 'AND') return (condition as Row[]).every((c) => matches(row, c));
+
+    const value = row[key] ?? null;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) return same(value, condition);
+
+    return Object.entries(condition as Row).every(([op, operand]) => {
+      switch (op) {
+        case 'lt': return value !== null && value < operand;
+        case 'lte': return value !== null && value <= operand;
+        case 'gt': return value !== null && value > operand;
+        case 'gte': return value !== null && value >= operand;
+        case 'in': return (operand as unknown[]).some((o) => same(value, o));
+        case 'not': return !same(value, operand);
+        default: throw new Error(`fakePrisma doesn't support ${op}`);
+      }
+    });
+  });
+}
+
+function apply(row: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] = value && typeof value === 'object' && 'increment' in value ? (row[key] ?? 0) + value.increment : value;
+  }
+}
+
+// Selects are ignored, so every query returns the whole row; includes join on <relation>Id
+function model(name: string) {
+  const rows = () => (tables[name] ??= []);
+  const read = (row: Row, include?: Row) => {
+    const copy = { ...row };
+    for (const relation of Object.keys(include || {})) {
+      copy[relation] = (tables[relation] || []).find((r) => r.id === row[`${relation}Id`]) ?? null;
+    }
+    return copy;
+  };
+
+  const findFirst = async ({ where, include }: { where?: Row; include?: Row } = {}) => {
+    const row = rows().find((r) => matches(r, where));
+    return row ? read(row, include) : null;
+  };
+
+  return {
+    findUnique: findFirst,
+    findFirst,
+    findUniqueOrThrow: async (args: { where: Row; include?: Row }) => {
+      const row = await findFirst(args);
+      if (!row) throw new Error(`No ${name} found`);
+      return row;
+    },
+    findMany: async ({ where, include }: { where?: Row; include?: Row } = {}) =>
+      rows().filter((r) => matches(r, where)).map((r) => read(r, include)),
+    count: async ({ where }: { where?: Row } = {}) => rows().filter((r) => matches(r, where)).length,
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: randomUUID(), ...data };
+      rows().push(row);
+      return read(row);
+    },
+    createMany: async ({ data }: { data: Row[] }) => {
+      data.forEach((d) => rows().push({ id: randomUUID(), ...d }));
+      return { count: data.length };
+    },
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      const row = rows().find((r) => matches(r, where));
+      if (!row) throw new Error(`No ${name} found`);
+      apply(row, data);
+      return read(row);
+    },
+    updateMany: async ({ where, data }: { where?: Row; data: Row }) => {
+      const hit = rows().filter((r) => matches(r, where));
+      hit.forEach((r) => apply(r, data));
+      return { count: hit.length };
+    },
+    deleteMany: async ({ where }: { where?: Row } = {}) => {
+      const before = rows().length;
+      tables[name] = rows().filter((r) => !matches(r, where));
+      return { count: before - tables[name].length };
+    },
+  };
+}
+
+export const prisma = {
+  user: model('user'),
+  session: model('session'),
+  recoveryCode: model('recoveryCode'),
+  $transaction: (queries: Promise<unknown>[]) => Promise.all(queries),
+};
+
+// Empties every table, then adds the given rows
+export function resetDatabase(seed: Record<string, Row[]> = {}) {
+  for (const name of Object.keys(tables)) delete tables[name];
+  for (const [name, rows] of Object.entries(seed)) tables[name] = rows.map((r) => ({ ...r }));
+}
+
+export const rowsOf = (name: string) => tables[name] || [];
@@ -0,0 +1,192 @@
+import { Column, FieldType, Prisma } from '@prisma/client';
+import { checkFormula, compileBoardFormulas, computeFormulas, renameReferences } from '../formula';
+
+jest.mock('../prisma', () => ({ prisma: {} }));
+
+const column = (name: string, type: FieldType, settings: Prisma.JsonValue = null): Column => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  boardId: 'board',
+  name,
+  type,
+  width: 150,
+  position: 0,
+  settings,
+  isRequired: false,
+  isVisible: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const formula = (name: string, expression: string) => column(name, FieldType.FORMULA, { expression });
+
+const NOW = new Date('2024-03-15T10:00:00Z');
+
+// Results by column name for one task's values, given by column name too
+function run(columns: Column[], values: Record<string, Prisma.JsonValue> = {}) {
+  const fieldValues = Object.entries(values).map(([name, value]) => ({
+    columnId: columns.find((c) => c.name === name)!.id,
+    value,
+  }));
+  const results = computeFormulas(compileBoardFormulas(columns), columns, fieldValues, new Map([['u1', 'Dana']]), NOW);
+  return Object.fromEntries(results.map((r) => [columns.find((c) => c.id === r.columnId)!.name, r.value]));
+}
+
+describe('evaluating formulas', () => {
+  const rent = column('Monthly Rent', FieldType.MONEY);
+  const price = column('Price', FieldType.NUMBER);
+
+  it('follows operator precedence and reads money as its amount', () => {
+    const columns = [rent, price, formula('Yield', '{Monthly Rent} * 12 / {Price} * 100 + 1')];
+    expect(run(columns, { 'Monthly Rent': { amount: 1000, currency: 'USD' }, Price: 240000 })).toEqual({ Yield: 6 });
+  });
+
+  it('drops floating point noise', () => {
+    expect(run([formula('Sum', '0.1 + 0.2')])).toEqual({ Sum: 0.3 });
+  });
+
+  it('reports division by zero as an error value', () => {
+    expect(run([price, formula('Ratio', '1 / {Price}')], { Price: 0 })).toEqual({
+      Ratio: { error: 'Division by zero' },
+    });
+  });
+
+  it('treats empty values as null', () => {
+    expect(run([price, formula('Double', '{Price} * 2')])).toEqual({ Double: null });
+  });
+
+  it('does date arithmetic in whole days', () => {
+    const columns = [
+      column('Start', FieldType.DATE),
+      column('End', FieldType.DATE),
+      formula('Length', 'DAYS({End}, {Start})'),
+      formula('Due', 'ADD_DAYS({Start}, 10)'),
+      formula('Age', 'TODAY() - {Start}'),
+    ];
+    expect(run(columns, { Start: '2024-03-01', End: '2024-03-31' })).toEqual({
+      Length: 30,
+      Due: '2024-03-11',
+      Age: 14,
+    });
+  });
+
+  it('reads status labels and people names, and only evaluates the IF branch it takes', () => {
+    const status = column('Status', FieldType.STATUS, { options: [{ id: 'o1', label: 'Done' }] });
+    const owner = column('Owner', FieldType.PERSON);
+    const columns = [status, owner, formula('Summary', 'IF({Status} = "Done", {Owner} & " finished", 1 / 0 & "")')];
+    expect(run(columns, { Status: 'o1', Owner: 'u1' })).toEqual({ Summary: 'Dana finished' });
+  });
+
+  it('evaluates formulas after the formulas they read, whatever the column order', () => {
+    const columns = [formula('Total', '{Subtotal} * 2'), formula('Subtotal', '{Price} + 1'), price];
+    expect(run(columns, { Price: 4 })).toEqual({ Subtotal: 5, Total: 10 });
+  });
+
+  it('passes an error on to the formulas that read it', () => {
+    const columns = [price, formula('Ratio', '1 / {Price}'), formula('Percent', '{Ratio} * 100')];
+    expect(run(columns, { Price: 0 })).toEqual({
+      Ratio: { error: 'Division by zero' },
+      Percent: { error: '{Ratio} has an error' },
+    });
+  });
+});
+
+describe('checking formulas', () => {
+  const name = column('Name', FieldType.TEXT);
+  const price = column('Price', FieldType.NUMBER);
+  const check = (expression: string, others: Column[] = [name, price]) =>
+    checkFormula(others, formula('Result', expression));
+
+  it('works out the result type', () => {
+    expect(check('{Price} > 10')).toEqual({ type: 'boolean' });
+    expect(check('{name} & "!"')).toEqual({ type: 'text' });
+    expect(check('ROUND({Price} / 3, 2)')).toEqual({ type: 'number' });
+  });
+
+  it.each([
+    ['', 'Formula is empty'],
+    ['1 +', 'Formula ends unexpectedly'],
+    ['(1 + 2', 'Expected ")" at the end'],
+    ['{Price', 'Missing } after column name at position 1'],
+    ['"open', 'Unterminated text at position 1'],
+    ['1 # 2', 'Unexpected "#" at position 3'],
+    ['1 2', 'Unexpected "2" at position 3'],
+    ['{Missing} + 1', 'Unknown column {Missing}'],
+    ['FOO(1)', 'Unknown function FOO'],
+    ['ABS(1, 2)', 'ABS takes 1 argument, got 2'],
+    ['SUM()', 'SUM takes at least 1 argument, got 0'],
+    ['DAYS(TODAY())', 'DAYS takes 2 arguments, got 1'],
+    ['ROUND()', 'ROUND takes 1 to 2 arguments, got 0'],
+    ['{Name} + 1', "Can't use + with text and a number; use & to join text"],
+    ['IF({Price} > 1, 1, "no")', 'IF branches must have the same type, got a number and text'],
+    ['-{Name}', "Can't negate text"],
+  ])('rejects %j', (expression, error) => {
+    expect(check(expression)).toEqual({ error });
+  });
+
+  it('rejects columns formulas cannot read', () => {
+    expect(check('{Files}', [column('Files', FieldType.FILE)])).toEqual({
+      error: "{Files} is a file column and can't be used in formulas",
+    });
+  });
+
+  it('rejects a name another column already has', () => {
+    const duplicate = { ...formula('price', '1'), id: 'other' };
+    expect(checkFormula([price], duplicate)).toEqual({ error: 'Another column is already named {price}' });
+  });
+});
+
+describe('circular references', () => {
+  it('catches a formula that reads itself', () => {
+    const { errors } = compileBoardFormulas([formula('A', '{A} + 1')]);
+    expect(errors.get('a')).toBe('Circular reference: {A} → {A}');
+  });
+
+  it('names the whole loop on every formula in it', () => {
+    const { formulas, errors } = compileBoardFormulas([
+      formula('A', '{B} + 1'),
+      formula('B', '{C} + 1'),
+      formula('C', '{A} + 1'),
+    ]);
+    expect(formulas).toHaveLength(0);
+    expect(errors.get('a')).toBe('Circular reference: {A} → {B} → {C} → {A}');
+    expect(errors.get('b')).toBe('Circular reference: {A} → {B} → {C} → {A}');
+    expect(errors.get('c')).toBe('Circular reference: {A} → {B} → {C} → {A}');
+  });
+
+  it('keeps formulas that only read from a loop out of it', () => {
+    const { errors } = compileBoardFormulas([
+      formula('A', '{B}'),
+      formula('B', '{A}'),
+      formula('Reader', '{A} * 2'),
+      formula('Fine', '1 + 1'),
+    ]);
+    expect(errors.get('reader')).toBe('Circular reference: {A} → {B} → {A}');
+    expect(errors.has('fine')).toBe(false);
+  });
+
+  it('allows a formula to be read by several others', () => {
+    const { errors, formulas } = compileBoardFormulas([
+      formula('Base', '2'),
+      formula('Left', '{Base} + 1'),
+      formula('Right', '{Base} * 3'),
+      formula('Total', '{Left} + {Right}'),
+    ]);
+    expect(errors.size).toBe(0);
+    expect(formulas.map((f) => f.column.name)).toEqual(['Base', 'Left', 'Right', 'Total']);
+  });
+
+  it('rejects saving a formula that would close a loop', () => {
+    const existing = [formula('A', '{B} + 1')];
+    expect(checkFormula(existing, formula('B', '{A} * 2'))).toEqual({
+      error: 'Circular reference: {A} → {B} → {A}',
+    });
+  });
+});
+
+describe('renameReferences', () => {
+  it('renames matching references only, ignoring case and spacing', () => {
+    expect(renameReferences('{ rent } * 12 + {Rental Fee}', 'Rent', 'Monthly Rent')).toBe(
+      '{Monthly Rent} * 12 + {Rental Fee}'
+    );
+  });
+});
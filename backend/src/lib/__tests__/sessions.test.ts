@@ -0,0 +1,120 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { AccessPayload, createSession, JWT_SECRET, revokeSessions, rotateSession } from '../sessions';
+import { hashToken } from '../tokens';
+import { resetDatabase, rowsOf } from './fakePrisma';
+
+jest.mock('../prisma', () => jest.requireActual('./fakePrisma'));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const request = (deviceName?: unknown) =>
+  ({ body: { deviceName }, headers: { 'user-agent': 'jest' }, ip: '203.0.113.7' }) as unknown as Request;
+
+const sessionOf = (refreshToken: string) => rowsOf('session').find((s) => s.id === refreshToken.split('.')[0])!;
+
+const reused = { error: 'Refresh token was already used; the session has been signed out' };
+const invalid = { error: 'Invalid refresh token' };
+
+beforeEach(() => {
+  resetDatabase({ user: [{ id: 'u1', isActive: true }] });
+});
+
+describe('createSession', () => {
+  it('issues an access token for the session and a refresh token whose hash alone is stored', async () => {
+    const { token, refreshToken } = await createSession('u1', request('Pixel 8'));
+    const session = sessionOf(refreshToken);
+
+    expect(jwt.verify(token, JWT_SECRET)).toMatchObject({ userId: 'u1', sessionId: session.id } satisfies AccessPayload);
+    expect(session).toMatchObject({ userId: 'u1', deviceName: 'Pixel 8', userAgent: 'jest', ipAddress: '203.0.113.7' });
+    expect(session.refreshTokenHash).toBe(hashToken(refreshToken.split('.')[1]));
+    expect(JSON.stringify(session)).not.toContain(refreshToken.split('.')[1]);
+  });
+
+  it('keeps the device name within bounds', async () => {
+    const long = await createSession('u1', request('x'.repeat(500)));
+    expect(sessionOf(long.refreshToken).deviceName).toHaveLength(100);
+
+    const odd = await createSession('u1', request({ name: 'Pixel' }));
+    expect(sessionOf(odd.refreshToken).deviceName).toBeNull();
+  });
+
+  it('expires access tokens after 15 minutes and refresh tokens after 30 days', async () => {
+    const { token, refreshToken } = await createSession('u1', request());
+    const { exp, iat } = jwt.decode(token) as { exp: number; iat: number };
+    expect(exp - iat).toBe(15 * 60);
+
+    const expiresIn = sessionOf(refreshToken).expiresAt.getTime() - Date.now();
+    expect(Math.abs(expiresIn - 30 * DAY_MS)).toBeLessThan(5000);
+  });
+});
+
+describe('rotateSession', () => {
+  it('swaps a refresh token for new tokens on the same session', async () => {
+    const first = await createSession('u1', request());
+    const second = await rotateSession(first.refreshToken, request());
+
+    expect(second.error).toBeUndefined();
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(sessionOf(second.refreshToken!).id).toBe(sessionOf(first.refreshToken).id);
+    expect(jwt.verify(second.token!, JWT_SECRET)).toMatchObject({ userId: 'u1' });
+    expect(await rotateSession(second.refreshToken!, request())).toHaveProperty('refreshToken');
+  });
+
+  it('extends the session each time it is used', async () => {
+    const { refreshToken } = await createSession('u1', request());
+    sessionOf(refreshToken).expiresAt = new Date(Date.now() + DAY_MS);
+
+    const next = await rotateSession(refreshToken, request());
+    expect(sessionOf(next.refreshToken!).expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+  });
+
+  it('signs the session out when a replaced token is used again', async () => {
+    const first = await createSession('u1', request());
+    const second = await rotateSession(first.refreshToken, request());
+
+    await expect(rotateSession(first.refreshToken, request())).resolves.toEqual(reused);
+    expect(sessionOf(first.refreshToken).revokedAt).toBeInstanceOf(Date);
+    // Whoever held the newer token is signed out too
+    await expect(rotateSession(second.refreshToken!, request())).resolves.toEqual(invalid);
+  });
+
+  it('treats a wrong secret for a real session as reuse', async () => {
+    const { refreshToken } = await createSession('u1', request());
+    const [sessionId] = refreshToken.split('.');
+
+    await expect(rotateSession(`${sessionId}.${'0'.repeat(64)}`, request())).resolves.toEqual(reused);
+    await expect(rotateSession(refreshToken, request())).resolves.toEqual(invalid);
+  });
+
+  it.each(['', 'nonsense', 'missing.secret', '.'])('rejects %j', async (token) => {
+    await createSession('u1', request());
+    await expect(rotateSession(token, request())).resolves.toEqual(invalid);
+    expect(rowsOf('session').every((s) => !s.revokedAt)).toBe(true);
+  });
+
+  it('rejects an expired session', async () => {
+    const { refreshToken } = await createSession('u1', request());
+    sessionOf(refreshToken).expiresAt = new Date(Date.now() - 1000);
+    await expect(rotateSession(refreshToken, request())).resolves.toEqual(invalid);
+  });
+
+  it('rejects a disabled account', async () => {
+    const { refreshToken } = await createSession('u1', request());
+    rowsOf('user')[0].isActive = false;
+    await expect(rotateSession(refreshToken, request())).resolves.toEqual(invalid);
+  });
+});
+
+describe('revokeSessions', () => {
+  it('signs out the matching sessions that are still active and counts them', async () => {
+    const signedOut = await createSession('u1', request());
+    await createSession('u1', request());
+    const other = await createSession('u2', request());
+    await revokeSessions({ id: sessionOf(signedOut.refreshToken).id });
+
+    await expect(revokeSessions({ userId: 'u1' })).resolves.toBe(1);
+    await expect(revokeSessions({ userId: 'u1' })).resolves.toBe(0);
+    expect(sessionOf(other.refreshToken).revokedAt).toBeFalsy();
+  });
+});
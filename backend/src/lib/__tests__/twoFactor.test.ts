@@ -0,0 +1,211 @@
+import jwt from 'jsonwebtoken';
+import {
+  createLoginChallenge,
+  createRecoveryCodes,
+  finishEnrollment,
+  readLoginChallenge,
+  startEnrollment,
+  verifyCodeWithLockout,
+} from '../twoFactor';
+import { JWT_SECRET } from '../sessions';
+import { resetDatabase, rowsOf } from './fakePrisma';
+
+jest.mock('../prisma', () => jest.requireActual('./fakePrisma'));
+
+// The RFC 6238 SHA-1 test secret ("12345678901234567890") and codes from its test vectors, cut to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const VECTORS = {
+  59: '287082',
+  1111111109: '081804',
+  1111111111: '050471',
+  1234567890: '005924',
+};
+
+const user = (overrides: Record<string, unknown> = {}) => ({
+  id: 'u1',
+  email: 'dana@example.com',
+  twoFactorEnabled: true,
+  twoFactorSecret: SECRET,
+  twoFactorLastStep: null,
+  twoFactorFailures: 0,
+  twoFactorLockedUntil: null,
+  ...overrides,
+});
+
+const stored = () => rowsOf('user')[0];
+const atSecond = (seconds: number) => jest.setSystemTime(seconds * 1000);
+
+beforeEach(() => {
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+  resetDatabase({ user: [user()] });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('authenticator codes', () => {
+  it.each(Object.entries(VECTORS))('accepts the RFC 6238 code at %s seconds', async (seconds, code) => {
+    atSecond(Number(seconds));
+    await expect(verifyCodeWithLockout('u1', code)).resolves.toEqual({});
+  });
+
+  it('ignores spaces and dashes', async () => {
+    atSecond(59);
+    await expect(verifyCodeWithLockout('u1', ' 287-082 ')).resolves.toEqual({});
+  });
+
+  it('accepts the code from the step before, for clocks that drift', async () => {
+    atSecond(1111111111);
+    await expect(verifyCodeWithLockout('u1', VECTORS[1111111109])).resolves.toEqual({});
+  });
+
+  it('rejects a code from outside the window', async () => {
+    atSecond(1111111109 + 90);
+    await expect(verifyCodeWithLockout('u1', VECTORS[1111111109])).resolves.toEqual({ error: 'Invalid code' });
+  });
+
+  it('accepts each code only once', async () => {
+    atSecond(59);
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual({});
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual({ error: 'Invalid code' });
+  });
+
+  it('rejects a code from an earlier step than one already used', async () => {
+    atSecond(1111111111);
+    await expect(verifyCodeWithLockout('u1', VECTORS[1111111111])).resolves.toEqual({});
+    await expect(verifyCodeWithLockout('u1', VECTORS[1111111109])).resolves.toEqual({ error: 'Invalid code' });
+  });
+
+  it.each(['12345', '1234567', 'abcdef', ''])('treats %j as a wrong code', async (code) => {
+    atSecond(59);
+    await expect(verifyCodeWithLockout('u1', code)).resolves.toEqual({ error: 'Invalid code' });
+  });
+
+  it('rejects codes while 2FA is off', async () => {
+    resetDatabase({ user: [user({ twoFactorEnabled: false })] });
+    atSecond(59);
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual({ error: 'Invalid code' });
+  });
+});
+
+describe('recovery codes', () => {
+  it('issues ten codes that each work once, however they are typed', async () => {
+    const codes = await createRecoveryCodes('u1');
+    expect(codes).toHaveLength(10);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    expect(rowsOf('recoveryCode').map((r) => r.codeHash)).not.toContain(codes[0]);
+
+    await expect(verifyCodeWithLockout('u1', codes[0].toUpperCase().replace('-', ' '))).resolves.toEqual({});
+    await expect(verifyCodeWithLockout('u1', codes[0])).resolves.toEqual({ error: 'Invalid code' });
+    await expect(verifyCodeWithLockout('u1', codes[1])).resolves.toEqual({});
+  });
+
+  it('replaces the earlier set', async () => {
+    const [old] = await createRecoveryCodes('u1');
+    await createRecoveryCodes('u1');
+    expect(rowsOf('recoveryCode')).toHaveLength(10);
+    await expect(verifyCodeWithLockout('u1', old)).resolves.toEqual({ error: 'Invalid code' });
+  });
+});
+
+describe('lockout', () => {
+  const locked = { error: 'Too many wrong codes; try again in 15 minutes', locked: true };
+
+  it('locks after five wrong codes, even for the right one', async () => {
+    atSecond(59);
+    for (let i = 0; i < 4; i++) {
+      await expect(verifyCodeWithLockout('u1', '000000')).resolves.toEqual({ error: 'Invalid code' });
+    }
+    await expect(verifyCodeWithLockout('u1', '000000')).resolves.toEqual(locked);
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual(locked);
+    expect(stored().twoFactorLastStep).toBeNull();
+  });
+
+  it('lifts after 15 minutes', async () => {
+    atSecond(1111111109);
+    for (let i = 0; i < 5; i++) await verifyCodeWithLockout('u1', '000000');
+
+    atSecond(1111111109 + 14 * 60);
+    await expect(verifyCodeWithLockout('u1', '000000')).resolves.toEqual(locked);
+
+    atSecond(1111111109 + 15 * 60);
+    await expect(verifyCodeWithLockout('u1', '000000')).resolves.toEqual({ error: 'Invalid code' });
+    expect(stored().twoFactorFailures).toBe(1);
+  });
+
+  it('starts counting again after the right code', async () => {
+    atSecond(59);
+    for (let i = 0; i < 4; i++) await verifyCodeWithLockout('u1', '000000');
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual({});
+    expect(stored().twoFactorFailures).toBe(0);
+
+    for (let i = 0; i < 4; i++) {
+      await expect(verifyCodeWithLockout('u1', '000000')).resolves.toEqual({ error: 'Invalid code' });
+    }
+  });
+
+  it("doesn't let parallel guesses past the limit", async () => {
+    atSecond(59);
+    const guesses = [...Array(5).fill('000000'), ...Array(15).fill(VECTORS[59])];
+    const results = await Promise.all(guesses.map((code) => verifyCodeWithLockout('u1', code)));
+    expect(results.every((r) => r.error)).toBe(true);
+    expect(stored().twoFactorLockedUntil).not.toBeNull();
+  });
+});
+
+describe('enrollment', () => {
+  beforeEach(() => {
+    resetDatabase({ user: [user({ twoFactorEnabled: false, twoFactorSecret: null })] });
+  });
+
+  it('stores a new secret and returns it with a scannable QR code', async () => {
+    const { secret, otpauthUrl, qrCode } = await startEnrollment({ id: 'u1', email: 'dana@example.com' });
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(stored().twoFactorSecret).toBe(secret);
+    expect(otpauthUrl).toBe(
+      `otpauth://totp/Od%20Sifra%3Adana%40example.com?secret=${secret}&issuer=Od%20Sifra&digits=6&period=30`
+    );
+    expect(qrCode).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('turns 2FA on with the right code and returns recovery codes', async () => {
+    resetDatabase({ user: [user({ twoFactorEnabled: false })] });
+    atSecond(59);
+    const codes = await finishEnrollment('u1', VECTORS[59]);
+    expect(codes).toHaveLength(10);
+    expect(stored()).toMatchObject({ twoFactorEnabled: true, twoFactorLastStep: 1 });
+    await expect(verifyCodeWithLockout('u1', VECTORS[59])).resolves.toEqual({ error: 'Invalid code' });
+  });
+
+  it.each(['000000', '12345', '1234567', 'abc'])('stays off for %j', async (code) => {
+    resetDatabase({ user: [user({ twoFactorEnabled: false })] });
+    atSecond(59);
+    await expect(finishEnrollment('u1', code)).resolves.toBeNull();
+    expect(stored().twoFactorEnabled).toBe(false);
+  });
+
+  it('needs setup to have been started', async () => {
+    atSecond(59);
+    await expect(finishEnrollment('u1', VECTORS[59])).resolves.toBeNull();
+  });
+});
+
+describe('login challenges', () => {
+  it('names the user they were issued for', () => {
+    expect(readLoginChallenge(createLoginChallenge('u1'))).toBe('u1');
+  });
+
+  it('expire after five minutes', () => {
+    atSecond(1_700_000_000);
+    const challenge = createLoginChallenge('u1');
+    atSecond(1_700_000_000 + 5 * 60 + 1);
+    expect(readLoginChallenge(challenge)).toBeNull();
+  });
+
+  it('are not interchangeable with other tokens', () => {
+    expect(readLoginChallenge(jwt.sign({ userId: 'u1', sessionId: 's1' }, JWT_SECRET))).toBeNull();
+    expect(readLoginChallenge(jwt.sign({ userId: 'u1', purpose: 'two-factor' }, 'another-secret'))).toBeNull();
+    expect(readLoginChallenge('not-a-token')).toBeNull();
+  });
+});
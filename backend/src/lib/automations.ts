@@ -0,0 +1,458 @@
+import { Automation, AutomationRunStatus, AutomationTrigger, FieldType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { sameValue, toDateSpan, validateFieldValue } from './fieldValues';
+import { normalizeMoney } from './currency';
+import { recomputeTaskFormulas } from './formula';
+import { isEmailConfigured, queueEmail } from './mailer';
+import { notify } from './notifications';
+import { emitToBoard } from './realtime';
+import { syncTaskFieldToProperty } from './properties';
+
+export const ACTION_TYPES = [
+  'SET_FIELD',
+  'MOVE_TO_GROUP',
+  'ASSIGN',
+  'CREATE_TASK',
+  'CREATE_SUBTASK',
+  'NOTIFY',
+  'SEND_EMAIL',
+] as const;
+
+// Who NOTIFY and SEND_EMAIL reach: the task's assignees, its creator, a fixed user, or the user in a PERSON column
+export const RECIPIENTS = ['assignees', 'creator', 'user', 'column'] as const;
+
+export type ActionType = (typeof ACTION_TYPES)[number];
+
+export interface AutomationAction {
+  type: ActionType;
+  columnId?: string;
+  value?: Prisma.JsonValue;
+  groupId?: string;
+  userId?: string;
+  name?: string;
+  to?: (typeof RECIPIENTS)[number];
+  subject?: string;
+  message?: string;
+}
+
+// Every field is optional and narrows when the rule fires; DATE_ARRIVED needs a columnId
+export interface TriggerConfig {
+  columnId?: string;
+  from?: string;
+  to?: string;
+  groupId?: string;
+  userId?: string;
+  contains?: string;
+  offsetDays?: number;
+  edge?: 'start' | 'end';
+}
+
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  taskId: string;
+  columnId?: string;
+  from?: string | null;
+  to?: string | null;
+  groupId?: string;
+  userId?: string;
+  commentId?: string;
+  content?: string;
+  date?: string;
+}
+
+interface ActionResult {
+  type: ActionType;
+  ok: boolean;
+  detail?: string;
+  error?: string;
+}
+
+// Actions can fire further rules (a SET_FIELD changing a status); this stops rules feeding each other forever
+const MAX_DEPTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NON_SETTABLE_TYPES: FieldType[] = [FieldType.FORMULA, FieldType.MIRROR, FieldType.RELATION, FieldType.DEPENDENCY];
+
+const triggerConfig = (automation: Automation) => (automation.triggerConfig || {}) as TriggerConfig;
+const automationActions = (automation: Automation) => automation.actions as unknown as AutomationAction[];
+
+// Returns an error message when the trigger or actions don't fit the board
+export async function validateAutomation(boardId: string, trigger: AutomationTrigger, config: TriggerConfig | null, actions: unknown) {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      columns: true,
+      groups: { where: { isActive: true } },
+      workspace: { include: { members: { where: { isActive: true }, select: { userId: true } } } },
+    },
+  });
+  if (!board) return 'Board not found';
+
+  const column = (id?: string) => board.columns.find((c) => c.id === id);
+  const isGroup = (id?: string) => board.groups.some((g) => g.id === id);
+  const isMember = (id?: string) => board.workspace.members.some((m) => m.userId === id);
+  const cfg = config || {};
+
+  switch (trigger) {
+    case AutomationTrigger.STATUS_CHANGED: {
+      if (cfg.columnId && column(cfg.columnId)?.type !== FieldType.STATUS) {
+        return 'Trigger column must be a status column on this board';
+      }
+      if ((cfg.from || cfg.to) && !cfg.columnId) {
+        return 'Pick a status column to match from/to values';
+      }
+      const options: { id: string }[] = (column(cfg.columnId)?.settings as any)?.options || [];
+      if ([cfg.from, cfg.to].some((id) => id && !options.some((o) => o.id === id))) {
+        return 'From/to must be options of the status column';
+      }
+      break;
+    }
+    case AutomationTrigger.DATE_ARRIVED: {
+      const type = column(cfg.columnId)?.type;
+      if (type !== FieldType.DATE && type !== FieldType.TIMELINE) {
+        return 'Trigger column must be a date or timeline column on this board';
+      }
+      if (cfg.offsetDays !== undefined && !Number.isInteger(cfg.offsetDays)) {
+        return 'Offset must be a whole number of days';
+      }
+      break;
+    }
+    case AutomationTrigger.TASK_CREATED:
+      if (cfg.groupId && !isGroup(cfg.groupId)) return 'Trigger group must be on this board';
+      break;
+    case AutomationTrigger.PERSON_ASSIGNED:
+      if (cfg.userId && !isMember(cfg.userId)) return 'Trigger user must be a workspace member';
+      break;
+    case AutomationTrigger.COMMENT_ADDED:
+      if (cfg.contains !== undefined && typeof cfg.contains !== 'string') return 'Comment filter must be text';
+      break;
+  }
+
+  if (!Array.isArray(actions) || actions.length === 0) {
+    return 'Add at least one action';
+  }
+
+  for (const action of actions as AutomationAction[]) {
+    if (!action || !ACTION_TYPES.includes(action.type)) {
+      return `Action type must be one of ${ACTION_TYPES.join(', ')}`;
+    }
+
+    switch (action.type) {
+      case 'SET_FIELD': {
+        const target = column(action.columnId);
+        if (!target) return 'Set field: column must be on this board';
+        if (NON_SETTABLE_TYPES.includes(target.type)) return `Set field: ${target.name} can't be set by an automation`;
+        const valueError = validateFieldValue(target.type, action.value);
+        if (valueError) return `Set field: ${valueError}`;
+        break;
+      }
+      case 'MOVE_TO_GROUP':
+        if (!isGroup(action.groupId)) return 'Move: group must be on this board';
+        break;
+      case 'ASSIGN':
+        if (!isMember(action.userId)) return 'Assign: user must be a workspace member';
+        break;
+      case 'CREATE_TASK':
+        if (!action.name?.trim()) return 'Create task: name is required';
+        if (action.groupId && !isGroup(action.groupId)) return 'Create task: group must be on this board';
+        break;
+      case 'CREATE_SUBTASK':
+        if (!action.name?.trim()) return 'Create subtask: name is required';
+        break;
+      case 'NOTIFY':
+      case 'SEND_EMAIL':
+        if (!action.to || !RECIPIENTS.includes(action.to)) return `Recipient must be one of ${RECIPIENTS.join(', ')}`;
+        if (action.to === 'user' && !isMember(action.userId)) return 'Recipient must be a workspace member';
+        if (action.to === 'column' && column(action.columnId)?.type !== FieldType.PERSON) {
+          return 'Recipient column must be a person column on this board';
+        }
+        if (!action.message?.trim()) return 'Message is required';
+        break;
+    }
+  }
+
+  return null;
+}
+
+function matches(automation: Automation, event: AutomationEvent) {
+  const cfg = triggerConfig(automation);
+
+  switch (event.trigger) {
+    case AutomationTrigger.STATUS_CHANGED:
+      return (!cfg.columnId || cfg.columnId === event.columnId)
+        && (!cfg.from || cfg.from === event.from)
+        && (!cfg.to || cfg.to === event.to);
+    case AutomationTrigger.TASK_CREATED:
+      return !cfg.groupId || cfg.groupId === event.groupId;
+    case AutomationTrigger.PERSON_ASSIGNED:
+      return !cfg.userId || cfg.userId === event.userId;
+    case AutomationTrigger.COMMENT_ADDED:
+      return !cfg.contains || !!event.content?.toLowerCase().includes(cfg.contains.toLowerCase());
+    case AutomationTrigger.DATE_ARRIVED:
+      return cfg.columnId === event.columnId;
+  }
+}
+
+// Fills {task} and {board} in messages
+function render(template: string, task: { name: string }, board: { name: string }) {
+  return template.replace(/\{task\}/g, task.name).replace(/\{board\}/g, board.name);
+}
+
+async function resolveRecipients(action: AutomationAction, task: { id: string; createdById: string }) {
+  switch (action.to) {
+    case 'assignees': {
+      const assignments = await prisma.taskAssignment.findMany({ where: { taskId: task.id } });
+      return assignments.map((a) => a.userId);
+    }
+    case 'creator':
+      return [task.createdById];
+    case 'user':
+      return action.userId ? [action.userId] : [];
+    case 'column': {
+      const fieldValue = await prisma.taskFieldValue.findUnique({
+        where: { taskId_columnId: { taskId: task.id, columnId: action.columnId! } },
+      });
+      return typeof fieldValue?.value === 'string' && fieldValue.value ? [fieldValue.value] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+async function runAction(automation: Automation, action: AutomationAction, taskId: string, depth: number): Promise<string> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { group: { include: { board: { include: { workspace: { select: { defaultCurrency: true } } } } } } },
+  });
+  if (!task || !task.isActive) throw new Error('Task no longer exists');
+
+  const board = task.group.board;
+  const actorId = automation.createdById;
+  const log = (action: string, details: Prisma.InputJsonValue, logTaskId = taskId) =>
+    prisma.activityLog.create({ data: { taskId: logTaskId, userId: actorId, action, details } });
+
+  switch (action.type) {
+    case 'SET_FIELD': {
+      const column = await prisma.column.findFirst({ where: { id: action.columnId, boardId: board.id } });
+      if (!column) throw new Error('Column no longer exists');
+
+      const previous = await prisma.taskFieldValue.findUnique({
+        where: { taskId_columnId: { taskId, columnId: column.id } },
+      });
+      const stored = normalizeMoney(column, action.value ?? null, board.workspace.defaultCurrency);
+      const value = stored === null ? Prisma.JsonNull : (stored as Prisma.InputJsonValue);
+      await prisma.taskFieldValue.upsert({
+        where: { taskId_columnId: { taskId, columnId: column.id } },
+        create: { taskId, columnId: column.id, value },
+        update: { value },
+      });
+      await recomputeTaskFormulas(taskId, board.id, column.id);
+      await syncTaskFieldToProperty(taskId, column, stored);
+      await log('field_updated', { columnId: column.id, value: stored, automationId: automation.id });
+
+      if (!sameValue(previous?.value ?? null, action.value ?? null)) {
+        if (column.type === FieldType.STATUS) {
+          await runAutomations(board.id, {
+            trigger: AutomationTrigger.STATUS_CHANGED,
+            taskId,
+            columnId: column.id,
+            from: (previous?.value as string) ?? null,
+            to: (action.value as string) ?? null,
+          }, depth + 1);
+        }
+        if (column.type === FieldType.PERSON && typeof action.value === 'string' && action.value) {
+          await runAutomations(board.id, {
+            trigger: AutomationTrigger.PERSON_ASSIGNED,
+            taskId,
+            columnId: column.id,
+            userId: action.value,
+          }, depth + 1);
+        }
+      }
+      return `Set ${column.name}`;
+    }
+
+    case 'MOVE_TO_GROUP': {
+      const group = await prisma.group.findFirst({ where: { id: action.groupId, boardId: board.id, isActive: true } });
+      if (!group) throw new Error('Group no longer exists');
+      if (group.id === task.groupId) return `Already in ${group.name}`;
+
+      const maxPos = await prisma.task.aggregate({ where: { groupId: group.id }, _max: { position: true } });
+      await prisma.task.update({
+        where: { id: taskId },
+        data: { groupId: group.id, position: (maxPos._max.position || 0) + 1 },
+      });
+      await log('moved', { groupId: group.id, automationId: automation.id });
+      return `Moved to ${group.name}`;
+    }
+
+    case 'ASSIGN': {
+      const userId = action.userId!;
+      const existing = await prisma.taskAssignment.findUnique({ where: { taskId_userId: { taskId, userId } } });
+      if (existing) return 'Already assigned';
+
+      await prisma.taskAssignment.create({ data: { taskId, userId } });
+      await notify(
+        {
+          userId,
+          type: 'TASK_ASSIGNED',
+          title: 'Task Assigned',
+          message: `You were assigned to "${task.name}"`,
+          link: `/boards/${board.id}?task=${taskId}`,
+        },
+        board.workspaceId
+      );
+      await log('assigned', { assignedUserId: userId, automationId: automation.id });
+      await runAutomations(board.id, { trigger: AutomationTrigger.PERSON_ASSIGNED, taskId, userId }, depth + 1);
+      return 'Assigned';
+    }
+
+    case 'CREATE_TASK': {
+      const groupId = action.groupId || task.groupId;
+      const name = render(action.name!, task, board);
+      const maxPos = await prisma.task.aggregate({ where: { groupId }, _max: { position: true } });
+      const created = await prisma.task.create({
+        data: { groupId, createdById: actorId, name, position: (maxPos._max.position || 0) + 1 },
+      });
+      await log('created', { name, automationId: automation.id, fromTaskId: taskId }, created.id);
+      await runAutomations(board.id, { trigger: AutomationTrigger.TASK_CREATED, taskId: created.id, groupId }, depth + 1);
+      return `Created "${name}"`;
+    }
+
+    case 'CREATE_SUBTASK': {
+      const name = render(action.name!, task, board);
+      const maxPos = await prisma.subTask.aggregate({ where: { taskId }, _max: { position: true } });
+      await prisma.subTask.create({ data: { taskId, name, position: (maxPos._max.position || 0) + 1 } });
+      return `Added subtask "${name}"`;
+    }
+
+    case 'NOTIFY': {
+      const recipients = await resolveRecipients(action, task);
+      if (recipients.length === 0) return 'No one to notify';
+      for (const userId of recipients) {
+        await notify(
+          {
+            userId,
+            type: 'TASK_UPDATED',
+            title: automation.name,
+            message: render(action.message!, task, board),
+            link: `/boards/${board.id}?task=${taskId}`,
+            data: { automationId: automation.id, taskId },
+          },
+          board.workspaceId
+        );
+      }
+      return `Notified ${recipients.length}`;
+    }
+
+    case 'SEND_EMAIL': {
+      if (!isEmailConfigured()) {
+        throw new Error('Email is not configured (SMTP_HOST is not set)');
+      }
+      const recipients = await resolveRecipients(action, task);
+      const users = await prisma.user.findMany({ where: { id: { in: recipients }, isActive: true }, select: { email: true } });
+      if (users.length === 0) return 'No one to email';
+      const subject = render(action.subject || automation.name, task, board);
+      const message = render(action.message!, task, board);
+      for (const user of users) {
+        await queueEmail(user.email, 'message', { subject, message }, board.workspaceId);
+      }
+      return `Queued email to ${users.length}`;
+    }
+  }
+}
+
+async function runAutomation(automation: Automation, event: AutomationEvent, depth: number) {
+  const results: ActionResult[] = [];
+
+  for (const action of automationActions(automation)) {
+    try {
+      results.push({ type: action.type, ok: true, detail: await runAction(automation, action, event.taskId, depth) });
+    } catch (error: any) {
+      results.push({ type: action.type, ok: false, error: error.message });
+    }
+  }
+
+  // Notifications and emails leave the board as it was
+  if (results.some((r) => r.ok && !['NOTIFY', 'SEND_EMAIL'].includes(r.type))) {
+    emitToBoard(automation.boardId, 'board_changed');
+  }
+
+  const failed = results.find((r) => !r.ok);
+  await prisma.automationRun.create({
+    data: {
+      automationId: automation.id,
+      taskId: event.taskId,
+      status: failed ? AutomationRunStatus.FAILED : AutomationRunStatus.SUCCESS,
+      event: event as unknown as Prisma.InputJsonValue,
+      results: results as unknown as Prisma.InputJsonValue,
+      error: failed?.error,
+    },
+  });
+}
+
+async function runAutomations(boardId: string, event: AutomationEvent, depth = 0) {
+  if (depth >= MAX_DEPTH) return;
+
+  const automations = await prisma.automation.findMany({
+    where: { boardId, trigger: event.trigger, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const automation of automations.filter((a) => matches(a, event))) {
+    await runAutomation(automation, event, depth);
+  }
+}
+
+// Runs matching rules after the response has gone out, so a slow email never holds up the request
+export function fireAutomations(boardId: string, event: AutomationEvent) {
+  setImmediate(() => {
+    runAutomations(boardId, event).catch((error) => console.error('Automation error:', error));
+  });
+}
+
+// Fires DATE_ARRIVED rules for tasks whose date (plus the rule's offset) is today. Each date fires once per task.
+export async function runDateAutomations(now = new Date()) {
+  const today = Math.floor(now.getTime() / DAY_MS);
+  const automations = await prisma.automation.findMany({
+    where: { trigger: AutomationTrigger.DATE_ARRIVED, isActive: true },
+  });
+
+  for (const automation of automations) {
+    const cfg = triggerConfig(automation);
+    const column = await prisma.column.findFirst({ where: { id: cfg.columnId, boardId: automation.boardId } });
+    if (!column) continue;
+
+    const fieldValues = await prisma.taskFieldValue.findMany({
+      where: { columnId: column.id, task: { isActive: true, group: { isActive: true } } },
+    });
+
+    for (const fieldValue of fieldValues) {
+      const span = toDateSpan(column.type, fieldValue.value);
+      if (!span) continue;
+
+      const date = cfg.edge === 'end' ? span.end : span.start;
+      if (Math.floor(date.getTime() / DAY_MS) + (cfg.offsetDays || 0) !== today) continue;
+
+      const dateString = date.toISOString().substring(0, 10);
+      const alreadyRan = await prisma.automationRun.findFirst({
+        where: { automationId: automation.id, taskId: fieldValue.taskId, event: { path: ['date'], equals: dateString } },
+      });
+      if (alreadyRan) continue;
+
+      await runAutomation(automation, {
+        trigger: AutomationTrigger.DATE_ARRIVED,
+        taskId: fieldValue.taskId,
+        columnId: column.id,
+        date: dateString,
+      }, 0);
+    }
+  }
+}
+
+export function startAutomationScheduler(intervalMs = 60 * 60 * 1000) {
+  const sweep = () => runDateAutomations().catch((error) => console.error('Date automation error:', error));
+  sweep();
+  return setInterval(sweep, intervalMs);
+}
@@ -0,0 +1,35 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+// Check board access
+export async function checkBoardAccess(boardId: string, userId: string, requireEdit = false) {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      workspace: {
+        include: {
+          members: { where: { userId, isActive: true } },
+        },
+      },
+      boardMembers: { where: { userId } },
+    },
+  });
+
+  if (!board) return null;
+
+  const workspaceMember = board.workspace.members[0];
+  if (!workspaceMember) return null;
+
+  // Admin/Employee can access all boards in workspace
+  if (workspaceMember.role === UserRole.OWNER_ADMIN || workspaceMember.role === UserRole.EMPLOYEE) {
+    return { board, canEdit: true, role: workspaceMember.role };
+  }
+
+  // Customer can only access boards they're members of or public boards
+  const boardMember = board.boardMembers[0];
+  if (board.isPublic || boardMember) {
+    return { board, canEdit: boardMember?.canEdit || false, role: workspaceMember.role };
+  }
+
+  return null;
+}
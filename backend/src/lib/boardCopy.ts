@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import { Column, Comment, FieldType, Prisma, SubTask, Task, TaskFieldValue } from '@prisma/client';
+import { prisma } from './prisma';
+
+// structure: columns and groups only (for a task, just its name); items: plus tasks and their values;
+// updates: plus each task's comments and subtasks
+export const COPY_MODES = ['structure', 'items', 'updates'] as const;
+
+export type CopyMode = (typeof COPY_MODES)[number];
+
+export interface CopyOptions {
+  tasks: boolean;
+  subTasks: boolean;
+  comments: boolean;
+}
+
+export function copyOptionsFor(mode: CopyMode): CopyOptions {
+  return { tasks: mode !== 'structure', subTasks: mode === 'updates', comments: mode === 'updates' };
+}
+
+export interface BoardCopyTarget {
+  workspaceId: string;
+  createdById: string;
+  name: string;
+  description?: string | null;
+  isPublic?: boolean;
+  isTemplate: boolean;
+}
+
+type SourceTask = Task & { fieldValues: TaskFieldValue[]; subTasks: SubTask[]; comments: Comment[] };
+
+type MappedValue = { columnId: string; value: Prisma.InputJsonValue };
+
+interface TaskCopyPlan {
+  taskIds: Map<string, string>;
+  groupId: (task: SourceTask) => string;
+  mapValue: ((fv: TaskFieldValue) => MappedValue | null) | null;
+  createdById: string;
+  options: CopyOptions;
+  name?: (task: SourceTask) => string;
+  position?: (task: SourceTask) => number;
+}
+
+// Relations are paired with a column on another board, and mirrors read through them, so board copies leave both out
+const UNCOPIED_TYPES: FieldType[] = [FieldType.RELATION, FieldType.MIRROR];
+
+// Board settings that point at one of the board's columns
+const SETTINGS_COLUMN_KEYS = ['kanbanColumnId', 'calendarColumnId', 'ganttColumnId'];
+
+const SOURCE_TASK_INCLUDE = {
+  fieldValues: true,
+  subTasks: { orderBy: { position: 'asc' } },
+  comments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.TaskInclude;
+
+const jsonValue = (value: Prisma.JsonValue) => (value ?? Prisma.JsonNull) as Prisma.InputJsonValue;
+
+// Writes for the copied tasks, their values and, per the options, their subtasks and comments
+function taskCopyOperations(tasks: SourceTask[], plan: TaskCopyPlan) {
+  const newId = (task: SourceTask) => plan.taskIds.get(task.id)!;
+
+  return [
+    prisma.task.createMany({
+      data: tasks.map((t) => ({
+        id: newId(t),
+        groupId: plan.groupId(t),
+        createdById: plan.createdById,
+        name: plan.name ? plan.name(t) : t.name,
+        position: plan.position ? plan.position(t) : t.position,
+      })),
+    }),
+    prisma.taskFieldValue.createMany({
+      data: plan.mapValue
+        ? tasks.flatMap((t) =>
+            t.fieldValues
+              .map(plan.mapValue!)
+              .filter((v): v is MappedValue => v !== null)
+              .map((v) => ({ taskId: newId(t), ...v }))
+          )
+        : [],
+    }),
+    prisma.subTask.createMany({
+      data: plan.options.subTasks
+        ? tasks.flatMap((t) =>
+            t.subTasks.map((s) => ({ taskId: newId(t), name: s.name, isCompleted: s.isCompleted, position: s.position }))
+          )
+        : [],
+    }),
+    prisma.comment.createMany({
+      data: plan.options.comments
+        ? tasks.flatMap((t) =>
+            t.comments.map((c) => ({ taskId: newId(t), userId: c.userId, content: c.content, createdAt: c.createdAt }))
+          )
+        : [],
+    }),
+  ];
+}
+
+// Copies of tasks on the same board keep their links: predecessors and relations point at the copy where
+// the other end was copied too, and at the original otherwise
+async function sameBoardLinkOperations(taskIds: Map<string, string>) {
+  const ids = [...taskIds.keys()];
+  const remap = (id: string) => taskIds.get(id) || id;
+
+  const [dependencies, relations] = await Promise.all([
+    prisma.taskDependency.findMany({
+      where: { OR: [{ predecessorId: { in: ids } }, { successorId: { in: ids } }] },
+    }),
+    prisma.taskRelation.findMany({
+      where: { OR: [{ sourceTaskId: { in: ids } }, { targetTaskId: { in: ids } }] },
+    }),
+  ]);
+
+  return [
+    prisma.taskDependency.createMany({
+      data: dependencies.map((d) => ({ predecessorId: remap(d.predecessorId), successorId: remap(d.successorId) })),
+      skipDuplicates: true,
+    }),
+    prisma.taskRelation.createMany({
+      data: relations.map((r) => ({ columnId: r.columnId, sourceTaskId: remap(r.sourceTaskId), targetTaskId: remap(r.targetTaskId) })),
+      skipDuplicates: true,
+    }),
+  ];
+}
+
+// Dependency cells list predecessor task IDs; copies point at copied predecessors, dropping the rest when asked
+function remapDependencyValue(value: Prisma.JsonValue, taskIds: Map<string, string>, keepUncopied: boolean) {
+  if (!Array.isArray(value)) return value;
+  return value
+    .map((id) => taskIds.get(id as string) || (keepUncopied ? (id as string) : undefined))
+    .filter((id): id is string => !!id);
+}
+
+// Copies a board's columns and groups, and per the options its tasks with their values, subtasks, comments
+// and dependencies. Used for duplicating boards, saving templates and creating boards from them.
+export async function copyBoard(sourceId: string, target: BoardCopyTarget, options: CopyOptions) {
+  const source = await prisma.board.findUnique({
+    where: { id: sourceId },
+    include: {
+      columns: { orderBy: { position: 'asc' } },
+      groups: {
+        where: { isActive: true },
+        orderBy: { position: 'asc' },
+        include: {
+          tasks: { where: { isActive: true }, orderBy: { position: 'asc' }, include: SOURCE_TASK_INCLUDE },
+        },
+      },
+    },
+  });
+  if (!source) return null;
+
+  const boardId = randomUUID();
+  const columns = source.columns.filter((c) => !UNCOPIED_TYPES.includes(c.type));
+  const columnIds = new Map(columns.map((c) => [c.id, randomUUID()]));
+  const groupIds = new Map(source.groups.map((g) => [g.id, randomUUID()]));
+  const tasks = options.tasks ? source.groups.flatMap((g) => g.tasks) : [];
+  const taskIds = new Map(tasks.map((t) => [t.id, randomUUID()]));
+
+  const settings = source.settings && typeof source.settings === 'object' && !Array.isArray(source.settings)
+    ? Object.fromEntries(
+        Object.entries(source.settings)
+          .map(([key, value]) => [key, SETTINGS_COLUMN_KEYS.includes(key) ? columnIds.get(value as string) : value])
+          .filter(([, value]) => value !== undefined)
+      )
+    : undefined;
+
+  const mapValue = (fv: TaskFieldValue): MappedValue | null => {
+    const columnId = columnIds.get(fv.columnId);
+    if (!columnId) return null;
+    const column = columns.find((c) => c.id === fv.columnId)!;
+    const value = column.type === FieldType.DEPENDENCY ? remapDependencyValue(fv.value, taskIds, false) : fv.value;
+    return { columnId, value: jsonValue(value) };
+  };
+
+  const dependencies = tasks.length
+    ? await prisma.taskDependency.findMany({
+        where: { predecessorId: { in: [...taskIds.keys()] }, successorId: { in: [...taskIds.keys()] } },
+      })
+    : [];
+
+  await prisma.$transaction([
+    prisma.board.create({
+      data: {
+        id: boardId,
+        workspaceId: target.workspaceId,
+        createdById: target.createdById,
+        name: target.name,
+        description: target.description ?? source.description,
+        type: source.type,
+        color: source.color,
+        icon: source.icon,
+        isPublic: target.isPublic ?? source.isPublic,
+        isTemplate: target.isTemplate,
+        settings: settings as Prisma.InputJsonValue | undefined,
+      },
+    }),
+    prisma.column.createMany({
+      data: columns.map((c, idx) => ({
+        id: columnIds.get(c.id)!,
+        boardId,
+        name: c.name,
+        type: c.type,
+        width: c.width,
+        position: idx,
+        settings: jsonValue(c.settings),
+        isRequired: c.isRequired,
+        isVisible: c.isVisible,
+      })),
+    }),
+    prisma.group.createMany({
+      data: source.groups.length
+        ? source.groups.map((g, idx) => ({
+            id: groupIds.get(g.id)!,
+            boardId,
+            name: g.name,
+            color: g.color,
+            position: idx,
+            collapsed: g.collapsed,
+          }))
+        : [{ boardId, name: 'New Group', position: 0 }],
+    }),
+    ...taskCopyOperations(tasks, {
+      taskIds,
+      groupId: (t) => groupIds.get(t.groupId)!,
+      mapValue,
+      createdById: target.createdById,
+      options,
+    }),
+    prisma.taskDependency.createMany({
+      data: dependencies.map((d) => ({
+        predecessorId: taskIds.get(d.predecessorId)!,
+        successorId: taskIds.get(d.successorId)!,
+      })),
+    }),
+  ]);
+
+  return prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      columns: { orderBy: { position: 'asc' } },
+      groups: true,
+    },
+  });
+}
+
+// Copies a group on its own board, with its tasks per the options
+export async function copyGroup(sourceId: string, createdById: string, options: CopyOptions) {
+  const source = await prisma.group.findUnique({
+    where: { id: sourceId },
+    include: {
+      tasks: { where: { isActive: true }, orderBy: { position: 'asc' }, include: SOURCE_TASK_INCLUDE },
+      board: { include: { columns: true } },
+    },
+  });
+  if (!source) return null;
+
+  const groupId = randomUUID();
+  const tasks = options.tasks ? source.tasks : [];
+  const taskIds = new Map(tasks.map((t) => [t.id, randomUUID()]));
+  const dependencyColumns = new Set(source.board.columns.filter((c) => c.type === FieldType.DEPENDENCY).map((c) => c.id));
+
+  const maxPos = await prisma.group.aggregate({
+    where: { boardId: source.boardId },
+    _max: { position: true },
+  });
+
+  await prisma.$transaction([
+    prisma.group.create({
+      data: {
+        id: groupId,
+        boardId: source.boardId,
+        name: `${source.name} (copy)`,
+        color: source.color,
+        position: (maxPos._max.position || 0) + 1,
+      },
+    }),
+    ...taskCopyOperations(tasks, {
+      taskIds,
+      groupId: () => groupId,
+      mapValue: (fv) => ({
+        columnId: fv.columnId,
+        value: jsonValue(dependencyColumns.has(fv.columnId) ? remapDependencyValue(fv.value, taskIds, true) : fv.value),
+      }),
+      createdById,
+      options,
+    }),
+    ...(tasks.length ? await sameBoardLinkOperations(taskIds) : []),
+  ]);
+
+  return prisma.group.findUnique({ where: { id: groupId } });
+}
+
+// Finds the target column for a value by name and type; status values move by option label
+function mapByNameAndType(sourceColumns: Column[], targetColumns: Column[]) {
+  const key = (c: Column) => `${c.type}:${c.name.trim().toLowerCase()}`;
+  const targets = new Map(targetColumns.map((c) => [key(c), c]));
+  // Values that only mean something on their own board
+  const unmapped: FieldType[] = [FieldType.DEPENDENCY, FieldType.RELATION, FieldType.MIRROR];
+
+  return (fv: TaskFieldValue): MappedValue | null => {
+    const source = sourceColumns.find((c) => c.id === fv.columnId);
+    const target = source && !unmapped.includes(source.type) ? targets.get(key(source)) : undefined;
+    if (!source || !target) return null;
+
+    if (source.type === FieldType.STATUS) {
+      const options = (c: Column): { id: string; label: string }[] => (c.settings as any)?.options || [];
+      const label = options(source).find((o) => o.id === fv.value)?.label;
+      const option = options(target).find((o) => o.label === label);
+      return option ? { columnId: target.id, value: option.id } : null;
+    }
+
+    return { columnId: target.id, value: jsonValue(fv.value) };
+  };
+}
+
+// Copies a task into a group on its own board or another one. "structure" copies only the name.
+export async function copyTask(sourceId: string, targetGroupId: string, createdById: string, mode: CopyMode) {
+  const source = await prisma.task.findUnique({
+    where: { id: sourceId },
+    include: { ...SOURCE_TASK_INCLUDE, group: { include: { board: { include: { columns: true } } } } },
+  });
+  const targetGroup = await prisma.group.findUnique({
+    where: { id: targetGroupId },
+    include: { board: { include: { columns: true } } },
+  });
+  if (!source || !targetGroup) return null;
+
+  const taskId = randomUUID();
+  const taskIds = new Map([[source.id, taskId]]);
+  const sameBoard = targetGroup.boardId === source.group.boardId;
+  const options = copyOptionsFor(mode);
+
+  const maxPos = await prisma.task.aggregate({
+    where: { groupId: targetGroup.id },
+    _max: { position: true },
+  });
+
+  const mapValue = mode === 'structure'
+    ? null
+    : sameBoard
+      ? (fv: TaskFieldValue) => ({ columnId: fv.columnId, value: jsonValue(fv.value) })
+      : mapByNameAndType(source.group.board.columns, targetGroup.board.columns);
+
+  await prisma.$transaction([
+    ...taskCopyOperations([source], {
+      taskIds,
+      groupId: () => targetGroup.id,
+      mapValue,
+      createdById,
+      options,
+      name: (t) => (t.groupId === targetGroup.id ? `${t.name} (copy)` : t.name),
+      position: () => (maxPos._max.position || 0) + 1,
+    }),
+    ...(sameBoard && mode !== 'structure' ? await sameBoardLinkOperations(taskIds) : []),
+  ]);
+
+  return prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      fieldValues: true,
+      assignments: { include: { user: { select: { id: true, name: true, avatarUrl: true } } } },
+    },
+  });
+}
@@ -0,0 +1,409 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Column, Currency, FieldType, Prisma } from '@prisma/client';
+import { parseDate, toNumber } from './fieldValues';
+import { LinkedTask } from './relations';
+import { columnCurrency, Converter, MoneyValue, toMoney } from './currency';
+import { fetchRemoteImage } from './remoteImage';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+interface ExportTask {
+  id: string;
+  name: string;
+  fieldValues: { columnId: string; value: Prisma.JsonValue }[];
+}
+
+// A board as loadBoard returns it, so relation and formula values are already filled in for the caller
+export interface ExportBoard {
+  name: string;
+  description: string | null;
+  columns: Column[];
+  groups: { name: string; tasks: ExportTask[] }[];
+  workspace: {
+    name: string;
+    logoUrl: string | null;
+    defaultCurrency: Currency;
+    members: { user: { id: string; name: string } }[];
+  };
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface FormatContext {
+  // Amounts are converted into the converter's currency; ones it has no rate for keep their own
+  converter: Converter;
+  workspaceCurrency: Currency;
+  // PDF text uses the standard fonts, which have no glyph for some currency symbols
+  currencyCodes: boolean;
+  userNames: Map<string, string>;
+  taskNames: Map<string, string>;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  ILS: '₪',
+};
+
+// ============================================
+// Formatting values
+// ============================================
+
+function exportMoney(column: Column, value: Prisma.JsonValue, ctx: FormatContext): MoneyValue | null {
+  const money = toMoney(value, columnCurrency(column, ctx.workspaceCurrency));
+  if (!money) return null;
+  const amount = ctx.converter.convert(money.amount, money.currency);
+  return amount === null ? money : { amount, currency: ctx.converter.currency };
+}
+
+function formatMoney(amount: number, currency: Currency, useCode: boolean) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    currencyDisplay: useCode && currency === Currency.ILS ? 'code' : 'symbol',
+    minimumFractionDigits: 0,
+  }).format(amount);
+}
+
+// DATE values are day strings, so they're shown in UTC to keep the stored day
+function formatDay(value: unknown) {
+  const date = parseDate(value);
+  if (!date) return '';
+  return new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' }).format(date);
+}
+
+function optionLabel(column: Column, value: unknown) {
+  const settings = column.settings as { options?: { id: string; label: string }[] } | null;
+  return settings?.options?.find((o) => o.id === value)?.label ?? '';
+}
+
+// The text a value shows on the board, used for CSV and PDF cells
+function formatValue(column: Column, value: Prisma.JsonValue | undefined, ctx: FormatContext): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (column.type) {
+    case FieldType.MONEY: {
+      const money = exportMoney(column, value, ctx);
+      return money ? formatMoney(money.amount, money.currency, ctx.currencyCodes) : '';
+    }
+
+    case FieldType.NUMBER:
+    case FieldType.RATING: {
+      const number = toNumber(value);
+      return number === null ? '' : number.toLocaleString('en-US');
+    }
+
+    case FieldType.DATE:
+      return formatDay(value);
+
+    case FieldType.TIMELINE: {
+      const span = value as { start?: string; end?: string };
+      return [formatDay(span.start), formatDay(span.end)].filter(Boolean).join(' – ');
+    }
+
+    case FieldType.STATUS:
+    case FieldType.DROPDOWN:
+      return optionLabel(column, value);
+
+    case FieldType.PERSON:
+      return ctx.userNames.get(value as string) ?? '';
+
+    case FieldType.CHECKBOX:
+      return value ? 'Yes' : 'No';
+
+    case FieldType.DEPENDENCY:
+      return Array.isArray(value) ? value.map((id) => ctx.taskNames.get(id as string) ?? '').filter(Boolean).join(', ') : '';
+
+    case FieldType.RELATION:
+      return Array.isArray(value) ? (value as unknown as LinkedTask[]).map((t) => t.name).join(', ') : '';
+
+    case FieldType.FORMULA: {
+      if (typeof value === 'object') return '#ERROR';
+      const resultType = (column.settings as { resultType?: string } | null)?.resultType;
+      if (resultType === 'number') return Number(value).toLocaleString('en-US');
+      if (resultType === 'date') return formatDay(value);
+      if (resultType === 'boolean') return value ? 'Yes' : 'No';
+      return String(value);
+    }
+
+    case FieldType.MIRROR:
+      return typeof value === 'number' ? value.toLocaleString('en-US') : String(value);
+
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+// XLSX keeps numbers and dates as real cell values so they can be summed and sorted
+function typedValue(column: Column, value: Prisma.JsonValue | undefined, ctx: FormatContext): ExcelJS.CellValue {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (column.type) {
+    case FieldType.MONEY: {
+      // An amount that couldn't be converted is written as text so its currency shows
+      const money = exportMoney(column, value, ctx);
+      if (!money) return null;
+      return money.currency === ctx.converter.currency ? money.amount : formatValue(column, value, ctx);
+    }
+
+    case FieldType.NUMBER:
+    case FieldType.RATING:
+      return toNumber(value);
+
+    case FieldType.DATE:
+      return parseDate(value);
+
+    case FieldType.MIRROR:
+      return typeof value === 'number' ? value : formatValue(column, value, ctx);
+
+    case FieldType.FORMULA: {
+      const resultType = (column.settings as { resultType?: string } | null)?.resultType;
+      if (resultType === 'number' && typeof value === 'number') return value;
+      if (resultType === 'date') return parseDate(value);
+      return formatValue(column, value, ctx);
+    }
+
+    default:
+      return formatValue(column, value, ctx);
+  }
+}
+
+function numberFormat(column: Column, ctx: FormatContext) {
+  const resultType = (column.settings as { resultType?: string } | null)?.resultType;
+  if (column.type === FieldType.MONEY) return `"${CURRENCY_SYMBOLS[ctx.converter.currency]}"#,##0.00`;
+  if (column.type === FieldType.DATE || (column.type === FieldType.FORMULA && resultType === 'date')) return 'yyyy-mm-dd';
+  return undefined;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function formatContext(board: ExportBoard, converter: Converter, currencyCodes = false): FormatContext {
+  return {
+    converter,
+    workspaceCurrency: board.workspace.defaultCurrency,
+    currencyCodes,
+    userNames: new Map(board.workspace.members.map((m) => [m.user.id, m.user.name])),
+    taskNames: new Map(board.groups.flatMap((g) => g.tasks.map((t) => [t.id, t.name]))),
+  };
+}
+
+// MONEY headers name the currency amounts were converted into
+const headerOf = (column: Column, ctx: FormatContext) =>
+  column.type === FieldType.MONEY ? `${column.name} (${ctx.converter.currency})` : column.name;
+
+// "1 EUR = 1.0832 USD (2024-03-01)" for each rate a conversion used
+function describeRates(ctx: FormatContext) {
+  return ctx.converter.summary().rates.map((r) => `1 ${r.from} = ${r.rate} ${r.to} (${r.date})`);
+}
+
+const valueOf = (task: ExportTask, column: Column) => task.fieldValues.find((fv) => fv.columnId === column.id)?.value;
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const escapeFormula = (text: string) => (/^[=+@\t\r]/.test(text) ? `'${text}` : text);
+
+function toCsv(board: ExportBoard, converter: Converter) {
+  const ctx = formatContext(board, converter);
+  const quote = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const line = (cells: string[]) => cells.map((c) => quote(escapeFormula(c))).join(',');
+
+  const lines = [line(['Group', 'Name', ...board.columns.map((c) => headerOf(c, ctx))])];
+  for (const group of board.groups) {
+    for (const task of group.tasks) {
+      lines.push(line([group.name, task.name, ...board.columns.map((c) => formatValue(c, valueOf(task, c), ctx))]));
+    }
+  }
+
+  // The byte order mark lets Excel read the file as UTF-8
+  return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+async function toXlsx(board: ExportBoard, converter: Converter) {
+  const ctx = formatContext(board, converter);
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(board.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Board', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: 'Group', width: 18 },
+    { header: 'Name', width: 32 },
+    ...board.columns.map((c) => {
+      const numFmt = numberFormat(c, ctx);
+      return { header: headerOf(c, ctx), width: Math.max(12, Math.round((c.width ?? 150) / 7)), ...(numFmt && { style: { numFmt } }) };
+    }),
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  for (const group of board.groups) {
+    for (const task of group.tasks) {
+      sheet.addRow([
+        escapeFormula(group.name),
+        escapeFormula(task.name),
+        ...board.columns.map((c) => {
+          const value = typedValue(c, valueOf(task, c), ctx);
+          return typeof value === 'string' ? escapeFormula(value) : value;
+        }),
+      ]);
+    }
+  }
+
+  const { rates, missing } = converter.summary();
+  if (rates.length > 0 || missing.length > 0) {
+    const ratesSheet = workbook.addWorksheet('Exchange rates');
+    ratesSheet.columns = [
+      { header: 'From', width: 10 },
+      { header: 'To', width: 10 },
+      { header: 'Rate', width: 14 },
+      { header: 'Date', width: 14 },
+    ];
+    ratesSheet.getRow(1).font = { bold: true };
+    for (const rate of rates) ratesSheet.addRow([rate.from, rate.to, rate.rate, rate.date]);
+    for (const currency of missing) ratesSheet.addRow([currency, converter.currency, 'No rate', null]);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Logos may be data URLs or images on public https hosts; a logo that can't be loaded is left out rather than
+// failing the export
+async function loadLogo(url: string | null): Promise<Buffer | string | null> {
+  if (!url) return null;
+  if (url.startsWith('data:image/')) return url;
+  return fetchRemoteImage(url);
+}
+
+async function toPdf(board: ExportBoard, converter: Converter) {
+  const ctx = formatContext(board, converter, true);
+  const logo = await loadLogo(board.workspace.logoUrl);
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36, bufferPages: true });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve) => doc.on('end', () => resolve(Buffer.concat(chunks))));
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+  // Branded header: workspace logo and name, then the board
+  let headerX = left;
+  if (logo) {
+    try {
+      doc.image(logo, left, 30, { fit: [40, 40] });
+      headerX += 50;
+    } catch {
+      // Unsupported image formats (SVG, WebP) fall back to the name alone
+    }
+  }
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#6B7280').text(board.workspace.name, headerX, 32);
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#111827').text(board.name, headerX, 46);
+  doc
+    .font('Helvetica')
+    .fontSize(8)
+    .fillColor('#6B7280')
+    .text(`Exported ${formatDay(new Date().toISOString())}`, left, 36, { width, align: 'right' });
+  doc.moveTo(left, 76).lineTo(left + width, 76).strokeColor('#E5E7EB').stroke();
+  let y = 86;
+  if (board.description) {
+    doc.font('Helvetica').fontSize(9).fillColor('#374151').text(board.description, left, y, { width });
+    y = doc.y + 8;
+  }
+
+  // The name column gets twice the room of the others
+  const fontSize = board.columns.length > 10 ? 7 : 8;
+  const rowHeight = fontSize + 10;
+  const unit = width / (board.columns.length + 2);
+  const widths = [unit * 2, ...board.columns.map(() => unit)];
+  const headers = ['Name', ...board.columns.map((c) => headerOf(c, ctx))];
+
+  const drawRow = (cells: string[], header: boolean) => {
+    if (header) doc.rect(left, y, width, rowHeight).fill('#F3F4F6');
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize).fillColor('#111827');
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 4, y + 5, { width: widths[i] - 8, height: fontSize + 2, ellipsis: true, lineBreak: false });
+      x += widths[i];
+    });
+    y += rowHeight;
+    doc.moveTo(left, y).lineTo(left + width, y).strokeColor('#E5E7EB').stroke();
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = doc.page.margins.top;
+  };
+
+  for (const group of board.groups) {
+    // Keep a group's title with its header row and at least one item
+    if (y + 18 + rowHeight * 2 > bottom()) newPage();
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .fillColor('#111827')
+      .text(`${group.name} (${group.tasks.length})`, left, y + 4);
+    y += 20;
+    drawRow(headers, true);
+
+    for (const task of group.tasks) {
+      if (y + rowHeight > bottom()) {
+        newPage();
+        drawRow(headers, true);
+      }
+      drawRow([task.name, ...board.columns.map((c) => formatValue(c, valueOf(task, c), ctx))], false);
+    }
+    y += 12;
+  }
+
+  // The rates are only known once every amount has been converted, so they're noted after the table
+  const rates = describeRates(ctx);
+  if (rates.length > 0) {
+    if (y + 20 > bottom()) newPage();
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor('#6B7280')
+      .text(`Amounts in ${converter.currency}. Exchange rates: ${rates.join(', ')}`, left, y, { width });
+  }
+
+  const pages = doc.bufferedPageRange();
+  for (let i = 0; i < pages.count; i++) {
+    doc.switchToPage(pages.start + i);
+    doc.page.margins.bottom = 0;
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .fillColor('#9CA3AF')
+      .text(`Page ${i + 1} of ${pages.count}`, left, doc.page.height - 24, { width, align: 'right', lineBreak: false });
+  }
+
+  doc.end();
+  return done;
+}
+
+export async function exportBoard(board: ExportBoard, format: ExportFormat, converter: Converter): Promise<ExportFile> {
+  const buffer =
+    format === 'csv'
+      ? toCsv(board, converter)
+      : format === 'xlsx'
+        ? await toXlsx(board, converter)
+        : await toPdf(board, converter);
+  const baseName = board.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'board';
+
+  return { buffer, contentType: CONTENT_TYPES[format], fileName: `${baseName}.${format}` };
+}
@@ -0,0 +1,561 @@
+import { randomUUID } from 'crypto';
+import ExcelJS from 'exceljs';
+import { Column, Currency, FieldType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { columnCurrency } from './currency';
+
+// Column types a spreadsheet cell can be parsed into
+export const IMPORT_TYPES: FieldType[] = [
+  FieldType.TEXT,
+  FieldType.NUMBER,
+  FieldType.MONEY,
+  FieldType.STATUS,
+  FieldType.DATE,
+  FieldType.PERSON,
+  FieldType.CHECKBOX,
+  FieldType.EMAIL,
+  FieldType.PHONE,
+  FieldType.LINK,
+];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const PREVIEW_ROWS = 10;
+
+// Slashed dates like 03/04/2024 are ambiguous, so the wizard asks which order the file uses
+export const DATE_ORDERS = ['MDY', 'DMY'] as const;
+
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// A source column either fills an existing column or a new one created by the import; unmapped ones are skipped
+export interface ImportColumnMapping {
+  index: number;
+  columnId?: string;
+  create?: { name: string; type: FieldType };
+}
+
+export interface ImportMapping {
+  nameColumn: number;
+  groupId?: string;
+  dateOrder?: DateOrder;
+  columns: ImportColumnMapping[];
+  skipInvalidRows?: boolean;
+}
+
+// Rows are numbered as in the spreadsheet, so the header is row 1
+export interface RowError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: RowError[];
+  createdColumns: string[];
+}
+
+interface ParseContext {
+  dateOrder: DateOrder;
+  membersByEmail: Map<string, string>;
+  currency: Currency;
+}
+
+type Parsed = { value: Prisma.InputJsonValue } | { error: string } | null;
+
+const STATUS_COLORS = ['#6B7280', '#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6'];
+
+const TRUE_VALUES = ['yes', 'y', 'true', 'x', '✓', '✔', 'checked'];
+const FALSE_VALUES = ['no', 'n', 'false', '✗', 'unchecked'];
+
+const CURRENCY_PATTERN = /[$€£¥₹₽₩₪₺฿]|^[A-Za-z]{3}\s*(?=[-(\d])|(?<=\d)\s*[A-Za-z]{3}$/g;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+
+// Symbols and codes an amount's currency is recognised by
+const CURRENCY_MARKS: [RegExp, Currency][] = [
+  [/\$|(?<![a-z])USD(?![a-z])/i, Currency.USD],
+  [/€|(?<![a-z])EUR(?![a-z])/i, Currency.EUR],
+  [/£|(?<![a-z])GBP(?![a-z])/i, Currency.GBP],
+  [/₪|(?<![a-z])(ILS|NIS)(?![a-z])/i, Currency.ILS],
+];
+
+// ============================================
+// Reading files
+// ============================================
+
+export async function readImportFile(file: { originalname: string; buffer: Buffer }): Promise<ImportSheet | { error: string }> {
+  const extension = file.originalname.toLowerCase().split('.').pop();
+
+  let table: string[][];
+  if (extension === 'csv' || extension === 'txt') {
+    table = parseCsv(file.buffer.toString('utf8'));
+  } else if (extension === 'xlsx') {
+    try {
+      table = await readXlsx(file.buffer);
+    } catch {
+      return { error: 'Could not read the spreadsheet' };
+    }
+  } else {
+    return { error: 'Only CSV and XLSX files can be imported' };
+  }
+
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return { error: 'The file is empty' };
+  }
+
+  const [header, ...rows] = nonEmpty;
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `Files can have at most ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => (row[i] ?? '').trim());
+
+  return {
+    headers: pad(header).map((h, i) => h || `Column ${i + 1}`),
+    rows: rows.map(pad),
+  };
+}
+
+// RFC 4180, with the delimiter (comma, semicolon or tab) picked from the header line
+function parseCsv(text: string) {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Reads the first worksheet, turning typed cells back into the text a CSV export would hold
+async function readXlsx(buffer: Buffer) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, col) => {
+      cells[col - 1] = cellText(cell.value);
+    });
+    rows.push(Array.from(cells, (c) => c ?? ''));
+  });
+  return rows;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((r) => r.text).join('');
+  if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+  if ('text' in value) return String(value.text);
+  return '';
+}
+
+// ============================================
+// Parsing values
+// ============================================
+
+function pad2(n: number) {
+  return String(n).padStart(2, '0');
+}
+
+function isoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+// Returns a "YYYY-MM-DD" string, the way DATE values are stored
+export function parseImportDate(raw: string, order: DateOrder): string | null {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const parts = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (parts) {
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    let year = Number(parts[3]);
+    if (parts[3].length === 2) year += year < 70 ? 2000 : 1900;
+    return order === 'DMY' ? isoDate(year, second, first) : isoDate(year, first, second);
+  }
+
+  // Written-out dates such as "March 1, 2024" or "1 Mar 2024"
+  if (/[a-z]/i.test(raw) && /\d{4}/.test(raw)) {
+    const date = new Date(raw);
+    if (!isNaN(date.getTime())) return isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  return null;
+}
+
+// Accepts thousands separators and either "." or "," as the decimal mark
+export function parseImportNumber(raw: string): number | null {
+  let text = raw.replace(/[\s']/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    text = /^-?\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  }
+
+  if (!/^-?\d*\.?\d+$/.test(text)) return null;
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+export function parseImportMoney(raw: string): number | null {
+  return parseImportNumber(raw.replace(CURRENCY_PATTERN, '').trim());
+}
+
+// The currency an amount is written in, if it shows one
+function importCurrency(raw: string): Currency | null {
+  return CURRENCY_MARKS.find(([pattern]) => pattern.test(raw))?.[1] ?? null;
+}
+
+function parseCheckbox(raw: string): boolean | null {
+  const text = raw.toLowerCase();
+  if (TRUE_VALUES.includes(text) || text === '1') return true;
+  if (FALSE_VALUES.includes(text) || text === '0') return false;
+  return null;
+}
+
+function statusOptions(column: Column): { id: string; label: string }[] {
+  const settings = column.settings as { options?: { id: string; label: string }[] } | null;
+  return settings?.options || [];
+}
+
+// Empty cells leave the value unset
+function parseCell(column: Column, raw: string, ctx: ParseContext): Parsed {
+  if (raw === '') return null;
+
+  switch (column.type) {
+    case FieldType.NUMBER: {
+      const number = parseImportNumber(raw);
+      return number === null ? { error: `"${raw}" is not a number` } : { value: number };
+    }
+
+    case FieldType.MONEY: {
+      const amount = parseImportMoney(raw);
+      if (amount === null) return { error: `"${raw}" is not an amount` };
+      return { value: { amount, currency: importCurrency(raw) ?? columnCurrency(column, ctx.currency) } };
+    }
+
+    case FieldType.DATE: {
+      const date = parseImportDate(raw, ctx.dateOrder);
+      return date ? { value: date } : { error: `"${raw}" is not a date` };
+    }
+
+    case FieldType.CHECKBOX: {
+      const checked = parseCheckbox(raw);
+      return checked === null ? { error: `"${raw}" is not yes or no` } : { value: checked };
+    }
+
+    case FieldType.PERSON: {
+      const userId = ctx.membersByEmail.get(raw.toLowerCase());
+      return userId ? { value: userId } : { error: `No workspace member has the email "${raw}"` };
+    }
+
+    case FieldType.STATUS: {
+      const option = statusOptions(column).find((o) => o.label.toLowerCase() === raw.toLowerCase());
+      return option ? { value: option.id } : { error: `"${raw}" is not a ${column.name} option` };
+    }
+
+    case FieldType.EMAIL:
+      return EMAIL_PATTERN.test(raw) ? { value: raw } : { error: `"${raw}" is not an email address` };
+
+    default:
+      return { value: raw };
+  }
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+// Guesses a column type from a source column's values, most specific first
+export function inferFieldType(values: string[], memberEmails: Set<string>): FieldType {
+  const filled = values.filter((v) => v !== '');
+  if (filled.length === 0) return FieldType.TEXT;
+
+  const all = (test: (v: string) => boolean) => filled.every(test);
+
+  if (all((v) => parseCheckbox(v) !== null) && !all((v) => v === '0' || v === '1')) return FieldType.CHECKBOX;
+  if (all((v) => EMAIL_PATTERN.test(v))) {
+    return all((v) => memberEmails.has(v.toLowerCase())) ? FieldType.PERSON : FieldType.EMAIL;
+  }
+  if (all((v) => parseImportMoney(v) !== null) && filled.some((v) => v.search(CURRENCY_PATTERN) !== -1)) {
+    return FieldType.MONEY;
+  }
+  if (all((v) => parseImportNumber(v) !== null)) return FieldType.NUMBER;
+  if (all((v) => parseImportDate(v, 'MDY') !== null || parseImportDate(v, 'DMY') !== null)) return FieldType.DATE;
+  if (all((v) => URL_PATTERN.test(v))) return FieldType.LINK;
+
+  // A few labels repeated across many rows reads as a status
+  const distinct = new Set(filled.map((v) => v.toLowerCase())).size;
+  if (distinct <= STATUS_COLORS.length && filled.length >= distinct * 2) return FieldType.STATUS;
+
+  return FieldType.TEXT;
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Pairs each source column with a board column of the same name, or proposes a new column of the inferred type
+export function suggestMapping(sheet: ImportSheet, columns: Column[], memberEmails: Set<string>) {
+  const importable = columns.filter((c) => IMPORT_TYPES.includes(c.type));
+
+  return sheet.headers.map((header, index) => {
+    const match = importable.find((c) => normalize(c.name) === normalize(header));
+    return {
+      index,
+      header,
+      inferredType: inferFieldType(sheet.rows.map((row) => row[index]), memberEmails),
+      columnId: match?.id ?? null,
+    };
+  });
+}
+
+// Returns an error message when the mapping doesn't fit the file or the board
+export function validateImportMapping(sheet: ImportSheet, columns: Column[], groupIds: string[], mapping: ImportMapping) {
+  const inRange = (index: unknown) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < sheet.headers.length;
+
+  if (!mapping || typeof mapping !== 'object' || !Array.isArray(mapping.columns)) {
+    return 'Mapping must list the columns to import';
+  }
+  if (!inRange(mapping.nameColumn)) {
+    return 'Choose the source column that holds item names';
+  }
+  if (groupIds.length === 0) {
+    return 'Board has no group to import into';
+  }
+  if (mapping.groupId !== undefined && !groupIds.includes(mapping.groupId)) {
+    return 'Group not found on this board';
+  }
+  if (mapping.dateOrder !== undefined && !DATE_ORDERS.includes(mapping.dateOrder)) {
+    return `Date order must be one of ${DATE_ORDERS.join(', ')}`;
+  }
+
+  const indexes = new Set<number>([mapping.nameColumn]);
+  const columnIds = new Set<string>();
+  const names = new Set(columns.map((c) => normalize(c.name)));
+
+  for (const entry of mapping.columns) {
+    if (!entry || !inRange(entry.index)) {
+      return 'Mapping refers to a column that is not in the file';
+    }
+    if (indexes.has(entry.index)) {
+      return `"${sheet.headers[entry.index]}" is mapped more than once`;
+    }
+    indexes.add(entry.index);
+
+    if (entry.columnId !== undefined) {
+      const column = columns.find((c) => c.id === entry.columnId);
+      if (!column) return 'Column not found on this board';
+      if (!IMPORT_TYPES.includes(column.type)) return `${column.name} can't be filled from a file`;
+      if (columnIds.has(column.id)) return `${column.name} is mapped more than once`;
+      columnIds.add(column.id);
+    } else if (entry.create) {
+      const name = typeof entry.create.name === 'string' ? entry.create.name.trim() : '';
+      if (!name) return 'New columns need a name';
+      if (!IMPORT_TYPES.includes(entry.create.type)) return `${name} can't be created as a ${entry.create.type} column`;
+      if (names.has(normalize(name))) return `Board already has a column named ${name}`;
+      names.add(normalize(name));
+    } else {
+      return `Choose a column for "${sheet.headers[entry.index]}"`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Importing
+// ============================================
+
+// Parses every row against the mapped columns, then writes new columns and all valid rows in one transaction.
+// Unless skipInvalidRows is set, a single bad row means nothing is written and only the report comes back.
+export async function importSheet(
+  board: { id: string; workspaceId: string },
+  groupId: string,
+  userId: string,
+  sheet: ImportSheet,
+  mapping: ImportMapping,
+  fileName: string
+): Promise<ImportResult> {
+  const [columns, members, last, workspace] = await Promise.all([
+    prisma.column.findMany({ where: { boardId: board.id }, orderBy: { position: 'asc' } }),
+    prisma.workspaceMember.findMany({
+      where: { workspaceId: board.workspaceId },
+      include: { user: { select: { id: true, email: true } } },
+    }),
+    prisma.task.findFirst({ where: { groupId }, orderBy: { position: 'desc' } }),
+    prisma.workspace.findUniqueOrThrow({ where: { id: board.workspaceId }, select: { defaultCurrency: true } }),
+  ]);
+
+  const ctx: ParseContext = {
+    dateOrder: mapping.dateOrder ?? 'MDY',
+    membersByEmail: new Map(members.map((m) => [m.user.email.toLowerCase(), m.user.id])),
+    currency: workspace.defaultCurrency,
+  };
+
+  // New columns are built up front so their cells parse the same way as existing ones
+  const position = columns.reduce((max, c) => Math.max(max, c.position), -1) + 1;
+  const created: Column[] = [];
+  const targets = mapping.columns.map((entry) => {
+    if (entry.columnId) {
+      return { index: entry.index, column: columns.find((c) => c.id === entry.columnId)! };
+    }
+
+    const { name, type } = entry.create!;
+    let settings: Prisma.JsonValue = null;
+    if (type === FieldType.STATUS) {
+      const labels = [...new Map(sheet.rows.map((r) => [r[entry.index].toLowerCase(), r[entry.index]])).values()];
+      settings = {
+        options: labels
+          .filter((label) => label !== '')
+          .map((label, idx) => ({ id: String(idx + 1), label, color: STATUS_COLORS[idx % STATUS_COLORS.length] })),
+      };
+    }
+
+    const column = {
+      id: randomUUID(),
+      boardId: board.id,
+      name: name.trim(),
+      type,
+      width: 150,
+      position: position + created.length,
+      settings,
+      isRequired: false,
+      isVisible: true,
+    } as Column;
+    created.push(column);
+    return { index: entry.index, column };
+  });
+
+  const errors: RowError[] = [];
+  const valid: { id: string; name: string; values: { columnId: string; value: Prisma.InputJsonValue }[] }[] = [];
+
+  sheet.rows.forEach((row, idx) => {
+    const rowNumber = idx + 2;
+    const rowErrors: RowError[] = [];
+
+    const name = row[mapping.nameColumn];
+    if (!name) {
+      rowErrors.push({ row: rowNumber, column: sheet.headers[mapping.nameColumn], message: 'Item name is empty' });
+    }
+
+    const values: { columnId: string; value: Prisma.InputJsonValue }[] = [];
+    for (const { index, column } of targets) {
+      const parsed = parseCell(column, row[index], ctx);
+      if (!parsed) continue;
+      if ('error' in parsed) {
+        rowErrors.push({ row: rowNumber, column: sheet.headers[index], message: parsed.error });
+      } else {
+        values.push({ columnId: column.id, value: parsed.value });
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      valid.push({ id: randomUUID(), name, values });
+    }
+  });
+
+  if (valid.length === 0 || (errors.length > 0 && !mapping.skipInvalidRows)) {
+    return { imported: 0, errors, createdColumns: [] };
+  }
+
+  const firstPosition = (last?.position ?? -1) + 1;
+
+  await prisma.$transaction([
+    prisma.column.createMany({
+      data: created.map(({ id, boardId, name, type, position, settings }) => ({
+        id,
+        boardId,
+        name,
+        type,
+        position,
+        settings: settings ?? Prisma.JsonNull,
+      })),
+    }),
+    prisma.task.createMany({
+      data: valid.map((task, idx) => ({
+        id: task.id,
+        groupId,
+        createdById: userId,
+        name: task.name,
+        position: firstPosition + idx,
+      })),
+    }),
+    prisma.taskFieldValue.createMany({
+      data: valid.flatMap((task) => task.values.map((v) => ({ taskId: task.id, ...v }))),
+    }),
+    prisma.activityLog.createMany({
+      data: valid.map((task) => ({
+        taskId: task.id,
+        userId,
+        action: 'created',
+        details: { name: task.name, importedFrom: fileName },
+      })),
+    }),
+  ]);
+
+  return { imported: valid.length, errors, createdColumns: created.map((c) => c.name) };
+}
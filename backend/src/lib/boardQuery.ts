@@ -0,0 +1,376 @@
+import { Column, FieldType, Prisma } from '@prisma/client';
+import { parseDate, toDateSpan, toNumber } from './fieldValues';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Conditions name a column by ID, or one of these task fields
+export const TASK_FIELDS = ['name', 'assignee', 'createdAt'] as const;
+
+export const FILTER_OPERATORS = [
+  'is', 'is_not', 'contains', 'not_contains', 'is_empty', 'is_not_empty',
+  'gt', 'gte', 'lt', 'lte', 'before', 'after',
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+// Date conditions accept a date ("2024-03-01") or a relative range resolved when the query runs:
+// today, yesterday, tomorrow, this_week, last_week, next_week, this_month, last_month, next_month
+
+// Person conditions accept a user ID or "me"
+export const CURRENT_USER = 'me';
+
+export interface FilterCondition {
+  columnId: string;
+  operator: FilterOperator;
+  value?: any;
+}
+
+export interface BoardFilters {
+  match: 'all' | 'any';
+  conditions: FilterCondition[];
+}
+
+export interface SortRule {
+  columnId: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface BoardQuery {
+  filters?: BoardFilters | null;
+  sort?: SortRule[] | null;
+  search?: string;
+}
+
+export interface QueryContext {
+  userId: string;
+  now: Date;
+  userNames: Map<string, string>;
+}
+
+interface QueryableTask {
+  name: string;
+  createdAt: Date;
+  fieldValues: { columnId: string; value: Prisma.JsonValue }[];
+  assignments: { user: { id: string } }[];
+}
+
+interface DateRange {
+  start: number;
+  end: number;
+}
+
+function startOfDay(date: Date) {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function dayRange(start: number, days = 1): DateRange {
+  return { start, end: start + days * DAY_MS - 1 };
+}
+
+function monthRange(now: Date, offset: number): DateRange {
+  const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1);
+  const end = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset + 1, 1) - 1;
+  return { start, end };
+}
+
+// Weeks start on Sunday, like the web calendar
+function resolveDateRange(value: unknown, now: Date): DateRange | null {
+  const today = startOfDay(now);
+  const weekStart = today - now.getUTCDay() * DAY_MS;
+
+  switch (value) {
+    case 'today': return dayRange(today);
+    case 'yesterday': return dayRange(today - DAY_MS);
+    case 'tomorrow': return dayRange(today + DAY_MS);
+    case 'this_week': return dayRange(weekStart, 7);
+    case 'last_week': return dayRange(weekStart - 7 * DAY_MS, 7);
+    case 'next_week': return dayRange(weekStart + 7 * DAY_MS, 7);
+    case 'this_month': return monthRange(now, 0);
+    case 'last_month': return monthRange(now, -1);
+    case 'next_month': return monthRange(now, 1);
+  }
+
+  const date = parseDate(value);
+  return date ? dayRange(startOfDay(date)) : null;
+}
+
+function isEmpty(value: unknown) {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+// Status and dropdown conditions may name an option by ID or by label
+function optionIds(column: Column, value: unknown) {
+  const options: { id: string; label: string }[] = (column.settings as any)?.options || [];
+  return toList(value).map((v) => {
+    const option = options.find((o) => o.id === v || o.label.toLowerCase() === String(v).toLowerCase());
+    return option ? option.id : String(v);
+  });
+}
+
+function compareNumbers(actual: number, operator: FilterOperator, expected: number) {
+  switch (operator) {
+    case 'is': return actual === expected;
+    case 'is_not': return actual !== expected;
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    default: return false;
+  }
+}
+
+function matchesDate(start: number, end: number, operator: FilterOperator, range: DateRange) {
+  switch (operator) {
+    case 'is': return start <= range.end && end >= range.start;
+    case 'is_not': return end < range.start || start > range.end;
+    case 'before':
+    case 'lt': return end < range.start;
+    case 'after':
+    case 'gt': return start > range.end;
+    case 'lte': return start <= range.end;
+    case 'gte': return end >= range.start;
+    default: return false;
+  }
+}
+
+function matchesText(actual: unknown, operator: FilterOperator, expected: unknown) {
+  const text = String(actual ?? '').toLowerCase();
+  const needle = String(expected ?? '').toLowerCase();
+  switch (operator) {
+    case 'is': return text === needle;
+    case 'is_not': return text !== needle;
+    case 'contains': return text.includes(needle);
+    case 'not_contains': return !text.includes(needle);
+    default: return false;
+  }
+}
+
+function matchesUsers(userIds: string[], operator: FilterOperator, expected: unknown, ctx: QueryContext) {
+  const wanted = toList(expected).map((v) => (v === CURRENT_USER ? ctx.userId : String(v)));
+  const hit = userIds.some((id) => wanted.includes(id));
+  switch (operator) {
+    case 'is':
+    case 'contains': return hit;
+    case 'is_not':
+    case 'not_contains': return !hit;
+    default: return false;
+  }
+}
+
+// Calculated columns filter and sort like the kind of value they produce
+function valueType(column: Column): FieldType {
+  const settings = column.settings as any;
+  if (column.type === FieldType.MIRROR) {
+    return settings?.aggregate === 'sum' || settings?.aggregate === 'count' ? FieldType.NUMBER : FieldType.TEXT;
+  }
+  if (column.type !== FieldType.FORMULA) return column.type;
+  switch (settings?.resultType) {
+    case 'number': return FieldType.NUMBER;
+    case 'date': return FieldType.DATE;
+    case 'boolean': return FieldType.CHECKBOX;
+    default: return FieldType.TEXT;
+  }
+}
+
+function getValue(task: QueryableTask, columnId: string) {
+  return task.fieldValues.find((fv) => fv.columnId === columnId)?.value;
+}
+
+function matchesCondition(task: QueryableTask, condition: FilterCondition, column: Column | undefined, ctx: QueryContext) {
+  const { operator, value: expected } = condition;
+
+  if (condition.columnId === 'name') {
+    if (operator === 'is_empty') return task.name.trim() === '';
+    if (operator === 'is_not_empty') return task.name.trim() !== '';
+    return matchesText(task.name, operator, expected);
+  }
+
+  if (condition.columnId === 'assignee') {
+    const userIds = task.assignments.map((a) => a.user.id);
+    if (operator === 'is_empty') return userIds.length === 0;
+    if (operator === 'is_not_empty') return userIds.length > 0;
+    return matchesUsers(userIds, operator, expected, ctx);
+  }
+
+  if (condition.columnId === 'createdAt') {
+    const range = resolveDateRange(expected, ctx.now);
+    const created = task.createdAt.getTime();
+    return range ? matchesDate(created, created, operator, range) : false;
+  }
+
+  // Conditions on deleted columns match nothing rather than everything
+  if (!column) return false;
+
+  const actual = getValue(task, column.id);
+  if (operator === 'is_empty') return isEmpty(actual);
+  if (operator === 'is_not_empty') return !isEmpty(actual);
+
+  switch (valueType(column)) {
+    case FieldType.NUMBER:
+    case FieldType.MONEY:
+    case FieldType.RATING: {
+      const number = toNumber(actual);
+      const target = toNumber(expected);
+      if (target === null) return false;
+      if (number === null) return operator === 'is_not';
+      return compareNumbers(number, operator, target);
+    }
+
+    case FieldType.DATE:
+    case FieldType.TIMELINE: {
+      const span = toDateSpan(valueType(column), actual as Prisma.JsonValue);
+      const range = resolveDateRange(expected, ctx.now);
+      if (!range) return false;
+      if (!span) return operator === 'is_not';
+      return matchesDate(startOfDay(span.start), startOfDay(span.end) + DAY_MS - 1, operator, range);
+    }
+
+    case FieldType.STATUS:
+    case FieldType.DROPDOWN: {
+      const hit = optionIds(column, expected).includes(String(actual ?? ''));
+      if (operator === 'is') return hit;
+      if (operator === 'is_not') return !hit;
+      return false;
+    }
+
+    case FieldType.PERSON:
+      return matchesUsers(toList(actual).filter(Boolean).map(String), operator, expected, ctx);
+
+    case FieldType.CHECKBOX: {
+      const checked = actual === true;
+      const target = expected === true || expected === 'true';
+      if (operator === 'is') return checked === target;
+      if (operator === 'is_not') return checked !== target;
+      return false;
+    }
+
+    case FieldType.DEPENDENCY:
+    case FieldType.RELATION:
+      return false;
+
+    default:
+      return matchesText(actual, operator, expected);
+  }
+}
+
+// Search matches the task name or any text-like value
+function matchesSearch(task: QueryableTask, search: string, columns: Map<string, Column>) {
+  const needle = search.toLowerCase();
+  if (task.name.toLowerCase().includes(needle)) return true;
+
+  return task.fieldValues.some((fv) => {
+    const column = columns.get(fv.columnId);
+    if (!column || typeof fv.value !== 'string') return false;
+    if (column.type === FieldType.STATUS || column.type === FieldType.DROPDOWN) {
+      const option = ((column.settings as any)?.options || []).find((o: any) => o.id === fv.value);
+      return option?.label.toLowerCase().includes(needle) || false;
+    }
+    return fv.value.toLowerCase().includes(needle);
+  });
+}
+
+// Comparable key for sorting; null sorts last in either direction
+function sortKey(task: QueryableTask, columnId: string, column: Column | undefined, ctx: QueryContext): string | number | null {
+  if (columnId === 'name') return task.name.toLowerCase();
+  if (columnId === 'createdAt') return task.createdAt.getTime();
+  if (columnId === 'assignee') {
+    const user = task.assignments[0]?.user;
+    return user ? (ctx.userNames.get(user.id) || '').toLowerCase() : null;
+  }
+  if (!column) return null;
+
+  const value = getValue(task, column.id);
+  if (isEmpty(value)) return null;
+
+  switch (valueType(column)) {
+    case FieldType.NUMBER:
+    case FieldType.MONEY:
+    case FieldType.RATING:
+      return toNumber(value);
+    case FieldType.DATE:
+    case FieldType.TIMELINE:
+      return toDateSpan(valueType(column), value as Prisma.JsonValue)?.start.getTime() ?? null;
+    case FieldType.STATUS:
+    case FieldType.DROPDOWN: {
+      // Options sort in the order they're configured, not alphabetically
+      const index = ((column.settings as any)?.options || []).findIndex((o: any) => o.id === value);
+      return index === -1 ? null : index;
+    }
+    case FieldType.PERSON:
+      return (ctx.userNames.get(String(value)) || '').toLowerCase();
+    case FieldType.CHECKBOX:
+      return value === true ? 1 : 0;
+    case FieldType.DEPENDENCY:
+    case FieldType.RELATION:
+      return Array.isArray(value) ? value.length : null;
+    default:
+      return String(value).toLowerCase();
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns an error message when a query is malformed or references operators or columns it can't use. The query
+// comes straight from the request body, so nothing about its shape is assumed.
+export function validateBoardQuery(query: BoardQuery, columns: Column[]): string | null {
+  const known = (columnId: unknown) =>
+    typeof columnId === 'string' &&
+    ((TASK_FIELDS as readonly string[]).includes(columnId) || columns.some((c) => c.id === columnId));
+
+  const filters: unknown = query.filters;
+  if (filters !== undefined && filters !== null && !isObject(filters)) return 'Filters must be an object';
+  const conditions: unknown = query.filters?.conditions;
+  if (conditions !== undefined && !Array.isArray(conditions)) return 'Filter conditions must be a list';
+  const sort: unknown = query.sort;
+  if (sort !== undefined && sort !== null && !Array.isArray(sort)) return 'Sort must be a list';
+
+  for (const condition of query.filters?.conditions || []) {
+    if (!isObject(condition)) return 'Each filter condition must be an object';
+    if (!known(condition.columnId)) return `Unknown filter column: ${condition.columnId}`;
+    if (!FILTER_OPERATORS.includes(condition.operator)) return `Unknown filter operator: ${condition.operator}`;
+  }
+  for (const rule of query.sort || []) {
+    if (!isObject(rule)) return 'Each sort rule must be an object';
+    if (!known(rule.columnId)) return `Unknown sort column: ${rule.columnId}`;
+    if (rule.direction !== 'asc' && rule.direction !== 'desc') return 'Sort direction must be asc or desc';
+  }
+  return null;
+}
+
+// Filters and sorts tasks in memory, since values live in JSON per field type
+export function applyBoardQuery<T extends QueryableTask>(tasks: T[], query: BoardQuery, columns: Column[], ctx: QueryContext): T[] {
+  const byId = new Map(columns.map((c) => [c.id, c]));
+  const conditions = query.filters?.conditions || [];
+  const matchAll = query.filters?.match !== 'any';
+
+  let result = tasks.filter((task) => {
+    if (query.search && !matchesSearch(task, query.search, byId)) return false;
+    if (conditions.length === 0) return true;
+    const check = (c: FilterCondition) => matchesCondition(task, c, byId.get(c.columnId), ctx);
+    return matchAll ? conditions.every(check) : conditions.some(check);
+  });
+
+  const sort = query.sort || [];
+  if (sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const rule of sort) {
+        const column = byId.get(rule.columnId);
+        const x = sortKey(a, rule.columnId, column, ctx);
+        const y = sortKey(b, rule.columnId, column, ctx);
+        if (x === y) continue;
+        if (x === null) return 1;
+        if (y === null) return -1;
+        const order = x < y ? -1 : 1;
+        return rule.direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,91 @@
+import { BoardType, FieldType, Prisma } from '@prisma/client';
+
+export interface TemplateColumn {
+  name: string;
+  type: FieldType;
+  settings?: Prisma.InputJsonValue;
+}
+
+// Built-in starting points, one per board type. Workspace templates are boards saved with isTemplate.
+export interface BuiltInTemplate {
+  id: BoardType;
+  name: string;
+  description: string;
+  columns: TemplateColumn[];
+  groups: string[];
+}
+
+const statusOptions = (...options: [string, string][]) => ({
+  options: options.map(([label, color], idx) => ({ id: String(idx + 1), label, color })),
+});
+
+export const BUILT_IN_TEMPLATES: Record<BoardType, BuiltInTemplate> = {
+  GENERAL: {
+    id: BoardType.GENERAL,
+    name: 'General Board',
+    description: 'A flexible board for any type of project',
+    columns: [
+      { name: 'Status', type: FieldType.STATUS, settings: statusOptions(['To Do', '#6B7280'], ['In Progress', '#F59E0B'], ['Done', '#10B981']) },
+      { name: 'Person', type: FieldType.PERSON },
+      { name: 'Due Date', type: FieldType.DATE },
+    ],
+    groups: ['New Group'],
+  },
+  PROPERTY: {
+    id: BoardType.PROPERTY,
+    name: 'Property Board',
+    description: 'Track properties, rent, tenants, and income',
+    columns: [
+      {
+        name: 'Status',
+        type: FieldType.STATUS,
+        settings: statusOptions(['Searching', '#6B7280'], ['Viewing', '#3B82F6'], ['Negotiating', '#F59E0B'], ['Purchased', '#10B981']),
+      },
+      { name: 'Purchase Price', type: FieldType.MONEY },
+      { name: 'Monthly Rent', type: FieldType.MONEY },
+      { name: 'Tenant', type: FieldType.TEXT },
+      { name: 'Occupancy', type: FieldType.STATUS, settings: statusOptions(['Vacant', '#EF4444'], ['Occupied', '#10B981'], ['Renovation', '#F59E0B']) },
+      { name: 'Rented Since', type: FieldType.DATE },
+      { name: 'Total Income', type: FieldType.MONEY },
+      { name: 'Notes', type: FieldType.TEXT },
+    ],
+    groups: ['New Group'],
+  },
+  PROJECT: {
+    id: BoardType.PROJECT,
+    name: 'Project Board',
+    description: 'Manage tasks, deadlines, and team assignments',
+    columns: [
+      {
+        name: 'Status',
+        type: FieldType.STATUS,
+        settings: statusOptions(['Not Started', '#6B7280'], ['In Progress', '#3B82F6'], ['Review', '#F59E0B'], ['Completed', '#10B981']),
+      },
+      { name: 'Assignee', type: FieldType.PERSON },
+      { name: 'Priority', type: FieldType.STATUS, settings: statusOptions(['Low', '#6B7280'], ['Medium', '#F59E0B'], ['High', '#EF4444']) },
+      { name: 'Due Date', type: FieldType.DATE },
+      { name: 'Timeline', type: FieldType.TIMELINE },
+      { name: 'Depends On', type: FieldType.DEPENDENCY },
+      { name: 'Budget', type: FieldType.MONEY },
+    ],
+    groups: ['New Group'],
+  },
+  CRM: {
+    id: BoardType.CRM,
+    name: 'CRM Board',
+    description: 'Track leads, customers, and deals',
+    columns: [
+      {
+        name: 'Status',
+        type: FieldType.STATUS,
+        settings: statusOptions(['Lead', '#6B7280'], ['Qualified', '#3B82F6'], ['Proposal', '#F59E0B'], ['Won', '#10B981'], ['Lost', '#EF4444']),
+      },
+      { name: 'Contact', type: FieldType.PERSON },
+      { name: 'Email', type: FieldType.EMAIL },
+      { name: 'Phone', type: FieldType.PHONE },
+      { name: 'Value', type: FieldType.MONEY },
+      { name: 'Last Contact', type: FieldType.DATE },
+    ],
+    groups: ['New Group'],
+  },
+};
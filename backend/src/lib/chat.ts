@@ -0,0 +1,94 @@
+import { prisma } from './prisma';
+import { emitToThread, emitToUser } from './realtime';
+
+export const MESSAGE_SENDER_SELECT = { id: true, name: true, avatarUrl: true };
+
+// A thread addressed directly, or the 1:1 thread with receiverId.
+// Returns the thread's participant ids, or null when the user isn't in it.
+export async function resolveThread(userId: string, target: { threadId?: unknown; receiverId?: unknown }) {
+  let threadId = typeof target.threadId === 'string' ? target.threadId : null;
+
+  if (!threadId && typeof target.receiverId === 'string') {
+    const thread = await prisma.messageThread.findFirst({
+      where: {
+        isGroup: false,
+        AND: [userId, target.receiverId].map((id) => ({ participants: { some: { userId: id } } })),
+      },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    });
+    threadId = thread?.id || null;
+  }
+
+  if (!threadId) return null;
+
+  const participants = await prisma.threadParticipant.findMany({ where: { threadId }, select: { userId: true } });
+  const participantIds = participants.map((p) => p.userId);
+
+  return participantIds.includes(userId) ? { threadId, participantIds } : null;
+}
+
+// Stores a message from a participant, notifies the others and delivers it live
+export async function postMessage(threadId: string, sender: { id: string; name: string }, content: string) {
+  const message = await prisma.message.create({
+    data: {
+      threadId,
+      senderId: sender.id,
+      content,
+    },
+    include: { sender: { select: MESSAGE_SENDER_SELECT } },
+  });
+
+  // Update thread updatedAt
+  await prisma.messageThread.update({
+    where: { id: threadId },
+    data: { updatedAt: new Date() },
+  });
+
+  // Sending a message means the sender has read the thread up to it
+  await prisma.threadParticipant.update({
+    where: { threadId_userId: { threadId, userId: sender.id } },
+    data: { lastReadAt: message.createdAt },
+  });
+
+  const participants = await prisma.threadParticipant.findMany({ where: { threadId }, select: { userId: true } });
+  const participantIds = participants.map((p) => p.userId);
+
+  for (const userId of participantIds.filter((id) => id !== sender.id)) {
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: 'MESSAGE_RECEIVED',
+        title: 'New Message',
+        message: `${sender.name}: ${content.substring(0, 50)}${content.length > 50 ? '...' : ''}`,
+        link: `/messages/${threadId}`,
+      },
+    });
+  }
+
+  // The event is the message itself (it carries threadId and senderId); the sender's own tabs and devices get
+  // message_sent instead
+  emitToThread(threadId, participantIds, 'new_message', { ...message }, sender.id);
+  emitToUser(sender.id, 'message_sent', { ...message });
+  emitToThread(threadId, participantIds, 'user_stop_typing', { userId: sender.id }, sender.id);
+
+  return message;
+}
+
+// Moves the participant's read marker forward and sends the receipt to the thread
+export async function markThreadRead(threadId: string, userId: string, participantIds?: string[], messageId?: string) {
+  const readAt = new Date();
+
+  await prisma.threadParticipant.update({
+    where: { threadId_userId: { threadId, userId } },
+    data: { lastReadAt: readAt },
+  });
+
+  const ids =
+    participantIds ||
+    (await prisma.threadParticipant.findMany({ where: { threadId }, select: { userId: true } })).map((p) => p.userId);
+
+  emitToThread(threadId, ids, 'message_read', { userId, readAt, ...(messageId && { messageId }) });
+
+  return readAt;
+}
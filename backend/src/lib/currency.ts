@@ -0,0 +1,207 @@
+import { Column, Currency, FieldType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { toNumber } from './fieldValues';
+import { DateOrder, ImportSheet, parseImportDate, parseImportNumber, RowError } from './boardImport';
+
+const CURRENCIES = Object.values(Currency);
+
+export interface MoneyValue {
+  amount: number;
+  currency: Currency;
+}
+
+// A stored rate a conversion relied on, shown next to converted amounts
+export interface RateUsed {
+  from: Currency;
+  to: Currency;
+  rate: number;
+  date: string;
+}
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as string[]).includes(value);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// The currency new amounts in a MONEY column are entered in
+export function columnCurrency(column: Pick<Column, 'settings'>, workspaceCurrency: Currency): Currency {
+  const currency = (column.settings as { currency?: string } | null)?.currency;
+  return isCurrency(currency) ? currency : workspaceCurrency;
+}
+
+// Reads a MONEY value; bare numbers (from before values carried a currency) are in the given currency
+export function toMoney(value: unknown, currency: Currency): MoneyValue | null {
+  const amount = toNumber(value);
+  if (amount === null) return null;
+  const own = value && typeof value === 'object' ? (value as { currency?: unknown }).currency : undefined;
+  return { amount, currency: isCurrency(own) ? own : currency };
+}
+
+// MONEY values are always stored with their currency
+export function normalizeMoney(column: Column, value: unknown, workspaceCurrency: Currency): Prisma.JsonValue {
+  if (column.type !== FieldType.MONEY || value === null || value === undefined || value === '') {
+    return value as Prisma.JsonValue;
+  }
+  return toMoney(value, columnCurrency(column, workspaceCurrency)) as unknown as Prisma.JsonValue;
+}
+
+// Converts amounts into one currency with the workspace's rates as they stood on a day: the latest rate for the
+// pair on or before it, used either way round, or a chain through a third currency when there's no direct rate.
+// It records the rates it used and the currencies it had no rate for.
+export async function loadConverter(workspaceId: string, target: Currency, asOf = new Date()) {
+  const rows = await prisma.exchangeRate.findMany({
+    where: { workspaceId, date: { lte: asOf } },
+    orderBy: { date: 'desc' },
+  });
+
+  const latest = new Map<string, RateUsed>();
+  for (const row of rows) {
+    const key = `${row.fromCurrency}:${row.toCurrency}`;
+    if (latest.has(key)) continue;
+    latest.set(key, {
+      from: row.fromCurrency,
+      to: row.toCurrency,
+      rate: Number(row.rate),
+      date: row.date.toISOString().substring(0, 10),
+    });
+  }
+
+  const direct = (from: Currency, to: Currency) => {
+    const rate = latest.get(`${from}:${to}`);
+    if (rate) return { rate: rate.rate, rates: [rate] };
+    const inverse = latest.get(`${to}:${from}`);
+    if (inverse) return { rate: 1 / inverse.rate, rates: [inverse] };
+    return null;
+  };
+
+  const route = (from: Currency) => {
+    if (from === target) return { rate: 1, rates: [] };
+    const found = direct(from, target);
+    if (found) return found;
+    for (const via of CURRENCIES) {
+      if (via === from || via === target) continue;
+      const first = direct(from, via);
+      const second = first && direct(via, target);
+      if (first && second) return { rate: first.rate * second.rate, rates: [...first.rates, ...second.rates] };
+    }
+    return null;
+  };
+
+  const used = new Map<string, RateUsed>();
+  const missing = new Set<Currency>();
+
+  return {
+    currency: target,
+    convert(amount: number, from: Currency): number | null {
+      const found = route(from);
+      if (!found) {
+        missing.add(from);
+        return null;
+      }
+      for (const rate of found.rates) used.set(`${rate.from}:${rate.to}`, rate);
+      return round2(amount * found.rate);
+    },
+    summary() {
+      return { currency: target, rates: [...used.values()], missing: [...missing] };
+    },
+  };
+}
+
+export type Converter = Awaited<ReturnType<typeof loadConverter>>;
+
+// Sum of each MONEY column per group, in the converter's currency. A total is null when some amount in it
+// couldn't be converted.
+export function moneyTotals(
+  groups: { id: string; tasks: { fieldValues: { columnId: string; value: Prisma.JsonValue }[] }[] }[],
+  columns: Column[],
+  workspaceCurrency: Currency,
+  converter: Converter
+) {
+  const moneyColumns = columns.filter((c) => c.type === FieldType.MONEY);
+
+  const totals = groups.map((group) => {
+    const byColumn = moneyColumns.map((column) => {
+      let total: number | null = 0;
+      for (const task of group.tasks) {
+        const value = task.fieldValues.find((fv) => fv.columnId === column.id)?.value;
+        const money = toMoney(value, columnCurrency(column, workspaceCurrency));
+        if (!money) continue;
+        const converted = converter.convert(money.amount, money.currency);
+        total = converted === null || total === null ? null : total + converted;
+      }
+      return [column.id, total === null ? null : round2(total)];
+    });
+    return [group.id, Object.fromEntries(byColumn)];
+  });
+
+  return { ...converter.summary(), groups: Object.fromEntries(totals) as Record<string, Record<string, number | null>> };
+}
+
+// Header names an uploaded rate sheet's columns are recognised by
+const RATE_HEADERS = {
+  date: ['date', 'day', 'as of'],
+  from: ['from', 'from currency', 'base', 'source'],
+  to: ['to', 'to currency', 'quote', 'target'],
+  rate: ['rate', 'exchange rate', 'value'],
+};
+
+// Saves the rates in an uploaded sheet with date, from, to and rate columns. A rate already stored for the same
+// pair and day is replaced. Rows that don't read are reported and skipped.
+export async function importExchangeRates(workspaceId: string, userId: string, sheet: ImportSheet, dateOrder: DateOrder) {
+  const headers = sheet.headers.map((h) => h.trim().toLowerCase());
+  const index = Object.fromEntries(
+    Object.entries(RATE_HEADERS).map(([key, names]) => [key, headers.findIndex((h) => names.includes(h))])
+  ) as Record<keyof typeof RATE_HEADERS, number>;
+
+  const absent = Object.entries(index).filter(([, i]) => i === -1).map(([key]) => key);
+  if (absent.length > 0) {
+    return { error: `Missing columns: ${absent.join(', ')}` };
+  }
+
+  const errors: RowError[] = [];
+  const rates: { fromCurrency: Currency; toCurrency: Currency; rate: number; date: Date }[] = [];
+
+  sheet.rows.forEach((row, i) => {
+    const rowNumber = i + 2;
+    const cell = (key: keyof typeof RATE_HEADERS) => (row[index[key]] ?? '').trim();
+
+    const date = parseImportDate(cell('date'), dateOrder);
+    const fromCurrency = cell('from').toUpperCase();
+    const toCurrency = cell('to').toUpperCase();
+    const rate = parseImportNumber(cell('rate'));
+
+    if (!date) return errors.push({ row: rowNumber, column: sheet.headers[index.date], message: 'Not a date' });
+    if (!isCurrency(fromCurrency)) {
+      return errors.push({ row: rowNumber, column: sheet.headers[index.from], message: 'Unknown currency' });
+    }
+    if (!isCurrency(toCurrency)) {
+      return errors.push({ row: rowNumber, column: sheet.headers[index.to], message: 'Unknown currency' });
+    }
+    if (fromCurrency === toCurrency) {
+      return errors.push({ row: rowNumber, message: 'From and to currencies are the same' });
+    }
+    if (rate === null || rate <= 0) {
+      return errors.push({ row: rowNumber, column: sheet.headers[index.rate], message: 'Rate must be a positive number' });
+    }
+    rates.push({ fromCurrency, toCurrency, rate, date: new Date(date) });
+  });
+
+  await prisma.$transaction(
+    rates.map((r) =>
+      prisma.exchangeRate.upsert({
+        where: {
+          workspaceId_fromCurrency_toCurrency_date: {
+            workspaceId,
+            fromCurrency: r.fromCurrency,
+            toCurrency: r.toCurrency,
+            date: r.date,
+          },
+        },
+        create: { ...r, workspaceId, createdById: userId },
+        update: { rate: r.rate, createdById: userId },
+      })
+    )
+  );
+
+  return { imported: rates.length, errors };
+}
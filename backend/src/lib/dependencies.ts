@@ -0,0 +1,156 @@
+import { Column } from '@prisma/client';
+import { prisma } from './prisma';
+import { toDateSpan } from './fieldValues';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledTask {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface Dependency {
+  predecessorId: string;
+  successorId: string;
+}
+
+function toDayNumber(date: Date) {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+function toDateString(dayNumber: number) {
+  return new Date(dayNumber * DAY_MS).toISOString().substring(0, 10);
+}
+
+// True when following successor links from one task eventually reaches the other
+async function leadsTo(fromTaskId: string, targetTaskId: string) {
+  const visited = new Set<string>();
+  let frontier = [fromTaskId];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(targetTaskId)) return true;
+    frontier.forEach((id) => visited.add(id));
+
+    const edges = await prisma.taskDependency.findMany({
+      where: { predecessorId: { in: frontier } },
+      select: { successorId: true },
+    });
+    frontier = [...new Set(edges.map((e) => e.successorId))].filter((id) => !visited.has(id));
+  }
+
+  return false;
+}
+
+// Replaces a task's predecessors. Returns an error message when the new set is invalid.
+export async function setPredecessors(taskId: string, boardId: string, predecessorIds: string[]) {
+  const ids = [...new Set(predecessorIds)];
+
+  if (ids.includes(taskId)) {
+    return 'A task cannot depend on itself';
+  }
+
+  const found = await prisma.task.count({
+    where: { id: { in: ids }, isActive: true, group: { boardId } },
+  });
+  if (found !== ids.length) {
+    return 'Dependencies must be active tasks on the same board';
+  }
+
+  const existing = await prisma.taskDependency.findMany({ where: { successorId: taskId } });
+  const added = ids.filter((id) => !existing.some((d) => d.predecessorId === id));
+
+  // predecessor -> task closes a loop if the task already leads to the predecessor
+  for (const predecessorId of added) {
+    if (await leadsTo(taskId, predecessorId)) {
+      return 'This dependency would create a cycle';
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.taskDependency.deleteMany({
+      where: { successorId: taskId, predecessorId: { notIn: ids } },
+    }),
+    prisma.taskDependency.createMany({
+      data: added.map((predecessorId) => ({ predecessorId, successorId: taskId })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return null;
+}
+
+// Pushes successors forward so each one starts after its predecessor ends, keeping their length
+export async function shiftDependents(taskId: string, column: Column) {
+  const shifted: { taskId: string; value: { start: string; end: string } }[] = [];
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const current = await prisma.taskFieldValue.findUnique({
+      where: { taskId_columnId: { taskId: currentId, columnId: column.id } },
+    });
+    const currentSpan = current && toDateSpan(column.type, current.value);
+    if (!currentSpan) continue;
+
+    const dependencies = await prisma.taskDependency.findMany({
+      where: { predecessorId: currentId, successor: { isActive: true } },
+      include: { successor: { include: { fieldValues: { where: { columnId: column.id } } } } },
+    });
+
+    for (const dependency of dependencies) {
+      const fieldValue = dependency.successor.fieldValues[0];
+      const span = fieldValue && toDateSpan(column.type, fieldValue.value);
+      if (!span || span.start > currentSpan.end) continue;
+
+      const delta = toDayNumber(currentSpan.end) + 1 - toDayNumber(span.start);
+      const value = {
+        start: toDateString(toDayNumber(span.start) + delta),
+        end: toDateString(toDayNumber(span.end) + delta),
+      };
+
+      await prisma.taskFieldValue.update({ where: { id: fieldValue.id }, data: { value } });
+      shifted.push({ taskId: dependency.successorId, value });
+      queue.push(dependency.successorId);
+    }
+  }
+
+  return shifted;
+}
+
+// Tasks with no slack: any delay to them pushes out the end of the whole schedule
+export function findCriticalPath(tasks: ScheduledTask[], dependencies: Dependency[]) {
+  const byId = new Map(tasks.map((t) => [t.id, { start: toDayNumber(t.start), end: toDayNumber(t.end) }]));
+  const edges = dependencies.filter((d) => byId.has(d.predecessorId) && byId.has(d.successorId));
+  if (byId.size === 0) return [];
+
+  const projectEnd = Math.max(...[...byId.values()].map((t) => t.end));
+
+  // Topological order so every successor's late start is known before its predecessors
+  const indegree = new Map([...byId.keys()].map((id) => [id, 0]));
+  edges.forEach((e) => indegree.set(e.successorId, indegree.get(e.successorId)! + 1));
+  const order: string[] = [];
+  const ready = [...indegree].filter(([, n]) => n === 0).map(([id]) => id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const e of edges.filter((e) => e.predecessorId === id)) {
+      indegree.set(e.successorId, indegree.get(e.successorId)! - 1);
+      if (indegree.get(e.successorId) === 0) ready.push(e.successorId);
+    }
+  }
+
+  const lateFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const successors = edges.filter((e) => e.predecessorId === id).map((e) => e.successorId);
+    const finish = successors.length === 0
+      ? projectEnd
+      : Math.min(...successors.map((s) => {
+          const succ = byId.get(s)!;
+          return lateFinish.get(s)! - (succ.end - succ.start) - 1;
+        }));
+    lateFinish.set(id, finish);
+  }
+
+  return order.filter((id) => lateFinish.get(id)! <= byId.get(id)!.end);
+}
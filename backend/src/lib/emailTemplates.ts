@@ -0,0 +1,144 @@
+// HTML and plain-text emails, all on one layout carrying the sending workspace's name and colour
+
+export interface Branding {
+  name: string;
+  color: string;
+  logoUrl?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface Content {
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+export const DEFAULT_BRAND_COLOR = '#4f46e5';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function layout(branding: Branding, subject: string, content: Content): RenderedEmail {
+  const color = escapeHtml(branding.color);
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" height="32" style="display:block;">`
+    : `<span style="font-size:18px;font-weight:bold;color:#ffffff;">${escapeHtml(branding.name)}</span>`;
+  const paragraphs = content.paragraphs
+    .map((p) => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(p)}</p>`)
+    .join('');
+  const button = content.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:${color};color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;">${escapeHtml(content.action.label)}</a></p>` +
+      `<p style="margin:0 0 16px;font-size:12px;color:#6b7280;">Or open this link: ${escapeHtml(content.action.url)}</p>`
+    : '';
+  const footnote = content.footnote
+    ? `<p style="margin:24px 0 0;font-size:12px;color:#6b7280;">${escapeHtml(content.footnote)}</p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${color};padding:16px 24px;">${header}</td></tr>
+<tr><td style="padding:24px;">
+<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(content.heading)}</h1>
+${paragraphs}${button}${footnote}
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    content.heading,
+    '',
+    ...content.paragraphs.flatMap((p) => [p, '']),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    ...(content.footnote ? [content.footnote, ''] : []),
+    `— ${branding.name}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+export const EMAIL_TEMPLATES = {
+  // Invite to join a workspace; a reminder when it was resent
+  invite: (data: { workspaceName: string; inviterName: string; url: string; expiresAt: Date; reminder?: boolean }, branding: Branding) =>
+    layout(branding, data.reminder ? `Reminder: join ${data.workspaceName}` : `You're invited to ${data.workspaceName}`, {
+      heading: `Join ${data.workspaceName}`,
+      paragraphs: [
+        `${data.inviterName} invited you to join ${data.workspaceName}.`,
+        `The invite is valid until ${formatDate(data.expiresAt)}.`,
+      ],
+      action: { label: 'Accept invite', url: data.url },
+      footnote: "If you weren't expecting this invite, you can ignore this email.",
+    }),
+
+  welcome: (data: { name: string; workspaceName?: string; url: string }, branding: Branding) =>
+    layout(branding, data.workspaceName ? `Welcome to ${data.workspaceName}` : `Welcome to ${branding.name}`, {
+      heading: `Welcome, ${data.name}`,
+      paragraphs: [
+        data.workspaceName ? `Your account has access to ${data.workspaceName}.` : 'Your account is ready.',
+      ],
+      action: { label: 'Sign in', url: data.url },
+    }),
+
+  passwordReset: (data: { name: string; url: string; expiresInMinutes: number }, branding: Branding) =>
+    layout(branding, 'Reset your password', {
+      heading: 'Reset your password',
+      paragraphs: [
+        `Hi ${data.name}, we received a request to reset your password.`,
+        `The link works once and expires in ${data.expiresInMinutes} minutes.`,
+      ],
+      action: { label: 'Choose a new password', url: data.url },
+      footnote: "If you didn't ask for this, you can ignore this email; your password won't change.",
+    }),
+
+  verifyEmail: (data: { name: string; url: string; expiresInHours: number }, branding: Branding) =>
+    layout(branding, 'Verify your email address', {
+      heading: 'Verify your email address',
+      paragraphs: [
+        `Hi ${data.name}, please confirm this is your email address to finish setting up your account.`,
+        `The link expires in ${data.expiresInHours} hours.`,
+      ],
+      action: { label: 'Verify email', url: data.url },
+      footnote: "If you didn't create an account, you can ignore this email.",
+    }),
+
+  // First sign-in link for an account an admin created
+  setPassword: (data: { name: string; workspaceName: string; inviterName: string; url: string; expiresAt: Date }, branding: Branding) =>
+    layout(branding, `Set up your ${data.workspaceName} account`, {
+      heading: `Welcome, ${data.name}`,
+      paragraphs: [
+        `${data.inviterName} created an account for you in ${data.workspaceName}.`,
+        `Choose a password to sign in. The link works once and is valid until ${formatDate(data.expiresAt)}.`,
+      ],
+      action: { label: 'Set your password', url: data.url },
+    }),
+
+  // Copy of an in-app notification
+  notification: (data: { name: string; title: string; message?: string | null; url?: string | null }, branding: Branding) =>
+    layout(branding, data.title, {
+      heading: data.title,
+      paragraphs: [`Hi ${data.name},`, ...(data.message ? [data.message] : [])],
+      action: data.url ? { label: 'View', url: data.url } : undefined,
+    }),
+
+  // Free text, as written in an automation
+  message: (data: { subject: string; message: string }, branding: Branding) =>
+    layout(branding, data.subject, {
+      heading: data.subject,
+      paragraphs: data.message.split(/\n{2,}/),
+    }),
+};
+
+export type EmailTemplate = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateData<T extends EmailTemplate> = Parameters<(typeof EMAIL_TEMPLATES)[T]>[0];
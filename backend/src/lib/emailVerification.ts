@@ -0,0 +1,53 @@
+import { prisma } from './prisma';
+import { createSecretToken, hashToken } from './tokens';
+import { appUrl, queueEmail } from './mailer';
+
+export const VERIFY_TTL_HOURS = 24;
+
+// A new link can be asked for once a minute
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+// EMAIL_VERIFICATION=off lets unverified accounts do everything. The default, "restrict", lets them sign in but
+// keeps them out of workspaces and their data until they verify.
+export function verificationRequired() {
+  return process.env.EMAIL_VERIFICATION !== 'off';
+}
+
+// Emails the user a new verification link, replacing any earlier one. Returns an error message when a link was
+// sent too recently.
+export async function sendVerificationEmail(user: { id: string; email: string; name: string }) {
+  const latest = await prisma.emailVerificationToken.findFirst({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (latest && Date.now() - latest.createdAt.getTime() < RESEND_INTERVAL_MS) {
+    return { error: 'A verification email was just sent; please wait a minute before asking again' };
+  }
+
+  const { token, tokenHash } = createSecretToken();
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({ where: { userId: user.id } }),
+    prisma.emailVerificationToken.create({
+      data: { userId: user.id, tokenHash, expiresAt: new Date(Date.now() + VERIFY_TTL_HOURS * 60 * 60 * 1000) },
+    }),
+  ]);
+
+  await queueEmail(user.email, 'verifyEmail', {
+    name: user.name,
+    url: appUrl(`/verify-email?token=${token}`),
+    expiresInHours: VERIFY_TTL_HOURS,
+  });
+  return {};
+}
+
+// Marks the token's user verified and uses the token up. Returns false for an unknown or expired token.
+export async function verifyEmail(token: string) {
+  const record = await prisma.emailVerificationToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!record || record.expiresAt < new Date()) return false;
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: record.userId }, data: { emailVerified: true } }),
+    prisma.emailVerificationToken.deleteMany({ where: { userId: record.userId } }),
+  ]);
+  return true;
+}
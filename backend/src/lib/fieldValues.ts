@@ -0,0 +1,104 @@
+import { Currency, FieldType, Prisma } from '@prisma/client';
+
+// DATE values are stored as ISO date strings ("2024-03-01"),
+// TIMELINE values as { start: "2024-03-01", end: "2024-03-14" }
+export interface DateSpan {
+  start: Date;
+  end: Date;
+}
+
+export function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// NUMBER values are plain numbers and MONEY values are { amount, currency }, but older rows may hold
+// numeric strings, or bare numbers for money
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'amount' in value) return toNumber(value.amount);
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+export function toDateSpan(type: FieldType, value: Prisma.JsonValue | undefined): DateSpan | null {
+  if (type === FieldType.DATE) {
+    const date = parseDate(value);
+    return date ? { start: date, end: date } : null;
+  }
+
+  if (type === FieldType.TIMELINE && value && typeof value === 'object' && !Array.isArray(value)) {
+    const start = parseDate(value.start);
+    const end = parseDate(value.end) || start;
+    if (!start || !end) return null;
+    return end < start ? { start: end, end: start } : { start, end };
+  }
+
+  return null;
+}
+
+// True when two values are the same. Objects and arrays (people, money, relations) compare by content, and jsonb
+// doesn't keep key order, so a value saved again reads back equal.
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return keys.length === Object.keys(right).length && keys.every((key) => sameValue(left[key], right[key]));
+}
+
+// Returns an error message when a value doesn't fit its column type
+export function validateFieldValue(type: FieldType, value: unknown): string | null {
+  if (value === null || value === '') return null;
+
+  switch (type) {
+    case FieldType.TIMELINE: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return 'Timeline value must be an object with start and end dates';
+      }
+      const { start, end } = value as Record<string, unknown>;
+      const startDate = parseDate(start);
+      const endDate = parseDate(end);
+      if (!startDate || !endDate) {
+        return 'Timeline value needs valid start and end dates';
+      }
+      if (endDate < startDate) {
+        return 'Timeline end date must not be before its start date';
+      }
+      return null;
+    }
+
+    case FieldType.MONEY: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return toNumber(value) === null ? 'Money value must be a number or an object with an amount and currency' : null;
+      }
+      const { amount, currency } = value as Record<string, unknown>;
+      if (typeof amount !== 'number') {
+        return 'Money value needs a numeric amount';
+      }
+      if (currency !== undefined && !Object.values(Currency).includes(currency as Currency)) {
+        return `Money currency must be one of ${Object.values(Currency).join(', ')}`;
+      }
+      return null;
+    }
+
+    case FieldType.DEPENDENCY:
+      if (!Array.isArray(value) || value.some((id) => typeof id !== 'string')) {
+        return 'Dependency value must be a list of task IDs';
+      }
+      return null;
+
+    case FieldType.RELATION:
+      if (!Array.isArray(value) || value.some((id) => typeof id !== 'string')) {
+        return 'Relation value must be a list of task IDs';
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
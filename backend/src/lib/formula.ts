@@ -0,0 +1,698 @@
+import { Column, FieldType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseDate, toNumber } from './fieldValues';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FORMULA columns keep their expression in settings, e.g. { expression: "{Monthly Rent} * 12 / {Purchase Price}" },
+// along with the resultType worked out when it was saved
+export type FormulaType = 'number' | 'text' | 'boolean' | 'date';
+
+type FormulaValue = number | string | boolean | Date | null;
+
+// Syntax, type and evaluation problems, with a message meant for the person writing the formula
+class FormulaError extends Error {}
+
+type Node =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'column'; name: string }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'column' | 'name' | 'op' | 'end';
+  value: string;
+  pos: number;
+}
+
+interface FormulaFunction {
+  args: [number, number];
+  check: (types: FormulaType[]) => FormulaType;
+  run: (args: FormulaValue[], now: Date) => FormulaValue;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '+', '-', '*', '/', '%', '&', '=', '<', '>', '(', ')', ','];
+
+// Column types a formula can read, and what they read as
+const COLUMN_TYPES: Partial<Record<FieldType, FormulaType>> = {
+  [FieldType.TEXT]: 'text',
+  [FieldType.EMAIL]: 'text',
+  [FieldType.PHONE]: 'text',
+  [FieldType.LINK]: 'text',
+  [FieldType.STATUS]: 'text',
+  [FieldType.DROPDOWN]: 'text',
+  [FieldType.PERSON]: 'text',
+  [FieldType.NUMBER]: 'number',
+  [FieldType.MONEY]: 'number',
+  [FieldType.RATING]: 'number',
+  [FieldType.DATE]: 'date',
+  [FieldType.CHECKBOX]: 'boolean',
+};
+
+function describe(type: FormulaType) {
+  switch (type) {
+    case 'number': return 'a number';
+    case 'text': return 'text';
+    case 'boolean': return 'a true/false value';
+    case 'date': return 'a date';
+  }
+}
+
+function requireTypes(name: string, types: FormulaType[], expected: FormulaType) {
+  types.forEach((type, i) => {
+    if (type !== expected) {
+      throw new FormulaError(`${name} expects ${describe(expected)} as argument ${i + 1}, got ${describe(type)}`);
+    }
+  });
+}
+
+function startOfDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function round(value: FormulaValue, digits: FormulaValue, mode: 'nearest' | 'up' | 'down') {
+  if (value === null) return null;
+  const factor = 10 ** ((digits as number | null) ?? 0);
+  const scaled = Math.abs(value as number) * factor;
+  const rounded = mode === 'nearest' ? Math.round(scaled) : mode === 'up' ? Math.ceil(scaled) : Math.floor(scaled);
+  return (Math.sign(value as number) * rounded) / factor;
+}
+
+function numbers(args: FormulaValue[]) {
+  return args.filter((a): a is number => typeof a === 'number');
+}
+
+function toText(value: FormulaValue) {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  return String(value);
+}
+
+const numeric = (name: string) => (types: FormulaType[]): FormulaType => {
+  requireTypes(name, types, 'number');
+  return 'number';
+};
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // IF is evaluated lazily in evaluate(), so only its types are checked here
+  IF: {
+    args: [2, 3],
+    check: ([condition, then, otherwise]) => {
+      requireTypes('IF', [condition], 'boolean');
+      if (otherwise && then !== otherwise) {
+        throw new FormulaError(`IF branches must have the same type, got ${describe(then)} and ${describe(otherwise)}`);
+      }
+      return then;
+    },
+    run: () => null,
+  },
+  AND: {
+    args: [1, Infinity],
+    check: (types) => { requireTypes('AND', types, 'boolean'); return 'boolean'; },
+    run: (args) => args.every((a) => a === true),
+  },
+  OR: {
+    args: [1, Infinity],
+    check: (types) => { requireTypes('OR', types, 'boolean'); return 'boolean'; },
+    run: (args) => args.some((a) => a === true),
+  },
+  NOT: {
+    args: [1, 1],
+    check: (types) => { requireTypes('NOT', types, 'boolean'); return 'boolean'; },
+    run: ([value]) => (value === null ? null : !value),
+  },
+  ROUND: { args: [1, 2], check: numeric('ROUND'), run: ([value, digits]) => round(value, digits, 'nearest') },
+  ROUNDUP: { args: [1, 2], check: numeric('ROUNDUP'), run: ([value, digits]) => round(value, digits, 'up') },
+  ROUNDDOWN: { args: [1, 2], check: numeric('ROUNDDOWN'), run: ([value, digits]) => round(value, digits, 'down') },
+  ABS: { args: [1, 1], check: numeric('ABS'), run: ([value]) => (value === null ? null : Math.abs(value as number)) },
+  MIN: {
+    args: [1, Infinity],
+    check: numeric('MIN'),
+    run: (args) => (numbers(args).length ? Math.min(...numbers(args)) : null),
+  },
+  MAX: {
+    args: [1, Infinity],
+    check: numeric('MAX'),
+    run: (args) => (numbers(args).length ? Math.max(...numbers(args)) : null),
+  },
+  SUM: {
+    args: [1, Infinity],
+    check: numeric('SUM'),
+    run: (args) => numbers(args).reduce((sum, n) => sum + n, 0),
+  },
+  AVERAGE: {
+    args: [1, Infinity],
+    check: numeric('AVERAGE'),
+    run: (args) => {
+      const values = numbers(args);
+      return values.length ? values.reduce((sum, n) => sum + n, 0) / values.length : null;
+    },
+  },
+  CONCAT: { args: [1, Infinity], check: () => 'text', run: (args) => args.map(toText).join('') },
+  UPPER: {
+    args: [1, 1],
+    check: (types) => { requireTypes('UPPER', types, 'text'); return 'text'; },
+    run: ([value]) => (value === null ? null : String(value).toUpperCase()),
+  },
+  LOWER: {
+    args: [1, 1],
+    check: (types) => { requireTypes('LOWER', types, 'text'); return 'text'; },
+    run: ([value]) => (value === null ? null : String(value).toLowerCase()),
+  },
+  LEN: {
+    args: [1, 1],
+    check: (types) => { requireTypes('LEN', types, 'text'); return 'number'; },
+    run: ([value]) => toText(value).length,
+  },
+  TODAY: { args: [0, 0], check: () => 'date', run: (_, now) => startOfDay(now) },
+  DAYS: {
+    args: [2, 2],
+    check: (types) => { requireTypes('DAYS', types, 'date'); return 'number'; },
+    run: ([end, start]) =>
+      end === null || start === null ? null : Math.round(((end as Date).getTime() - (start as Date).getTime()) / DAY_MS),
+  },
+  ADD_DAYS: {
+    args: [2, 2],
+    check: ([date, days]) => {
+      requireTypes('ADD_DAYS', [date], 'date');
+      requireTypes('ADD_DAYS', [days], 'number');
+      return 'date';
+    },
+    run: ([date, days]) =>
+      date === null || days === null ? null : new Date((date as Date).getTime() + Math.round(days as number) * DAY_MS),
+  },
+  YEAR: {
+    args: [1, 1],
+    check: (types) => { requireTypes('YEAR', types, 'date'); return 'number'; },
+    run: ([date]) => (date === null ? null : (date as Date).getUTCFullYear()),
+  },
+  MONTH: {
+    args: [1, 1],
+    check: (types) => { requireTypes('MONTH', types, 'date'); return 'number'; },
+    run: ([date]) => (date === null ? null : (date as Date).getUTCMonth() + 1),
+  },
+  DAY: {
+    args: [1, 1],
+    check: (types) => { requireTypes('DAY', types, 'date'); return 'number'; },
+    run: ([date]) => (date === null ? null : (date as Date).getUTCDate()),
+  },
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+    const rest = expression.slice(i);
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '{') {
+      const end = expression.indexOf('}', i);
+      if (end === -1) throw new FormulaError(`Missing } after column name at position ${i + 1}`);
+      const name = expression.slice(i + 1, end).trim();
+      if (!name) throw new FormulaError(`Empty column reference at position ${i + 1}`);
+      tokens.push({ type: 'column', value: name, pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = expression.indexOf(ch, i + 1);
+      if (end === -1) throw new FormulaError(`Unterminated text at position ${i + 1}`);
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => rest.startsWith(o));
+    if (op) {
+      tokens.push({ type: 'op', value: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected "${ch}" at position ${i + 1}`);
+  }
+
+  tokens.push({ type: 'end', value: '', pos: expression.length });
+  return tokens;
+}
+
+// Precedence, loosest first: comparison, & (join text), + -, * / %, unary minus
+function parse(expression: string): Node {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const accept = (value: string) => {
+    if (peek().type === 'op' && peek().value === value) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) {
+      const token = peek();
+      throw new FormulaError(
+        token.type === 'end' ? `Expected "${value}" at the end` : `Expected "${value}" at position ${token.pos + 1}`
+      );
+    }
+  };
+
+  const binary = (ops: string[], operand: () => Node) => (): Node => {
+    let left = operand();
+    while (peek().type === 'op' && ops.includes(peek().value)) {
+      const op = tokens[index++].value;
+      left = { kind: 'binary', op: op === '<>' ? '!=' : op, left, right: operand() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[index++];
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'column':
+        return { kind: 'column', name: token.value };
+      case 'name': {
+        const name = token.value.toUpperCase();
+        if (name === 'TRUE' || name === 'FALSE') return { kind: 'literal', value: name === 'TRUE' };
+        const fn = FUNCTIONS[name];
+        if (!fn) throw new FormulaError(`Unknown function ${token.value}`);
+
+        expect('(');
+        const args: Node[] = [];
+        if (!accept(')')) {
+          do {
+            args.push(comparison());
+          } while (accept(','));
+          expect(')');
+        }
+
+        const [min, max] = fn.args;
+        if (args.length < min || args.length > max) {
+          const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+          throw new FormulaError(`${name} takes ${expected} argument${(max === Infinity ? min : max) === 1 ? '' : 's'}, got ${args.length}`);
+        }
+        return { kind: 'call', name, args };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = comparison();
+          expect(')');
+          return inner;
+        }
+        if (token.value === '-') return { kind: 'negate', operand: primary() };
+        break;
+    }
+
+    throw new FormulaError(
+      token.type === 'end' ? 'Formula ends unexpectedly' : `Unexpected "${token.value}" at position ${token.pos + 1}`
+    );
+  };
+
+  const multiplicative = binary(['*', '/', '%'], primary);
+  const additive = binary(['+', '-'], multiplicative);
+  const concat = binary(['&'], additive);
+  const comparison = binary(['=', '!=', '<>', '<', '<=', '>', '>='], concat);
+
+  const ast = comparison();
+  if (peek().type !== 'end') {
+    throw new FormulaError(`Unexpected "${peek().value}" at position ${peek().pos + 1}`);
+  }
+  return ast;
+}
+
+function checkBinary(op: string, left: FormulaType, right: FormulaType): FormulaType {
+  if (op === '&') return 'text';
+
+  if (op === '=' || op === '!=') {
+    if (left === right) return 'boolean';
+  } else if (['<', '<=', '>', '>='].includes(op)) {
+    if (left === right && left !== 'boolean') return 'boolean';
+  } else if (op === '+') {
+    if (left === 'number' && right === 'number') return 'number';
+    if ((left === 'date' && right === 'number') || (left === 'number' && right === 'date')) return 'date';
+  } else if (op === '-') {
+    if (left === 'number' && right === 'number') return 'number';
+    if (left === 'date' && right === 'number') return 'date';
+    if (left === 'date' && right === 'date') return 'number';
+  } else if (left === 'number' && right === 'number') {
+    return 'number';
+  }
+
+  const hint = op === '+' && (left === 'text' || right === 'text') ? '; use & to join text' : '';
+  throw new FormulaError(`Can't use ${op} with ${describe(left)} and ${describe(right)}${hint}`);
+}
+
+function checkTypes(node: Node, typeOf: (name: string) => FormulaType): FormulaType {
+  switch (node.kind) {
+    case 'literal':
+      return typeof node.value === 'number' ? 'number' : typeof node.value === 'string' ? 'text' : 'boolean';
+    case 'column':
+      return typeOf(node.name);
+    case 'negate': {
+      const type = checkTypes(node.operand, typeOf);
+      if (type !== 'number') throw new FormulaError(`Can't negate ${describe(type)}`);
+      return 'number';
+    }
+    case 'binary':
+      return checkBinary(node.op, checkTypes(node.left, typeOf), checkTypes(node.right, typeOf));
+    case 'call':
+      return FUNCTIONS[node.name].check(node.args.map((arg) => checkTypes(arg, typeOf)));
+  }
+}
+
+function applyOperator(op: string, left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (op === '&') return toText(left) + toText(right);
+  if (left === null || right === null) return null;
+
+  if (left instanceof Date && right instanceof Date) {
+    if (op === '-') return Math.round((left.getTime() - right.getTime()) / DAY_MS);
+    left = left.getTime();
+    right = right.getTime();
+  } else if (left instanceof Date) {
+    return new Date(left.getTime() + (op === '-' ? -1 : 1) * Math.round(right as number) * DAY_MS);
+  } else if (right instanceof Date) {
+    return new Date(right.getTime() + Math.round(left as number) * DAY_MS);
+  }
+
+  switch (op) {
+    case '+': return (left as number) + (right as number);
+    case '-': return (left as number) - (right as number);
+    case '*': return (left as number) * (right as number);
+    case '/':
+    case '%':
+      if (right === 0) throw new FormulaError('Division by zero');
+      return op === '/' ? (left as number) / (right as number) : (left as number) % (right as number);
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    default: return null;
+  }
+}
+
+function evaluate(node: Node, valueOf: (name: string) => FormulaValue, now: Date): FormulaValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return valueOf(node.name);
+    case 'negate': {
+      const value = evaluate(node.operand, valueOf, now);
+      return value === null ? null : -(value as number);
+    }
+    case 'binary':
+      return applyOperator(node.op, evaluate(node.left, valueOf, now), evaluate(node.right, valueOf, now));
+    case 'call':
+      if (node.name === 'IF') {
+        const condition = evaluate(node.args[0], valueOf, now);
+        const branch = condition === true ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, valueOf, now) : null;
+      }
+      return FUNCTIONS[node.name].run(node.args.map((arg) => evaluate(arg, valueOf, now)), now);
+  }
+}
+
+// How a stored field value reads inside a formula
+function toFormulaValue(column: Column, value: Prisma.JsonValue | undefined, userNames: Map<string, string>): FormulaValue {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (column.type) {
+    case FieldType.NUMBER:
+    case FieldType.MONEY:
+    case FieldType.RATING:
+      return toNumber(value);
+    case FieldType.DATE: {
+      const date = parseDate(value);
+      return date ? startOfDay(date) : null;
+    }
+    case FieldType.CHECKBOX:
+      return value === true;
+    case FieldType.STATUS:
+    case FieldType.DROPDOWN: {
+      const option = ((column.settings as any)?.options || []).find((o: any) => o.id === value);
+      return option ? option.label : null;
+    }
+    case FieldType.PERSON:
+      return userNames.get(String(value)) ?? null;
+    default:
+      return String(value);
+  }
+}
+
+function serialize(value: FormulaValue): Prisma.JsonValue {
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  if (typeof value === 'number') {
+    if (!isFinite(value)) throw new FormulaError('Result is not a finite number');
+    // Drop floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return parseFloat(value.toPrecision(15));
+  }
+  return value;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+interface CompiledFormula {
+  column: Column;
+  ast: Node;
+  type: FormulaType;
+  references: Set<string>; // Column IDs read directly or through other formulas
+}
+
+export interface BoardFormulas {
+  formulas: CompiledFormula[]; // Ordered so each formula comes after the formulas it reads
+  errors: Map<string, string>; // Column ID -> why that formula can't be evaluated
+}
+
+export interface ComputedValue {
+  columnId: string;
+  value: Prisma.JsonValue; // The result, or { error } when it couldn't be calculated
+}
+
+// Parses and type-checks every formula on a board, catching unknown columns and circular references
+export function compileBoardFormulas(columns: Column[]): BoardFormulas {
+  const byName = new Map(columns.map((c) => [normalizeName(c.name), c]));
+  const formulas: CompiledFormula[] = [];
+  const errors = new Map<string, string>();
+  const done = new Map<string, CompiledFormula | null>();
+
+  const compile = (column: Column, path: Column[]): CompiledFormula | null => {
+    if (done.has(column.id)) return done.get(column.id)!;
+
+    const chain = [...path, column];
+    const references = new Set<string>();
+
+    const typeOf = (name: string): FormulaType => {
+      const ref = byName.get(normalizeName(name));
+      if (!ref) throw new FormulaError(`Unknown column {${name}}`);
+      references.add(ref.id);
+
+      if (ref.type === FieldType.FORMULA) {
+        const loopStart = chain.findIndex((c) => c.id === ref.id);
+        if (loopStart !== -1) {
+          const loop = [...chain.slice(loopStart), ref].map((c) => `{${c.name}}`).join(' → ');
+          throw new FormulaError(`Circular reference: ${loop}`);
+        }
+
+        const upstream = compile(ref, chain);
+        if (!upstream) {
+          const upstreamError = errors.get(ref.id)!;
+          throw new FormulaError(upstreamError.startsWith('Circular') ? upstreamError : `{${ref.name}} has an error`);
+        }
+        upstream.references.forEach((id) => references.add(id));
+        return upstream.type;
+      }
+
+      const type = COLUMN_TYPES[ref.type];
+      if (!type) throw new FormulaError(`{${ref.name}} is a ${ref.type.toLowerCase()} column and can't be used in formulas`);
+      return type;
+    };
+
+    try {
+      const expression = (column.settings as any)?.expression;
+      if (typeof expression !== 'string' || !expression.trim()) {
+        throw new FormulaError('Formula is empty');
+      }
+
+      const ast = parse(expression);
+      const compiled = { column, ast, type: checkTypes(ast, typeOf), references };
+      done.set(column.id, compiled);
+      formulas.push(compiled);
+      return compiled;
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      done.set(column.id, null);
+      errors.set(column.id, error.message);
+      return null;
+    }
+  };
+
+  columns.filter((c) => c.type === FieldType.FORMULA).forEach((c) => compile(c, []));
+
+  return { formulas, errors };
+}
+
+// Checks a formula column as it would be saved alongside the board's other columns
+export function checkFormula(columns: Column[], column: Column): { error: string } | { type: FormulaType } {
+  const others = columns.filter((c) => c.id !== column.id);
+  if (others.some((c) => normalizeName(c.name) === normalizeName(column.name))) {
+    return { error: `Another column is already named {${column.name}}` };
+  }
+
+  const { formulas, errors } = compileBoardFormulas([...others, column]);
+  const error = errors.get(column.id);
+  if (error) return { error };
+  return { type: formulas.find((f) => f.column.id === column.id)!.type };
+}
+
+// Evaluates a board's formulas for one task's field values
+export function computeFormulas(
+  board: BoardFormulas,
+  columns: Column[],
+  fieldValues: { columnId: string; value: Prisma.JsonValue }[],
+  userNames: Map<string, string>,
+  now = new Date()
+): ComputedValue[] {
+  const byName = new Map(columns.map((c) => [normalizeName(c.name), c]));
+  const stored = new Map(fieldValues.map((fv) => [fv.columnId, fv.value]));
+  const computed = new Map<string, FormulaValue>();
+  const failed = new Set<string>(board.errors.keys());
+  const results: ComputedValue[] = [];
+
+  for (const formula of board.formulas) {
+    const valueOf = (name: string) => {
+      const column = byName.get(normalizeName(name))!;
+      if (column.type !== FieldType.FORMULA) return toFormulaValue(column, stored.get(column.id), userNames);
+      if (failed.has(column.id)) throw new FormulaError(`{${column.name}} has an error`);
+      return computed.get(column.id) ?? null;
+    };
+
+    try {
+      const value = evaluate(formula.ast, valueOf, now);
+      results.push({ columnId: formula.column.id, value: serialize(value) });
+      computed.set(formula.column.id, value);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      results.push({ columnId: formula.column.id, value: { error: error.message } });
+      failed.add(formula.column.id);
+    }
+  }
+
+  board.errors.forEach((message, columnId) => results.push({ columnId, value: { error: message } }));
+  return results;
+}
+
+// Replaces stored formula values with fresh results, so TODAY() and the like are current on every load
+export function withFormulaValues<T extends { id: string; fieldValues: { columnId: string; value: Prisma.JsonValue }[] }>(
+  tasks: T[],
+  columns: Column[],
+  userNames: Map<string, string>
+): T[] {
+  if (!columns.some((c) => c.type === FieldType.FORMULA)) return tasks;
+
+  const board = compileBoardFormulas(columns);
+  const now = new Date();
+
+  return tasks.map((task) => {
+    const results = computeFormulas(board, columns, task.fieldValues, userNames, now);
+    const fieldValues = [
+      ...task.fieldValues.filter((fv) => !results.some((r) => r.columnId === fv.columnId)),
+      ...results.map((r) => ({ id: `${task.id}:${r.columnId}`, taskId: task.id, columnId: r.columnId, value: r.value })),
+    ];
+    return { ...task, fieldValues: fieldValues as T['fieldValues'] };
+  });
+}
+
+async function getUserNames(boardId: string) {
+  const members = await prisma.workspaceMember.findMany({
+    where: { isActive: true, workspace: { boards: { some: { id: boardId } } } },
+    include: { user: { select: { id: true, name: true } } },
+  });
+  return new Map(members.map((m) => [m.user.id, m.user.name]));
+}
+
+function storeResults(taskId: string, results: ComputedValue[]) {
+  return results.map((r) => {
+    const value = r.value === null ? Prisma.JsonNull : (r.value as Prisma.InputJsonValue);
+    return prisma.taskFieldValue.upsert({
+      where: { taskId_columnId: { taskId, columnId: r.columnId } },
+      create: { taskId, columnId: r.columnId, value },
+      update: { value },
+    });
+  });
+}
+
+// Recalculates a task's formulas that read the changed column, stores and returns the results
+export async function recomputeTaskFormulas(taskId: string, boardId: string, changedColumnId: string) {
+  const columns = await prisma.column.findMany({ where: { boardId } });
+  if (!columns.some((c) => c.type === FieldType.FORMULA)) return [];
+
+  const board = compileBoardFormulas(columns);
+  const affected = board.formulas.filter((f) => f.references.has(changedColumnId)).map((f) => f.column.id);
+  if (affected.length === 0) return [];
+
+  const [fieldValues, userNames] = await Promise.all([
+    prisma.taskFieldValue.findMany({ where: { taskId } }),
+    getUserNames(boardId),
+  ]);
+
+  const results = computeFormulas(board, columns, fieldValues, userNames).filter((r) => affected.includes(r.columnId));
+  await prisma.$transaction(storeResults(taskId, results));
+  return results;
+}
+
+// Recalculates every formula on a board, after formula columns or the columns they read change
+export async function recomputeBoardFormulas(boardId: string) {
+  const columns = await prisma.column.findMany({ where: { boardId } });
+  if (!columns.some((c) => c.type === FieldType.FORMULA)) return;
+
+  const board = compileBoardFormulas(columns);
+  const [tasks, userNames] = await Promise.all([
+    prisma.task.findMany({
+      where: { isActive: true, group: { boardId } },
+      include: { fieldValues: true },
+    }),
+    getUserNames(boardId),
+  ]);
+
+  const now = new Date();
+  await prisma.$transaction(
+    tasks.flatMap((task) => storeResults(task.id, computeFormulas(board, columns, task.fieldValues, userNames, now)))
+  );
+}
+
+// Keeps {Name} references pointing at a renamed column
+export function renameReferences(expression: string, oldName: string, newName: string) {
+  return expression.replace(/\{([^}]*)\}/g, (match, name: string) =>
+    normalizeName(name) === normalizeName(oldName) ? `{${newName}}` : match
+  );
+}
@@ -0,0 +1,151 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { Branding, DEFAULT_BRAND_COLOR, EMAIL_TEMPLATES, EmailTemplate, EmailTemplateData, RenderedEmail } from './emailTemplates';
+
+// A failed send is retried after 1, 2, 4, 8 and 16 minutes, then given up on
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+
+// A send still marked in progress after this long was cut off (e.g. by a restart) and is tried again
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+const BATCH_SIZE = 50;
+
+let transporter: Transporter | null = null;
+
+export function isEmailConfigured() {
+  return !!process.env.SMTP_HOST;
+}
+
+function getTransporter() {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: Number(process.env.SMTP_PORT) === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+// EMAIL_FROM is either a bare address or "Name <address>"; workspaces only change the name
+function defaultSender() {
+  const from = process.env.EMAIL_FROM || process.env.SMTP_USER || 'noreply@localhost';
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || 'Od Sifra', address: match[2] } : { name: 'Od Sifra', address: from.trim() };
+}
+
+// Absolute link into the web app
+export function appUrl(path: string) {
+  return `${(process.env.APP_URL || 'http://localhost:3001').replace(/\/$/, '')}${path}`;
+}
+
+async function senderFor(workspaceId?: string | null) {
+  const workspace = workspaceId
+    ? await prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { name: true, logoUrl: true, emailFromName: true, emailReplyTo: true, brandColor: true },
+      })
+    : null;
+  const fromName = workspace?.emailFromName || workspace?.name || defaultSender().name;
+  const branding: Branding = {
+    name: workspace?.name || fromName,
+    color: workspace?.brandColor || DEFAULT_BRAND_COLOR,
+    logoUrl: workspace?.logoUrl,
+  };
+  return { fromName, replyTo: workspace?.emailReplyTo || null, branding };
+}
+
+// Renders an email and puts it in the outbox, branded for the workspace it's sent on behalf of. Without SMTP it's
+// only logged, so links still show up in development.
+export async function queueEmail<T extends EmailTemplate>(
+  to: string,
+  template: T,
+  data: EmailTemplateData<T>,
+  workspaceId?: string | null
+) {
+  const { fromName, replyTo, branding } = await senderFor(workspaceId);
+  const render = EMAIL_TEMPLATES[template] as (data: EmailTemplateData<T>, branding: Branding) => RenderedEmail;
+  const { subject, html, text } = render(data, branding);
+
+  if (!isEmailConfigured()) {
+    console.log(`Email to ${to} not sent (SMTP_HOST is not set): ${subject}\n${text}`);
+    return null;
+  }
+
+  const email = await prisma.outboundEmail.create({
+    data: { workspaceId: workspaceId || null, to, fromName, replyTo, subject, html, text, template },
+  });
+  deliverSoon();
+  return email;
+}
+
+// Puts a failed email back in the queue for an immediate attempt
+export async function retryEmail(id: string) {
+  await prisma.outboundEmail.update({
+    where: { id },
+    data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lastError: null },
+  });
+  deliverSoon();
+}
+
+// Sends what's due. Each email is claimed before sending, so overlapping runs never send one twice.
+export async function deliverQueuedEmails(now = new Date()) {
+  if (!isEmailConfigured()) return;
+
+  await prisma.outboundEmail.updateMany({
+    where: { status: EmailStatus.SENDING, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+    data: { status: EmailStatus.PENDING },
+  });
+
+  const due = await prisma.outboundEmail.findMany({
+    where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const { address } = defaultSender();
+  for (const email of due) {
+    const claimed = await prisma.outboundEmail.updateMany({
+      where: { id: email.id, status: EmailStatus.PENDING },
+      data: { status: EmailStatus.SENDING, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = email.attempts + 1;
+    try {
+      await getTransporter().sendMail({
+        from: { name: email.fromName, address },
+        replyTo: email.replyTo || undefined,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: { status: EmailStatus.SENT, sentAt: new Date(), lastError: null },
+      });
+    } catch (error: any) {
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: {
+          status: attempts >= MAX_ATTEMPTS ? EmailStatus.FAILED : EmailStatus.PENDING,
+          lastError: error.message,
+          nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+        },
+      });
+    }
+  }
+}
+
+function deliverSoon() {
+  deliverQueuedEmails().catch((error) => console.error('Email delivery error:', error));
+}
+
+export function startMailScheduler(intervalMs = 30 * 1000) {
+  deliverSoon();
+  return setInterval(deliverSoon, intervalMs);
+}
@@ -0,0 +1,32 @@
+import { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { appUrl, queueEmail } from './mailer';
+
+// Notifications that also go out by email; the rest (e.g. chat messages) stay in the app
+const EMAILED_TYPES: NotificationType[] = [
+  NotificationType.TASK_ASSIGNED,
+  NotificationType.TASK_COMMENT,
+  NotificationType.TASK_UPDATED,
+];
+
+// Creates an in-app notification and emails a copy of the kinds that are, sent on behalf of the workspace
+export async function notify(data: Prisma.NotificationUncheckedCreateInput, workspaceId: string) {
+  const notification = await prisma.notification.create({ data });
+
+  if (EMAILED_TYPES.includes(data.type)) {
+    const user = await prisma.user.findUnique({
+      where: { id: data.userId },
+      select: { name: true, email: true, isActive: true },
+    });
+    if (user?.isActive) {
+      await queueEmail(
+        user.email,
+        'notification',
+        { name: user.name, title: data.title, message: data.message, url: data.link && appUrl(data.link) },
+        workspaceId
+      );
+    }
+  }
+
+  return notification;
+}
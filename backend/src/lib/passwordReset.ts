@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from './prisma';
+import { createSecretToken, hashToken } from './tokens';
+
+// Forgot-password links are short-lived; the link an admin-created account starts with lasts as long as an invite
+export const RESET_TTL_MINUTES = 60;
+export const SET_PASSWORD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Issues a new link for the user, replacing any they haven't used yet
+export async function createPasswordResetToken(userId: string, ttlMs = RESET_TTL_MINUTES * 60 * 1000) {
+  const { token, tokenHash } = createSecretToken();
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } }),
+    prisma.passwordResetToken.create({
+      data: { userId, tokenHash, expiresAt: new Date(Date.now() + ttlMs) },
+    }),
+  ]);
+  return token;
+}
+
+// The token's record while it can still be used
+export async function findPasswordResetToken(token: string) {
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, name: true, email: true, isActive: true } } },
+  });
+  if (!record || record.usedAt || record.expiresAt < new Date() || !record.user.isActive) return null;
+  return record;
+}
+
+// Sets the new password and uses up the token. Returns false when the token was used in the meantime.
+// Following the emailed link also proves the address.
+export async function resetPassword(tokenId: string, userId: string, password: string) {
+  const passwordHash = await bcrypt.hash(password, 12);
+
+  return prisma.$transaction(async (tx) => {
+    const used = await tx.passwordResetToken.updateMany({
+      where: { id: tokenId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (used.count === 0) return false;
+
+    await tx.user.update({ where: { id: userId }, data: { passwordHash, emailVerified: true } });
+    await tx.passwordResetToken.deleteMany({ where: { userId, usedAt: null } });
+    return true;
+  });
+}
+
+// Hash of a random password nobody knows, for accounts whose owner sets their own through a link
+export function unusablePasswordHash() {
+  return bcrypt.hash(randomBytes(32).toString('hex'), 12);
+}
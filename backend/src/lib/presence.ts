@@ -0,0 +1,68 @@
+import { emitToBoard } from './realtime';
+
+export interface PresenceUser {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+}
+
+interface PresenceEntry {
+  user: PresenceUser;
+  taskId: string | null;
+  seenAt: number;
+}
+
+// Clients heartbeat every 20 seconds; a socket that misses three is treated as gone even if no disconnect arrived
+export const PRESENCE_HEARTBEAT_MS = 20 * 1000;
+export const PRESENCE_TTL_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+// boardId -> socketId -> entry. Kept in memory, so presence is per server process.
+const boards = new Map<string, Map<string, PresenceEntry>>();
+
+// One entry per user; with several tabs open the most recent heartbeat decides which task they're on
+export function boardViewers(boardId: string) {
+  const viewers = new Map<string, PresenceUser & { taskId: string | null; seenAt: number }>();
+  for (const entry of boards.get(boardId)?.values() || []) {
+    const current = viewers.get(entry.user.id);
+    if (!current || entry.seenAt > current.seenAt) {
+      viewers.set(entry.user.id, { ...entry.user, taskId: entry.taskId, seenAt: entry.seenAt });
+    }
+  }
+  return [...viewers.values()].map(({ seenAt, ...viewer }) => viewer);
+}
+
+const broadcast = (boardId: string) => emitToBoard(boardId, 'presence_updated', { viewers: boardViewers(boardId) });
+
+// Records a heartbeat, and tells the room only when who is there or what they're editing changed
+export function trackPresence(boardId: string, socketId: string, user: PresenceUser, taskId: string | null = null) {
+  const sockets = boards.get(boardId) || new Map<string, PresenceEntry>();
+  boards.set(boardId, sockets);
+
+  const previous = sockets.get(socketId);
+  sockets.set(socketId, { user, taskId, seenAt: Date.now() });
+
+  if (!previous || previous.taskId !== taskId) broadcast(boardId);
+}
+
+export function dropPresence(boardId: string, socketId: string) {
+  const sockets = boards.get(boardId);
+  if (!sockets?.delete(socketId)) return;
+  if (sockets.size === 0) boards.delete(boardId);
+  broadcast(boardId);
+}
+
+export function dropSocketPresence(socketId: string) {
+  for (const boardId of [...boards.keys()]) dropPresence(boardId, socketId);
+}
+
+export function sweepPresence(now = Date.now()) {
+  for (const [boardId, sockets] of [...boards.entries()]) {
+    for (const [socketId, entry] of sockets) {
+      if (now - entry.seenAt > PRESENCE_TTL_MS) dropPresence(boardId, socketId);
+    }
+  }
+}
+
+export function startPresenceSweeper(intervalMs = PRESENCE_HEARTBEAT_MS) {
+  return setInterval(() => sweepPresence(), intervalMs);
+}
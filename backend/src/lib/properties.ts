@@ -0,0 +1,210 @@
+import { AutomationTrigger, Column, FieldType, OccupancyStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { checkBoardAccess } from './boardAccess';
+import { parseDate } from './fieldValues';
+import { recomputeTaskFormulas } from './formula';
+import { fireAutomations } from './automations';
+import { emitToBoard } from './realtime';
+import { syncLeaseCharges } from './rentLedger';
+import { columnCurrency, loadConverter, toMoney } from './currency';
+
+type SyncedField = 'purchaseCost' | 'status' | 'tenantName' | 'monthlyRent' | 'startDate';
+
+// Property template columns that mirror the property (or its current lease), matched by name and type
+const SYNCED_COLUMNS: { field: SyncedField; name: string; type: FieldType }[] = [
+  { field: 'purchaseCost', name: 'Purchase Price', type: FieldType.MONEY },
+  { field: 'status', name: 'Occupancy', type: FieldType.STATUS },
+  { field: 'tenantName', name: 'Tenant', type: FieldType.TEXT },
+  { field: 'monthlyRent', name: 'Monthly Rent', type: FieldType.MONEY },
+  { field: 'startDate', name: 'Rented Since', type: FieldType.DATE },
+];
+
+// Occupancy option labels, as on the template
+const OCCUPANCY_LABELS: Record<OccupancyStatus, string> = {
+  VACANT: 'Vacant',
+  OCCUPIED: 'Occupied',
+  RENOVATION: 'Renovation',
+};
+
+export const PROPERTY_TASK_SELECT = {
+  id: true,
+  name: true,
+  group: { select: { id: true, name: true, board: { select: { id: true, name: true } } } },
+};
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+function syncedField(column: Pick<Column, 'name' | 'type'>) {
+  return SYNCED_COLUMNS.find((s) => s.type === column.type && normalize(s.name) === normalize(column.name))?.field;
+}
+
+function statusOptions(column: Column): { id: string; label: string }[] {
+  return (column.settings as { options?: { id: string; label: string }[] } | null)?.options || [];
+}
+
+// The lease running on the given day, the latest-starting one if several overlap
+export function currentLease<T extends { startDate: Date; endDate: Date | null }>(leases: T[], now = new Date()) {
+  return (
+    leases
+      .filter((l) => l.startDate <= now && (!l.endDate || l.endDate >= now))
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0] || null
+  );
+}
+
+// Access to a property follows access to the board its task is on
+export async function checkPropertyAccess(propertyId: string, userId: string) {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      id: true,
+      workspaceId: true,
+      taskId: true,
+      currency: true,
+      task: { select: { isActive: true, group: { select: { boardId: true } } } },
+    },
+  });
+  // Deleting the item on the board retires its property too
+  if (!property || !property.task.isActive) return null;
+
+  const access = await checkBoardAccess(property.task.group.boardId, userId);
+  return access && { ...access, property };
+}
+
+// Writes the property and its current lease onto the linked task: the address as its name, and the synced columns
+// the board has. Only changed cells are written, each logged and broadcast like an edit on the board.
+export async function syncPropertyToTask(propertyId: string, userId: string) {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    include: {
+      leases: true,
+      task: { include: { fieldValues: true, group: { include: { board: { include: { columns: true } } } } } },
+    },
+  });
+  if (!property) return;
+
+  const { task } = property;
+  const boardId = task.group.boardId;
+  const lease = currentLease(property.leases);
+
+  if (task.name !== property.address) {
+    const renamed = await prisma.task.update({ where: { id: task.id }, data: { name: property.address } });
+    emitToBoard(boardId, 'task_updated', { task: renamed });
+  }
+
+  for (const column of task.group.board.columns) {
+    const field = syncedField(column);
+    if (!field) continue;
+
+    let value: string | { amount: number; currency: string } | null;
+    switch (field) {
+      case 'purchaseCost':
+        value = property.purchaseCost === null ? null : { amount: Number(property.purchaseCost), currency: property.currency };
+        break;
+      case 'status': {
+        const option = statusOptions(column).find((o) => normalize(o.label) === normalize(OCCUPANCY_LABELS[property.status]));
+        if (!option) continue;
+        value = option.id;
+        break;
+      }
+      case 'tenantName':
+        value = lease?.tenantName ?? null;
+        break;
+      case 'monthlyRent':
+        value = lease ? { amount: Number(lease.monthlyRent), currency: property.currency } : null;
+        break;
+      case 'startDate':
+        value = lease ? lease.startDate.toISOString().substring(0, 10) : null;
+        break;
+    }
+
+    const previous = task.fieldValues.find((fv) => fv.columnId === column.id)?.value ?? null;
+    if (JSON.stringify(previous) === JSON.stringify(value)) continue;
+
+    await prisma.taskFieldValue.upsert({
+      where: { taskId_columnId: { taskId: task.id, columnId: column.id } },
+      create: { taskId: task.id, columnId: column.id, value: value ?? Prisma.JsonNull },
+      update: { value: value ?? Prisma.JsonNull },
+    });
+    const formulas = await recomputeTaskFormulas(task.id, boardId, column.id);
+
+    await prisma.activityLog.create({
+      data: {
+        taskId: task.id,
+        userId,
+        action: 'field_updated',
+        details: { columnId: column.id, value, propertyId },
+      },
+    });
+
+    if (column.type === FieldType.STATUS) {
+      fireAutomations(boardId, {
+        trigger: AutomationTrigger.STATUS_CHANGED,
+        taskId: task.id,
+        columnId: column.id,
+        from: (previous as string) ?? null,
+        to: value as string | null,
+      });
+    }
+
+    emitToBoard(boardId, 'field_updated', { taskId: task.id, columnId: column.id, value, shifted: [], formulas });
+  }
+}
+
+// Carries a rename on the board back to the property's address
+export async function syncTaskNameToProperty(taskId: string, name: string) {
+  await prisma.property.updateMany({ where: { taskId }, data: { address: name } });
+}
+
+// Carries a board edit of a synced column back to the property, or to its current lease. Lease columns are left
+// alone when no lease is running, and values a lease can't hold (no tenant, no rent) are ignored.
+export async function syncTaskFieldToProperty(taskId: string, column: Column, value: unknown) {
+  const field = syncedField(column);
+  if (!field) return;
+
+  const property = await prisma.property.findUnique({
+    where: { taskId },
+    include: { leases: true, workspace: { select: { defaultCurrency: true } } },
+  });
+  if (!property) return;
+
+  // Amounts entered in another currency are converted into the property's, and ignored when there's no rate
+  let amount: number | null = null;
+  const money = column.type === FieldType.MONEY
+    ? toMoney(value, columnCurrency(column, property.workspace.defaultCurrency))
+    : null;
+  if (money) {
+    amount = money.currency === property.currency
+      ? money.amount
+      : (await loadConverter(property.workspaceId, property.currency)).convert(money.amount, money.currency);
+    if (amount === null) return;
+  }
+
+  if (field === 'purchaseCost') {
+    await prisma.property.update({ where: { id: property.id }, data: { purchaseCost: amount } });
+    return;
+  }
+
+  if (field === 'status') {
+    const label = statusOptions(column).find((o) => o.id === value)?.label;
+    const status = (Object.keys(OCCUPANCY_LABELS) as OccupancyStatus[]).find(
+      (s) => label && normalize(OCCUPANCY_LABELS[s]) === normalize(label)
+    );
+    if (status) {
+      await prisma.property.update({ where: { id: property.id }, data: { status } });
+    }
+    return;
+  }
+
+  const lease = currentLease(property.leases);
+  if (!lease) return;
+
+  const data: Prisma.LeaseUpdateInput = {};
+  if (field === 'tenantName' && typeof value === 'string' && value.trim()) data.tenantName = value.trim();
+  if (field === 'monthlyRent' && amount !== null) data.monthlyRent = amount;
+  if (field === 'startDate' && parseDate(value)) data.startDate = parseDate(value)!;
+
+  if (Object.keys(data).length > 0) {
+    await prisma.lease.update({ where: { id: lease.id }, data });
+    await syncLeaseCharges(lease.id);
+  }
+}
@@ -0,0 +1,162 @@
+import { ExpenseCategory, ExpenseRecurrence, OccupancyStatus, PropertyExpense } from '@prisma/client';
+import { prisma } from './prisma';
+import { currentLease } from './properties';
+import { Converter } from './currency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Months between occurrences of a recurring expense
+const RECURRENCE_MONTHS: Record<ExpenseRecurrence, number> = {
+  ONE_OFF: 0,
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+};
+
+const dayOf = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+// Same day of the month, a number of months on, or that month's last day when it's shorter
+function addMonths(date: Date, months: number) {
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// The total an expense comes to within a period, counting each occurrence of a recurring one
+export function expenseInPeriod(expense: Pick<PropertyExpense, 'amount' | 'date' | 'recurrence' | 'endDate'>, from: Date, to: Date) {
+  const amount = Number(expense.amount);
+  const step = RECURRENCE_MONTHS[expense.recurrence];
+  const last = Math.min(dayOf(to), expense.endDate ? dayOf(expense.endDate) : Infinity);
+
+  if (step === 0) {
+    return dayOf(expense.date) >= dayOf(from) && dayOf(expense.date) <= last ? amount : 0;
+  }
+
+  let total = 0;
+  for (let n = 0; ; n++) {
+    const occurrence = addMonths(expense.date, n * step);
+    if (dayOf(occurrence) > last) break;
+    if (dayOf(occurrence) >= dayOf(from)) total += amount;
+  }
+  return total;
+}
+
+interface Totals {
+  purchaseCost: number;
+  cashInvested: number;
+  rentCollected: number;
+  operatingExpenses: number;
+  financingExpenses: number;
+}
+
+// Yields are annualized over the period. Gross yield is rent over purchase cost; net yield takes off running costs
+// but not the mortgage; cash-on-cash return is what's left after the mortgage too, over the owner's own money; the
+// payback period is how many years of that cash flow it takes to earn the own money back.
+function returns(totals: Totals, periodDays: number) {
+  const perYear = 365 / periodDays;
+  const netIncome = totals.rentCollected - totals.operatingExpenses;
+  const cashFlow = netIncome - totals.financingExpenses;
+  const annualCashFlow = cashFlow * perYear;
+
+  return {
+    grossYield: totals.purchaseCost > 0 ? round4((totals.rentCollected * perYear) / totals.purchaseCost) : null,
+    netYield: totals.purchaseCost > 0 ? round4((netIncome * perYear) / totals.purchaseCost) : null,
+    cashOnCashReturn: totals.cashInvested > 0 ? round4(annualCashFlow / totals.cashInvested) : null,
+    paybackYears: totals.cashInvested > 0 && annualCashFlow > 0 ? round2(totals.cashInvested / annualCashFlow) : null,
+  };
+}
+
+// Income, expenses and returns per property over a period, and for the properties together. Rent counts when
+// it was received. Amounts are in the converter's currency; a property with no rate to it keeps its own currency
+// and is left out of the portfolio figures.
+export async function propertyReport(propertyIds: string[], from: Date, to: Date, converter: Converter) {
+  const properties = await prisma.property.findMany({
+    where: { id: { in: propertyIds } },
+    include: {
+      leases: {
+        include: {
+          payments: { where: { paidAt: { gte: from, lt: new Date(to.getTime() + DAY_MS) } }, select: { amount: true } },
+        },
+      },
+      expenses: true,
+    },
+    orderBy: { address: 'asc' },
+  });
+
+  const periodDays = dayOf(to) - dayOf(from) + 1;
+  const portfolio: Totals = { purchaseCost: 0, cashInvested: 0, rentCollected: 0, operatingExpenses: 0, financingExpenses: 0 };
+  let totalMonthlyRent = 0;
+
+  const reports = properties.map((property) => {
+    const byCategory = Object.fromEntries(Object.values(ExpenseCategory).map((c) => [c, 0])) as Record<ExpenseCategory, number>;
+    for (const expense of property.expenses) {
+      byCategory[expense.category] += expenseInPeriod(expense, from, to);
+    }
+    for (const category of Object.values(ExpenseCategory)) {
+      byCategory[category] = round2(byCategory[category]);
+    }
+
+    const lease = currentLease(property.leases);
+    const monthlyRent = lease ? Number(lease.monthlyRent) : 0;
+    const purchaseCost = property.purchaseCost === null ? 0 : Number(property.purchaseCost);
+    const totals: Totals = {
+      purchaseCost,
+      cashInvested: property.cashInvested === null ? purchaseCost : Number(property.cashInvested),
+      rentCollected: round2(property.leases.flatMap((l) => l.payments).reduce((sum, p) => sum + Number(p.amount), 0)),
+      financingExpenses: byCategory.MORTGAGE,
+      operatingExpenses: round2(
+        Object.values(ExpenseCategory)
+          .filter((c) => c !== ExpenseCategory.MORTGAGE)
+          .reduce((sum, c) => sum + byCategory[c], 0)
+      ),
+    };
+
+    // Ratios don't depend on the currency, so they're worked out before converting
+    const ratios = returns(totals, periodDays);
+    const convertible = converter.convert(0, property.currency) !== null;
+    const money = (amount: number) => (convertible ? converter.convert(amount, property.currency)! : amount);
+
+    const converted = Object.fromEntries(
+      (Object.keys(totals) as (keyof Totals)[]).map((key) => [key, money(totals[key])])
+    ) as unknown as Totals;
+    if (convertible) {
+      for (const key of Object.keys(portfolio) as (keyof Totals)[]) portfolio[key] += converted[key];
+      totalMonthlyRent += money(monthlyRent);
+    }
+
+    return {
+      id: property.id,
+      address: property.address,
+      status: property.status,
+      currency: convertible ? converter.currency : property.currency,
+      purchaseCost: property.purchaseCost === null ? null : converted.purchaseCost,
+      cashInvested: converted.cashInvested,
+      monthlyRent: money(monthlyRent),
+      rentCollected: converted.rentCollected,
+      expenses: round2(converted.operatingExpenses + converted.financingExpenses),
+      expensesByCategory: Object.fromEntries(
+        Object.values(ExpenseCategory).map((c) => [c, money(byCategory[c])])
+      ) as Record<ExpenseCategory, number>,
+      netCashFlow: round2(converted.rentCollected - converted.operatingExpenses - converted.financingExpenses),
+      ...ratios,
+    };
+  });
+
+  return {
+    from: from.toISOString().substring(0, 10),
+    to: to.toISOString().substring(0, 10),
+    ...converter.summary(),
+    totalProperties: reports.length,
+    activeProperties: reports.filter((r) => r.status === OccupancyStatus.OCCUPIED).length,
+    vacantProperties: reports.filter((r) => r.status === OccupancyStatus.VACANT).length,
+    totalPurchaseCost: round2(portfolio.purchaseCost),
+    totalMonthlyRent: round2(totalMonthlyRent),
+    estimatedAnnualIncome: round2(totalMonthlyRent * 12),
+    rentCollected: round2(portfolio.rentCollected),
+    expenses: round2(portfolio.operatingExpenses + portfolio.financingExpenses),
+    netCashFlow: round2(portfolio.rentCollected - portfolio.operatingExpenses - portfolio.financingExpenses),
+    ...returns(portfolio, periodDays),
+    properties: reports,
+  };
+}
@@ -0,0 +1,73 @@
+import { Server } from 'socket.io';
+
+// Events sent to the board:<id> room. Each carries the boardId plus the change, so open boards can patch in place,
+// and counts are sent as totals so applying an event twice is harmless. board_changed means the change is too broad
+// to patch (imports, copies, recalculated formulas) and clients reload. presence_updated lists who has the board open.
+export type BoardEvent =
+  | 'task_created'
+  | 'task_updated'
+  | 'task_deleted'
+  | 'tasks_reordered'
+  | 'field_updated'
+  | 'assignment_added'
+  | 'assignment_removed'
+  | 'comment_added'
+  | 'comment_deleted'
+  | 'group_created'
+  | 'group_updated'
+  | 'group_deleted'
+  | 'groups_reordered'
+  | 'column_created'
+  | 'column_updated'
+  | 'column_deleted'
+  | 'columns_reordered'
+  | 'board_changed'
+  | 'presence_updated';
+
+// Events for a thread's participants. They go to the thread:<id> room and to each participant's user:<id> room,
+// so clients that only track conversations by person (mobile) get them without joining the thread.
+export type ThreadEvent = 'new_message' | 'message_sent' | 'user_typing' | 'user_stop_typing' | 'message_read';
+
+let io: Server | null = null;
+
+export function setSocketServer(server: Server) {
+  io = server;
+}
+
+export const boardRoom = (boardId: string) => `board:${boardId}`;
+export const workspaceRoom = (workspaceId: string) => `workspace:${workspaceId}`;
+export const threadRoom = (threadId: string) => `thread:${threadId}`;
+export const userRoom = (userId: string) => `user:${userId}`;
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+export function emitToBoard(boardId: string, event: BoardEvent, payload: Record<string, unknown> = {}) {
+  io?.to(boardRoom(boardId)).emit(event, { boardId, ...payload });
+}
+
+// Socket.io delivers once per socket even when it is in several of the rooms
+export function emitToThread(
+  threadId: string,
+  participantIds: string[],
+  event: ThreadEvent,
+  payload: Record<string, unknown> = {},
+  exceptUserId?: string
+) {
+  if (!io) return;
+  const rooms = io.to([threadRoom(threadId), ...participantIds.map(userRoom)]);
+  (exceptUserId ? rooms.except(userRoom(exceptUserId)) : rooms).emit(event, { threadId, ...payload });
+}
+
+export function emitToUser(userId: string, event: ThreadEvent, payload: Record<string, unknown> = {}) {
+  io?.to(userRoom(userId)).emit(event, payload);
+}
+
+// Closes the sockets opened with these sessions' tokens
+export function disconnectSessions(sessionIds: string[]) {
+  if (!io || sessionIds.length === 0) return;
+  io.in(sessionIds.map(sessionRoom)).disconnectSockets(true);
+}
+
+// Closes all of a user's sockets, so they reconnect and rejoin only the rooms they still have access to
+export function disconnectUser(userId: string) {
+  io?.in(userRoom(userId)).disconnectSockets(true);
+}
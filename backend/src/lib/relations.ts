@@ -0,0 +1,211 @@
+import { Column, FieldType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { checkBoardAccess } from './boardAccess';
+import { toNumber } from './fieldValues';
+
+// RELATION columns come in pairs, one on each board: settings { boardId: linked board, pairedColumnId }.
+// MIRROR columns read a column on the linked tasks: settings { relationColumnId, mirrorColumnId, aggregate }.
+export const MIRROR_AGGREGATES = ['sum', 'count', 'min', 'max', 'latest'] as const;
+
+export type MirrorAggregate = (typeof MIRROR_AGGREGATES)[number];
+
+export interface RelationSettings {
+  boardId: string;
+  pairedColumnId: string;
+}
+
+export interface MirrorSettings {
+  relationColumnId: string;
+  mirrorColumnId: string;
+  aggregate: MirrorAggregate;
+}
+
+export interface LinkedTask {
+  id: string;
+  name: string;
+  boardId: string;
+}
+
+const relationSettings = (column: Column) => column.settings as unknown as RelationSettings;
+const mirrorSettings = (column: Column) => column.settings as unknown as MirrorSettings;
+
+// Returns an error message when a mirror doesn't point through a relation on its board at a linked column
+export async function validateMirrorSettings(boardId: string, settings: any) {
+  if (!settings || !MIRROR_AGGREGATES.includes(settings.aggregate)) {
+    return `Mirror aggregate must be one of ${MIRROR_AGGREGATES.join(', ')}`;
+  }
+
+  const relation = await prisma.column.findFirst({
+    where: { id: settings.relationColumnId, boardId, type: FieldType.RELATION },
+  });
+  if (!relation) {
+    return 'Mirror must use a relation column on this board';
+  }
+
+  // Counting linked tasks doesn't need a column to read
+  if (settings.aggregate === 'count' && !settings.mirrorColumnId) return null;
+
+  const mirrored = await prisma.column.findFirst({
+    where: { id: settings.mirrorColumnId, boardId: relationSettings(relation).boardId },
+  });
+  if (!mirrored) {
+    return 'Mirrored column must be on the linked board';
+  }
+
+  return null;
+}
+
+// Replaces the tasks linked to a task through a relation column. Returns an error message when the set is invalid.
+export async function setRelations(column: Column, taskId: string, targetIds: string[], userId: string) {
+  const ids = [...new Set(targetIds)];
+  const { boardId, pairedColumnId } = relationSettings(column);
+
+  // Linking writes the paired values onto the other board's tasks, so it needs edit access there too
+  const access = await checkBoardAccess(boardId, userId);
+  if (!access?.canEdit) {
+    return 'You do not have edit access to the linked board';
+  }
+
+  const found = await prisma.task.count({
+    where: { id: { in: ids }, isActive: true, group: { boardId } },
+  });
+  if (found !== ids.length) {
+    return 'Linked items must be active tasks on the linked board';
+  }
+
+  const existing = await prisma.taskRelation.findMany({
+    where: {
+      OR: [
+        { columnId: column.id, sourceTaskId: taskId },
+        { columnId: pairedColumnId, targetTaskId: taskId },
+      ],
+    },
+  });
+  const linkedId = (r: { columnId: string; sourceTaskId: string; targetTaskId: string }) =>
+    r.columnId === column.id && r.sourceTaskId === taskId ? r.targetTaskId : r.sourceTaskId;
+
+  const removed = existing.filter((r) => !ids.includes(linkedId(r)));
+  const added = ids.filter((id) => !existing.some((r) => linkedId(r) === id));
+
+  await prisma.$transaction([
+    prisma.taskRelation.deleteMany({ where: { id: { in: removed.map((r) => r.id) } } }),
+    prisma.taskRelation.createMany({
+      data: added.map((targetTaskId) => ({ columnId: column.id, sourceTaskId: taskId, targetTaskId })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return null;
+}
+
+function aggregate(kind: MirrorAggregate, values: { value: Prisma.JsonValue; updatedAt: Date }[]): Prisma.JsonValue {
+  const present = values.filter((v) => v.value !== null && v.value !== '');
+
+  switch (kind) {
+    case 'count':
+      return present.length;
+    case 'sum':
+      return present.reduce((sum, v) => sum + (toNumber(v.value) ?? 0), 0);
+    case 'min':
+    case 'max': {
+      // Numbers compare numerically; dates and text compare as strings, which orders ISO dates correctly
+      const numbers = present.map((v) => toNumber(v.value)).filter((n): n is number => n !== null);
+      if (numbers.length === present.length && numbers.length > 0) {
+        return kind === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+      }
+      const strings = present.map((v) => String(v.value)).sort();
+      return strings.length ? (kind === 'min' ? strings[0] : strings[strings.length - 1]) : null;
+    }
+    case 'latest': {
+      const latest = [...present].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+      return latest ? latest.value : null;
+    }
+  }
+}
+
+// Fills in RELATION and MIRROR values for the viewer, leaving out tasks on boards they can't see
+export async function withRelationValues<T extends { id: string; fieldValues: { columnId: string; value: Prisma.JsonValue }[] }>(
+  tasks: T[],
+  columns: Column[],
+  userId: string
+): Promise<T[]> {
+  const relations = columns.filter((c) => c.type === FieldType.RELATION && c.settings);
+  const mirrors = columns.filter((c) => c.type === FieldType.MIRROR && c.settings);
+  if (relations.length === 0 || tasks.length === 0) return tasks;
+
+  const taskIds = tasks.map((t) => t.id);
+  const rows = await prisma.taskRelation.findMany({
+    where: {
+      OR: [
+        { columnId: { in: relations.map((c) => c.id) }, sourceTaskId: { in: taskIds } },
+        { columnId: { in: relations.map((c) => relationSettings(c).pairedColumnId) }, targetTaskId: { in: taskIds } },
+      ],
+    },
+  });
+
+  // relation column ID -> task ID -> linked task IDs
+  const links = new Map(relations.map((c) => [c.id, new Map<string, string[]>()]));
+  const addLink = (columnId: string, taskId: string, linkedId: string) => {
+    const byTask = links.get(columnId)!;
+    byTask.set(taskId, [...(byTask.get(taskId) || []), linkedId]);
+  };
+  for (const row of rows) {
+    if (links.has(row.columnId) && taskIds.includes(row.sourceTaskId)) {
+      addLink(row.columnId, row.sourceTaskId, row.targetTaskId);
+    }
+    const pair = relations.find((c) => relationSettings(c).pairedColumnId === row.columnId);
+    if (pair && taskIds.includes(row.targetTaskId)) {
+      addLink(pair.id, row.targetTaskId, row.sourceTaskId);
+    }
+  }
+
+  const linkedIds = [...new Set(rows.flatMap((r) => [r.sourceTaskId, r.targetTaskId]))];
+  const mirroredColumnIds = mirrors.map((c) => mirrorSettings(c).mirrorColumnId).filter(Boolean);
+  const linkedTasks = await prisma.task.findMany({
+    where: { id: { in: linkedIds }, isActive: true, group: { isActive: true } },
+    select: {
+      id: true,
+      name: true,
+      group: { select: { boardId: true } },
+      fieldValues: { where: { columnId: { in: mirroredColumnIds } }, select: { columnId: true, value: true, updatedAt: true } },
+    },
+  });
+
+  // One access check per linked board, reusing the same rules as opening that board
+  const boardIds = [...new Set(linkedTasks.map((t) => t.group.boardId))];
+  const accessible = new Set<string>();
+  for (const boardId of boardIds) {
+    if (await checkBoardAccess(boardId, userId)) accessible.add(boardId);
+  }
+  const visible = new Map(
+    linkedTasks.filter((t) => accessible.has(t.group.boardId)).map((t) => [t.id, t])
+  );
+
+  return tasks.map((task) => {
+    const computed = new Map<string, Prisma.JsonValue>();
+
+    for (const column of relations) {
+      const linked = (links.get(column.id)!.get(task.id) || [])
+        .map((id) => visible.get(id))
+        .filter((t): t is NonNullable<typeof t> => !!t);
+      const value: LinkedTask[] = linked.map((t) => ({ id: t.id, name: t.name, boardId: t.group.boardId }));
+      computed.set(column.id, value as unknown as Prisma.JsonValue);
+    }
+
+    for (const column of mirrors) {
+      const { relationColumnId, mirrorColumnId, aggregate: kind } = mirrorSettings(column);
+      const linked = ((computed.get(relationColumnId) as unknown as LinkedTask[] | undefined) || [])
+        .map((t) => visible.get(t.id)!);
+      const values = kind === 'count' && !mirrorColumnId
+        ? linked.map((t) => ({ value: t.id as Prisma.JsonValue, updatedAt: new Date() }))
+        : linked.flatMap((t) => t.fieldValues.filter((fv) => fv.columnId === mirrorColumnId));
+      computed.set(column.id, aggregate(kind, values));
+    }
+
+    const fieldValues = [
+      ...task.fieldValues.filter((fv) => !computed.has(fv.columnId)),
+      ...[...computed].map(([columnId, value]) => ({ id: `${task.id}:${columnId}`, taskId: task.id, columnId, value })),
+    ];
+    return { ...task, fieldValues: fieldValues as T['fieldValues'] };
+  });
+}
@@ -0,0 +1,91 @@
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { lookup } from 'dns';
+
+const TIMEOUT_MS = 5000;
+const MAX_BYTES = 2 * 1024 * 1024;
+
+// Loopback, private, link-local (cloud metadata lives there), shared, reserved and multicast ranges
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPublicAddress = (address: string) => !blocked.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Resolves like the default lookup but fails for internal addresses. Checking here, on the address the socket
+// connects to, means a hostname can't pass a check and then resolve somewhere else.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    const internal = addresses.find((a) => !isPublicAddress(a.address));
+    if (internal) return callback(new Error(`${hostname} resolves to an internal address`), '', 0);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Downloads an image from a public https address, or returns null. Redirects aren't followed, anything that
+// isn't an image is refused and the download stops once it passes MAX_BYTES.
+export function fetchRemoteImage(url: string): Promise<Buffer | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return Promise.resolve(null);
+  }
+  if (target.protocol !== 'https:') return Promise.resolve(null);
+
+  // Addresses written into the URL skip the lookup, so they are checked here
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const req = https.get(target, { lookup: publicLookup, timeout: TIMEOUT_MS }, (res) => {
+      const type = res.headers['content-type'] || '';
+      const length = Number(res.headers['content-length'] || 0);
+      if (res.statusCode !== 200 || !type.startsWith('image/') || length > MAX_BYTES) {
+        res.destroy();
+        return resolve(null);
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BYTES) {
+          req.destroy();
+          return resolve(null);
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve(Buffer.concat(chunks)));
+      res.on('error', () => resolve(null));
+    });
+    req.on('timeout', () => req.destroy());
+    req.on('error', () => resolve(null));
+  });
+}
@@ -0,0 +1,212 @@
+import { RentCharge, RentPayment } from '@prisma/client';
+import { prisma } from './prisma';
+import { Converter } from './currency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ChargeStatus = 'PAID' | 'PARTIAL' | 'UNPAID';
+
+export const PAYMENT_SELECT = {
+  id: true,
+  leaseId: true,
+  chargeId: true,
+  amount: true,
+  paidAt: true,
+  method: true,
+  reference: true,
+  notes: true,
+  createdAt: true,
+  recordedBy: { select: { id: true, name: true } },
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function monthStart(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(date: Date, months: number) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+// Rent falls due on the lease's start day of each month, or the month's last day when it's shorter
+function dueDateFor(startDate: Date, period: Date) {
+  const lastDay = new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth(), Math.min(startDate.getUTCDate(), lastDay)));
+}
+
+const dayOf = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+
+// Brings a lease's charges in line with its dates: one per month it runs, up to the current month. Charges for
+// months outside the lease are dropped unless something was paid against them; existing charges keep their amount.
+export async function syncLeaseCharges(leaseId: string, now = new Date()) {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    include: { charges: { include: { _count: { select: { payments: true } } } } },
+  });
+  if (!lease) return;
+
+  const expected: { period: Date; dueDate: Date }[] = [];
+  const lastPeriod = monthStart(now);
+  for (let period = monthStart(lease.startDate); period <= lastPeriod; period = addMonths(period, 1)) {
+    const dueDate = dueDateFor(lease.startDate, period);
+    if (lease.endDate && dayOf(dueDate) > dayOf(lease.endDate)) break;
+    expected.push({ period, dueDate });
+  }
+
+  const periods = new Set(expected.map((e) => e.period.getTime()));
+  const stale = lease.charges.filter((c) => !periods.has(c.period.getTime()) && c._count.payments === 0);
+  if (stale.length > 0) {
+    await prisma.rentCharge.deleteMany({ where: { id: { in: stale.map((c) => c.id) } } });
+  }
+
+  const existing = new Set(lease.charges.map((c) => c.period.getTime()));
+  const missing = expected.filter((e) => !existing.has(e.period.getTime()));
+  if (missing.length > 0) {
+    await prisma.rentCharge.createMany({
+      data: missing.map((e) => ({ leaseId, period: e.period, dueDate: e.dueDate, amount: lease.monthlyRent })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+// Raises this month's charge for every lease running now
+export async function generateRentCharges(now = new Date()) {
+  const leases = await prisma.lease.findMany({
+    where: {
+      startDate: { lte: now },
+      OR: [{ endDate: null }, { endDate: { gte: monthStart(now) } }],
+      property: { task: { isActive: true } },
+    },
+    select: { id: true },
+  });
+
+  for (const lease of leases) {
+    await syncLeaseCharges(lease.id, now);
+  }
+}
+
+export function startRentLedgerScheduler(intervalMs = 6 * 60 * 60 * 1000) {
+  const sweep = () => generateRentCharges().catch((error) => console.error('Rent charge error:', error));
+  sweep();
+  return setInterval(sweep, intervalMs);
+}
+
+// What has been paid against a charge and what's left. A charge is overdue while something is still owed after its
+// due date, and paid late once any payment towards it came after that date.
+export function chargeBalance(charge: RentCharge & { payments: Pick<RentPayment, 'amount' | 'paidAt'>[] }, now = new Date()) {
+  const amount = Number(charge.amount);
+  const paid = round2(charge.payments.reduce((sum, p) => sum + Number(p.amount), 0));
+  const balance = round2(Math.max(amount - paid, 0));
+  const status: ChargeStatus = balance === 0 ? 'PAID' : paid > 0 ? 'PARTIAL' : 'UNPAID';
+
+  return {
+    paid,
+    balance,
+    status,
+    overdue: balance > 0 && dayOf(charge.dueDate) < dayOf(now),
+    paidLate: charge.payments.some((p) => dayOf(p.paidAt) > dayOf(charge.dueDate)),
+  };
+}
+
+// Rent owed on charges already due
+export function arrears(charges: (RentCharge & { payments: Pick<RentPayment, 'amount' | 'paidAt'>[] })[], now = new Date()) {
+  return round2(
+    charges
+      .filter((c) => dayOf(c.dueDate) <= dayOf(now))
+      .reduce((sum, c) => sum + chargeBalance(c, now).balance, 0)
+  );
+}
+
+// Splits a payment over a lease's open charges, oldest first, or puts it all on the given charge. Returns an error
+// message when the payment is more than is owed.
+export async function allocatePayment(leaseId: string, amount: number, chargeId?: string) {
+  const charges = await prisma.rentCharge.findMany({
+    where: { leaseId, ...(chargeId && { id: chargeId }) },
+    include: { payments: { select: { amount: true, paidAt: true } } },
+    orderBy: { period: 'asc' },
+  });
+  if (chargeId && charges.length === 0) {
+    return { error: 'Charge not found' };
+  }
+
+  const allocations: { chargeId: string; amount: number }[] = [];
+  let remaining = round2(amount);
+  for (const charge of charges) {
+    if (remaining === 0) break;
+    const { balance } = chargeBalance(charge);
+    if (balance === 0) continue;
+
+    const share = Math.min(balance, remaining);
+    allocations.push({ chargeId: charge.id, amount: share });
+    remaining = round2(remaining - share);
+  }
+
+  if (remaining > 0) {
+    return { error: chargeId ? 'Payment exceeds the amount owed on this charge' : 'Payment exceeds the rent owed on this lease' };
+  }
+  return { allocations };
+}
+
+// Collected and expected rent, what's still owed and how occupied the properties were over a period, in the
+// converter's currency. Leases on a property with no rate to it are left out of the amounts.
+// Occupancy is the share of property-days in the period covered by a lease.
+export async function portfolioSummary(propertyIds: string[], from: Date, to: Date, converter: Converter, now = new Date()) {
+  const leases = await prisma.lease.findMany({
+    where: { propertyId: { in: propertyIds } },
+    include: {
+      property: { select: { currency: true } },
+      charges: { include: { payments: { select: { amount: true, paidAt: true } } } },
+    },
+  });
+
+  const inPeriod = (date: Date) => dayOf(date) >= dayOf(from) && dayOf(date) <= dayOf(to);
+  const asOf = to < now ? to : now;
+
+  let expected = 0;
+  let collected = 0;
+  let outstanding = 0;
+  for (const lease of leases) {
+    const convert = (amount: number) => converter.convert(amount, lease.property.currency) ?? 0;
+    const payments = lease.charges.flatMap((c) => c.payments);
+    expected += convert(lease.charges.filter((c) => inPeriod(c.dueDate)).reduce((sum, c) => sum + Number(c.amount), 0));
+    collected += convert(payments.filter((p) => inPeriod(p.paidAt)).reduce((sum, p) => sum + Number(p.amount), 0));
+    outstanding += convert(
+      arrears(
+        lease.charges.map((c) => ({ ...c, payments: c.payments.filter((p) => p.paidAt <= asOf) })),
+        asOf
+      )
+    );
+  }
+
+  const periodDays = dayOf(to) - dayOf(from) + 1;
+  const leasedDays = new Map<string, Set<number>>();
+  for (const lease of leases) {
+    const first = Math.max(dayOf(lease.startDate), dayOf(from));
+    const last = Math.min(lease.endDate ? dayOf(lease.endDate) : Infinity, dayOf(to));
+    const days = leasedDays.get(lease.propertyId) || new Set<number>();
+    for (let day = first; day <= last; day++) days.add(day);
+    leasedDays.set(lease.propertyId, days);
+  }
+  const occupiedDays = [...leasedDays.values()].reduce((sum, days) => sum + days.size, 0);
+
+  const occupied = new Set(
+    leases
+      .filter((l) => dayOf(l.startDate) <= dayOf(asOf) && (!l.endDate || dayOf(l.endDate) >= dayOf(asOf)))
+      .map((l) => l.propertyId)
+  ).size;
+
+  return {
+    from: from.toISOString().substring(0, 10),
+    to: to.toISOString().substring(0, 10),
+    ...converter.summary(),
+    expected: round2(expected),
+    collected: round2(collected),
+    outstanding: round2(outstanding),
+    occupancy: {
+      properties: propertyIds.length,
+      occupied,
+      rate: propertyIds.length > 0 ? round2(occupiedDays / (propertyIds.length * periodDays)) : 0,
+    },
+  };
+}
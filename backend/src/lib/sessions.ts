@@ -0,0 +1,100 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { createSecretToken, hashToken } from './tokens';
+import { disconnectSessions } from './realtime';
+
+export const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+
+// "15m", "12h", "30d" or a number of seconds
+function durationMs(value: string | undefined, fallback: string) {
+  const match = (value || fallback).trim().match(/^(\d+)\s*([smhd]?)$/);
+  if (!match) return durationMs(undefined, fallback);
+  const unit = { '': 1, s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 }[match[2] as '' | 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit * 1000;
+}
+
+// Access tokens are short-lived; the refresh token keeps a device signed in, and each use extends the session
+const ACCESS_TTL_MS = durationMs(process.env.JWT_EXPIRES_IN, '15m');
+const REFRESH_TTL_MS = durationMs(process.env.JWT_REFRESH_EXPIRES_IN, '30d');
+
+export const SESSION_SELECT = {
+  id: true,
+  deviceName: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+};
+
+export interface AccessPayload {
+  userId: string;
+  sessionId: string;
+}
+
+const accessToken = (userId: string, sessionId: string) =>
+  jwt.sign({ userId, sessionId } satisfies AccessPayload, JWT_SECRET, { expiresIn: Math.floor(ACCESS_TTL_MS / 1000) });
+
+// The refresh token names its session, so a replaced token can be told apart from a made-up one
+const refreshToken = (sessionId: string, secret: string) => `${sessionId}.${secret}`;
+
+// Signs the user in on a new device
+export async function createSession(userId: string, req: Request) {
+  const { token: secret, tokenHash } = createSecretToken();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: tokenHash,
+      deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName.slice(0, 100) : null,
+      userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+      ipAddress: req.ip || null,
+      expiresAt: new Date(Date.now() + REFRESH_TTL_MS),
+    },
+  });
+  return { token: accessToken(userId, session.id), refreshToken: refreshToken(session.id, secret) };
+}
+
+// Swaps a refresh token for new tokens. A token that was already swapped revokes its session, since either the
+// client or someone holding a copy of it is replaying it.
+export async function rotateSession(presented: string, req: Request) {
+  const [sessionId, secret] = presented.split('.');
+  const session = secret
+    ? await prisma.session.findUnique({ where: { id: sessionId }, include: { user: { select: { isActive: true } } } })
+    : null;
+
+  if (!session || session.revokedAt || session.expiresAt < new Date() || !session.user.isActive) {
+    return { error: 'Invalid refresh token' };
+  }
+
+  const next = createSecretToken();
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hashToken(secret), revokedAt: null },
+    data: {
+      refreshTokenHash: next.tokenHash,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TTL_MS),
+      userAgent: req.headers['user-agent']?.slice(0, 500) || session.userAgent,
+      ipAddress: req.ip || session.ipAddress,
+    },
+  });
+
+  if (rotated.count === 0) {
+    await revokeSessions({ id: session.id });
+    return { error: 'Refresh token was already used; the session has been signed out' };
+  }
+
+  return { token: accessToken(session.userId, session.id), refreshToken: refreshToken(session.id, next.token) };
+}
+
+// Signs sessions out, and drops their live connections
+export async function revokeSessions(where: Prisma.SessionWhereInput) {
+  const sessions = await prisma.session.findMany({ where: { ...where, revokedAt: null }, select: { id: true } });
+  if (sessions.length === 0) return 0;
+
+  const ids = sessions.map((s) => s.id);
+  await prisma.session.updateMany({ where: { id: { in: ids } }, data: { revokedAt: new Date() } });
+  disconnectSessions(ids);
+  return ids.length;
+}
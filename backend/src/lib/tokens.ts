@@ -0,0 +1,9 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Secret for an emailed link. The link carries the token; the database only keeps its hash.
+export function createSecretToken() {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+}
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
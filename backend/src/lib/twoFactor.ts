@@ -0,0 +1,221 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { hashToken } from './tokens';
+import { JWT_SECRET } from './sessions';
+
+// Standard authenticator-app settings (RFC 6238): 6 digits from HMAC-SHA1 over 30-second steps
+const ISSUER = 'Od Sifra';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from the neighbouring steps are accepted too, for phone clocks that drift
+const WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Time allowed between entering the password and entering the code
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Wrong codes allowed before code checks are locked for a while. They are counted per user, so neither a new login
+// challenge nor a signed-in session buys more guesses.
+const MAX_CODE_FAILURES = 5;
+const LOCKOUT_MINUTES = 15;
+
+// Roles a workspace's 2FA requirement applies to
+const STAFF_ROLES = [UserRole.OWNER_ADMIN, UserRole.EMPLOYEE];
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(data: Buffer) {
+  let bits = '';
+  for (const byte of data) bits += byte.toString(2).padStart(8, '0');
+  let out = '';
+  for (let i = 0; i < bits.length; i += 5) out += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  return out;
+}
+
+function base32Decode(text: string) {
+  let bits = '';
+  for (const char of text.toUpperCase().replace(/=+$/, '')) {
+    const value = BASE32.indexOf(char);
+    if (value >= 0) bits += value.toString(2).padStart(5, '0');
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+}
+
+const normalize = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+const isAppCode = (code: string) => new RegExp(`^\\d{${DIGITS}}$`).test(code);
+
+// The code for one time step
+function totp(key: Buffer, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, '0');
+}
+
+// The time step the code belongs to, or null. Steps up to lastStep were already used and don't count.
+function matchCode(secret: string, code: string, lastStep: number | null) {
+  // timingSafeEqual throws on inputs of different lengths
+  if (!isAppCode(code)) return null;
+
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (timingSafeEqual(Buffer.from(totp(key, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+// Records the step as used. Fails when a request for the same or a later step got there first.
+async function claimStep(userId: string, step: number) {
+  const claimed = await prisma.user.updateMany({
+    where: { id: userId, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+    data: { twoFactorLastStep: step },
+  });
+  return claimed.count > 0;
+}
+
+// Starts enrollment with a new secret, replacing one from an enrollment that wasn't finished. The QR code is
+// a data URL for authenticator apps to scan; the secret is for typing in by hand.
+export async function startEnrollment(user: { id: string; email: string }) {
+  const secret = base32Encode(randomBytes(20));
+  await prisma.user.update({ where: { id: user.id }, data: { twoFactorSecret: secret, twoFactorLastStep: null } });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Turns 2FA on once the user proves their app has the secret. Returns the recovery codes, or null for a wrong code.
+export async function finishEnrollment(userId: string, code: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user?.twoFactorSecret || user.twoFactorEnabled) return null;
+
+  const step = matchCode(user.twoFactorSecret, normalize(code), null);
+  if (step === null) return null;
+
+  await prisma.user.update({ where: { id: userId }, data: { twoFactorEnabled: true, twoFactorLastStep: step } });
+  return createRecoveryCodes(userId);
+}
+
+// Checks a code from the authenticator app, or an unused recovery code, and uses it up
+async function verifySecondFactor(userId: string, input: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  const code = normalize(input);
+  if (isAppCode(code)) {
+    const step = matchCode(user.twoFactorSecret, code, user.twoFactorLastStep);
+    if (step === null) return false;
+    return claimStep(userId, step);
+  }
+
+  const used = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count > 0;
+}
+
+// Checks a code the user typed, at sign-in or to change their 2FA settings, counting wrong ones towards a lockout.
+// Returns an error message for a wrong code, with locked set once the user has to wait.
+export async function verifyCodeWithLockout(
+  userId: string,
+  code: string
+): Promise<{ error?: string; locked?: boolean }> {
+  const lockedMessage = `Too many wrong codes; try again in ${LOCKOUT_MINUTES} minutes`;
+
+  // The attempt is counted before the code is checked, so parallel guesses can't get past the limit
+  const now = new Date();
+  const counted = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      twoFactorFailures: { lt: MAX_CODE_FAILURES },
+      OR: [{ twoFactorLockedUntil: null }, { twoFactorLockedUntil: { lte: now } }],
+    },
+    data: { twoFactorFailures: { increment: 1 } },
+  });
+  if (counted.count === 0) return { error: lockedMessage, locked: true };
+
+  if (await verifySecondFactor(userId, code)) {
+    await prisma.user.update({ where: { id: userId }, data: { twoFactorFailures: 0, twoFactorLockedUntil: null } });
+    return {};
+  }
+
+  const { twoFactorFailures } = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { twoFactorFailures: true },
+  });
+  if (twoFactorFailures < MAX_CODE_FAILURES) return { error: 'Invalid code' };
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorFailures: 0, twoFactorLockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) },
+  });
+  return { error: lockedMessage, locked: true };
+}
+
+// Issues a new set of recovery codes, replacing the old ones. They are shown once; only hashes are stored.
+export async function createRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => randomBytes(5).toString('hex'));
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({ data: codes.map((code) => ({ userId, codeHash: hashToken(code) })) }),
+  ]);
+  return codes.map((code) => `${code.slice(0, 5)}-${code.slice(5)}`);
+}
+
+export async function disableTwoFactor(userId: string) {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+        twoFactorFailures: 0,
+        twoFactorLockedUntil: null,
+      },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+// Names of the workspaces where the user is staff and 2FA is required
+export async function workspacesRequiringTwoFactor(userId: string) {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId, isActive: true, role: { in: STAFF_ROLES }, workspace: { isActive: true, requireTwoFactor: true } },
+    select: { workspace: { select: { name: true } } },
+  });
+  return memberships.map((m) => m.workspace.name);
+}
+
+// True when a workspace requires 2FA of the user and they haven't turned it on yet
+export async function twoFactorSetupRequired(user: { id: string; twoFactorEnabled: boolean }) {
+  if (user.twoFactorEnabled) return false;
+  return (await workspacesRequiringTwoFactor(user.id)).length > 0;
+}
+
+// Login gives a user with 2FA this instead of tokens. It only proves the password was right, and is swapped for
+// tokens together with a code.
+export const createLoginChallenge = (userId: string) =>
+  jwt.sign({ userId, purpose: 'two-factor' }, JWT_SECRET, { expiresIn: CHALLENGE_TTL_SECONDS });
+
+// The user a login challenge belongs to, or null when it is invalid or has expired
+export function readLoginChallenge(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; purpose?: string };
+    return decoded.purpose === 'two-factor' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,9 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
 import { UserRole } from '@prisma/client';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+import { verificationRequired } from '../lib/emailVerification';
+import { AccessPayload, JWT_SECRET } from '../lib/sessions';
+import { twoFactorSetupRequired } from '../lib/twoFactor';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -11,47 +13,137 @@ export interface AuthRequest extends Request {
     email: string;
     name: string;
     role: UserRole;
+    avatarUrl?: string | null;
+    emailVerified: boolean;
+    twoFactorSetupRequired: boolean;
+    sessionId: string;
   };
 }
 
+// Resolves an access token to its active user, or null when the token is invalid, its session was signed out
+// or the user is gone
+export async function verifyToken(token: string): Promise<AuthRequest['user'] | null> {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as AccessPayload;
+    if (!decoded.sessionId) return null;
+
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            avatarUrl: true,
+            isActive: true,
+            emailVerified: true,
+            twoFactorEnabled: true,
+          },
+        },
+      },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date() || session.userId !== decoded.userId) return null;
+
+    const { user } = session;
+    if (!user.isActive) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      avatarUrl: user.avatarUrl,
+      emailVerified: user.emailVerified,
+      twoFactorSetupRequired: await twoFactorSetupRequired(user),
+      sessionId: session.id,
+    };
+  } catch {
+    return null;
+  }
+}
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  try {
-    const authHeader = req.headers.authorization;
+  const authHeader = req.headers.authorization;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({ error: 'No token provided' });
-      return;
-    }
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({ error: 'No token provided' });
+    return;
+  }
+
+  const user = await verifyToken(authHeader.substring(7));
+
+  if (!user) {
+    res.status(401).json({ error: 'Invalid token' });
+    return;
+  }
+
+  req.user = user;
 
-    const token = authHeader.substring(7);
+  next();
+};
+
+// Goes after authenticate on routes that expose workspace data, which unverified accounts don't get
+export const requireVerifiedEmail = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.user && !req.user.emailVerified && verificationRequired()) {
+    res.status(403).json({ error: 'Please verify your email address first', code: 'EMAIL_NOT_VERIFIED' });
+    return;
+  }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+  next();
+};
 
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, name: true, role: true, isActive: true },
+// Goes after requireVerifiedEmail: admins and employees of a workspace that requires 2FA get no workspace data
+// until they turn it on
+export const requireTwoFactorSetup = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.user?.twoFactorSetupRequired) {
+    res.status(403).json({
+      error: 'Your workspace requires two-factor authentication; turn it on to continue',
+      code: 'TWO_FACTOR_REQUIRED',
     });
+    return;
+  }
 
-    if (!user || !user.isActive) {
-      res.status(401).json({ error: 'User not found or inactive' });
-      return;
-    }
+  next();
+};
 
-    req.user = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    };
+// Socket.io counterpart of authenticate: clients send the JWT as auth.token (or a Bearer header), and the
+// connection is refused unless it resolves to an active user, which is kept on socket.data.user
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  const header = socket.handshake.headers.authorization;
+  const token = socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.substring(7) : undefined);
 
-    next();
-  } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+  if (typeof token !== 'string' || !token) {
+    next(new Error('No token provided'));
+    return;
+  }
+
+  const user = await verifyToken(token);
+
+  if (!user) {
+    next(new Error('Invalid token'));
+    return;
   }
+
+  if (!user.emailVerified && verificationRequired()) {
+    next(new Error('Email not verified'));
+    return;
+  }
+
+  if (user.twoFactorSetupRequired) {
+    next(new Error('Two-factor authentication required'));
+    return;
+  }
+
+  socket.data.user = user;
+
+  next();
 };
 
 export const authorize = (...roles: UserRole[]) => {
@@ -0,0 +1,18 @@
+import { Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AuthRequest } from './auth';
+
+// Uploaded spreadsheets are parsed in memory, never written to disk
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+export const uploadFile = (req: AuthRequest, res: Response, next: NextFunction) =>
+  upload.single('file')(req, res, (err: any) => {
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 10 MB' : err.message });
+    }
+    if (err) return next(err);
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    next();
+  });
@@ -1,41 +1,76 @@
 import { Router, Request, Response } from 'express';
-import { body } from 'express-validator';
+import { body, matchedData, param, query } from 'express-validator';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { validate } from '../middleware/validate';
 import { prisma } from '../lib/prisma';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { UserRole, InviteStatus } from '@prisma/client';
+import { appUrl, queueEmail } from '../lib/mailer';
+import { createPasswordResetToken, findPasswordResetToken, resetPassword, RESET_TTL_MINUTES } from '../lib/passwordReset';
+import { sendVerificationEmail, verifyEmail } from '../lib/emailVerification';
+import { createSession, revokeSessions, rotateSession, SESSION_SELECT } from '../lib/sessions';
+import {
+  createLoginChallenge,
+  createRecoveryCodes,
+  disableTwoFactor,
+  finishEnrollment,
+  readLoginChallenge,
+  startEnrollment,
+  twoFactorSetupRequired,
+  verifyCodeWithLockout,
+  workspacesRequiringTwoFactor,
+} from '../lib/twoFactor';
 
 const router = Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
-const JWT_EXPIRES_IN = '7d';
-
-function generateToken(userId: string): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+// Signs the user in on this device: the response login gives once the password (and code, with 2FA) checks out
+async function completeLogin(userId: string, req: Request) {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { lastLoginAt: new Date() },
+    include: {
+      workspaces: {
+        where: { isActive: true },
+        include: { workspace: { select: { id: true, name: true, slug: true } } },
+      },
+    },
+  });
+
+  const { token, refreshToken } = await createSession(user.id, req);
+
+  return {
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      twoFactorSetupRequired: await twoFactorSetupRequired(user),
+      workspaces: user.workspaces.map((m) => ({
+        ...m.workspace,
+        role: m.role,
+      })),
+    },
+  };
 }
 
-// Login
+// Login. With 2FA on, the response is a challenge to send with a code to /login/2fa instead of tokens.
 router.post(
   '/login',
   validate([
     body('email').isEmail().toLowerCase().withMessage('Valid email required'),
     body('password').notEmpty().withMessage('Password required'),
+    body('deviceName').optional().trim(),
   ]),
   async (req: Request, res: Response) => {
     try {
       const { email, password } = req.body;
 
-      const user = await prisma.user.findUnique({
-        where: { email },
-        include: {
-          workspaces: {
-            where: { isActive: true },
-            include: { workspace: { select: { id: true, name: true, slug: true } } },
-          },
-        },
-      });
+      const user = await prisma.user.findUnique({ where: { email } });
 
       if (!user) {
         return res.status(401).json({ error: 'Invalid credentials' });
@@ -50,28 +85,43 @@ router.post(
         return res.status(401).json({ error: 'Account is disabled' });
       }
 
-      // Update last login
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
-      });
+      if (user.twoFactorEnabled) {
+        return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user.id) });
+      }
 
-      const token = generateToken(user.id);
+      res.json(await completeLogin(user.id, req));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
 
-      res.json({
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          avatarUrl: user.avatarUrl,
-          role: user.role,
-          workspaces: user.workspaces.map((m) => ({
-            ...m.workspace,
-            role: m.role,
-          })),
-        },
-      });
+// Second login step: the challenge from /login plus an authenticator code or a recovery code
+router.post(
+  '/login/2fa',
+  validate([
+    body('challengeToken').isString().notEmpty(),
+    body('code').isString().trim().notEmpty().withMessage('Code is required'),
+    body('deviceName').optional().trim(),
+  ]),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = readLoginChallenge(req.body.challengeToken);
+      if (!userId) {
+        return res.status(401).json({ error: 'Sign-in attempt has expired; enter your password again' });
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { isActive: true } });
+      if (!user?.isActive) {
+        return res.status(401).json({ error: 'Account is disabled' });
+      }
+
+      const result = await verifyCodeWithLockout(userId, req.body.code);
+      if (result.error) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.error });
+      }
+
+      res.json(await completeLogin(userId, req));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -86,6 +136,7 @@ router.post(
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
     body('name').trim().notEmpty().withMessage('Name is required'),
     body('inviteToken').optional().trim(),
+    body('deviceName').optional().trim(),
   ]),
   async (req: Request, res: Response) => {
     try {
@@ -158,16 +209,32 @@ router.post(
         });
       }
 
-      const token = generateToken(user.id);
+      // Invited users proved their address by following the invite; everyone else confirms it by email
+      if (invite) {
+        await queueEmail(
+          user.email,
+          'welcome',
+          { name: user.name, workspaceName: invite.workspace.name, url: appUrl('/login') },
+          workspaceId
+        );
+      } else {
+        await sendVerificationEmail(user);
+      }
+
+      const { token, refreshToken } = await createSession(user.id, req);
 
       res.status(201).json({
         token,
+        refreshToken,
         user: {
           id: user.id,
           email: user.email,
           name: user.name,
           avatarUrl: user.avatarUrl,
           role: user.role,
+          emailVerified: user.emailVerified,
+          twoFactorEnabled: false,
+          twoFactorSetupRequired: await twoFactorSetupRequired(user),
           workspaces: user.workspaces.map((m) => ({
             ...m.workspace,
             role: m.role,
@@ -180,6 +247,84 @@ router.post(
   }
 );
 
+// Swap a refresh token for a new access token and refresh token
+router.post(
+  '/refresh',
+  validate([body('refreshToken').isString().notEmpty()]),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await rotateSession(req.body.refreshToken, req);
+      if ('error' in result) {
+        return res.status(401).json({ error: result.error });
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Sign out this device
+router.post('/logout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSessions({ id: req.user!.sessionId });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get my signed-in devices, most recently used first
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user!.id, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: SESSION_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    res.json({ sessions: sessions.map((s) => ({ ...s, current: s.id === req.user!.sessionId })) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Sign out one of my devices
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeSessions({ id: req.params.id, userId: req.user!.id });
+    if (revoked === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Sign out all my devices, or all but this one with ?exceptCurrent=true
+router.delete(
+  '/sessions',
+  authenticate,
+  validate([query('exceptCurrent').optional().isBoolean()]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const exceptCurrent = req.query.exceptCurrent === 'true';
+      const revoked = await revokeSessions({
+        userId: req.user!.id,
+        ...(exceptCurrent && { id: { not: req.user!.sessionId } }),
+      });
+
+      res.json({ revoked });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Get current user
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -205,6 +350,9 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
         avatarUrl: user.avatarUrl,
         phone: user.phone,
         role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        twoFactorSetupRequired: req.user!.twoFactorSetupRequired,
         workspaces: user.workspaces.map((m) => ({
           ...m.workspace,
           role: m.role,
@@ -224,12 +372,20 @@ router.patch(
     body('name').optional().trim().notEmpty(),
     body('phone').optional().trim(),
     body('avatarUrl').optional().trim(),
+    // Verification only comes from the emailed link
+    body('emailVerified').not().exists().withMessage('Email verification cannot be changed here'),
+    // 2FA is turned on and off through /2fa, which asks for a code
+    body(['twoFactorEnabled', 'twoFactorSecret', 'twoFactorLastStep'])
+      .not()
+      .exists()
+      .withMessage('Two-factor authentication cannot be changed here'),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
+      // Only the profile fields above are written; anything else in the body is dropped
       const user = await prisma.user.update({
         where: { id: req.user!.id },
-        data: req.body,
+        data: matchedData(req, { locations: ['body'] }),
         select: { id: true, email: true, name: true, avatarUrl: true, phone: true, role: true },
       });
 
@@ -268,6 +424,236 @@ router.post(
         data: { passwordHash },
       });
 
+      // Other devices sign in again with the new password
+      await revokeSessions({ userId: req.user!.id, id: { not: req.user!.sessionId } });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get my two-factor status, and the workspaces that require it
+router.get('/2fa', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { twoFactorEnabled: true, _count: { select: { recoveryCodes: { where: { usedAt: null } } } } },
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      enabled: user.twoFactorEnabled,
+      recoveryCodesRemaining: user._count.recoveryCodes,
+      requiredBy: await workspacesRequiringTwoFactor(req.user!.id),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Start turning on 2FA: a new secret and its QR code for the authenticator app
+router.post('/2fa/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already on' });
+    }
+
+    res.json(await startEnrollment(user));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Finish turning on 2FA with a code from the app. Returns the recovery codes, which are only shown this once.
+router.post(
+  '/2fa/enable',
+  authenticate,
+  validate([body('code').isString().trim().notEmpty().withMessage('Code is required')]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const recoveryCodes = await finishEnrollment(req.user!.id, req.body.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: 'Invalid code' });
+      }
+
+      // Devices signed in with only the password sign in again with a code
+      await revokeSessions({ userId: req.user!.id, id: { not: req.user!.sessionId } });
+
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Turn off 2FA. Takes the password and a code, and isn't allowed while a workspace requires 2FA.
+router.post(
+  '/2fa/disable',
+  authenticate,
+  validate([
+    body('password').notEmpty().withMessage('Password is required'),
+    body('code').isString().trim().notEmpty().withMessage('Code is required'),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (!user.twoFactorEnabled) {
+        return res.status(400).json({ error: 'Two-factor authentication is not on' });
+      }
+
+      const requiredBy = await workspacesRequiringTwoFactor(user.id);
+      if (requiredBy.length > 0) {
+        return res.status(400).json({ error: `Two-factor authentication is required by ${requiredBy.join(', ')}` });
+      }
+
+      const validPassword = await bcrypt.compare(req.body.password, user.passwordHash);
+      if (!validPassword) {
+        return res.status(400).json({ error: 'Password is incorrect' });
+      }
+
+      const result = await verifyCodeWithLockout(user.id, req.body.code);
+      if (result.error) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.error });
+      }
+
+      await disableTwoFactor(user.id);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Replace my recovery codes, e.g. after using some. Takes a code to show the app is still at hand.
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  validate([body('code').isString().trim().notEmpty().withMessage('Code is required')]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await verifyCodeWithLockout(req.user!.id, req.body.code);
+      if (result.error) {
+        return res.status(result.locked ? 429 : 400).json({ error: result.error });
+      }
+
+      res.json({ recoveryCodes: await createRecoveryCodes(req.user!.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Confirm an email address with the link from the verification email. A POST, so mail scanners that open
+// links don't use the token up.
+router.post(
+  '/verify-email',
+  validate([body('token').isHexadecimal()]),
+  async (req: Request, res: Response) => {
+    try {
+      if (!(await verifyEmail(req.body.token))) {
+        return res.status(400).json({ error: 'Verification link is invalid or has expired' });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Send the signed-in user a new verification link
+router.post('/resend-verification', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (req.user!.emailVerified) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    const result = await sendVerificationEmail(req.user!);
+    if (result.error) {
+      return res.status(429).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Email a password reset link. Answers the same whether or not the address has an account.
+router.post(
+  '/forgot-password',
+  validate([body('email').isEmail().toLowerCase().withMessage('Valid email required')]),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await prisma.user.findUnique({ where: { email: req.body.email } });
+
+      if (user?.isActive) {
+        const token = await createPasswordResetToken(user.id);
+        await queueEmail(user.email, 'passwordReset', {
+          name: user.name,
+          url: appUrl(`/reset-password?token=${token}`),
+          expiresInMinutes: RESET_TTL_MINUTES,
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Check a reset link before showing the form
+router.get(
+  '/reset-password/:token',
+  validate([param('token').isHexadecimal()]),
+  async (req: Request, res: Response) => {
+    try {
+      const record = await findPasswordResetToken(req.params.token);
+      if (!record) {
+        return res.status(400).json({ error: 'Reset link is invalid or has expired' });
+      }
+
+      res.json({ email: record.user.email, name: record.user.name });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Set a new password with a reset link
+router.post(
+  '/reset-password',
+  validate([
+    body('token').isHexadecimal(),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ]),
+  async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+
+      const record = await findPasswordResetToken(token);
+      if (!record || !(await resetPassword(record.id, record.userId, password))) {
+        return res.status(400).json({ error: 'Reset link is invalid or has expired' });
+      }
+
+      // Whoever knew the old password is signed out
+      await revokeSessions({ userId: record.userId });
+
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -331,15 +717,26 @@ router.post(
         return { user, workspace };
       });
 
-      const token = generateToken(result.user.id);
+      await queueEmail(
+        result.user.email,
+        'welcome',
+        { name: result.user.name, workspaceName: result.workspace.name, url: appUrl('/login') },
+        result.workspace.id
+      );
+
+      const { token, refreshToken } = await createSession(result.user.id, req);
 
       res.status(201).json({
         token,
+        refreshToken,
         user: {
           id: result.user.id,
           email: result.user.email,
           name: result.user.name,
           role: result.user.role,
+          emailVerified: result.user.emailVerified,
+          twoFactorEnabled: false,
+          twoFactorSetupRequired: false,
           workspaces: [{ ...result.workspace, role: UserRole.OWNER_ADMIN }],
         },
       });
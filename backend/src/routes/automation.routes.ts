@@ -0,0 +1,212 @@
+import { Router, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { AutomationRunStatus, AutomationTrigger, Prisma, UserRole } from '@prisma/client';
+import { checkBoardAccess } from '../lib/boardAccess';
+import { validateAutomation } from '../lib/automations';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
+
+const automationValidators = [
+  body('triggerConfig').optional({ nullable: true }).isObject(),
+  body('actions').optional().isArray({ min: 1 }),
+  body('isActive').optional().isBoolean(),
+];
+
+// Rules act with their creator's authority, so customers can't set them up
+async function checkManageAccess(boardId: string, userId: string) {
+  const access = await checkBoardAccess(boardId, userId);
+  if (!access) return 'Access denied';
+  if (access.role === UserRole.CUSTOMER) return 'Customers cannot manage automations';
+  return null;
+}
+
+// Get automations on a board
+router.get('/board/:boardId', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkBoardAccess(req.params.boardId, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const automations = await prisma.automation.findMany({
+      where: { boardId: req.params.boardId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        runs: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ automations });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get execution log for a board (Admin)
+router.get(
+  '/board/:boardId/runs',
+  validate([
+    param('boardId').isUUID(),
+    query('automationId').optional().isUUID(),
+    query('status').optional().isIn(Object.values(AutomationRunStatus)),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.boardId, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (access.role !== UserRole.OWNER_ADMIN) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const { automationId, status } = req.query;
+
+      const runs = await prisma.automationRun.findMany({
+        where: {
+          automation: { boardId: req.params.boardId },
+          ...(automationId && { automationId: automationId as string }),
+          ...(status && { status: status as AutomationRunStatus }),
+        },
+        include: {
+          automation: { select: { id: true, name: true, trigger: true } },
+          task: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      });
+
+      res.json({ runs });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Create automation
+router.post(
+  '/',
+  validate([
+    body('boardId').isUUID(),
+    body('name').trim().notEmpty(),
+    body('trigger').isIn(Object.values(AutomationTrigger)),
+    body('actions').isArray({ min: 1 }),
+    ...automationValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { boardId, name, trigger, triggerConfig, actions, isActive } = req.body;
+
+      const denied = await checkManageAccess(boardId, req.user!.id);
+      if (denied) {
+        return res.status(403).json({ error: denied });
+      }
+
+      const invalid = await validateAutomation(boardId, trigger, triggerConfig, actions);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const automation = await prisma.automation.create({
+        data: {
+          boardId,
+          createdById: req.user!.id,
+          name,
+          trigger,
+          triggerConfig: triggerConfig ?? Prisma.JsonNull,
+          actions,
+          isActive: isActive ?? true,
+        },
+        include: { createdBy: { select: { id: true, name: true } } },
+      });
+
+      res.status(201).json({ automation });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Update automation
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID(),
+    body('name').optional().trim().notEmpty(),
+    body('trigger').optional().isIn(Object.values(AutomationTrigger)),
+    ...automationValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const automation = await prisma.automation.findUnique({ where: { id: req.params.id } });
+      if (!automation) {
+        return res.status(404).json({ error: 'Automation not found' });
+      }
+
+      const denied = await checkManageAccess(automation.boardId, req.user!.id);
+      if (denied) {
+        return res.status(403).json({ error: denied });
+      }
+
+      const { name, trigger, triggerConfig, actions, isActive } = req.body;
+
+      // Validate the rule as it will be after the update
+      const invalid = await validateAutomation(
+        automation.boardId,
+        trigger ?? automation.trigger,
+        triggerConfig !== undefined ? triggerConfig : (automation.triggerConfig as any),
+        actions ?? automation.actions
+      );
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const updated = await prisma.automation.update({
+        where: { id: req.params.id },
+        data: {
+          name,
+          trigger,
+          triggerConfig: triggerConfig === null ? Prisma.JsonNull : triggerConfig,
+          actions,
+          isActive,
+        },
+        include: { createdBy: { select: { id: true, name: true } } },
+      });
+
+      res.json({ automation: updated });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete automation
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const automation = await prisma.automation.findUnique({ where: { id: req.params.id } });
+    if (!automation) {
+      return res.status(404).json({ error: 'Automation not found' });
+    }
+
+    const denied = await checkManageAccess(automation.boardId, req.user!.id);
+    if (denied) {
+      return res.status(403).json({ error: denied });
+    }
+
+    await prisma.automation.delete({ where: { id: req.params.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
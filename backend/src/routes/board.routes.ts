@@ -1,109 +1,36 @@
 import { Router, Response } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
+import { uploadFile } from '../middleware/upload';
 import { prisma } from '../lib/prisma';
-import { UserRole, BoardType, FieldType } from '@prisma/client';
+import { UserRole, BoardType, BoardView, Currency, FieldType, Prisma } from '@prisma/client';
+import { toDateSpan } from '../lib/fieldValues';
+import { findCriticalPath } from '../lib/dependencies';
+import { checkBoardAccess } from '../lib/boardAccess';
+import { recomputeBoardFormulas, withFormulaValues } from '../lib/formula';
+import { withRelationValues } from '../lib/relations';
+import { applyBoardQuery, validateBoardQuery, BoardFilters, BoardQuery, SortRule } from '../lib/boardQuery';
+import { BUILT_IN_TEMPLATES } from '../lib/boardTemplates';
+import { copyBoard, copyOptionsFor, COPY_MODES, CopyMode } from '../lib/boardCopy';
+import { exportBoard, EXPORT_FORMATS, ExportFormat } from '../lib/boardExport';
+import { emitToBoard } from '../lib/realtime';
+import { isCurrency, loadConverter, moneyTotals } from '../lib/currency';
+import { importSheet, readImportFile, suggestMapping, validateImportMapping, ImportMapping, PREVIEW_ROWS } from '../lib/boardImport';
 
 const router = Router();
 
 router.use(authenticate);
-
-// Default columns for different board types
-const DEFAULT_COLUMNS = {
-  GENERAL: [
-    { name: 'Status', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'To Do', color: '#6B7280' },
-      { id: '2', label: 'In Progress', color: '#F59E0B' },
-      { id: '3', label: 'Done', color: '#10B981' },
-    ]}},
-    { name: 'Person', type: FieldType.PERSON },
-    { name: 'Due Date', type: FieldType.DATE },
-  ],
-  PROPERTY: [
-    { name: 'Status', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'Searching', color: '#6B7280' },
-      { id: '2', label: 'Viewing', color: '#3B82F6' },
-      { id: '3', label: 'Negotiating', color: '#F59E0B' },
-      { id: '4', label: 'Purchased', color: '#10B981' },
-    ]}},
-    { name: 'Purchase Price', type: FieldType.MONEY },
-    { name: 'Monthly Rent', type: FieldType.MONEY },
-    { name: 'Tenant', type: FieldType.TEXT },
-    { name: 'Occupancy', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'Vacant', color: '#EF4444' },
-      { id: '2', label: 'Occupied', color: '#10B981' },
-      { id: '3', label: 'Renovation', color: '#F59E0B' },
-    ]}},
-    { name: 'Rented Since', type: FieldType.DATE },
-    { name: 'Total Income', type: FieldType.MONEY },
-    { name: 'Notes', type: FieldType.TEXT },
-  ],
-  PROJECT: [
-    { name: 'Status', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'Not Started', color: '#6B7280' },
-      { id: '2', label: 'In Progress', color: '#3B82F6' },
-      { id: '3', label: 'Review', color: '#F59E0B' },
-      { id: '4', label: 'Completed', color: '#10B981' },
-    ]}},
-    { name: 'Assignee', type: FieldType.PERSON },
-    { name: 'Priority', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'Low', color: '#6B7280' },
-      { id: '2', label: 'Medium', color: '#F59E0B' },
-      { id: '3', label: 'High', color: '#EF4444' },
-    ]}},
-    { name: 'Due Date', type: FieldType.DATE },
-    { name: 'Budget', type: FieldType.MONEY },
-  ],
-  CRM: [
-    { name: 'Status', type: FieldType.STATUS, settings: { options: [
-      { id: '1', label: 'Lead', color: '#6B7280' },
-      { id: '2', label: 'Qualified', color: '#3B82F6' },
-      { id: '3', label: 'Proposal', color: '#F59E0B' },
-      { id: '4', label: 'Won', color: '#10B981' },
-      { id: '5', label: 'Lost', color: '#EF4444' },
-    ]}},
-    { name: 'Contact', type: FieldType.PERSON },
-    { name: 'Email', type: FieldType.EMAIL },
-    { name: 'Phone', type: FieldType.PHONE },
-    { name: 'Value', type: FieldType.MONEY },
-    { name: 'Last Contact', type: FieldType.DATE },
-  ],
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
+
+// Board settings that point at a column, with the column types each accepts
+const SETTINGS_COLUMN_TYPES: Record<string, FieldType[]> = {
+  kanbanColumnId: [FieldType.STATUS],
+  calendarColumnId: [FieldType.DATE, FieldType.TIMELINE],
+  ganttColumnId: [FieldType.TIMELINE],
 };
 
-// Check board access
-async function checkBoardAccess(boardId: string, userId: string, requireEdit = false) {
-  const board = await prisma.board.findUnique({
-    where: { id: boardId },
-    include: {
-      workspace: {
-        include: {
-          members: { where: { userId, isActive: true } },
-        },
-      },
-      boardMembers: { where: { userId } },
-    },
-  });
-
-  if (!board) return null;
-
-  const workspaceMember = board.workspace.members[0];
-  if (!workspaceMember) return null;
-
-  // Admin/Employee can access all boards in workspace
-  if (workspaceMember.role === UserRole.OWNER_ADMIN || workspaceMember.role === UserRole.EMPLOYEE) {
-    return { board, canEdit: true };
-  }
-
-  // Customer can only access boards they're members of or public boards
-  const boardMember = board.boardMembers[0];
-  if (board.isPublic || boardMember) {
-    return { board, canEdit: boardMember?.canEdit || false };
-  }
-
-  return null;
-}
-
 // Get boards for workspace
 router.get('/workspace/:workspaceId', async (req: AuthRequest, res: Response) => {
   try {
@@ -118,7 +45,7 @@ router.get('/workspace/:workspaceId', async (req: AuthRequest, res: Response) =>
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    let whereClause: any = { workspaceId, isActive: true };
+    let whereClause: any = { workspaceId, isActive: true, isTemplate: false };
 
     // Customers only see boards they're members of or public boards
     if (membership.role === UserRole.CUSTOMER) {
@@ -155,69 +82,396 @@ router.get('/workspace/:workspaceId', async (req: AuthRequest, res: Response) =>
   }
 });
 
-// Get single board with full data
-router.get('/:id', async (req: AuthRequest, res: Response) => {
+// Get templates for creating boards: built-in ones plus boards saved as templates in the workspace
+router.get('/workspace/:workspaceId/templates', async (req: AuthRequest, res: Response) => {
   try {
-    const access = await checkBoardAccess(req.params.id, req.user!.id);
-    if (!access) {
+    const { workspaceId } = req.params;
+
+    const membership = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: req.user!.id } },
+    });
+
+    if (!membership) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const board = await prisma.board.findUnique({
-      where: { id: req.params.id },
+    let whereClause: any = { workspaceId, isActive: true, isTemplate: true };
+
+    // Templates can carry the source board's items, so customers see only the ones they could see as boards
+    if (membership.role === UserRole.CUSTOMER) {
+      whereClause = {
+        ...whereClause,
+        OR: [
+          { isPublic: true },
+          { boardMembers: { some: { userId: req.user!.id } } },
+        ],
+      };
+    }
+
+    const templates = await prisma.board.findMany({
+      where: whereClause,
       include: {
-        columns: { orderBy: { position: 'asc' } },
+        columns: { select: { name: true, type: true }, orderBy: { position: 'asc' } },
         groups: {
           where: { isActive: true },
-          orderBy: { position: 'asc' },
-          include: {
-            tasks: {
-              where: { isActive: true },
-              orderBy: { position: 'asc' },
-              include: {
-                fieldValues: true,
-                assignments: {
-                  include: { user: { select: { id: true, name: true, avatarUrl: true } } },
-                },
-                _count: { select: { comments: true, subTasks: true } },
-              },
-            },
-          },
-        },
-        boardMembers: {
-          include: { }, // Just IDs for permission check
-        },
-        workspace: {
-          include: {
-            members: {
-              where: { isActive: true },
-              include: { user: { select: { id: true, name: true, avatarUrl: true, role: true } } },
-            },
-          },
+          include: { _count: { select: { tasks: { where: { isActive: true } } } } },
         },
+        createdBy: { select: { id: true, name: true } },
       },
+      orderBy: { createdAt: 'desc' },
     });
 
-    res.json({ board, canEdit: access.canEdit });
+    res.json({
+      builtIn: Object.values(BUILT_IN_TEMPLATES).map(({ id, name, description, columns }) => ({
+        id,
+        name,
+        description,
+        columns: columns.map((c) => ({ name: c.name, type: c.type })),
+      })),
+      templates: templates.map((t) => ({
+        ...t,
+        taskCount: t.groups.reduce((sum, g) => sum + g._count.tasks, 0),
+        groups: t.groups.map((g) => ({ id: g.id, name: g.name })),
+      })),
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Everything the board page needs in one load
+const BOARD_INCLUDE = {
+  columns: { orderBy: { position: 'asc' } },
+  groups: {
+    where: { isActive: true },
+    orderBy: { position: 'asc' },
+    include: {
+      tasks: {
+        where: { isActive: true },
+        orderBy: { position: 'asc' },
+        include: {
+          fieldValues: true,
+          assignments: {
+            include: { user: { select: { id: true, name: true, avatarUrl: true } } },
+          },
+          _count: { select: { comments: true, subTasks: true } },
+        },
+      },
+    },
+  },
+  boardMembers: {
+    include: { }, // Just IDs for permission check
+  },
+  workspace: {
+    include: {
+      members: {
+        where: { isActive: true },
+        include: { user: { select: { id: true, name: true, avatarUrl: true, role: true } } },
+      },
+    },
+  },
+} satisfies Prisma.BoardInclude;
+
+// Load a board with linked tasks and fresh formula values, narrowing its groups' tasks to those matching the query
+async function loadBoard(boardId: string, userId: string, boardQuery?: BoardQuery) {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: BOARD_INCLUDE,
+  });
+  if (!board) return board;
+
+  const ctx = {
+    userId,
+    now: new Date(),
+    userNames: new Map(board.workspace.members.map((m) => [m.user.id, m.user.name])),
+  };
+
+  const linked = await withRelationValues(board.groups.flatMap((g) => g.tasks), board.columns, userId);
+  const computed = new Map(withFormulaValues(linked, board.columns, ctx.userNames).map((t) => [t.id, t]));
+
+  return {
+    ...board,
+    groups: board.groups.map((group) => {
+      const tasks = group.tasks.map((t) => computed.get(t.id)!);
+      return { ...group, tasks: boardQuery ? applyBoardQuery(tasks, boardQuery, board.columns, ctx) : tasks };
+    }),
+  };
+}
+
+// Converts into the currency the viewer asked for, or the workspace's
+function boardConverter(board: { workspaceId: string; workspace: { defaultCurrency: Currency } }, currency: unknown) {
+  return loadConverter(board.workspaceId, isCurrency(currency) ? currency : board.workspace.defaultCurrency);
+}
+
+// Group totals of the board's MONEY columns in the viewer's currency
+async function boardTotals(board: NonNullable<Awaited<ReturnType<typeof loadBoard>>>, currency: unknown) {
+  return moneyTotals(board.groups, board.columns, board.workspace.defaultCurrency, await boardConverter(board, currency));
+}
+
+// A saved view on the board that the user can see: shared, or their own
+function findView(viewId: string, boardId: string, userId: string) {
+  return prisma.boardView.findFirst({
+    where: { id: viewId, boardId, OR: [{ isShared: true }, { createdById: userId }] },
+  });
+}
+
+const viewQuery = (view: BoardView): BoardQuery => ({
+  filters: view.filters as unknown as BoardFilters | null,
+  sort: view.sort as unknown as SortRule[] | null,
+});
+
+// Get single board with full data, optionally through a saved view, with MONEY totals in the given currency
+router.get(
+  '/:id',
+  validate([query('viewId').optional().isUUID(), query('currency').optional().isIn(Object.values(Currency))]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      let boardQuery: BoardQuery | undefined;
+      if (req.query.viewId) {
+        const view = await findView(req.query.viewId as string, req.params.id, req.user!.id);
+        if (!view) {
+          return res.status(404).json({ error: 'View not found' });
+        }
+        boardQuery = viewQuery(view);
+      }
+
+      const board = await loadBoard(req.params.id, req.user!.id, boardQuery);
+      const totals = board && (await boardTotals(board, req.query.currency));
+
+      res.json({ board, totals, canEdit: access.canEdit });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get board with tasks filtered and sorted by an ad-hoc query
+router.post(
+  '/:id/query',
+  validate([
+    body('filters').optional({ nullable: true }).isObject(),
+    body('filters.match').optional().isIn(['all', 'any']),
+    body('filters.conditions').optional().isArray(),
+    body('sort').optional({ nullable: true }).isArray(),
+    body('search').optional().isString(),
+    body('currency').optional().isIn(Object.values(Currency)),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const boardQuery: BoardQuery = {
+        filters: req.body.filters,
+        sort: req.body.sort,
+        search: req.body.search?.trim(),
+      };
+
+      const columns = await prisma.column.findMany({ where: { boardId: req.params.id } });
+      const invalid = validateBoardQuery(boardQuery, columns);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const board = await loadBoard(req.params.id, req.user!.id, boardQuery);
+      const totals = board && (await boardTotals(board, req.body.currency));
+
+      res.json({ board, totals, canEdit: access.canEdit });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get tasks placed by a DATE or TIMELINE column within a date range
+router.get(
+  '/:id/calendar',
+  validate([
+    query('columnId').isUUID(),
+    query('from').isISO8601(),
+    query('to').isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const column = await prisma.column.findFirst({
+        where: {
+          id: req.query.columnId as string,
+          boardId: req.params.id,
+          type: { in: [FieldType.DATE, FieldType.TIMELINE] },
+        },
+      });
+
+      if (!column) {
+        return res.status(400).json({ error: 'Column must be a date or timeline column on this board' });
+      }
+
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+
+      // JSON values can't be range-filtered in the query, so only this column's values are loaded and checked here
+      const values = await prisma.taskFieldValue.findMany({
+        where: {
+          columnId: column.id,
+          task: { isActive: true, group: { isActive: true } },
+        },
+        select: { taskId: true, value: true },
+      });
+
+      const taskIds = values
+        .filter((fv) => {
+          const span = toDateSpan(column.type, fv.value);
+          return span && span.start <= to && span.end >= from;
+        })
+        .map((fv) => fv.taskId);
+
+      const tasks = await prisma.task.findMany({
+        where: { id: { in: taskIds } },
+        orderBy: { position: 'asc' },
+        include: {
+          fieldValues: true,
+          assignments: {
+            include: { user: { select: { id: true, name: true, avatarUrl: true } } },
+          },
+          group: { select: { id: true, name: true, color: true } },
+          _count: { select: { comments: true, subTasks: true } },
+        },
+      });
+
+      res.json({ tasks, column });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Export board as CSV, XLSX or PDF, optionally through a saved view, with amounts in the given currency
+router.get(
+  '/:id/export',
+  validate([
+    param('id').isUUID(),
+    query('format').isIn(EXPORT_FORMATS),
+    query('viewId').optional().isUUID(),
+    query('currency').optional().isIn(Object.values(Currency)),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      let view: BoardView | null = null;
+      if (req.query.viewId) {
+        view = await findView(req.query.viewId as string, req.params.id, req.user!.id);
+        if (!view) {
+          return res.status(404).json({ error: 'View not found' });
+        }
+      }
+
+      const board = await loadBoard(req.params.id, req.user!.id, view ? viewQuery(view) : undefined);
+      if (!board) {
+        return res.status(404).json({ error: 'Board not found' });
+      }
+
+      const hidden = view?.hiddenColumns ?? [];
+      const file = await exportBoard(
+        { ...board, columns: board.columns.filter((c) => c.isVisible && !hidden.includes(c.id)) },
+        req.query.format as ExportFormat,
+        await boardConverter(board, req.query.currency)
+      );
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.buffer);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get timeline bars, dependencies and the critical path for a TIMELINE column
+router.get(
+  '/:id/gantt',
+  validate([query('columnId').isUUID()]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const column = await prisma.column.findFirst({
+        where: { id: req.query.columnId as string, boardId: req.params.id, type: FieldType.TIMELINE },
+      });
+
+      if (!column) {
+        return res.status(400).json({ error: 'Column must be a timeline column on this board' });
+      }
+
+      const tasks = await prisma.task.findMany({
+        where: { isActive: true, group: { boardId: req.params.id, isActive: true } },
+        orderBy: [{ group: { position: 'asc' } }, { position: 'asc' }],
+        select: {
+          id: true,
+          name: true,
+          group: { select: { id: true, name: true, color: true } },
+          fieldValues: { where: { columnId: column.id }, select: { value: true } },
+          predecessors: { select: { predecessorId: true, successorId: true } },
+        },
+      });
+
+      const scheduled = tasks.flatMap((task) => {
+        const span = toDateSpan(column.type, task.fieldValues[0]?.value);
+        return span ? [{ id: task.id, start: span.start, end: span.end }] : [];
+      });
+      const dependencies = tasks.flatMap((task) => task.predecessors);
+
+      res.json({
+        column,
+        tasks: tasks.map(({ fieldValues, predecessors, ...task }) => {
+          const span = toDateSpan(column.type, fieldValues[0]?.value);
+          return {
+            ...task,
+            start: span ? span.start.toISOString().substring(0, 10) : null,
+            end: span ? span.end.toISOString().substring(0, 10) : null,
+          };
+        }),
+        dependencies,
+        criticalPath: findCriticalPath(scheduled, dependencies),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Create board
 router.post(
   '/',
   validate([
     body('workspaceId').isUUID(),
     body('name').trim().notEmpty(),
-    body('type').optional().isIn(['GENERAL', 'PROPERTY', 'PROJECT', 'CRM']),
+    body('type').optional().isIn(Object.values(BoardType)),
+    body('templateId').optional().isUUID(),
     body('description').optional().trim(),
     body('color').optional().trim(),
     body('isPublic').optional().isBoolean(),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
-      const { workspaceId, name, type = 'GENERAL', description, color, isPublic } = req.body;
+      const { workspaceId, name, type = 'GENERAL', templateId, description, color, isPublic } = req.body;
 
       // Check workspace membership (only admin/employee can create)
       const membership = await prisma.workspaceMember.findUnique({
@@ -228,26 +482,47 @@ router.post(
         return res.status(403).json({ error: 'Not authorized to create boards' });
       }
 
-      // Create board with default columns and one group
+      // Workspace templates are copied whole: columns, groups and any sample tasks
+      if (templateId) {
+        const template = await prisma.board.findFirst({
+          where: { id: templateId, workspaceId, isTemplate: true, isActive: true },
+        });
+        // Only someone who could open the template as a board may copy its items
+        if (!template || !(await checkBoardAccess(template.id, req.user!.id))) {
+          return res.status(404).json({ error: 'Template not found' });
+        }
+
+        const board = await copyBoard(
+          template.id,
+          { workspaceId, createdById: req.user!.id, name, description, isPublic: isPublic || false, isTemplate: false },
+          { tasks: true, subTasks: true, comments: false }
+        );
+
+        return res.status(201).json({ board });
+      }
+
+      const template = BUILT_IN_TEMPLATES[type as BoardType] || BUILT_IN_TEMPLATES.GENERAL;
+
+      // Create board with the built-in template's columns and groups
       const board = await prisma.board.create({
         data: {
           workspaceId,
           createdById: req.user!.id,
           name,
-          type: type as BoardType,
+          type: template.id,
           description,
           color,
           isPublic: isPublic || false,
           columns: {
-            create: (DEFAULT_COLUMNS[type as keyof typeof DEFAULT_COLUMNS] || DEFAULT_COLUMNS.GENERAL).map((col, idx) => ({
+            create: template.columns.map((col, idx) => ({
               name: col.name,
               type: col.type,
-              settings: col.settings || undefined,
+              settings: col.settings,
               position: idx,
             })),
           },
           groups: {
-            create: { name: 'New Group', position: 0 },
+            create: template.groups.map((groupName, idx) => ({ name: groupName, position: idx })),
           },
         },
         include: {
@@ -263,6 +538,173 @@ router.post(
   }
 );
 
+// Save board as a workspace template (Admin)
+router.post(
+  '/:id/template',
+  validate([
+    param('id').isUUID(),
+    body('name').optional().trim().notEmpty(),
+    body('description').optional().trim(),
+    body('includeTasks').optional().isBoolean(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (access.role !== UserRole.OWNER_ADMIN) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const { name, description, includeTasks } = req.body;
+
+      const template = await copyBoard(
+        req.params.id,
+        {
+          workspaceId: access.board.workspaceId,
+          createdById: req.user!.id,
+          name: name || access.board.name,
+          description,
+          // A template of a private board can hold its items, so it stays private too
+          isPublic: access.board.isPublic,
+          isTemplate: true,
+        },
+        { tasks: !!includeTasks, subTasks: !!includeTasks, comments: false }
+      );
+
+      res.status(201).json({ template });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Duplicate board
+router.post(
+  '/:id/duplicate',
+  validate([
+    param('id').isUUID(),
+    body('name').optional().trim().notEmpty(),
+    body('mode').optional().isIn(COPY_MODES),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (access.role === UserRole.CUSTOMER) {
+        return res.status(403).json({ error: 'Not authorized to create boards' });
+      }
+
+      const { name, mode = 'items' } = req.body;
+
+      const board = await copyBoard(
+        req.params.id,
+        {
+          workspaceId: access.board.workspaceId,
+          createdById: req.user!.id,
+          name: name || `${access.board.name} (copy)`,
+          isTemplate: false,
+        },
+        copyOptionsFor(mode as CopyMode)
+      );
+
+      res.status(201).json({ board });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Preview a CSV or XLSX file: its first rows and a suggested column for each source column
+router.post('/:id/import/preview', uploadFile, async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkBoardAccess(req.params.id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    const sheet = await readImportFile(req.file!);
+    if ('error' in sheet) {
+      return res.status(400).json({ error: sheet.error });
+    }
+
+    const [columns, members] = await Promise.all([
+      prisma.column.findMany({ where: { boardId: req.params.id }, orderBy: { position: 'asc' } }),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId: access.board.workspaceId },
+        include: { user: { select: { email: true } } },
+      }),
+    ]);
+
+    res.json({
+      headers: sheet.headers,
+      rows: sheet.rows.slice(0, PREVIEW_ROWS),
+      rowCount: sheet.rows.length,
+      suggestions: suggestMapping(sheet, columns, new Set(members.map((m) => m.user.email.toLowerCase()))),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import rows from a CSV or XLSX file as tasks, mapped to existing or new columns
+router.post(
+  '/:id/import',
+  uploadFile,
+  validate([param('id').isUUID(), body('mapping').isJSON()]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkBoardAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const sheet = await readImportFile(req.file!);
+      if ('error' in sheet) {
+        return res.status(400).json({ error: sheet.error });
+      }
+
+      const mapping: ImportMapping = JSON.parse(req.body.mapping);
+      const [columns, groups] = await Promise.all([
+        prisma.column.findMany({ where: { boardId: req.params.id } }),
+        prisma.group.findMany({ where: { boardId: req.params.id, isActive: true }, orderBy: { position: 'asc' } }),
+      ]);
+
+      const invalid = validateImportMapping(sheet, columns, groups.map((g) => g.id), mapping);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const result = await importSheet(
+        access.board,
+        mapping.groupId ?? groups[0].id,
+        req.user!.id,
+        sheet,
+        mapping,
+        req.file!.originalname
+      );
+
+      // Nothing was written, so the report explains what to fix
+      if (result.imported === 0) {
+        return res.status(400).json({
+          error: result.errors.length > 0 ? 'Some rows could not be imported' : 'The file has no rows to import',
+          ...result,
+        });
+      }
+
+      await recomputeBoardFormulas(req.params.id);
+      emitToBoard(req.params.id, 'board_changed');
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Update board
 router.patch(
   '/:id',
@@ -271,6 +713,10 @@ router.patch(
     body('description').optional().trim(),
     body('color').optional().trim(),
     body('isPublic').optional().isBoolean(),
+    body('settings').optional().isObject(),
+    body('settings.kanbanColumnId').optional().isUUID(),
+    body('settings.calendarColumnId').optional().isUUID(),
+    body('settings.ganttColumnId').optional().isUUID(),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
@@ -279,6 +725,21 @@ router.patch(
         return res.status(403).json({ error: 'Edit access required' });
       }
 
+      // View settings must point at a column of the right type on this board
+      for (const [key, types] of Object.entries(SETTINGS_COLUMN_TYPES)) {
+        const columnId = req.body.settings?.[key];
+        if (!columnId) continue;
+
+        const column = await prisma.column.findFirst({
+          where: { id: columnId, boardId: req.params.id, type: { in: types } },
+        });
+        if (!column) {
+          return res.status(400).json({
+            error: `${key} must be a ${types.join(' or ').toLowerCase()} column on this board`,
+          });
+        }
+      }
+
       const board = await prisma.board.update({
         where: { id: req.params.id },
         data: req.body,
@@ -1,40 +1,20 @@
 import { Router, Response } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
-import { UserRole, FieldType } from '@prisma/client';
+import { FieldType, Column, Prisma } from '@prisma/client';
+import { checkBoardAccess } from '../lib/boardAccess';
+import { checkFormula, recomputeBoardFormulas, renameReferences } from '../lib/formula';
+import { validateMirrorSettings } from '../lib/relations';
+import { emitToBoard } from '../lib/realtime';
+import { isCurrency } from '../lib/currency';
 
 const router = Router();
 
 router.use(authenticate);
-
-// Check board access
-async function checkBoardAccess(boardId: string, userId: string) {
-  const board = await prisma.board.findUnique({
-    where: { id: boardId },
-    include: {
-      workspace: { include: { members: { where: { userId, isActive: true } } } },
-      boardMembers: { where: { userId } },
-    },
-  });
-
-  if (!board) return null;
-
-  const workspaceMember = board.workspace.members[0];
-  if (!workspaceMember) return null;
-
-  if (workspaceMember.role === UserRole.OWNER_ADMIN || workspaceMember.role === UserRole.EMPLOYEE) {
-    return { canEdit: true };
-  }
-
-  const boardMember = board.boardMembers[0];
-  if (board.isPublic || boardMember) {
-    return { canEdit: boardMember?.canEdit || false };
-  }
-
-  return null;
-}
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Create column
 router.post(
@@ -55,6 +35,79 @@ router.post(
         return res.status(403).json({ error: 'Edit access required' });
       }
 
+      // Dependencies live in one relation per task, so a board gets a single dependency column
+      if (type === FieldType.DEPENDENCY) {
+        const existing = await prisma.column.findFirst({
+          where: { boardId, type: FieldType.DEPENDENCY },
+        });
+        if (existing) {
+          return res.status(400).json({ error: 'Board already has a dependency column' });
+        }
+      }
+
+      // Formulas are checked against the board's columns, and remember the type they produce
+      let columnSettings = settings;
+      if (type === FieldType.FORMULA) {
+        const columns = await prisma.column.findMany({ where: { boardId } });
+        const formula = checkFormula(columns, { id: '', boardId, name, type, settings } as Column);
+        if ('error' in formula) {
+          return res.status(400).json({ error: formula.error });
+        }
+        columnSettings = { ...settings, resultType: formula.type };
+      }
+
+      if (type === FieldType.MIRROR) {
+        const mirrorError = await validateMirrorSettings(boardId, settings);
+        if (mirrorError) {
+          return res.status(400).json({ error: mirrorError });
+        }
+      }
+
+      if (type === FieldType.MONEY && settings?.currency !== undefined && !isCurrency(settings.currency)) {
+        return res.status(400).json({ error: 'Unknown currency' });
+      }
+
+      // Relations are two-way, so the linked board gets a paired column pointing back
+      if (type === FieldType.RELATION) {
+        const linkedBoardId = settings?.boardId;
+        const linked = linkedBoardId && await checkBoardAccess(linkedBoardId, req.user!.id);
+        if (!linked || linked.board.workspaceId !== access.board.workspaceId) {
+          return res.status(400).json({ error: 'Relations must link to a board in the same workspace' });
+        }
+        if (!linked.canEdit) {
+          return res.status(403).json({ error: 'Edit access to the linked board is required' });
+        }
+
+        const [maxPos, linkedMaxPos] = await Promise.all([
+          prisma.column.aggregate({ where: { boardId }, _max: { position: true } }),
+          prisma.column.aggregate({ where: { boardId: linkedBoardId }, _max: { position: true } }),
+        ]);
+
+        const column = await prisma.$transaction(async (tx) => {
+          const created = await tx.column.create({
+            data: { boardId, name, type, width, position: (maxPos._max.position || 0) + 1 },
+          });
+          const paired = await tx.column.create({
+            data: {
+              boardId: linkedBoardId,
+              name: settings.pairedName || access.board.name,
+              type,
+              settings: { boardId, pairedColumnId: created.id },
+              position: (linkedMaxPos._max.position || 0) + 1 + (linkedBoardId === boardId ? 1 : 0),
+            },
+          });
+          return tx.column.update({
+            where: { id: created.id },
+            data: { settings: { boardId: linkedBoardId, pairedColumnId: paired.id } },
+          });
+        });
+
+        emitToBoard(boardId, 'board_changed');
+        if (linkedBoardId !== boardId) emitToBoard(linkedBoardId, 'board_changed');
+
+        return res.status(201).json({ column });
+      }
+
       // Get max position
       const maxPos = await prisma.column.aggregate({
         where: { boardId },
@@ -66,12 +119,20 @@ router.post(
           boardId,
           name,
           type,
-          settings,
+          settings: columnSettings,
           width,
           position: (maxPos._max.position || 0) + 1,
         },
       });
 
+      // A new formula fills in values on every task, so boards reload rather than patch
+      if (type === FieldType.FORMULA) {
+        await recomputeBoardFormulas(boardId);
+        emitToBoard(boardId, 'board_changed');
+      } else {
+        emitToBoard(boardId, 'column_created', { column });
+      }
+
       res.status(201).json({ column });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -88,6 +149,7 @@ router.patch(
     body('width').optional().isInt({ min: 50, max: 500 }),
     body('isVisible').optional().isBoolean(),
     body('isRequired').optional().isBoolean(),
+    body('type').optional().isIn(Object.values(FieldType)),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
@@ -104,11 +166,75 @@ router.patch(
         return res.status(403).json({ error: 'Edit access required' });
       }
 
+      const { name, settings, width, isVisible, isRequired, type } = req.body;
+
+      // Relations have a paired column and mirrors read through one, so neither can become another type or be
+      // made from one
+      const linkedTypes: FieldType[] = [FieldType.RELATION, FieldType.MIRROR];
+      if (type !== undefined && type !== column.type && (linkedTypes.includes(column.type) || linkedTypes.includes(type))) {
+        return res.status(400).json({ error: "Relation and mirror columns can't change type" });
+      }
+
+      // Only these fields are editable; anything else in the body is ignored
+      let data: Prisma.ColumnUpdateInput = { name, settings, width, isVisible, isRequired, type };
+
+      // Which board a relation links to is fixed once it's created
+      if (column.type === FieldType.RELATION && settings !== undefined) {
+        const { boardId, pairedColumnId } = column.settings as any;
+        data = { ...data, settings: { ...settings, boardId, pairedColumnId } };
+      }
+
+      if (column.type === FieldType.MIRROR && settings !== undefined) {
+        const mirrorError = await validateMirrorSettings(column.boardId, settings);
+        if (mirrorError) {
+          return res.status(400).json({ error: mirrorError });
+        }
+      }
+
+      if (column.type === FieldType.MONEY && settings?.currency !== undefined && !isCurrency(settings.currency)) {
+        return res.status(400).json({ error: 'Unknown currency' });
+      }
+
+      if (column.type === FieldType.FORMULA && (name !== undefined || settings !== undefined)) {
+        const columns = await prisma.column.findMany({ where: { boardId: column.boardId } });
+        const candidate = { ...column, name: name ?? column.name, settings: settings ?? column.settings };
+        const formula = checkFormula(columns, candidate);
+        if ('error' in formula) {
+          return res.status(400).json({ error: formula.error });
+        }
+        data = { ...data, settings: { ...(candidate.settings as object), resultType: formula.type } };
+      }
+
+      // Formulas refer to columns by name, so follow the rename
+      if (name !== undefined && name !== column.name) {
+        const formulas = await prisma.column.findMany({
+          where: { boardId: column.boardId, type: FieldType.FORMULA, id: { not: column.id } },
+        });
+        for (const formula of formulas) {
+          const formulaSettings = formula.settings as any;
+          if (typeof formulaSettings?.expression !== 'string') continue;
+          const expression = renameReferences(formulaSettings.expression, column.name, name);
+          if (expression !== formulaSettings.expression) {
+            await prisma.column.update({
+              where: { id: formula.id },
+              data: { settings: { ...formulaSettings, expression } },
+            });
+          }
+        }
+      }
+
       const updated = await prisma.column.update({
         where: { id: req.params.id },
-        data: req.body,
+        data,
       });
 
+      if (column.type === FieldType.FORMULA || settings !== undefined) {
+        await recomputeBoardFormulas(column.boardId);
+        emitToBoard(column.boardId, 'board_changed');
+      } else {
+        emitToBoard(column.boardId, 'column_updated', { column: updated });
+      }
+
       res.json({ column: updated });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -116,6 +242,58 @@ router.patch(
   }
 );
 
+// Get tasks that can be linked through a relation column
+router.get(
+  '/:id/relation-options',
+  validate([
+    param('id').isUUID(),
+    query('search').optional().isString(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const column = await prisma.column.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!column || column.type !== FieldType.RELATION) {
+        return res.status(404).json({ error: 'Relation column not found' });
+      }
+
+      const linkedBoardId = (column.settings as any)?.boardId;
+      const [access, linked] = await Promise.all([
+        checkBoardAccess(column.boardId, req.user!.id),
+        checkBoardAccess(linkedBoardId, req.user!.id),
+      ]);
+      if (!access || !linked) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const search = (req.query.search as string | undefined)?.trim();
+      const tasks = await prisma.task.findMany({
+        where: {
+          isActive: true,
+          group: { boardId: linkedBoardId, isActive: true },
+          ...(search && { name: { contains: search, mode: 'insensitive' as const } }),
+        },
+        select: { id: true, name: true, group: { select: { id: true, name: true, color: true } } },
+        orderBy: { name: 'asc' },
+        take: 50,
+      });
+
+      // The linked board's columns let mirrors pick what to read
+      const columns = await prisma.column.findMany({
+        where: { boardId: linkedBoardId },
+        select: { id: true, name: true, type: true },
+        orderBy: { position: 'asc' },
+      });
+
+      res.json({ board: { id: linked.board.id, name: linked.board.name, columns }, tasks });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Reorder columns
 router.post(
   '/reorder',
@@ -141,6 +319,8 @@ router.post(
         )
       );
 
+      emitToBoard(boardId, 'columns_reordered', { columnIds });
+
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -164,11 +344,31 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Edit access required' });
     }
 
+    // Relations take their paired column on the linked board with them, which needs edit access there too
+    const pairedColumnId: string | null =
+      column.type === FieldType.RELATION ? (column.settings as any)?.pairedColumnId || null : null;
+    const linkedBoardId: string | null = pairedColumnId ? (column.settings as any).boardId : null;
+    if (linkedBoardId) {
+      const linkedAccess = await checkBoardAccess(linkedBoardId, req.user!.id);
+      if (!linkedAccess?.canEdit) {
+        return res.status(403).json({ error: 'Edit access to the linked board is required to delete this relation' });
+      }
+    }
+
     // Delete column and all its values
-    await prisma.column.delete({
-      where: { id: req.params.id },
+    await prisma.column.deleteMany({
+      where: { id: { in: [column.id, pairedColumnId].filter((id): id is string => !!id) } },
     });
 
+    // Formulas that read this column now report it as unknown
+    await recomputeBoardFormulas(column.boardId);
+
+    emitToBoard(column.boardId, 'column_deleted', { columnId: column.id });
+    if (linkedBoardId && pairedColumnId) {
+      await recomputeBoardFormulas(linkedBoardId);
+      emitToBoard(linkedBoardId, 'column_deleted', { columnId: pairedColumnId });
+    }
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
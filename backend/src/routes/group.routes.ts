@@ -1,13 +1,17 @@
 import { Router, Response } from 'express';
 import { body, param } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
 import { UserRole } from '@prisma/client';
+import { copyGroup, copyOptionsFor, COPY_MODES, CopyMode } from '../lib/boardCopy';
+import { emitToBoard } from '../lib/realtime';
 
 const router = Router();
 
 router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Check board access helper
 async function checkBoardAccess(boardId: string, userId: string) {
@@ -68,6 +72,8 @@ router.post(
         },
       });
 
+      emitToBoard(boardId, 'group_created', { group: { ...group, tasks: [] } });
+
       res.status(201).json({ group });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -103,6 +109,8 @@ router.patch(
         data: req.body,
       });
 
+      emitToBoard(group.boardId, 'group_updated', { group: updated });
+
       res.json({ group: updated });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -110,6 +118,39 @@ router.patch(
   }
 );
 
+// Duplicate group on the same board
+router.post(
+  '/:id/duplicate',
+  validate([
+    param('id').isUUID(),
+    body('mode').optional().isIn(COPY_MODES),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const group = await prisma.group.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!group) {
+        return res.status(404).json({ error: 'Group not found' });
+      }
+
+      const access = await checkBoardAccess(group.boardId, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const copy = await copyGroup(group.id, req.user!.id, copyOptionsFor((req.body.mode || 'items') as CopyMode));
+
+      emitToBoard(group.boardId, 'board_changed');
+
+      res.status(201).json({ group: copy });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // Reorder groups
 router.post(
   '/reorder',
@@ -136,6 +177,8 @@ router.post(
         )
       );
 
+      emitToBoard(boardId, 'groups_reordered', { groupIds });
+
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -164,6 +207,8 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       data: { isActive: false },
     });
 
+    emitToBoard(group.boardId, 'group_deleted', { groupId: group.id });
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -5,6 +5,7 @@ import { authenticate, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
 import { UserRole, InviteStatus } from '@prisma/client';
 import { randomBytes } from 'crypto';
+import { appUrl, queueEmail } from '../lib/mailer';
 
 const router = Router();
 
@@ -80,8 +81,17 @@ router.post(
         },
       });
 
-      // TODO: Send email with invite link
-      console.log(`Invite link: /invite/${invite.token}`);
+      await queueEmail(
+        email,
+        'invite',
+        {
+          workspaceName: invite.workspace.name,
+          inviterName: invite.invitedBy.name,
+          url: appUrl(`/register?invite=${invite.token}`),
+          expiresAt: invite.expiresAt,
+        },
+        workspaceId
+      );
 
       res.status(201).json({ invite });
     } catch (error: any) {
@@ -228,10 +238,21 @@ router.post(
           status: InviteStatus.PENDING,
           expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
         },
+        include: { workspace: { select: { name: true } } },
       });
 
-      // TODO: Send email
-      console.log(`Resent invite link: /invite/${updated.token}`);
+      await queueEmail(
+        updated.email,
+        'invite',
+        {
+          workspaceName: updated.workspace.name,
+          inviterName: req.user!.name,
+          url: appUrl(`/register?invite=${updated.token}`),
+          expiresAt: updated.expiresAt,
+          reminder: true,
+        },
+        updated.workspaceId
+      );
 
       res.json({ invite: updated });
     } catch (error: any) {
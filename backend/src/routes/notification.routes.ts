@@ -1,10 +1,12 @@
 import { Router, Response } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
 
 const router = Router();
 
 router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Get user's notifications
 router.get('/', async (req: AuthRequest, res: Response) => {
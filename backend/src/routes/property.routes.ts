@@ -0,0 +1,929 @@
+import { Router, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validate';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import {
+  AutomationTrigger,
+  Currency,
+  ExpenseCategory,
+  ExpenseRecurrence,
+  OccupancyStatus,
+  PaymentMethod,
+  Prisma,
+  RenovationStatus,
+  UserRole,
+} from '@prisma/client';
+import { checkBoardAccess } from '../lib/boardAccess';
+import { fireAutomations } from '../lib/automations';
+import { emitToBoard } from '../lib/realtime';
+import { checkPropertyAccess, currentLease, PROPERTY_TASK_SELECT, syncPropertyToTask } from '../lib/properties';
+import {
+  allocatePayment,
+  arrears,
+  chargeBalance,
+  PAYMENT_SELECT,
+  portfolioSummary,
+  syncLeaseCharges,
+} from '../lib/rentLedger';
+import { propertyReport } from '../lib/propertyReports';
+import { isCurrency, loadConverter } from '../lib/currency';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
+
+const propertyValidators = [
+  body('city').optional({ nullable: true }).trim(),
+  body('postalCode').optional({ nullable: true }).trim(),
+  body('country').optional({ nullable: true }).trim(),
+  body('description').optional({ nullable: true }).trim(),
+  body('purchaseCost').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('purchaseDate').optional({ nullable: true }).isISO8601(),
+  body('cashInvested').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('currency').optional().isIn(Object.values(Currency)),
+  body('status').optional().isIn(Object.values(OccupancyStatus)),
+  body('notes').optional({ nullable: true }).trim(),
+];
+
+const leaseValidators = [
+  body('tenantEmail').optional({ nullable: true }).isEmail(),
+  body('tenantPhone').optional({ nullable: true }).trim(),
+  body('deposit').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('endDate').optional({ nullable: true }).isISO8601(),
+  body('notes').optional({ nullable: true }).trim(),
+];
+
+const expenseValidators = [
+  body('description').optional({ nullable: true }).trim(),
+  body('recurrence').optional().isIn(Object.values(ExpenseRecurrence)),
+  body('endDate').optional({ nullable: true }).isISO8601(),
+  body('renovationId').optional({ nullable: true }).isUUID(),
+];
+
+const periodValidators = [
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('currency').optional().isIn(Object.values(Currency)),
+];
+
+const PROPERTY_FIELDS = [
+  'city',
+  'postalCode',
+  'country',
+  'description',
+  'purchaseCost',
+  'cashInvested',
+  'currency',
+  'notes',
+  'status',
+] as const;
+const LEASE_FIELDS = ['tenantName', 'tenantEmail', 'tenantPhone', 'monthlyRent', 'deposit', 'notes'] as const;
+const EXPENSE_FIELDS = ['category', 'description', 'amount', 'recurrence', 'renovationId'] as const;
+
+// Copies the fields present in the body, turning date strings into Dates
+function pickFields(source: Record<string, any>, fields: readonly string[], dateFields: string[] = []) {
+  const data: Record<string, any> = {};
+  for (const field of [...fields, ...dateFields]) {
+    if (source[field] === undefined) continue;
+    data[field] = dateFields.includes(field) && source[field] !== null ? new Date(source[field]) : source[field];
+  }
+  return data;
+}
+
+// The from/to query dates, or the given defaults
+function queryPeriod(query: Record<string, any>, defaults: { from: Date; to: Date }) {
+  return {
+    from: query.from ? new Date(query.from) : defaults.from,
+    to: query.to ? new Date(query.to) : defaults.to,
+  };
+}
+
+// The twelve months up to today, so yields read as annual figures
+function lastTwelveMonths(now = new Date()) {
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const from = new Date(Date.UTC(now.getUTCFullYear() - 1, now.getUTCMonth(), now.getUTCDate() + 1));
+  return { from, to };
+}
+
+// Converts into the requested currency, or the given one, at the rates that stood at the end of the period
+function periodConverter(workspaceId: string, query: Record<string, any>, fallback: Currency, to: Date) {
+  const now = new Date();
+  return loadConverter(workspaceId, isCurrency(query.currency) ? query.currency : fallback, to < now ? to : now);
+}
+
+async function workspaceCurrency(workspaceId: string) {
+  const workspace = await prisma.workspace.findUnique({ where: { id: workspaceId }, select: { defaultCurrency: true } });
+  return workspace?.defaultCurrency ?? Currency.USD;
+}
+
+function checkLeaseDates(startDate: Date, endDate: Date | null) {
+  return endDate && endDate < startDate ? 'Lease end date must not be before its start date' : null;
+}
+
+async function checkExpense(propertyId: string, date: Date, endDate: Date | null, renovationId?: string | null) {
+  if (endDate && endDate < date) return 'Expense end date must not be before its date';
+  if (renovationId) {
+    const renovation = await prisma.renovation.findFirst({ where: { id: renovationId, propertyId } });
+    if (!renovation) return 'Renovation not found on this property';
+  }
+  return null;
+}
+
+// Filter for the properties a member can see in a workspace, or null for non-members. Customers only see
+// properties on boards they're members of or public boards.
+async function visiblePropertiesWhere(workspaceId: string, userId: string): Promise<Prisma.PropertyWhereInput | null> {
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+  if (!membership) return null;
+
+  const boardWhere = membership.role === UserRole.CUSTOMER
+    ? { OR: [{ isPublic: true }, { boardMembers: { some: { userId } } }] }
+    : {};
+
+  return {
+    workspaceId,
+    task: { isActive: true, group: { isActive: true, board: { isActive: true, ...boardWhere } } },
+  };
+}
+
+// Get properties in a workspace
+router.get('/workspace/:workspaceId', async (req: AuthRequest, res: Response) => {
+  try {
+    const where = await visiblePropertiesWhere(req.params.workspaceId, req.user!.id);
+    if (!where) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const properties = await prisma.property.findMany({
+      where,
+      include: {
+        task: { select: PROPERTY_TASK_SELECT },
+        leases: { orderBy: { startDate: 'desc' } },
+        _count: { select: { renovations: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      properties: properties.map(({ leases, ...property }) => ({ ...property, currentLease: currentLease(leases) })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Portfolio summary for a period (defaults to the current month): rent collected and expected, what's owed, occupancy
+router.get(
+  '/workspace/:workspaceId/summary',
+  validate(periodValidators),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const where = await visiblePropertiesWhere(req.params.workspaceId, req.user!.id);
+      if (!where) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const now = new Date();
+      const { from, to } = queryPeriod(req.query, {
+        from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        to: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)),
+      });
+      if (to < from) {
+        return res.status(400).json({ error: 'Period end must not be before its start' });
+      }
+
+      const properties = await prisma.property.findMany({ where, select: { id: true } });
+      const converter = await periodConverter(
+        req.params.workspaceId, req.query, await workspaceCurrency(req.params.workspaceId), to
+      );
+      const summary = await portfolioSummary(properties.map((p) => p.id), from, to, converter, now);
+
+      res.json({ summary });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Rent owed in a workspace, per tenant and per property, in the requested currency where there's a rate for it
+router.get(
+  '/workspace/:workspaceId/arrears',
+  validate([query('currency').optional().isIn(Object.values(Currency))]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { workspaceId } = req.params;
+      const where = await visiblePropertiesWhere(workspaceId, req.user!.id);
+      if (!where) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const properties = await prisma.property.findMany({
+        where,
+        select: {
+          id: true,
+          address: true,
+          currency: true,
+          leases: {
+            include: { charges: { include: { payments: { select: { amount: true, paidAt: true } } } } },
+            orderBy: { startDate: 'desc' },
+          },
+        },
+      });
+
+      const now = new Date();
+      const converter = await periodConverter(workspaceId, req.query, await workspaceCurrency(workspaceId), now);
+      const owed = (amount: number, currency: Currency) => {
+        const converted = converter.convert(amount, currency);
+        return converted === null ? { arrears: amount, currency } : { arrears: converted, currency: converter.currency };
+      };
+
+      const tenants = properties
+        .flatMap((property) =>
+          property.leases.map((lease) => {
+            const overdue = lease.charges
+              .filter((c) => chargeBalance(c, now).overdue)
+              .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+            return {
+              leaseId: lease.id,
+              tenantName: lease.tenantName,
+              property: { id: property.id, address: property.address },
+              ...owed(arrears(lease.charges, now), property.currency),
+              oldestDueDate: overdue[0]?.dueDate ?? null,
+            };
+          })
+        )
+        .filter((t) => t.arrears > 0)
+        .sort((a, b) => b.arrears - a.arrears);
+
+      const byProperty = properties
+        .map((property) => ({
+          id: property.id,
+          address: property.address,
+          ...owed(arrears(property.leases.flatMap((l) => l.charges), now), property.currency),
+        }))
+        .filter((p) => p.arrears > 0)
+        .sort((a, b) => b.arrears - a.arrears);
+
+      res.json({
+        tenants,
+        properties: byProperty,
+        // Properties with no rate to the currency are left out of the total
+        total: Math.round(
+          byProperty.filter((p) => p.currency === converter.currency).reduce((sum, p) => sum + p.arrears, 0) * 100
+        ) / 100,
+        ...converter.summary(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Income, expenses and returns for a portfolio over a period (defaults to the last twelve months): the whole
+// workspace, or with customerId the properties that customer can see. Customers always get their own portfolio.
+router.get(
+  '/workspace/:workspaceId/report',
+  validate([...periodValidators, query('customerId').optional().isUUID()]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { workspaceId } = req.params;
+
+      const membership = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId: req.user!.id } },
+      });
+      if (!membership) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const isCustomer = membership.role === UserRole.CUSTOMER;
+      const customerId = (req.query.customerId as string | undefined) || (isCustomer ? req.user!.id : undefined);
+      if (isCustomer && customerId !== req.user!.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const where = await visiblePropertiesWhere(workspaceId, customerId || req.user!.id);
+      if (!where) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const { from, to } = queryPeriod(req.query, lastTwelveMonths());
+      if (to < from) {
+        return res.status(400).json({ error: 'Period end must not be before its start' });
+      }
+
+      const properties = await prisma.property.findMany({ where, select: { id: true } });
+      const converter = await periodConverter(workspaceId, req.query, await workspaceCurrency(workspaceId), to);
+      const financials = await propertyReport(properties.map((p) => p.id), from, to, converter);
+
+      res.json({ financials });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Get single property with its leases and renovations
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkPropertyAccess(req.params.id, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const property = await prisma.property.findUnique({
+      where: { id: req.params.id },
+      include: {
+        task: { select: PROPERTY_TASK_SELECT },
+        leases: { orderBy: { startDate: 'desc' } },
+        renovations: {
+          include: { steps: { orderBy: { position: 'asc' } } },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    res.json({
+      property: { ...property, currentLease: currentLease(property!.leases) },
+      canEdit: access.canEdit,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create property, on a new item in the board (first group unless groupId is given) or on an existing item
+router.post(
+  '/',
+  validate([
+    body('boardId').optional().isUUID(),
+    body('groupId').optional().isUUID(),
+    body('taskId').optional().isUUID(),
+    body('address').trim().notEmpty(),
+    ...propertyValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { boardId, groupId, taskId, address } = req.body;
+
+      let task: { id: string } | null = null;
+      let targetBoardId = boardId as string | undefined;
+
+      if (taskId) {
+        const existing = await prisma.task.findFirst({
+          where: { id: taskId, isActive: true },
+          select: { id: true, property: { select: { id: true } }, group: { select: { boardId: true } } },
+        });
+        if (!existing) {
+          return res.status(404).json({ error: 'Task not found' });
+        }
+        if (existing.property) {
+          return res.status(400).json({ error: 'This item already has a property' });
+        }
+        task = existing;
+        targetBoardId = existing.group.boardId;
+      }
+
+      if (!targetBoardId) {
+        return res.status(400).json({ error: 'boardId or taskId is required' });
+      }
+
+      const access = await checkBoardAccess(targetBoardId, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      if (!task) {
+        const group = await prisma.group.findFirst({
+          where: { boardId: targetBoardId, isActive: true, ...(groupId && { id: groupId }) },
+          orderBy: { position: 'asc' },
+        });
+        if (!group) {
+          return res.status(400).json({ error: groupId ? 'Group not found on this board' : 'Board has no groups' });
+        }
+
+        const maxPos = await prisma.task.aggregate({
+          where: { groupId: group.id },
+          _max: { position: true },
+        });
+
+        const created = await prisma.task.create({
+          data: {
+            groupId: group.id,
+            createdById: req.user!.id,
+            name: address,
+            position: (maxPos._max.position || 0) + 1,
+          },
+          include: {
+            fieldValues: true,
+            assignments: { include: { user: { select: { id: true, name: true, avatarUrl: true } } } },
+          },
+        });
+
+        await prisma.activityLog.create({
+          data: { taskId: created.id, userId: req.user!.id, action: 'created', details: { name: address } },
+        });
+
+        fireAutomations(targetBoardId, { trigger: AutomationTrigger.TASK_CREATED, taskId: created.id, groupId: group.id });
+        emitToBoard(targetBoardId, 'task_created', { task: { ...created, _count: { comments: 0, subTasks: 0 } } });
+        task = created;
+      }
+
+      const property = await prisma.property.create({
+        data: {
+          currency: access.board.workspace.defaultCurrency,
+          ...pickFields(req.body, PROPERTY_FIELDS, ['purchaseDate']),
+          workspaceId: access.board.workspaceId,
+          taskId: task.id,
+          address,
+        },
+      });
+
+      await syncPropertyToTask(property.id, req.user!.id);
+
+      const result = await prisma.property.findUnique({
+        where: { id: property.id },
+        include: { task: { select: PROPERTY_TASK_SELECT } },
+      });
+
+      res.status(201).json({ property: result });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Update property
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID(),
+    body('address').optional().trim().notEmpty(),
+    ...propertyValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkPropertyAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const property = await prisma.property.update({
+        where: { id: req.params.id },
+        data: pickFields(req.body, ['address', ...PROPERTY_FIELDS], ['purchaseDate']),
+      });
+
+      await syncPropertyToTask(property.id, req.user!.id);
+
+      res.json({ property });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete property (its item stays on the board)
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkPropertyAccess(req.params.id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.property.delete({ where: { id: req.params.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === Leases ===
+
+router.post(
+  '/:id/leases',
+  validate([
+    param('id').isUUID(),
+    body('tenantName').trim().notEmpty(),
+    body('monthlyRent').isFloat({ min: 0 }),
+    body('startDate').isISO8601(),
+    ...leaseValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkPropertyAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const data = pickFields(req.body, LEASE_FIELDS, ['startDate', 'endDate']);
+      const datesError = checkLeaseDates(data.startDate, data.endDate ?? null);
+      if (datesError) {
+        return res.status(400).json({ error: datesError });
+      }
+
+      const lease = await prisma.lease.create({
+        data: {
+          ...data,
+          propertyId: req.params.id,
+          tenantName: data.tenantName,
+          monthlyRent: data.monthlyRent,
+          startDate: data.startDate,
+        },
+      });
+
+      await syncLeaseCharges(lease.id);
+      await syncPropertyToTask(req.params.id, req.user!.id);
+
+      res.status(201).json({ lease });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.patch(
+  '/:id/leases/:leaseId',
+  validate([
+    param('id').isUUID(),
+    param('leaseId').isUUID(),
+    body('tenantName').optional().trim().notEmpty(),
+    body('monthlyRent').optional().isFloat({ min: 0 }),
+    body('startDate').optional().isISO8601(),
+    ...leaseValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, leaseId } = req.params;
+
+      const access = await checkPropertyAccess(id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const existing = await prisma.lease.findFirst({ where: { id: leaseId, propertyId: id } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Lease not found' });
+      }
+
+      const data = pickFields(req.body, LEASE_FIELDS, ['startDate', 'endDate']);
+      const datesError = checkLeaseDates(
+        data.startDate ?? existing.startDate,
+        data.endDate !== undefined ? data.endDate : existing.endDate
+      );
+      if (datesError) {
+        return res.status(400).json({ error: datesError });
+      }
+
+      const lease = await prisma.lease.update({ where: { id: leaseId }, data });
+
+      await syncLeaseCharges(leaseId);
+      await syncPropertyToTask(id, req.user!.id);
+
+      res.json({ lease });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.delete('/:id/leases/:leaseId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, leaseId } = req.params;
+
+    const access = await checkPropertyAccess(id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.lease.deleteMany({ where: { id: leaseId, propertyId: id } });
+
+    await syncPropertyToTask(id, req.user!.id);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === Rent ledger ===
+
+// Charges per lease with their payments and balances, and the arrears per tenant and for the property
+router.get('/:id/ledger', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkPropertyAccess(req.params.id, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const leaseIds = await prisma.lease.findMany({ where: { propertyId: req.params.id }, select: { id: true } });
+    for (const { id } of leaseIds) {
+      await syncLeaseCharges(id);
+    }
+
+    const leases = await prisma.lease.findMany({
+      where: { propertyId: req.params.id },
+      include: {
+        charges: {
+          include: { payments: { select: PAYMENT_SELECT, orderBy: { paidAt: 'asc' } } },
+          orderBy: { period: 'desc' },
+        },
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    const now = new Date();
+    res.json({
+      leases: leases.map(({ charges, ...lease }) => ({
+        ...lease,
+        arrears: arrears(charges, now),
+        charges: charges.map((charge) => ({ ...charge, ...chargeBalance(charge, now) })),
+      })),
+      arrears: arrears(leases.flatMap((l) => l.charges), now),
+      canEdit: access.canEdit,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Record a payment. Without a chargeId it settles the lease's oldest open charges first.
+router.post(
+  '/:id/payments',
+  validate([
+    param('id').isUUID(),
+    body('leaseId').isUUID(),
+    body('chargeId').optional().isUUID(),
+    body('amount').isFloat({ gt: 0 }),
+    body('paidAt').isISO8601(),
+    body('method').optional().isIn(Object.values(PaymentMethod)),
+    body('reference').optional({ nullable: true }).trim(),
+    body('notes').optional({ nullable: true }).trim(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkPropertyAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const { leaseId, chargeId, amount, paidAt, method, reference, notes } = req.body;
+
+      const lease = await prisma.lease.findFirst({ where: { id: leaseId, propertyId: req.params.id } });
+      if (!lease) {
+        return res.status(404).json({ error: 'Lease not found' });
+      }
+
+      await syncLeaseCharges(leaseId);
+      const allocation = await allocatePayment(leaseId, Number(amount), chargeId);
+      if ('error' in allocation) {
+        return res.status(400).json({ error: allocation.error });
+      }
+
+      const payments = await prisma.$transaction(
+        allocation.allocations.map((a) =>
+          prisma.rentPayment.create({
+            data: {
+              leaseId,
+              chargeId: a.chargeId,
+              amount: a.amount,
+              paidAt: new Date(paidAt),
+              method,
+              reference,
+              notes,
+              recordedById: req.user!.id,
+            },
+            select: PAYMENT_SELECT,
+          })
+        )
+      );
+
+      res.status(201).json({ payments });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.delete('/:id/payments/:paymentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, paymentId } = req.params;
+
+    const access = await checkPropertyAccess(id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.rentPayment.deleteMany({ where: { id: paymentId, lease: { propertyId: id } } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === Expenses ===
+
+router.get('/:id/expenses', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkPropertyAccess(req.params.id, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const expenses = await prisma.propertyExpense.findMany({
+      where: { propertyId: req.params.id },
+      include: { renovation: { select: { id: true, title: true } } },
+      orderBy: { date: 'desc' },
+    });
+
+    res.json({ expenses, canEdit: access.canEdit });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post(
+  '/:id/expenses',
+  validate([
+    param('id').isUUID(),
+    body('category').isIn(Object.values(ExpenseCategory)),
+    body('amount').isFloat({ gt: 0 }),
+    body('date').isISO8601(),
+    ...expenseValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkPropertyAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const data = pickFields(req.body, EXPENSE_FIELDS, ['date', 'endDate']);
+      const expenseError = await checkExpense(req.params.id, data.date, data.endDate ?? null, data.renovationId);
+      if (expenseError) {
+        return res.status(400).json({ error: expenseError });
+      }
+
+      const expense = await prisma.propertyExpense.create({
+        data: {
+          ...data,
+          propertyId: req.params.id,
+          category: data.category,
+          amount: data.amount,
+          date: data.date,
+          recordedById: req.user!.id,
+        },
+        include: { renovation: { select: { id: true, title: true } } },
+      });
+
+      res.status(201).json({ expense });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.patch(
+  '/:id/expenses/:expenseId',
+  validate([
+    param('id').isUUID(),
+    param('expenseId').isUUID(),
+    body('category').optional().isIn(Object.values(ExpenseCategory)),
+    body('amount').optional().isFloat({ gt: 0 }),
+    body('date').optional().isISO8601(),
+    ...expenseValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, expenseId } = req.params;
+
+      const access = await checkPropertyAccess(id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const existing = await prisma.propertyExpense.findFirst({ where: { id: expenseId, propertyId: id } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Expense not found' });
+      }
+
+      const data = pickFields(req.body, EXPENSE_FIELDS, ['date', 'endDate']);
+      const expenseError = await checkExpense(
+        id,
+        data.date ?? existing.date,
+        data.endDate !== undefined ? data.endDate : existing.endDate,
+        data.renovationId
+      );
+      if (expenseError) {
+        return res.status(400).json({ error: expenseError });
+      }
+
+      const expense = await prisma.propertyExpense.update({
+        where: { id: expenseId },
+        data,
+        include: { renovation: { select: { id: true, title: true } } },
+      });
+
+      res.json({ expense });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.delete('/:id/expenses/:expenseId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, expenseId } = req.params;
+
+    const access = await checkPropertyAccess(id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.propertyExpense.deleteMany({ where: { id: expenseId, propertyId: id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Income, expenses and returns for one property over a period (defaults to the last twelve months)
+router.get('/:id/report', validate(periodValidators), async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkPropertyAccess(req.params.id, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { from, to } = queryPeriod(req.query, lastTwelveMonths());
+    if (to < from) {
+      return res.status(400).json({ error: 'Period end must not be before its start' });
+    }
+
+    const { property } = access;
+    const converter = await periodConverter(property.workspaceId, req.query, property.currency, to);
+    const { properties: [report], ...portfolio } = await propertyReport([req.params.id], from, to, converter);
+
+    res.json({
+      report: { ...report, from: portfolio.from, to: portfolio.to, rates: portfolio.rates, missing: portfolio.missing },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === Renovations ===
+
+// Create renovation, optionally with its steps in order
+router.post(
+  '/:id/renovations',
+  validate([
+    param('id').isUUID(),
+    body('title').trim().notEmpty(),
+    body('description').optional({ nullable: true }).trim(),
+    body('status').optional().isIn(Object.values(RenovationStatus)),
+    body('budget').optional({ nullable: true }).isFloat({ min: 0 }),
+    body('startDate').optional({ nullable: true }).isISO8601(),
+    body('endDate').optional({ nullable: true }).isISO8601(),
+    body('steps').optional().isArray(),
+    body('steps.*.title').trim().notEmpty(),
+    body('steps.*.dueDate').optional({ nullable: true }).isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkPropertyAccess(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const { title, steps = [] } = req.body;
+
+      const renovation = await prisma.renovation.create({
+        data: {
+          ...pickFields(req.body, ['description', 'status', 'budget'], ['startDate', 'endDate']),
+          propertyId: req.params.id,
+          title,
+          steps: {
+            create: steps.map((step: { title: string; dueDate?: string | null }, idx: number) => ({
+              title: step.title,
+              dueDate: step.dueDate ? new Date(step.dueDate) : null,
+              position: idx,
+            })),
+          },
+        },
+        include: { steps: { orderBy: { position: 'asc' } } },
+      });
+
+      res.status(201).json({ renovation });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,249 @@
+import { Router, Response } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validate';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { RenovationStatus } from '@prisma/client';
+import { checkPropertyAccess } from '../lib/properties';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
+
+// Check property access via renovation
+async function checkAccessViaRenovation(renovationId: string, userId: string) {
+  const renovation = await prisma.renovation.findUnique({
+    where: { id: renovationId },
+    select: { propertyId: true },
+  });
+
+  if (!renovation) return null;
+
+  return checkPropertyAccess(renovation.propertyId, userId);
+}
+
+// Steps record when they were completed
+function stepCompletion(status: RenovationStatus | undefined, wasCompleted: boolean) {
+  if (status === undefined || (status === RenovationStatus.COMPLETED) === wasCompleted) return {};
+  return { completedAt: status === RenovationStatus.COMPLETED ? new Date() : null };
+}
+
+// Get single renovation with its steps
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkAccessViaRenovation(req.params.id, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const renovation = await prisma.renovation.findUnique({
+      where: { id: req.params.id },
+      include: {
+        steps: { orderBy: { position: 'asc' } },
+        property: { select: { id: true, address: true, city: true, currency: true } },
+      },
+    });
+
+    res.json({ renovation, canEdit: access.canEdit });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update renovation
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID(),
+    body('title').optional().trim().notEmpty(),
+    body('description').optional({ nullable: true }).trim(),
+    body('status').optional().isIn(Object.values(RenovationStatus)),
+    body('budget').optional({ nullable: true }).isFloat({ min: 0 }),
+    body('actualCost').optional({ nullable: true }).isFloat({ min: 0 }),
+    body('startDate').optional({ nullable: true }).isISO8601(),
+    body('endDate').optional({ nullable: true }).isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkAccessViaRenovation(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const { title, description, status, budget, actualCost, startDate, endDate } = req.body;
+      const data: any = {};
+
+      if (title !== undefined) data.title = title;
+      if (description !== undefined) data.description = description;
+      if (status !== undefined) data.status = status;
+      if (budget !== undefined) data.budget = budget;
+      if (actualCost !== undefined) data.actualCost = actualCost;
+      if (startDate !== undefined) data.startDate = startDate ? new Date(startDate) : null;
+      if (endDate !== undefined) data.endDate = endDate ? new Date(endDate) : null;
+
+      const renovation = await prisma.renovation.update({
+        where: { id: req.params.id },
+        data,
+        include: { steps: { orderBy: { position: 'asc' } } },
+      });
+
+      res.json({ renovation });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete renovation
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkAccessViaRenovation(req.params.id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.renovation.delete({ where: { id: req.params.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === Steps ===
+
+router.post(
+  '/:id/steps',
+  validate([
+    param('id').isUUID(),
+    body('title').trim().notEmpty(),
+    body('description').optional({ nullable: true }).trim(),
+    body('dueDate').optional({ nullable: true }).isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkAccessViaRenovation(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const { title, description, dueDate } = req.body;
+
+      const maxPos = await prisma.renovationStep.aggregate({
+        where: { renovationId: req.params.id },
+        _max: { position: true },
+      });
+
+      const step = await prisma.renovationStep.create({
+        data: {
+          renovationId: req.params.id,
+          title,
+          description,
+          dueDate: dueDate ? new Date(dueDate) : null,
+          position: (maxPos._max.position ?? -1) + 1,
+        },
+      });
+
+      res.status(201).json({ step });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Reorder steps
+router.post(
+  '/:id/steps/reorder',
+  validate([
+    param('id').isUUID(),
+    body('stepIds').isArray(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const access = await checkAccessViaRenovation(req.params.id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const { stepIds } = req.body;
+
+      await Promise.all(
+        stepIds.map((stepId: string, idx: number) =>
+          prisma.renovationStep.updateMany({
+            where: { id: stepId, renovationId: req.params.id },
+            data: { position: idx },
+          })
+        )
+      );
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.patch(
+  '/:id/steps/:stepId',
+  validate([
+    param('id').isUUID(),
+    param('stepId').isUUID(),
+    body('title').optional().trim().notEmpty(),
+    body('description').optional({ nullable: true }).trim(),
+    body('status').optional().isIn(Object.values(RenovationStatus)),
+    body('dueDate').optional({ nullable: true }).isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, stepId } = req.params;
+
+      const access = await checkAccessViaRenovation(id, req.user!.id);
+      if (!access?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const existing = await prisma.renovationStep.findFirst({ where: { id: stepId, renovationId: id } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Step not found' });
+      }
+
+      const { title, description, status, dueDate } = req.body;
+
+      const step = await prisma.renovationStep.update({
+        where: { id: stepId },
+        data: {
+          ...(title !== undefined && { title }),
+          ...(description !== undefined && { description }),
+          ...(status !== undefined && { status }),
+          ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate) : null }),
+          ...stepCompletion(status, existing.status === RenovationStatus.COMPLETED),
+        },
+      });
+
+      res.json({ step });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.delete('/:id/steps/:stepId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, stepId } = req.params;
+
+    const access = await checkAccessViaRenovation(id, req.user!.id);
+    if (!access?.canEdit) {
+      return res.status(403).json({ error: 'Edit access required' });
+    }
+
+    await prisma.renovationStep.deleteMany({ where: { id: stepId, renovationId: id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,13 +1,25 @@
 import { Router, Response } from 'express';
 import { body, param } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
-import { UserRole } from '@prisma/client';
+import { UserRole, FieldType, AutomationTrigger } from '@prisma/client';
+import { sameValue, validateFieldValue } from '../lib/fieldValues';
+import { normalizeMoney } from '../lib/currency';
+import { setPredecessors, shiftDependents } from '../lib/dependencies';
+import { recomputeTaskFormulas } from '../lib/formula';
+import { setRelations } from '../lib/relations';
+import { fireAutomations } from '../lib/automations';
+import { copyTask, COPY_MODES, CopyMode } from '../lib/boardCopy';
+import { emitToBoard } from '../lib/realtime';
+import { notify } from '../lib/notifications';
+import { syncTaskFieldToProperty, syncTaskNameToProperty } from '../lib/properties';
 
 const router = Router();
 
 router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Check board access via group
 async function checkAccessViaGroup(groupId: string, userId: string) {
@@ -103,9 +115,12 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
         createdBy: { select: { id: true, name: true, avatarUrl: true } },
         group: {
           include: {
-            board: { select: { id: true, name: true, workspaceId: true } },
+            board: {
+              select: { id: true, name: true, workspaceId: true, workspace: { select: { defaultCurrency: true } } },
+            },
           },
         },
+        property: { select: { id: true } },
       },
     });
 
@@ -161,6 +176,9 @@ router.post(
         },
       });
 
+      fireAutomations(access.board.id, { trigger: AutomationTrigger.TASK_CREATED, taskId: task.id, groupId });
+      emitToBoard(access.board.id, 'task_created', { task: { ...task, _count: { comments: 0, subTasks: 0 } } });
+
       res.status(201).json({ task });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -205,6 +223,10 @@ router.patch(
         },
       });
 
+      if (name) {
+        await syncTaskNameToProperty(task.id, name);
+      }
+
       // Log activity
       await prisma.activityLog.create({
         data: {
@@ -215,6 +237,8 @@ router.patch(
         },
       });
 
+      emitToBoard(access.board.id, 'task_updated', { task });
+
       res.json({ task });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -227,24 +251,72 @@ router.patch(
   '/:id/field/:columnId',
   validate([
     body('value').exists(),
+    body('shiftDependents').optional().isBoolean(),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
       const { id, columnId } = req.params;
-      const { value } = req.body;
+      let { value } = req.body;
 
       const access = await checkAccessViaTask(id, req.user!.id);
       if (!access?.canEdit) {
         return res.status(403).json({ error: 'Edit access required' });
       }
 
-      const fieldValue = await prisma.taskFieldValue.upsert({
+      const column = await prisma.column.findFirst({
+        where: { id: columnId, boardId: access.board.id },
+      });
+
+      if (!column) {
+        return res.status(404).json({ error: 'Column not found' });
+      }
+
+      if (column.type === FieldType.FORMULA || column.type === FieldType.MIRROR) {
+        return res.status(400).json({ error: `${column.type === FieldType.FORMULA ? 'Formula' : 'Mirror'} values are calculated and cannot be set directly` });
+      }
+
+      const valueError = validateFieldValue(column.type, value);
+      if (valueError) {
+        return res.status(400).json({ error: valueError });
+      }
+      value = normalizeMoney(column, value, access.board.workspace.defaultCurrency);
+
+      // Dependency cells mirror the task's predecessors in TaskDependency
+      if (column.type === FieldType.DEPENDENCY) {
+        const dependencyError = await setPredecessors(id, column.boardId, value || []);
+        if (dependencyError) {
+          return res.status(400).json({ error: dependencyError });
+        }
+      }
+
+      // Relation cells are read from TaskRelation when the board loads, so nothing is stored on the task
+      if (column.type === FieldType.RELATION) {
+        const relationError = await setRelations(column, id, value || [], req.user!.id);
+        if (relationError) {
+          return res.status(400).json({ error: relationError });
+        }
+      }
+
+      const previous = await prisma.taskFieldValue.findUnique({
         where: { taskId_columnId: { taskId: id, columnId } },
-        create: { taskId: id, columnId, value },
-        update: { value },
-        include: { column: true },
       });
 
+      const fieldValue = column.type === FieldType.RELATION
+        ? null
+        : await prisma.taskFieldValue.upsert({
+            where: { taskId_columnId: { taskId: id, columnId } },
+            create: { taskId: id, columnId, value },
+            update: { value },
+            include: { column: true },
+          });
+
+      const shifted = column.type === FieldType.TIMELINE && req.body.shiftDependents
+        ? await shiftDependents(id, column)
+        : [];
+
+      const formulas = await recomputeTaskFormulas(id, column.boardId, columnId);
+      await syncTaskFieldToProperty(id, column, value);
+
       // Log activity
       await prisma.activityLog.create({
         data: {
@@ -255,7 +327,89 @@ router.patch(
         },
       });
 
-      res.json({ fieldValue });
+      for (const shift of shifted) {
+        await prisma.activityLog.create({
+          data: {
+            taskId: shift.taskId,
+            userId: req.user!.id,
+            action: 'field_updated',
+            details: { columnId, value: shift.value, shiftedBy: id },
+          },
+        });
+      }
+
+      if (!sameValue(previous?.value ?? null, value ?? null)) {
+        if (column.type === FieldType.STATUS) {
+          fireAutomations(column.boardId, {
+            trigger: AutomationTrigger.STATUS_CHANGED,
+            taskId: id,
+            columnId,
+            from: (previous?.value as string) ?? null,
+            to: value ?? null,
+          });
+        }
+        if (column.type === FieldType.PERSON && value) {
+          fireAutomations(column.boardId, { trigger: AutomationTrigger.PERSON_ASSIGNED, taskId: id, columnId, userId: value });
+        }
+      }
+
+      // Relation cells show only the linked tasks each viewer may see, so both boards reload instead
+      if (column.type === FieldType.RELATION) {
+        emitToBoard(column.boardId, 'board_changed');
+        emitToBoard((column.settings as { boardId: string }).boardId, 'board_changed');
+      } else {
+        emitToBoard(column.boardId, 'field_updated', { taskId: id, columnId, value, shifted, formulas });
+      }
+
+      res.json({ fieldValue, shifted, formulas });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Duplicate task, into its own group or another group on any board the user can edit
+router.post(
+  '/:id/duplicate',
+  validate([
+    param('id').isUUID(),
+    body('mode').optional().isIn(COPY_MODES),
+    body('groupId').optional().isUUID(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { mode = 'items' } = req.body;
+
+      const access = await checkAccessViaTask(id, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const groupId = req.body.groupId || access.task.groupId;
+      const target = await checkAccessViaGroup(groupId, req.user!.id);
+      if (!target?.canEdit) {
+        return res.status(403).json({ error: 'Edit access required' });
+      }
+
+      const task = await copyTask(id, groupId, req.user!.id, mode as CopyMode);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+
+      await prisma.activityLog.create({
+        data: {
+          taskId: task.id,
+          userId: req.user!.id,
+          action: 'created',
+          details: { name: task.name, duplicatedFrom: id },
+        },
+      });
+
+      fireAutomations(target.board.id, { trigger: AutomationTrigger.TASK_CREATED, taskId: task.id, groupId });
+      emitToBoard(target.board.id, 'board_changed');
+
+      res.status(201).json({ task });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -287,6 +441,8 @@ router.post(
         )
       );
 
+      emitToBoard(access.board.id, 'tasks_reordered', { groupId, taskIds });
+
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -307,6 +463,8 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       data: { isActive: false },
     });
 
+    emitToBoard(access.board.id, 'task_deleted', { taskId: req.params.id });
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -334,15 +492,16 @@ router.post(
       });
 
       // Create notification
-      await prisma.notification.create({
-        data: {
+      await notify(
+        {
           userId,
           type: 'TASK_ASSIGNED',
           title: 'Task Assigned',
           message: `You were assigned to "${access.task?.name}"`,
           link: `/boards/${access.board?.id}?task=${id}`,
         },
-      });
+        access.board.workspaceId
+      );
 
       // Log activity
       await prisma.activityLog.create({
@@ -354,6 +513,9 @@ router.post(
         },
       });
 
+      fireAutomations(access.board.id, { trigger: AutomationTrigger.PERSON_ASSIGNED, taskId: id, userId });
+      emitToBoard(access.board.id, 'assignment_added', { taskId: id, assignment });
+
       res.json({ assignment });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -374,6 +536,8 @@ router.delete('/:id/assign/:userId', async (req: AuthRequest, res: Response) =>
       where: { taskId_userId: { taskId: id, userId } },
     });
 
+    emitToBoard(access.board.id, 'assignment_removed', { taskId: id, userId });
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -406,15 +570,16 @@ router.post(
       });
 
       for (const a of assignments) {
-        await prisma.notification.create({
-          data: {
+        await notify(
+          {
             userId: a.userId,
             type: 'TASK_COMMENT',
             title: 'New Comment',
             message: `${req.user!.name} commented on "${access.task?.name}"`,
             link: `/boards/${access.board?.id}?task=${id}`,
           },
-        });
+          access.board.workspaceId
+        );
       }
 
       // Log activity
@@ -427,6 +592,13 @@ router.post(
         },
       });
 
+      fireAutomations(access.board.id, { trigger: AutomationTrigger.COMMENT_ADDED, taskId: id, commentId: comment.id, content });
+      emitToBoard(access.board.id, 'comment_added', {
+        taskId: id,
+        comment,
+        commentCount: await prisma.comment.count({ where: { taskId: id } }),
+      });
+
       res.status(201).json({ comment });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -438,13 +610,22 @@ router.delete('/:taskId/comments/:commentId', async (req: AuthRequest, res: Resp
   try {
     const { taskId, commentId } = req.params;
 
-    const comment = await prisma.comment.findUnique({ where: { id: commentId } });
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: { task: { select: { group: { select: { boardId: true } } } } },
+    });
     if (!comment || comment.userId !== req.user!.id) {
       return res.status(403).json({ error: 'Can only delete your own comments' });
     }
 
     await prisma.comment.delete({ where: { id: commentId } });
 
+    emitToBoard(comment.task.group.boardId, 'comment_deleted', {
+      taskId,
+      commentId,
+      commentCount: await prisma.comment.count({ where: { taskId } }),
+    });
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
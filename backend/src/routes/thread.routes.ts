@@ -1,12 +1,15 @@
 import { Router, Response } from 'express';
 import { body, param } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
+import { markThreadRead, postMessage } from '../lib/chat';
 
 const router = Router();
 
 router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Get user's threads
 router.get('/', async (req: AuthRequest, res: Response) => {
@@ -101,10 +104,7 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
     });
 
     // Mark as read
-    await prisma.threadParticipant.update({
-      where: { threadId_userId: { threadId: id, userId: req.user!.id } },
-      data: { lastReadAt: new Date() },
-    });
+    await markThreadRead(id, req.user!.id, participantIds);
 
     res.json({ thread: { ...thread, participantUsers } });
   } catch (error: any) {
@@ -219,43 +219,7 @@ router.post(
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      const message = await prisma.message.create({
-        data: {
-          threadId: id,
-          senderId: req.user!.id,
-          content,
-        },
-        include: { sender: { select: { id: true, name: true, avatarUrl: true } } },
-      });
-
-      // Update thread updatedAt
-      await prisma.messageThread.update({
-        where: { id },
-        data: { updatedAt: new Date() },
-      });
-
-      // Update sender's lastReadAt
-      await prisma.threadParticipant.update({
-        where: { threadId_userId: { threadId: id, userId: req.user!.id } },
-        data: { lastReadAt: new Date() },
-      });
-
-      // Notify other participants
-      const otherParticipants = await prisma.threadParticipant.findMany({
-        where: { threadId: id, userId: { not: req.user!.id } },
-      });
-
-      for (const p of otherParticipants) {
-        await prisma.notification.create({
-          data: {
-            userId: p.userId,
-            type: 'MESSAGE_RECEIVED',
-            title: 'New Message',
-            message: `${req.user!.name}: ${content.substring(0, 50)}${content.length > 50 ? '...' : ''}`,
-            link: `/messages/${id}`,
-          },
-        });
-      }
+      const message = await postMessage(id, req.user!, content);
 
       res.status(201).json({ message });
     } catch (error: any) {
@@ -267,10 +231,7 @@ router.post(
 // Mark thread as read
 router.post('/:id/read', async (req: AuthRequest, res: Response) => {
   try {
-    await prisma.threadParticipant.update({
-      where: { threadId_userId: { threadId: req.params.id, userId: req.user!.id } },
-      data: { lastReadAt: new Date() },
-    });
+    await markThreadRead(req.params.id, req.user!.id);
 
     res.json({ success: true });
   } catch (error: any) {
@@ -0,0 +1,193 @@
+import { Router, Response } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validate';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, AuthRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { BoardViewType, Prisma } from '@prisma/client';
+import { checkBoardAccess } from '../lib/boardAccess';
+import { validateBoardQuery } from '../lib/boardQuery';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
+
+const viewValidators = [
+  body('type').optional().isIn(Object.values(BoardViewType)),
+  body('isShared').optional().isBoolean(),
+  body('filters').optional({ nullable: true }).isObject(),
+  body('filters.match').optional().isIn(['all', 'any']),
+  body('filters.conditions').optional().isArray(),
+  body('sort').optional({ nullable: true }).isArray(),
+  body('hiddenColumns').optional().isArray(),
+  body('hiddenColumns.*').isUUID(),
+];
+
+// Returns an error message when the view's filters, sort or hidden columns don't fit the board
+async function validateView(boardId: string, data: any) {
+  const columns = await prisma.column.findMany({ where: { boardId } });
+
+  const invalid = validateBoardQuery({ filters: data.filters, sort: data.sort }, columns);
+  if (invalid) return invalid;
+
+  const hidden: string[] = data.hiddenColumns || [];
+  if (hidden.some((id) => !columns.some((c) => c.id === id))) {
+    return 'Hidden columns must belong to this board';
+  }
+
+  return null;
+}
+
+// Get views on a board: shared ones plus the user's own private ones
+router.get('/board/:boardId', async (req: AuthRequest, res: Response) => {
+  try {
+    const access = await checkBoardAccess(req.params.boardId, req.user!.id);
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const views = await prisma.boardView.findMany({
+      where: {
+        boardId: req.params.boardId,
+        OR: [{ isShared: true }, { createdById: req.user!.id }],
+      },
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({ views });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create view
+router.post(
+  '/',
+  validate([
+    body('boardId').isUUID(),
+    body('name').trim().notEmpty(),
+    ...viewValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { boardId, name, type, isShared, filters, sort, hiddenColumns } = req.body;
+
+      const access = await checkBoardAccess(boardId, req.user!.id);
+      if (!access) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      // Anyone who can see the board may save private views; sharing needs edit access
+      if (isShared && !access.canEdit) {
+        return res.status(403).json({ error: 'Edit access required to share views' });
+      }
+
+      const invalid = await validateView(boardId, req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const maxPos = await prisma.boardView.aggregate({
+        where: { boardId },
+        _max: { position: true },
+      });
+
+      const view = await prisma.boardView.create({
+        data: {
+          boardId,
+          createdById: req.user!.id,
+          name,
+          type,
+          isShared: isShared || false,
+          filters: filters ?? Prisma.JsonNull,
+          sort: sort ?? Prisma.JsonNull,
+          hiddenColumns: hiddenColumns || [],
+          position: (maxPos._max.position || 0) + 1,
+        },
+        include: { createdBy: { select: { id: true, name: true } } },
+      });
+
+      res.status(201).json({ view });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Update view
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID(),
+    body('name').optional().trim().notEmpty(),
+    ...viewValidators,
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const view = await prisma.boardView.findUnique({ where: { id: req.params.id } });
+      if (!view) {
+        return res.status(404).json({ error: 'View not found' });
+      }
+
+      const access = await checkBoardAccess(view.boardId, req.user!.id);
+      const isOwner = view.createdById === req.user!.id;
+      if (!access || (!isOwner && !(view.isShared && access.canEdit))) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (req.body.isShared !== undefined && req.body.isShared !== view.isShared && (!isOwner || !access.canEdit)) {
+        return res.status(403).json({ error: 'Only the creator can change who sees this view' });
+      }
+
+      const invalid = await validateView(view.boardId, req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const { name, type, isShared, filters, sort, hiddenColumns } = req.body;
+
+      const updated = await prisma.boardView.update({
+        where: { id: req.params.id },
+        data: {
+          name,
+          type,
+          isShared,
+          filters: filters === null ? Prisma.JsonNull : filters,
+          sort: sort === null ? Prisma.JsonNull : sort,
+          hiddenColumns,
+        },
+        include: { createdBy: { select: { id: true, name: true } } },
+      });
+
+      res.json({ view: updated });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete view
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const view = await prisma.boardView.findUnique({ where: { id: req.params.id } });
+    if (!view) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+
+    const access = await checkBoardAccess(view.boardId, req.user!.id);
+    const isOwner = view.createdById === req.user!.id;
+    if (!access || (!isOwner && !(view.isShared && access.canEdit))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await prisma.boardView.delete({ where: { id: req.params.id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
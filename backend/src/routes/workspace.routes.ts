@@ -1,14 +1,23 @@
 import { Router, Response } from 'express';
 import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validate';
-import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { authenticate, requireVerifiedEmail, requireTwoFactorSetup, authorize, AuthRequest } from '../middleware/auth';
+import { uploadFile } from '../middleware/upload';
 import { prisma } from '../lib/prisma';
-import { UserRole } from '@prisma/client';
-import bcrypt from 'bcryptjs';
+import { Currency, EmailStatus, UserRole } from '@prisma/client';
+import { importExchangeRates } from '../lib/currency';
+import { DATE_ORDERS, readImportFile } from '../lib/boardImport';
+import { appUrl, queueEmail, retryEmail } from '../lib/mailer';
+import { createPasswordResetToken, SET_PASSWORD_TTL_MS, unusablePasswordHash } from '../lib/passwordReset';
+import { verificationRequired } from '../lib/emailVerification';
+import { revokeSessions } from '../lib/sessions';
+import { disconnectUser } from '../lib/realtime';
 
 const router = Router();
 
 router.use(authenticate);
+router.use(requireVerifiedEmail);
+router.use(requireTwoFactorSetup);
 
 // Get all workspaces for current user
 router.get('/', async (req: AuthRequest, res: Response) => {
@@ -114,6 +123,10 @@ router.patch(
     body('name').optional().trim().notEmpty(),
     body('description').optional().trim(),
     body('defaultCurrency').optional().isIn(['USD', 'ILS', 'EUR', 'GBP']),
+    body('emailFromName').optional({ nullable: true }).trim(),
+    body('emailReplyTo').optional({ nullable: true }).isEmail(),
+    body('brandColor').optional({ nullable: true }).matches(/^#[0-9a-fA-F]{6}$/).withMessage('Brand color must be a hex color'),
+    body('requireTwoFactor').optional().isBoolean().toBoolean(),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
@@ -128,11 +141,37 @@ router.patch(
         return res.status(403).json({ error: 'Admin access required' });
       }
 
+      if (req.body.requireTwoFactor !== undefined) {
+        if (membership.role !== UserRole.OWNER_ADMIN) {
+          return res.status(403).json({ error: 'Only admins can change the two-factor requirement' });
+        }
+
+        // An admin without 2FA would lock themselves out
+        const admin = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { twoFactorEnabled: true } });
+        if (req.body.requireTwoFactor && !admin?.twoFactorEnabled) {
+          return res.status(400).json({ error: 'Turn on two-factor authentication for your own account first' });
+        }
+      }
+
       const workspace = await prisma.workspace.update({
         where: { id },
         data: req.body,
       });
 
+      // Staff who haven't set up 2FA lose their live connections until they do
+      if (req.body.requireTwoFactor) {
+        const unenrolled = await prisma.workspaceMember.findMany({
+          where: {
+            workspaceId: id,
+            isActive: true,
+            role: { in: [UserRole.OWNER_ADMIN, UserRole.EMPLOYEE] },
+            user: { twoFactorEnabled: false },
+          },
+          select: { userId: true },
+        });
+        unenrolled.forEach((m) => disconnectUser(m.userId));
+      }
+
       res.json({ workspace });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -191,6 +230,15 @@ router.delete('/:id/members/:userId', async (req: AuthRequest, res: Response) =>
       data: { isActive: false },
     });
 
+    // Someone left with no workspace is signed out everywhere; otherwise their open connections are dropped so
+    // they stop receiving this workspace's events
+    const remaining = await prisma.workspaceMember.count({ where: { userId, isActive: true } });
+    if (remaining === 0) {
+      await revokeSessions({ userId });
+    } else {
+      disconnectUser(userId);
+    }
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -207,12 +255,11 @@ router.post(
     body('name').trim().notEmpty(),
     body('role').isIn(['EMPLOYEE', 'CUSTOMER']),
     body('phone').optional().trim(),
-    body('password').optional(),
   ]),
   async (req: AuthRequest, res: Response) => {
     try {
       const { id: workspaceId } = req.params;
-      const { email, name, role, phone, password } = req.body;
+      const { email, name, role, phone } = req.body;
 
       console.log('Add member request:', { workspaceId, email, name, role, userId: req.user?.id });
 
@@ -239,6 +286,7 @@ router.post(
 
       // Check if user already exists
       let user = await prisma.user.findUnique({ where: { email } });
+      const isNewUser = !user;
 
       if (user) {
         // Check if already a member
@@ -250,6 +298,10 @@ router.post(
           return res.status(400).json({ error: 'User is already a member of this workspace' });
         }
 
+        if (!user.emailVerified && verificationRequired()) {
+          return res.status(400).json({ error: 'This user has not verified their email address yet' });
+        }
+
         // Re-activate if was deactivated
         if (existingMember && !existingMember.isActive) {
           await prisma.workspaceMember.update({
@@ -267,15 +319,13 @@ router.post(
           });
         }
       } else {
-        // Create new user
-        const passwordHash = await bcrypt.hash(password || 'Welcome123!', 12);
-        
+        // Create new user; they choose their own password through the emailed link
         user = await prisma.user.create({
           data: {
             email,
             name,
             phone,
-            passwordHash,
+            passwordHash: await unusablePasswordHash(),
             role: role as UserRole,
             emailVerified: true, // Admin-created accounts are pre-verified
             workspaces: {
@@ -283,6 +333,21 @@ router.post(
             },
           },
         });
+
+        const workspace = await prisma.workspace.findUnique({ where: { id: workspaceId }, select: { name: true } });
+        const token = await createPasswordResetToken(user.id, SET_PASSWORD_TTL_MS);
+        await queueEmail(
+          email,
+          'setPassword',
+          {
+            name,
+            workspaceName: workspace!.name,
+            inviterName: req.user!.name,
+            url: appUrl(`/reset-password?token=${token}`),
+            expiresAt: new Date(Date.now() + SET_PASSWORD_TTL_MS),
+          },
+          workspaceId
+        );
       }
 
       // Fetch the member with user details
@@ -304,11 +369,7 @@ router.post(
         },
       });
 
-      res.status(201).json({ 
-        member,
-        isNewUser: !user.passwordHash || password ? true : false,
-        temporaryPassword: !user.passwordHash ? 'Welcome123!' : undefined,
-      });
+      res.status(201).json({ member, isNewUser });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -408,4 +469,212 @@ router.get('/:id/members/:userId', authenticate, async (req: AuthRequest, res: R
   }
 });
 
+// === Exchange rates ===
+
+const EXCHANGE_RATE_SELECT = {
+  id: true,
+  fromCurrency: true,
+  toCurrency: true,
+  rate: true,
+  date: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true } },
+};
+
+async function isWorkspaceAdmin(workspaceId: string, userId: string) {
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+  return membership?.role === UserRole.OWNER_ADMIN;
+}
+
+// Get exchange rates, newest first, optionally for one currency pair
+router.get(
+  '/:id/exchange-rates',
+  validate([
+    param('id').isUUID(),
+    query('fromCurrency').optional().isIn(Object.values(Currency)),
+    query('toCurrency').optional().isIn(Object.values(Currency)),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { fromCurrency, toCurrency } = req.query as { fromCurrency?: Currency; toCurrency?: Currency };
+
+      const membership = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId: id, userId: req.user!.id } },
+      });
+
+      if (!membership) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const rates = await prisma.exchangeRate.findMany({
+        where: { workspaceId: id, ...(fromCurrency && { fromCurrency }), ...(toCurrency && { toCurrency }) },
+        select: EXCHANGE_RATE_SELECT,
+        orderBy: [{ date: 'desc' }, { fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+      });
+
+      res.json({ rates });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Set the rate for a currency pair on a day, replacing any already stored for it
+router.post(
+  '/:id/exchange-rates',
+  validate([
+    param('id').isUUID(),
+    body('fromCurrency').isIn(Object.values(Currency)),
+    body('toCurrency').isIn(Object.values(Currency)),
+    body('rate').isFloat({ gt: 0 }),
+    body('date').isISO8601(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { fromCurrency, toCurrency, rate } = req.body;
+      const date = new Date(req.body.date);
+
+      if (!(await isWorkspaceAdmin(id, req.user!.id))) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      if (fromCurrency === toCurrency) {
+        return res.status(400).json({ error: 'From and to currencies must differ' });
+      }
+
+      const exchangeRate = await prisma.exchangeRate.upsert({
+        where: { workspaceId_fromCurrency_toCurrency_date: { workspaceId: id, fromCurrency, toCurrency, date } },
+        create: { workspaceId: id, fromCurrency, toCurrency, rate, date, createdById: req.user!.id },
+        update: { rate, createdById: req.user!.id },
+        select: EXCHANGE_RATE_SELECT,
+      });
+
+      res.status(201).json({ rate: exchangeRate });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Upload rates from a CSV or XLSX file with date, from, to and rate columns
+router.post(
+  '/:id/exchange-rates/upload',
+  uploadFile,
+  validate([param('id').isUUID(), body('dateOrder').optional().isIn(DATE_ORDERS)]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await isWorkspaceAdmin(id, req.user!.id))) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const sheet = await readImportFile(req.file!);
+      if ('error' in sheet) {
+        return res.status(400).json({ error: sheet.error });
+      }
+
+      const result = await importExchangeRates(id, req.user!.id, sheet, req.body.dateOrder || 'MDY');
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Delete an exchange rate
+router.delete('/:id/exchange-rates/:rateId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, rateId } = req.params;
+
+    if (!(await isWorkspaceAdmin(id, req.user!.id))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    await prisma.exchangeRate.deleteMany({ where: { id: rateId, workspaceId: id } });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const EMAIL_SELECT = {
+  id: true,
+  to: true,
+  subject: true,
+  template: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+};
+
+// Get the workspace's outgoing emails, newest first
+router.get(
+  '/:id/emails',
+  validate([
+    param('id').isUUID(),
+    query('status').optional().isIn(Object.values(EmailStatus)),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ]),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { status, limit } = req.query as { status?: EmailStatus; limit?: number };
+
+      if (!(await isWorkspaceAdmin(id, req.user!.id))) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      const emails = await prisma.outboundEmail.findMany({
+        where: { workspaceId: id, ...(status && { status }) },
+        select: EMAIL_SELECT,
+        orderBy: { createdAt: 'desc' },
+        take: limit || 50,
+      });
+
+      res.json({ emails });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+// Send a failed email again
+router.post('/:id/emails/:emailId/retry', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, emailId } = req.params;
+
+    if (!(await isWorkspaceAdmin(id, req.user!.id))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const email = await prisma.outboundEmail.findFirst({ where: { id: emailId, workspaceId: id } });
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    if (email.status !== EmailStatus.FAILED) {
+      return res.status(400).json({ error: 'Only failed emails can be retried' });
+    }
+
+    await retryEmail(email.id);
+    const updated = await prisma.outboundEmail.findUnique({ where: { id: email.id }, select: EMAIL_SELECT });
+
+    res.json({ email: updated });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Link, router } from 'expo-router';
+import { useTheme, spacing, fontSize } from '@/theme';
+import { Button, Input } from '@/components/ui';
+import { authApi } from '@/services/api';
+
+export default function ForgotPasswordScreen() {
+  const theme = useTheme();
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const handleSend = async () => {
+    if (!email) return setError('Email is required');
+    if (!/\S+@\S+\.\S+/.test(email)) return setError('Invalid email format');
+    setError(undefined);
+
+    setLoading(true);
+    try {
+      await authApi.forgotPassword(email.trim().toLowerCase());
+      Alert.alert(
+        'Check Your Email',
+        `If ${email} has an account, we've sent it a link to reset the password. The link expires in an hour.`,
+        [{ text: 'OK', onPress: () => router.replace('/(auth)/reset-password') }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || 'Failed to send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Forgot Password</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+            We'll email you a link to choose a new one
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <Input
+            label="Email"
+            placeholder="Enter your email"
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            leftIcon="mail-outline"
+            error={error}
+          />
+
+          <Button
+            title="Send Reset Link"
+            onPress={handleSend}
+            loading={loading}
+            fullWidth
+            style={styles.button}
+          />
+
+          <View style={styles.footer}>
+            <Text style={[styles.footerText, { color: theme.colors.textSecondary }]}>
+              Remembered it?{' '}
+            </Text>
+            <Link href="/(auth)/login" asChild>
+              <Text style={[styles.link, { color: theme.colors.secondary }]}>
+                Sign In
+              </Text>
+            </Link>
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    textAlign: 'center',
+  },
+  form: {
+    width: '100%',
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: spacing.xl,
+  },
+  footerText: {
+    fontSize: fontSize.md,
+  },
+  link: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+});
@@ -36,7 +36,11 @@ export default function LoginScreen() {
 
     setLoading(true);
     try {
-      await login(email, password);
+      const challengeToken = await login(email, password);
+      if (challengeToken) {
+        router.push({ pathname: '/(auth)/two-factor', params: { challengeToken } });
+        return;
+      }
       router.replace('/(tabs)');
     } catch (error: any) {
       Alert.alert('Login Failed', error.message);
@@ -88,6 +92,10 @@ export default function LoginScreen() {
             error={errors.password}
           />
 
+          <Link href="/(auth)/forgot-password" asChild>
+            <Text style={[styles.forgot, { color: theme.colors.secondary }]}>Forgot password?</Text>
+          </Link>
+
           <Button
             title="Sign In"
             onPress={handleLogin}
@@ -142,6 +150,11 @@ const styles = StyleSheet.create({
   form: {
     width: '100%',
   },
+  forgot: {
+    alignSelf: 'flex-end',
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
   button: {
     marginTop: spacing.md,
   },
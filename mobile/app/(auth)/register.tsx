@@ -12,7 +12,8 @@ import { Link, router, useLocalSearchParams } from 'expo-router';
 import { useTheme, spacing, fontSize } from '@/theme';
 import { Button, Input } from '@/components/ui';
 import { useAuthStore } from '@/store/auth';
-import { invitationApi } from '@/services/api';
+import { inviteApi } from '@/services/api';
+import type { Invite } from '@shared/types';
 
 export default function RegisterScreen() {
   const theme = useTheme();
@@ -25,11 +26,7 @@ export default function RegisterScreen() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [validatingToken, setValidatingToken] = useState(!!token);
-  const [invitation, setInvitation] = useState<{
-    email: string;
-    role: string;
-    inviterName: string;
-  } | null>(null);
+  const [invitation, setInvitation] = useState<Invite | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -40,9 +37,9 @@ export default function RegisterScreen() {
 
   const validateInvitation = async () => {
     try {
-      const response = await invitationApi.validate(token!);
-      setInvitation(response.data.invitation);
-      setEmail(response.data.invitation.email);
+      const response = await inviteApi.getByToken(token!);
+      setInvitation(response.data.invite);
+      setEmail(response.data.invite.email);
     } catch (error: any) {
       Alert.alert(
         'Invalid Invitation',
@@ -75,7 +72,7 @@ export default function RegisterScreen() {
         email,
         password,
         name,
-        invitationToken: token,
+        inviteToken: token,
       });
       router.replace('/(tabs)');
     } catch (error: any) {
@@ -122,7 +119,7 @@ export default function RegisterScreen() {
           <Text style={[styles.title, { color: theme.colors.text }]}>Create Account</Text>
           {invitation && (
             <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
-              Invited by {invitation.inviterName} as {invitation.role.toLowerCase()}
+              Invited by {invitation.invitedBy.name} to {invitation.workspace.name} as {invitation.role.toLowerCase()}
             </Text>
           )}
         </View>
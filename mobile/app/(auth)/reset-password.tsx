@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Link, router, useLocalSearchParams } from 'expo-router';
+import { useTheme, spacing, fontSize } from '@/theme';
+import { Button, Input } from '@/components/ui';
+import { authApi } from '@/services/api';
+
+// Reset tokens are 64 hex characters; the screen takes the token from a deep link or the link pasted from the email
+const TOKEN_PATTERN = /[0-9a-f]{64}/i;
+
+export default function ResetPasswordScreen() {
+  const theme = useTheme();
+  const params = useLocalSearchParams<{ token?: string }>();
+
+  const [link, setLink] = useState(params.token || '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const token = link.match(TOKEN_PATTERN)?.[0];
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+    if (!token) newErrors.link = 'Paste the link from the email';
+    if (!password) newErrors.password = 'Password is required';
+    else if (password.length < 8) newErrors.password = 'Password must be at least 8 characters';
+    if (password !== confirmPassword) newErrors.confirmPassword = 'Passwords do not match';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleReset = async () => {
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      await authApi.resetPassword(token!, password);
+      Alert.alert('Password Set', 'You can now sign in with your new password.', [
+        { text: 'OK', onPress: () => router.replace('/(auth)/login') },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Reset Failed', error.response?.data?.error || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Choose a Password</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+            The link in the email works once
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          {!params.token && (
+            <Input
+              label="Reset Link"
+              placeholder="Paste the link from the email"
+              value={link}
+              onChangeText={setLink}
+              autoCapitalize="none"
+              autoCorrect={false}
+              leftIcon="link-outline"
+              error={errors.link}
+            />
+          )}
+
+          <Input
+            label="New Password"
+            placeholder="Create a password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            leftIcon="lock-closed-outline"
+            error={errors.password}
+          />
+
+          <Input
+            label="Confirm Password"
+            placeholder="Confirm your password"
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry
+            leftIcon="lock-closed-outline"
+            error={errors.confirmPassword}
+          />
+
+          <Button
+            title="Set Password"
+            onPress={handleReset}
+            loading={loading}
+            fullWidth
+            style={styles.button}
+          />
+
+          <View style={styles.footer}>
+            <Text style={[styles.footerText, { color: theme.colors.textSecondary }]}>
+              Link expired?{' '}
+            </Text>
+            <Link href="/(auth)/forgot-password" asChild>
+              <Text style={[styles.link, { color: theme.colors.secondary }]}>
+                Send a New One
+              </Text>
+            </Link>
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    textAlign: 'center',
+  },
+  form: {
+    width: '100%',
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: spacing.xl,
+  },
+  footerText: {
+    fontSize: fontSize.md,
+  },
+  link: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+});
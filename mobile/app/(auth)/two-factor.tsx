@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useTheme, spacing, fontSize } from '@/theme';
+import { Button, Input } from '@/components/ui';
+import { useAuthStore } from '@/store/auth';
+
+// Second login step for accounts with 2FA; login passes the challenge it got for the password
+export default function TwoFactorScreen() {
+  const theme = useTheme();
+  const { challengeToken } = useLocalSearchParams<{ challengeToken: string }>();
+  const { loginWithCode } = useAuthStore();
+
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      setError('Code is required');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+    try {
+      await loginWithCode(challengeToken!, code);
+      router.replace('/(tabs)');
+    } catch (error: any) {
+      Alert.alert('Verification Failed', error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>Two-Factor Authentication</Text>
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+            Enter the code from your authenticator app, or one of your recovery codes
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          <Input
+            label="Code"
+            placeholder="123456"
+            value={code}
+            onChangeText={setCode}
+            keyboardType="number-pad"
+            textContentType="oneTimeCode"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            leftIcon="shield-checkmark-outline"
+            error={error}
+          />
+
+          <Button
+            title="Verify"
+            onPress={handleVerify}
+            loading={loading}
+            fullWidth
+            style={styles.button}
+          />
+
+          <Button
+            title="Back to Sign In"
+            variant="ghost"
+            onPress={() => router.back()}
+            fullWidth
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    textAlign: 'center',
+  },
+  form: {
+    width: '100%',
+  },
+  button: {
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+});
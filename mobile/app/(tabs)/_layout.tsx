@@ -6,7 +6,7 @@ import { useAuthStore } from '@/store/auth';
 
 export default function TabsLayout() {
   const colorScheme = useColorScheme();
-  const { user } = useAuthStore();
+  const { currentWorkspace } = useAuthStore();
   const isDark = colorScheme === 'dark';
   
   const tabBarBackground = isDark ? colors.dark.surface : colors.light.surface;
@@ -14,8 +14,8 @@ export default function TabsLayout() {
   const activeColor = colors.secondary;
   const inactiveColor = isDark ? colors.dark.textTertiary : colors.light.textTertiary;
 
-  const isAdmin = user?.role === 'ADMIN';
-  const isEmployee = user?.role === 'EMPLOYEE';
+  // Customers only see the boards shared with them; the team tab is for staff
+  const isStaff = currentWorkspace?.role === 'OWNER_ADMIN' || currentWorkspace?.role === 'EMPLOYEE';
 
   return (
     <Tabs
@@ -36,21 +36,17 @@ export default function TabsLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: isAdmin ? 'Dashboard' : 'Properties',
+          title: 'Boards',
           tabBarIcon: ({ color, size }) => (
-            <Ionicons
-              name={isAdmin ? 'grid-outline' : 'home-outline'}
-              size={size}
-              color={color}
-            />
+            <Ionicons name="grid-outline" size={size} color={color} />
           ),
         }}
       />
-      {(isAdmin || isEmployee) && (
+      {isStaff && (
         <Tabs.Screen
-          name="customers"
+          name="team"
           options={{
-            title: 'Customers',
+            title: 'Team',
             tabBarIcon: ({ color, size }) => (
               <Ionicons name="people-outline" size={size} color={color} />
             ),
@@ -12,211 +12,66 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { Card, Badge, EmptyState } from '@/components/ui';
 import { useAuthStore } from '@/store/auth';
-import { propertyApi, adminApi } from '@/services/api';
+import { boardApi, propertyApi } from '@/services/api';
+import type { BoardSummary, BoardType, PortfolioSummary } from '@shared/types';
 
-interface Property {
-  id: string;
-  address: string;
-  city: string;
-  monthlyRent: number;
-  purchaseCost: number;
-  tenantName?: string;
-  rentalStart?: string;
-  rentalEnd?: string;
-  status: 'ACTIVE' | 'VACANT' | 'RENOVATION' | 'SOLD';
-  renovations?: { id: string; title: string; status: string }[];
-}
-
-interface AdminOverview {
-  totalCustomers: number;
-  totalEmployees: number;
-  totalProperties: number;
-  activeProperties: number;
-  vacantProperties: number;
-  totalMonthlyRent: number;
-  estimatedAnnualRevenue: number;
-  recentCustomers: { id: string; name: string; email: string; createdAt: string }[];
-}
+const BOARD_TYPE_ICONS: Record<BoardType, keyof typeof Ionicons.glyphMap> = {
+  PROPERTY: 'home-outline',
+  PROJECT: 'construct-outline',
+  CRM: 'people-outline',
+  GENERAL: 'grid-outline',
+};
 
-export default function HomeScreen() {
+export default function BoardsScreen() {
   const theme = useTheme();
-  const { user } = useAuthStore();
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [adminOverview, setAdminOverview] = useState<AdminOverview | null>(null);
-  const [financials, setFinancials] = useState<any>(null);
+  const { user, currentWorkspace, setCurrentWorkspace } = useAuthStore();
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [financials, setFinancials] = useState<PortfolioSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [showWorkspaces, setShowWorkspaces] = useState(false);
 
-  const isAdmin = user?.role === 'ADMIN';
-  const isCustomer = user?.role === 'CUSTOMER';
-
-  const fetchData = async () => {
+  const fetchBoards = async () => {
+    if (!currentWorkspace) {
+      setLoading(false);
+      return;
+    }
     try {
-      if (isAdmin) {
-        const response = await adminApi.getOverview();
-        setAdminOverview(response.data.overview);
-      } else {
-        const [propertiesRes, financialsRes] = await Promise.all([
-          propertyApi.getAll(),
-          isCustomer ? propertyApi.getFinancials(user!.id) : Promise.resolve(null),
-        ]);
-        setProperties(propertiesRes.data.properties || []);
-        if (financialsRes) setFinancials(financialsRes.data.financials);
-      }
+      // The rent summary is extra; the boards still show if it fails
+      const [boardsRes, financialsRes] = await Promise.all([
+        boardApi.getByWorkspace(currentWorkspace.id),
+        propertyApi.getFinancials(currentWorkspace.id).catch(() => null),
+      ]);
+      setBoards(boardsRes.data.boards);
+      setFinancials(financialsRes?.data.summary ?? null);
     } catch (error) {
-      console.error('Failed to fetch data:', error);
+      console.error('Failed to fetch boards:', error);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    setLoading(true);
+    fetchBoards();
+  }, [currentWorkspace?.id]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchData();
+    await fetchBoards();
     setRefreshing(false);
-  }, []);
+  }, [currentWorkspace?.id]);
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'ACTIVE':
-        return <Badge text="Active" variant="success" size="sm" />;
-      case 'VACANT':
-        return <Badge text="Vacant" variant="warning" size="sm" />;
-      case 'RENOVATION':
-        return <Badge text="Renovation" variant="info" size="sm" />;
-      case 'SOLD':
-        return <Badge text="Sold" variant="default" size="sm" />;
-      default:
-        return null;
-    }
-  };
+  const workspaces = user?.workspaces || [];
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: financials!.currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
 
-  // Admin Dashboard
-  if (isAdmin && adminOverview) {
-    return (
-      <ScrollView
-        style={[styles.container, { backgroundColor: theme.colors.background }]}
-        contentContainerStyle={styles.content}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-      >
-        <Text style={[styles.greeting, { color: theme.colors.text }]}>
-          Welcome, {user?.name}
-        </Text>
-
-        {/* Stats Grid */}
-        <View style={styles.statsGrid}>
-          <Card style={styles.statCard} variant="outlined">
-            <Ionicons name="people" size={24} color={theme.colors.info} />
-            <Text style={[styles.statValue, { color: theme.colors.text }]}>
-              {adminOverview.totalCustomers}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Customers
-            </Text>
-          </Card>
-          <Card style={styles.statCard} variant="outlined">
-            <Ionicons name="briefcase" size={24} color={theme.colors.warning} />
-            <Text style={[styles.statValue, { color: theme.colors.text }]}>
-              {adminOverview.totalEmployees}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Employees
-            </Text>
-          </Card>
-          <Card style={styles.statCard} variant="outlined">
-            <Ionicons name="home" size={24} color={theme.colors.success} />
-            <Text style={[styles.statValue, { color: theme.colors.text }]}>
-              {adminOverview.totalProperties}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Properties
-            </Text>
-          </Card>
-          <Card style={styles.statCard} variant="outlined">
-            <Ionicons name="cash" size={24} color={theme.colors.primary} />
-            <Text style={[styles.statValue, { color: theme.colors.text }]}>
-              {formatCurrency(adminOverview.totalMonthlyRent)}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Monthly Rent
-            </Text>
-          </Card>
-        </View>
-
-        {/* Revenue Card */}
-        <Card variant="elevated" style={styles.revenueCard}>
-          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Revenue Overview
-          </Text>
-          <View style={styles.revenueRow}>
-            <View>
-              <Text style={[styles.revenueLabel, { color: theme.colors.textSecondary }]}>
-                Active Properties
-              </Text>
-              <Text style={[styles.revenueValue, { color: theme.colors.success }]}>
-                {adminOverview.activeProperties}
-              </Text>
-            </View>
-            <View>
-              <Text style={[styles.revenueLabel, { color: theme.colors.textSecondary }]}>
-                Vacant
-              </Text>
-              <Text style={[styles.revenueValue, { color: theme.colors.warning }]}>
-                {adminOverview.vacantProperties}
-              </Text>
-            </View>
-            <View>
-              <Text style={[styles.revenueLabel, { color: theme.colors.textSecondary }]}>
-                Est. Annual
-              </Text>
-              <Text style={[styles.revenueValue, { color: theme.colors.text }]}>
-                {formatCurrency(adminOverview.estimatedAnnualRevenue)}
-              </Text>
-            </View>
-          </View>
-        </Card>
-
-        {/* Recent Customers */}
-        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-          Recent Customers
-        </Text>
-        {adminOverview.recentCustomers.map((customer) => (
-          <Card
-            key={customer.id}
-            variant="outlined"
-            style={styles.customerCard}
-            onPress={() => router.push(`/customer/${customer.id}`)}
-          >
-            <View style={styles.customerInfo}>
-              <Text style={[styles.customerName, { color: theme.colors.text }]}>
-                {customer.name}
-              </Text>
-              <Text style={[styles.customerEmail, { color: theme.colors.textSecondary }]}>
-                {customer.email}
-              </Text>
-            </View>
-            <Ionicons name="chevron-forward" size={20} color={theme.colors.textTertiary} />
-          </Card>
-        ))}
-      </ScrollView>
-    );
-  }
-
-  // Customer/Employee Properties View
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: theme.colors.background }]}
@@ -229,105 +84,161 @@ export default function HomeScreen() {
         Welcome, {user?.name}
       </Text>
 
-      {/* Financials Summary for Customer */}
-      {isCustomer && financials && (
+      {/* Workspace Switcher */}
+      {currentWorkspace && (
+        <Card variant="outlined" style={styles.workspaceCard}>
+          <TouchableOpacity
+            style={styles.workspaceHeader}
+            onPress={() => setShowWorkspaces(!showWorkspaces)}
+            disabled={workspaces.length < 2}
+            activeOpacity={0.7}
+          >
+            <View style={styles.workspaceInfo}>
+              <Text style={[styles.workspaceLabel, { color: theme.colors.textSecondary }]}>
+                Workspace
+              </Text>
+              <Text style={[styles.workspaceName, { color: theme.colors.text }]}>
+                {currentWorkspace.name}
+              </Text>
+            </View>
+            {workspaces.length > 1 && (
+              <Ionicons
+                name={showWorkspaces ? 'chevron-up' : 'chevron-down'}
+                size={20}
+                color={theme.colors.textTertiary}
+              />
+            )}
+          </TouchableOpacity>
+
+          {showWorkspaces &&
+            workspaces
+              .filter((w) => w.id !== currentWorkspace.id)
+              .map((workspace) => (
+                <TouchableOpacity
+                  key={workspace.id}
+                  style={[styles.workspaceOption, { borderTopColor: theme.colors.border }]}
+                  onPress={() => {
+                    setCurrentWorkspace(workspace);
+                    setShowWorkspaces(false);
+                  }}
+                >
+                  <Text style={[styles.workspaceOptionText, { color: theme.colors.text }]}>
+                    {workspace.name}
+                  </Text>
+                  <Ionicons name="swap-horizontal-outline" size={18} color={theme.colors.textTertiary} />
+                </TouchableOpacity>
+              ))}
+        </Card>
+      )}
+
+      {/* Rent this month, for workspaces with properties */}
+      {financials && financials.occupancy.properties > 0 && (
         <Card variant="elevated" style={styles.financialsCard}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Financial Summary
+            This Month
           </Text>
           <View style={styles.financialsGrid}>
             <View style={styles.financialItem}>
               <Text style={[styles.financialLabel, { color: theme.colors.textSecondary }]}>
-                Total Properties
+                Collected
               </Text>
-              <Text style={[styles.financialValue, { color: theme.colors.text }]}>
-                {financials.totalProperties}
+              <Text style={[styles.financialValue, { color: theme.colors.success }]}>
+                {formatCurrency(financials.collected)}
               </Text>
             </View>
             <View style={styles.financialItem}>
               <Text style={[styles.financialLabel, { color: theme.colors.textSecondary }]}>
-                Monthly Income
+                Outstanding
               </Text>
-              <Text style={[styles.financialValue, { color: theme.colors.success }]}>
-                {formatCurrency(financials.totalMonthlyRent)}
+              <Text
+                style={[
+                  styles.financialValue,
+                  { color: financials.outstanding > 0 ? theme.colors.error : theme.colors.text },
+                ]}
+              >
+                {formatCurrency(financials.outstanding)}
               </Text>
             </View>
             <View style={styles.financialItem}>
               <Text style={[styles.financialLabel, { color: theme.colors.textSecondary }]}>
-                Total Investment
+                Expected
               </Text>
               <Text style={[styles.financialValue, { color: theme.colors.text }]}>
-                {formatCurrency(financials.totalPurchaseCost)}
+                {formatCurrency(financials.expected)}
               </Text>
             </View>
             <View style={styles.financialItem}>
               <Text style={[styles.financialLabel, { color: theme.colors.textSecondary }]}>
-                Annual Estimate
+                Occupancy
               </Text>
-              <Text style={[styles.financialValue, { color: theme.colors.primary }]}>
-                {formatCurrency(financials.estimatedAnnualIncome)}
+              <Text style={[styles.financialValue, { color: theme.colors.info }]}>
+                {(financials.occupancy.rate * 100).toFixed(0)}%
+              </Text>
+              <Text style={[styles.financialNote, { color: theme.colors.textTertiary }]}>
+                {financials.occupancy.occupied} of {financials.occupancy.properties} let
               </Text>
             </View>
           </View>
         </Card>
       )}
 
-      {/* Properties List */}
+      {/* Boards List */}
       <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-        Your Properties
+        Boards
       </Text>
 
-      {properties.length === 0 ? (
+      {!currentWorkspace ? (
         <EmptyState
-          icon="home-outline"
-          title="No Properties Yet"
-          description="Your properties will appear here once added."
+          icon="business-outline"
+          title="No Workspace"
+          description="You'll see boards here once you're added to a workspace."
+        />
+      ) : loading ? (
+        <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
+          Loading boards...
+        </Text>
+      ) : boards.length === 0 ? (
+        <EmptyState
+          icon="grid-outline"
+          title="No Boards Yet"
+          description="Boards shared with you will appear here."
         />
       ) : (
-        properties.map((property) => (
+        boards.map((board) => (
           <Card
-            key={property.id}
+            key={board.id}
             variant="outlined"
-            style={styles.propertyCard}
-            onPress={() => router.push(`/property/${property.id}`)}
+            style={styles.boardCard}
+            onPress={() => router.push(`/board/${board.id}`)}
           >
-            <View style={styles.propertyHeader}>
-              <View style={styles.propertyInfo}>
-                <Text style={[styles.propertyAddress, { color: theme.colors.text }]}>
-                  {property.address}
-                </Text>
-                <Text style={[styles.propertyCity, { color: theme.colors.textSecondary }]}>
-                  {property.city}
-                </Text>
+            <View style={styles.boardHeader}>
+              <View
+                style={[
+                  styles.boardIcon,
+                  { backgroundColor: `${board.color || theme.colors.secondary}20` },
+                ]}
+              >
+                <Ionicons
+                  name={BOARD_TYPE_ICONS[board.type] || 'grid-outline'}
+                  size={20}
+                  color={board.color || theme.colors.secondary}
+                />
               </View>
-              {getStatusBadge(property.status)}
-            </View>
-
-            <View style={styles.propertyDetails}>
-              <View style={styles.propertyDetail}>
-                <Ionicons name="cash-outline" size={16} color={theme.colors.textSecondary} />
-                <Text style={[styles.propertyDetailText, { color: theme.colors.text }]}>
-                  {formatCurrency(Number(property.monthlyRent))}/mo
+              <View style={styles.boardInfo}>
+                <Text style={[styles.boardName, { color: theme.colors.text }]} numberOfLines={1}>
+                  {board.name}
                 </Text>
-              </View>
-              {property.tenantName && (
-                <View style={styles.propertyDetail}>
-                  <Ionicons name="person-outline" size={16} color={theme.colors.textSecondary} />
-                  <Text style={[styles.propertyDetailText, { color: theme.colors.text }]}>
-                    {property.tenantName}
+                {board.description ? (
+                  <Text
+                    style={[styles.boardDescription, { color: theme.colors.textSecondary }]}
+                    numberOfLines={1}
+                  >
+                    {board.description}
                   </Text>
-                </View>
-              )}
-            </View>
-
-            {property.renovations && property.renovations.length > 0 && (
-              <View style={[styles.renovationBanner, { backgroundColor: theme.colors.infoBg }]}>
-                <Ionicons name="construct-outline" size={14} color={theme.colors.info} />
-                <Text style={[styles.renovationText, { color: theme.colors.info }]}>
-                  {property.renovations.length} active renovation(s)
-                </Text>
+                ) : null}
               </View>
-            )}
+              <Badge text={`${board.taskCount} items`} size="sm" />
+            </View>
           </Card>
         ))
       )}
@@ -348,65 +259,40 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: spacing.lg,
   },
-  statsGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    marginHorizontal: -spacing.xs,
-    marginBottom: spacing.lg,
-  },
-  statCard: {
-    width: '48%',
-    marginHorizontal: '1%',
-    marginBottom: spacing.sm,
-    alignItems: 'center',
-    padding: spacing.md,
-  },
-  statValue: {
-    fontSize: fontSize.xxl,
-    fontWeight: '700',
-    marginTop: spacing.xs,
-  },
-  statLabel: {
-    fontSize: fontSize.sm,
-    marginTop: spacing.xs,
+  loadingText: {
+    textAlign: 'center',
+    marginTop: spacing.xl,
+    fontSize: fontSize.md,
   },
-  revenueCard: {
+  workspaceCard: {
     marginBottom: spacing.lg,
+    paddingVertical: 0,
   },
-  revenueRow: {
+  workspaceHeader: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginTop: spacing.md,
+    alignItems: 'center',
+    paddingVertical: spacing.md,
   },
-  revenueLabel: {
-    fontSize: fontSize.sm,
+  workspaceInfo: {
+    flex: 1,
   },
-  revenueValue: {
-    fontSize: fontSize.lg,
-    fontWeight: '700',
-    marginTop: spacing.xs,
+  workspaceLabel: {
+    fontSize: fontSize.xs,
   },
-  sectionTitle: {
-    fontSize: fontSize.lg,
+  workspaceName: {
+    fontSize: fontSize.md,
     fontWeight: '600',
-    marginBottom: spacing.md,
+    marginTop: 2,
   },
-  customerCard: {
+  workspaceOption: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    marginBottom: spacing.sm,
-  },
-  customerInfo: {
-    flex: 1,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
   },
-  customerName: {
+  workspaceOptionText: {
     fontSize: fontSize.md,
-    fontWeight: '600',
-  },
-  customerEmail: {
-    fontSize: fontSize.sm,
-    marginTop: 2,
   },
   financialsCard: {
     marginBottom: spacing.lg,
@@ -414,7 +300,6 @@ const styles = StyleSheet.create({
   financialsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
-    marginTop: spacing.md,
   },
   financialItem: {
     width: '50%',
@@ -428,49 +313,39 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginTop: spacing.xs,
   },
-  propertyCard: {
-    marginBottom: spacing.md,
-  },
-  propertyHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-  },
-  propertyInfo: {
-    flex: 1,
-    marginRight: spacing.sm,
+  financialNote: {
+    fontSize: fontSize.xs,
+    marginTop: 2,
   },
-  propertyAddress: {
-    fontSize: fontSize.md,
+  sectionTitle: {
+    fontSize: fontSize.lg,
     fontWeight: '600',
+    marginBottom: spacing.md,
   },
-  propertyCity: {
-    fontSize: fontSize.sm,
-    marginTop: 2,
+  boardCard: {
+    marginBottom: spacing.sm,
   },
-  propertyDetails: {
+  boardHeader: {
     flexDirection: 'row',
-    marginTop: spacing.md,
-    gap: spacing.lg,
+    alignItems: 'center',
   },
-  propertyDetail: {
-    flexDirection: 'row',
+  boardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.lg,
+    justifyContent: 'center',
     alignItems: 'center',
-    gap: spacing.xs,
   },
-  propertyDetailText: {
-    fontSize: fontSize.sm,
+  boardInfo: {
+    flex: 1,
+    marginHorizontal: spacing.md,
   },
-  renovationBanner: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: spacing.xs,
-    marginTop: spacing.md,
-    padding: spacing.sm,
-    borderRadius: borderRadius.md,
+  boardName: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
   },
-  renovationText: {
+  boardDescription: {
     fontSize: fontSize.sm,
-    fontWeight: '500',
+    marginTop: 2,
   },
 });
@@ -10,36 +10,22 @@ import {
 import { router } from 'expo-router';
 import { useTheme, spacing, fontSize } from '@/theme';
 import { Avatar, EmptyState } from '@/components/ui';
-import { messageApi } from '@/services/api';
+import { threadApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import type { ThreadSummary } from '@shared/types';
 import { formatDistanceToNow } from 'date-fns';
 
-interface Conversation {
-  partner: {
-    id: string;
-    name: string;
-    email: string;
-    role: string;
-    avatarUrl?: string;
-  };
-  lastMessage: {
-    id: string;
-    content: string;
-    createdAt: string;
-    senderId: string;
-  };
-  unreadCount: number;
-}
-
 export default function MessagesScreen() {
   const theme = useTheme();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const { user } = useAuthStore();
+  const [conversations, setConversations] = useState<ThreadSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const fetchConversations = async () => {
     try {
-      const response = await messageApi.getConversations();
-      setConversations(response.data.conversations);
+      const response = await threadApi.getAll();
+      setConversations(response.data.threads);
     } catch (error) {
       console.error('Failed to fetch conversations:', error);
     } finally {
@@ -57,20 +43,27 @@ export default function MessagesScreen() {
     setRefreshing(false);
   }, []);
 
-  const renderConversation = ({ item }: { item: Conversation }) => (
+  // Group threads go by their title; 1:1 threads by the other participant
+  const getPartners = (thread: ThreadSummary) =>
+    thread.participantUsers.filter((p) => p.id !== user?.id);
+
+  const getTitle = (thread: ThreadSummary) =>
+    thread.title || getPartners(thread).map((p) => p.name).join(', ') || 'Conversation';
+
+  const renderConversation = ({ item }: { item: ThreadSummary }) => (
     <TouchableOpacity
       style={[
         styles.conversationItem,
         { borderBottomColor: theme.colors.border },
       ]}
-      onPress={() => router.push(`/chat/${item.partner.id}`)}
+      onPress={() => router.push(`/chat/${item.id}`)}
       activeOpacity={0.7}
     >
-      <Avatar name={item.partner.name} imageUrl={item.partner.avatarUrl} size={50} />
+      <Avatar name={getTitle(item)} imageUrl={item.isGroup ? undefined : getPartners(item)[0]?.avatarUrl} size={50} />
       <View style={styles.conversationContent}>
         <View style={styles.conversationHeader}>
-          <Text style={[styles.partnerName, { color: theme.colors.text }]}>
-            {item.partner.name}
+          <Text style={[styles.partnerName, { color: theme.colors.text }]} numberOfLines={1}>
+            {getTitle(item)}
           </Text>
           {item.lastMessage && (
             <Text style={[styles.timestamp, { color: theme.colors.textTertiary }]}>
@@ -119,7 +112,7 @@ export default function MessagesScreen() {
         <EmptyState
           icon="chatbubbles-outline"
           title="No Messages Yet"
-          description="Start a conversation with your contacts."
+          description="Start a conversation from the Team tab."
         />
       </View>
     );
@@ -129,7 +122,7 @@ export default function MessagesScreen() {
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <FlatList
         data={conversations}
-        keyExtractor={(item) => item.partner.id}
+        keyExtractor={(item) => item.id}
         renderItem={renderConversation}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
@@ -169,8 +162,10 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xs,
   },
   partnerName: {
+    flex: 1,
     fontSize: fontSize.md,
     fontWeight: '600',
+    marginRight: spacing.sm,
   },
   timestamp: {
     fontSize: fontSize.xs,
@@ -7,6 +7,7 @@ import {
   RefreshControl,
   TouchableOpacity,
 } from 'react-native';
+import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { EmptyState, Button } from '@/components/ui';
@@ -37,15 +38,18 @@ export default function NotificationsScreen() {
 
   const getNotificationIcon = (type: NotificationType) => {
     switch (type) {
-      case 'STATUS_CHANGE':
+      case 'TASK_ASSIGNED':
+        return 'person-add-outline';
+      case 'TASK_UPDATED':
         return 'swap-horizontal-outline';
-      case 'VISIT_SCHEDULED':
-      case 'VISIT_COMPLETED':
-        return 'calendar-outline';
-      case 'MESSAGE':
+      case 'TASK_COMMENT':
+      case 'MENTION':
+        return 'chatbox-ellipses-outline';
+      case 'MESSAGE_RECEIVED':
         return 'chatbubble-outline';
-      case 'RENOVATION_UPDATE':
-        return 'construct-outline';
+      case 'INVITE_RECEIVED':
+      case 'BOARD_SHARED':
+        return 'share-social-outline';
       case 'SYSTEM':
       default:
         return 'information-circle-outline';
@@ -54,14 +58,16 @@ export default function NotificationsScreen() {
 
   const getNotificationColor = (type: NotificationType) => {
     switch (type) {
-      case 'STATUS_CHANGE':
+      case 'TASK_ASSIGNED':
+      case 'TASK_UPDATED':
         return theme.colors.info;
-      case 'VISIT_SCHEDULED':
-      case 'VISIT_COMPLETED':
+      case 'TASK_COMMENT':
+      case 'MENTION':
         return theme.colors.warning;
-      case 'MESSAGE':
+      case 'MESSAGE_RECEIVED':
         return theme.colors.success;
-      case 'RENOVATION_UPDATE':
+      case 'INVITE_RECEIVED':
+      case 'BOARD_SHARED':
         return theme.colors.primary;
       case 'SYSTEM':
       default:
@@ -69,6 +75,22 @@ export default function NotificationsScreen() {
     }
   };
 
+  // Links are web paths; the ones with a mobile screen open it (board links naming a task open the task)
+  const openLink = (link?: string) => {
+    const match = link?.match(/^\/(messages|boards)\/([^/?#]+)(?:\?task=([^&#]+))?/);
+    if (!match) return;
+    if (match[1] === 'messages') {
+      router.push(`/chat/${match[2]}`);
+    } else {
+      router.push(match[3] ? `/task/${match[3]}` : `/board/${match[2]}`);
+    }
+  };
+
+  const handlePress = (item: Notification) => {
+    if (!item.isRead) markAsRead(item.id);
+    openLink(item.link);
+  };
+
   const renderNotification = ({ item }: { item: Notification }) => (
     <TouchableOpacity
       style={[
@@ -78,7 +100,7 @@ export default function NotificationsScreen() {
           borderBottomColor: theme.colors.border,
         },
       ]}
-      onPress={() => !item.isRead && markAsRead(item.id)}
+      onPress={() => handlePress(item)}
       activeOpacity={0.7}
     >
       <View
@@ -105,12 +127,14 @@ export default function NotificationsScreen() {
         >
           {item.title}
         </Text>
-        <Text
-          style={[styles.notificationBody, { color: theme.colors.textSecondary }]}
-          numberOfLines={2}
-        >
-          {item.body}
-        </Text>
+        {item.message ? (
+          <Text
+            style={[styles.notificationBody, { color: theme.colors.textSecondary }]}
+            numberOfLines={2}
+          >
+            {item.message}
+          </Text>
+        ) : null}
         <Text style={[styles.timestamp, { color: theme.colors.textTertiary }]}>
           {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
         </Text>
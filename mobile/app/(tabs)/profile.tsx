@@ -16,7 +16,7 @@ import { useAuthStore } from '@/store/auth';
 
 export default function ProfileScreen() {
   const theme = useTheme();
-  const { user, logout } = useAuthStore();
+  const { user, currentWorkspace, logout } = useAuthStore();
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
 
   const handleLogout = () => {
@@ -35,7 +35,7 @@ export default function ProfileScreen() {
 
   const getRoleBadge = (role: string) => {
     switch (role) {
-      case 'ADMIN':
+      case 'OWNER_ADMIN':
         return { label: 'Administrator', color: theme.colors.error };
       case 'EMPLOYEE':
         return { label: 'Employee', color: theme.colors.warning };
@@ -46,7 +46,9 @@ export default function ProfileScreen() {
     }
   };
 
-  const roleBadge = getRoleBadge(user?.role || '');
+  // Roles are per workspace; the badge shows the role in the one being browsed
+  const role = currentWorkspace?.role || user?.role;
+  const roleBadge = getRoleBadge(role || '');
 
   const MenuSection = ({
     title,
@@ -140,6 +142,11 @@ export default function ProfileScreen() {
             {roleBadge.label}
           </Text>
         </View>
+        {currentWorkspace && (
+          <Text style={[styles.userEmail, { color: theme.colors.textSecondary }]}>
+            {currentWorkspace.name}
+          </Text>
+        )}
       </View>
 
       {/* Account Section */}
@@ -193,18 +200,18 @@ export default function ProfileScreen() {
       </MenuSection>
 
       {/* Admin/Employee Actions */}
-      {(user?.role === 'ADMIN' || user?.role === 'EMPLOYEE') && (
+      {(role === 'OWNER_ADMIN' || role === 'EMPLOYEE') && (
         <MenuSection title="Actions">
           <MenuItem
             icon="person-add-outline"
             label="Invite User"
             onPress={() => router.push('/invite')}
           />
-          {user?.role === 'ADMIN' && (
+          {role === 'OWNER_ADMIN' && (
             <MenuItem
               icon="people-outline"
               label="Manage Users"
-              onPress={() => {}}
+              onPress={() => router.push('/(tabs)/team')}
             />
           )}
         </MenuSection>
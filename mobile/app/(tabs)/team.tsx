@@ -0,0 +1,214 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
+import { Avatar, Badge, EmptyState, Card } from '@/components/ui';
+import { threadApi, workspaceApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import type { UserRole, WorkspaceMember } from '@shared/types';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER_ADMIN: 'Admin',
+  EMPLOYEE: 'Employee',
+  CUSTOMER: 'Customer',
+};
+
+export default function TeamScreen() {
+  const theme = useTheme();
+  const { user, currentWorkspace } = useAuthStore();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [openingChat, setOpeningChat] = useState<string | null>(null);
+
+  const isAdmin = currentWorkspace?.role === 'OWNER_ADMIN';
+
+  const fetchMembers = async () => {
+    if (!currentWorkspace) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const response = await workspaceApi.getMembers(currentWorkspace.id);
+      setMembers(response.data.members);
+    } catch (error) {
+      console.error('Failed to fetch members:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMembers();
+  }, [currentWorkspace?.id]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await fetchMembers();
+    setRefreshing(false);
+  }, [currentWorkspace?.id]);
+
+  // Opens the 1:1 thread with the member, creating it the first time
+  const handleMessage = async (memberUserId: string) => {
+    if (!currentWorkspace || openingChat) return;
+
+    setOpeningChat(memberUserId);
+    try {
+      const response = await threadApi.create({
+        workspaceId: currentWorkspace.id,
+        participantIds: [memberUserId],
+      });
+      router.push(`/chat/${response.data.thread.id}`);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    } finally {
+      setOpeningChat(null);
+    }
+  };
+
+  const renderMember = ({ item }: { item: WorkspaceMember }) => (
+    <Card variant="outlined" style={styles.memberCard}>
+      <View style={styles.memberHeader}>
+        <Avatar name={item.user.name} imageUrl={item.user.avatarUrl} size={48} />
+        <View style={styles.memberInfo}>
+          <Text style={[styles.memberName, { color: theme.colors.text }]}>
+            {item.user.name}
+          </Text>
+          <Text style={[styles.memberEmail, { color: theme.colors.textSecondary }]}>
+            {item.user.email}
+          </Text>
+          <Badge
+            text={ROLE_LABELS[item.role]}
+            variant={item.role === 'OWNER_ADMIN' ? 'info' : 'default'}
+            size="sm"
+            style={styles.roleBadge}
+          />
+        </View>
+        {item.userId !== user?.id && (
+          <TouchableOpacity
+            style={[styles.messageButton, { backgroundColor: theme.colors.surfaceSecondary }]}
+            onPress={() => handleMessage(item.userId)}
+            disabled={!!openingChat}
+          >
+            {openingChat === item.userId ? (
+              <ActivityIndicator size="small" color={theme.colors.secondary} />
+            ) : (
+              <Ionicons name="chatbubble-outline" size={20} color={theme.colors.secondary} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
+          Loading team...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {isAdmin && (
+        <TouchableOpacity
+          style={[styles.inviteButton, { backgroundColor: theme.colors.secondary }]}
+          onPress={() => router.push('/invite')}
+        >
+          <Ionicons name="person-add" size={20} color="#FFFFFF" />
+          <Text style={styles.inviteButtonText}>Invite Member</Text>
+        </TouchableOpacity>
+      )}
+
+      {members.length === 0 ? (
+        <EmptyState
+          icon="people-outline"
+          title="No Members Yet"
+          description="People in this workspace will appear here."
+        />
+      ) : (
+        <FlatList
+          data={members}
+          keyExtractor={(item) => item.id}
+          renderItem={renderMember}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingText: {
+    textAlign: 'center',
+    marginTop: spacing.xl,
+    fontSize: fontSize.md,
+  },
+  inviteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    margin: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.sm,
+  },
+  inviteButtonText: {
+    color: '#FFFFFF',
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  list: {
+    padding: spacing.md,
+    paddingTop: 0,
+  },
+  memberCard: {
+    marginBottom: spacing.md,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberInfo: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  memberName: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  memberEmail: {
+    fontSize: fontSize.sm,
+    marginTop: 2,
+  },
+  roleBadge: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+  },
+  messageButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -56,6 +56,20 @@ export default function RootLayout() {
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="(auth)" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="board/[id]"
+          options={{
+            title: 'Board',
+            presentation: 'card',
+          }}
+        />
+        <Stack.Screen
+          name="task/[id]"
+          options={{
+            title: 'Item',
+            presentation: 'card',
+          }}
+        />
         <Stack.Screen
           name="property/[id]"
           options={{
@@ -71,7 +85,7 @@ export default function RootLayout() {
           }}
         />
         <Stack.Screen
-          name="chat/[userId]"
+          name="chat/[threadId]"
           options={{
             title: 'Chat',
             presentation: 'card',
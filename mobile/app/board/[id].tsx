@@ -0,0 +1,264 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
+import { Avatar } from '@/components/ui';
+import { boardApi } from '@/services/api';
+import type { Board, Column, StatusOption, Task } from '@shared/types';
+
+export default function BoardDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const theme = useTheme();
+  const [board, setBoard] = useState<Board | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  const fetchBoard = async () => {
+    try {
+      const response = await boardApi.getById(id!);
+      const fetched: Board = response.data.board;
+      setBoard(fetched);
+      setCollapsed(Object.fromEntries(fetched.groups.map((g) => [g.id, g.collapsed])));
+    } catch (error) {
+      console.error('Failed to fetch board:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBoard();
+  }, [id]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await fetchBoard();
+    setRefreshing(false);
+  }, [id]);
+
+  // The board's first status column labels each item in the list
+  const statusColumn: Column | undefined = board?.columns.find((c) => c.type === 'STATUS' && c.isVisible);
+
+  const getStatus = (task: Task): StatusOption | undefined => {
+    if (!statusColumn) return undefined;
+    const value = task.fieldValues.find((fv) => fv.columnId === statusColumn.id)?.value;
+    return (statusColumn.settings?.options || []).find((o: StatusOption) => o.id === value);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.secondary} />
+      </View>
+    );
+  }
+
+  if (!board) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <Text style={{ color: theme.colors.text }}>Board not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: board.name }} />
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {board.description ? (
+          <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+            {board.description}
+          </Text>
+        ) : null}
+
+        {board.groups.map((group) => {
+          const isCollapsed = collapsed[group.id];
+          const groupColor = group.color || theme.colors.secondary;
+
+          return (
+            <View key={group.id} style={styles.group}>
+              <TouchableOpacity
+                style={styles.groupHeader}
+                onPress={() => setCollapsed((prev) => ({ ...prev, [group.id]: !isCollapsed }))}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={isCollapsed ? 'chevron-forward' : 'chevron-down'}
+                  size={18}
+                  color={groupColor}
+                />
+                <Text style={[styles.groupName, { color: groupColor }]}>
+                  {group.name}
+                </Text>
+                <Text style={[styles.groupCount, { color: theme.colors.textTertiary }]}>
+                  {group.tasks.length}
+                </Text>
+              </TouchableOpacity>
+
+              {!isCollapsed &&
+                (group.tasks.length === 0 ? (
+                  <Text style={[styles.emptyGroup, { color: theme.colors.textTertiary }]}>
+                    No items
+                  </Text>
+                ) : (
+                  group.tasks.map((task) => {
+                    const status = getStatus(task);
+                    return (
+                      <TouchableOpacity
+                        key={task.id}
+                        style={[
+                          styles.taskRow,
+                          {
+                            backgroundColor: theme.colors.surface,
+                            borderLeftColor: groupColor,
+                            borderColor: theme.colors.border,
+                          },
+                        ]}
+                        onPress={() => router.push(`/task/${task.id}`)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.taskInfo}>
+                          <Text style={[styles.taskName, { color: theme.colors.text }]} numberOfLines={2}>
+                            {task.name}
+                          </Text>
+                          <View style={styles.taskMeta}>
+                            {status && (
+                              <View style={[styles.statusPill, { backgroundColor: `${status.color}20` }]}>
+                                <Text style={[styles.statusText, { color: status.color }]}>
+                                  {status.label}
+                                </Text>
+                              </View>
+                            )}
+                            {task._count.comments > 0 && (
+                              <View style={styles.metaItem}>
+                                <Ionicons name="chatbubble-outline" size={12} color={theme.colors.textTertiary} />
+                                <Text style={[styles.metaText, { color: theme.colors.textTertiary }]}>
+                                  {task._count.comments}
+                                </Text>
+                              </View>
+                            )}
+                            {task._count.subTasks > 0 && (
+                              <View style={styles.metaItem}>
+                                <Ionicons name="list-outline" size={12} color={theme.colors.textTertiary} />
+                                <Text style={[styles.metaText, { color: theme.colors.textTertiary }]}>
+                                  {task._count.subTasks}
+                                </Text>
+                              </View>
+                            )}
+                          </View>
+                        </View>
+                        {task.assignments.length > 0 && (
+                          <Avatar
+                            name={task.assignments[0].user.name}
+                            imageUrl={task.assignments[0].user.avatarUrl}
+                            size={28}
+                          />
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })
+                ))}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  description: {
+    fontSize: fontSize.sm,
+    marginBottom: spacing.md,
+  },
+  group: {
+    marginBottom: spacing.lg,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  groupName: {
+    flex: 1,
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+  },
+  groupCount: {
+    fontSize: fontSize.sm,
+  },
+  emptyGroup: {
+    fontSize: fontSize.sm,
+    marginLeft: spacing.lg,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    marginBottom: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderLeftWidth: 4,
+  },
+  taskInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  taskName: {
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
+  taskMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  statusPill: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  metaText: {
+    fontSize: fontSize.xs,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,96 +14,103 @@ import { useLocalSearchParams, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { Avatar } from '@/components/ui';
-import { messageApi, userApi } from '@/services/api';
+import { threadApi } from '@/services/api';
 import { useAuthStore } from '@/store/auth';
 import {
   initializeSocket,
+  joinThread,
+  leaveThread,
   onNewMessage,
   onUserTyping,
   onUserStopTyping,
-  sendMessage as socketSendMessage,
+  onMessageRead,
+  markThreadRead,
   sendTyping,
   sendStopTyping,
 } from '@/services/socket';
+import type { Message, Thread } from '@shared/types';
 import { format, isToday, isYesterday } from 'date-fns';
 
-interface Message {
-  id: string;
-  content: string;
-  senderId: string;
-  createdAt: string;
-  sender: {
-    id: string;
-    name: string;
-    avatarUrl?: string;
-  };
-}
-
-interface Partner {
-  id: string;
-  name: string;
-  email: string;
-  avatarUrl?: string;
-}
-
 export default function ChatScreen() {
-  const { userId } = useLocalSearchParams<{ userId: string }>();
+  const { threadId } = useLocalSearchParams<{ threadId: string }>();
   const theme = useTheme();
   const { user } = useAuthStore();
   const flatListRef = useRef<FlatList>(null);
 
+  const [thread, setThread] = useState<Thread | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [partner, setPartner] = useState<Partner | null>(null);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
+  // userId -> name of the participants currently typing
+  const [typingUsers, setTypingUsers] = useState<Record<string, string>>({});
+  // userId -> when that participant last read the thread
+  const [readAt, setReadAt] = useState<Record<string, string | null>>({});
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  const typingExpiryRef = useRef<Record<string, NodeJS.Timeout>>({});
 
-  useEffect(() => {
-    fetchMessages();
-    initializeSocket();
-
-    const unsubscribeNewMessage = onNewMessage((message: Message) => {
-      if (message.senderId === userId) {
-        setMessages((prev) => [...prev, message]);
-        setIsTyping(false);
-      }
+  const stopTyping = (userId: string) => {
+    clearTimeout(typingExpiryRef.current[userId]);
+    setTypingUsers((prev) => {
+      const { [userId]: _, ...rest } = prev;
+      return rest;
     });
+  };
 
-    const unsubscribeTyping = onUserTyping((data) => {
-      if (data.userId === userId) {
-        setIsTyping(true);
-      }
-    });
+  useEffect(() => {
+    fetchThread();
 
-    const unsubscribeStopTyping = onUserStopTyping((data) => {
-      if (data.userId === userId) {
-        setIsTyping(false);
-      }
+    let unsubscribers: (() => void)[] = [];
+
+    // Listeners can only attach once the socket exists
+    initializeSocket().then(() => {
+      joinThread(threadId!);
+      unsubscribers = [
+        onNewMessage((message) => {
+          if (message.threadId === threadId) {
+            setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+            stopTyping(message.senderId);
+            markThreadRead(threadId!);
+          }
+        }),
+        onUserTyping((data) => {
+          if (data.threadId === threadId) {
+            setTypingUsers((prev) => ({ ...prev, [data.userId]: data.name }));
+            // Hide the indicator if the stop event never arrives
+            clearTimeout(typingExpiryRef.current[data.userId]);
+            typingExpiryRef.current[data.userId] = setTimeout(() => stopTyping(data.userId), 5000);
+          }
+        }),
+        onUserStopTyping((data) => {
+          if (data.threadId === threadId) {
+            stopTyping(data.userId);
+          }
+        }),
+        onMessageRead((data) => {
+          if (data.threadId === threadId) {
+            setReadAt((prev) => ({ ...prev, [data.userId]: data.readAt }));
+          }
+        }),
+      ];
     });
 
     return () => {
-      unsubscribeNewMessage?.();
-      unsubscribeTyping?.();
-      unsubscribeStopTyping?.();
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      leaveThread(threadId!);
+      Object.values(typingExpiryRef.current).forEach(clearTimeout);
     };
-  }, [userId]);
+  }, [threadId]);
 
-  const fetchMessages = async () => {
+  const fetchThread = async () => {
     try {
-      const [messagesRes, contactsRes] = await Promise.all([
-        messageApi.getMessages(userId!),
-        userApi.getContacts(),
-      ]);
-
-      setMessages(messagesRes.data.messages);
-      const foundPartner = contactsRes.data.contacts.find(
-        (c: Partner) => c.id === userId
-      );
-      setPartner(foundPartner);
+      // Opening the thread also marks it read on the server
+      const response = await threadApi.getById(threadId!);
+      const fetched: Thread = response.data.thread;
+      setThread(fetched);
+      setMessages(fetched.messages);
+      setReadAt(Object.fromEntries(fetched.participants.map((p) => [p.userId, p.lastReadAt])));
     } catch (error) {
-      console.error('Failed to fetch messages:', error);
+      console.error('Failed to fetch thread:', error);
     } finally {
       setLoading(false);
     }
@@ -117,12 +124,11 @@ export default function ChatScreen() {
     setSending(true);
 
     try {
-      const response = await messageApi.send({
-        receiverId: userId!,
-        content,
-      });
-      setMessages((prev) => [...prev, response.data.message]);
-      sendStopTyping(userId!);
+      const response = await threadApi.sendMessage(threadId!, content);
+      setMessages((prev) =>
+        prev.some((m) => m.id === response.data.message.id) ? prev : [...prev, response.data.message]
+      );
+      sendStopTyping(threadId!);
     } catch (error) {
       console.error('Failed to send message:', error);
       setInputText(content);
@@ -135,15 +141,15 @@ export default function ChatScreen() {
     setInputText(text);
 
     if (text.length > 0) {
-      sendTyping(userId!);
+      sendTyping(threadId!);
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
       typingTimeoutRef.current = setTimeout(() => {
-        sendStopTyping(userId!);
+        sendStopTyping(threadId!);
       }, 2000);
     } else {
-      sendStopTyping(userId!);
+      sendStopTyping(threadId!);
     }
   };
 
@@ -158,10 +164,21 @@ export default function ChatScreen() {
     return format(date, 'MMM d, h:mm a');
   };
 
+  const partners = thread?.participantUsers.filter((p) => p.id !== user?.id) || [];
+  const title = thread?.title || partners.map((p) => p.name).join(', ') || 'Chat';
+
   const renderMessage = ({ item, index }: { item: Message; index: number }) => {
     const isOwnMessage = item.senderId === user?.id;
     const showAvatar =
       index === 0 || messages[index - 1].senderId !== item.senderId;
+    // Read receipt under the latest message the user sent, once any other participant has read up to it
+    const isLastOwn = isOwnMessage && !messages.slice(index + 1).some((m) => m.senderId === user?.id);
+    const isRead =
+      isLastOwn &&
+      partners.some((p) => {
+        const at = readAt[p.id];
+        return !!at && new Date(at) >= new Date(item.createdAt);
+      });
 
     return (
       <View
@@ -187,6 +204,11 @@ export default function ChatScreen() {
               : { backgroundColor: theme.colors.surfaceSecondary },
           ]}
         >
+          {!isOwnMessage && thread?.isGroup && showAvatar && (
+            <Text style={[styles.senderName, { color: theme.colors.textSecondary }]}>
+              {item.sender.name}
+            </Text>
+          )}
           <Text
             style={[
               styles.messageText,
@@ -206,6 +228,7 @@ export default function ChatScreen() {
             ]}
           >
             {formatMessageDate(item.createdAt)}
+            {isRead ? ' · Read' : ''}
           </Text>
         </View>
       </View>
@@ -220,16 +243,18 @@ export default function ChatScreen() {
     );
   }
 
+  const typingNames = Object.values(typingUsers);
+
   return (
     <>
       <Stack.Screen
         options={{
-          title: partner?.name || 'Chat',
+          title,
           headerRight: () => (
-            partner && (
+            partners.length === 1 && (
               <Avatar
-                name={partner.name}
-                imageUrl={partner.avatarUrl}
+                name={partners[0].name}
+                imageUrl={partners[0].avatarUrl}
                 size={32}
               />
             )
@@ -253,10 +278,10 @@ export default function ChatScreen() {
           onLayout={() => flatListRef.current?.scrollToEnd({ animated: false })}
         />
 
-        {isTyping && (
+        {typingNames.length > 0 && (
           <View style={styles.typingIndicator}>
             <Text style={[styles.typingText, { color: theme.colors.textSecondary }]}>
-              {partner?.name} is typing...
+              {typingNames.join(', ')} {typingNames.length === 1 ? 'is' : 'are'} typing...
             </Text>
           </View>
         )}
@@ -347,6 +372,11 @@ const styles = StyleSheet.create({
     borderRadius: borderRadius.lg,
     maxWidth: '100%',
   },
+  senderName: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
   messageText: {
     fontSize: fontSize.md,
     lineHeight: 22,
@@ -11,23 +11,21 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { Button, Input, Card } from '@/components/ui';
-import { invitationApi } from '@/services/api';
+import { inviteApi, WEB_URL } from '@/services/api';
 import { useAuthStore } from '@/store/auth';
 
 type InviteRole = 'EMPLOYEE' | 'CUSTOMER';
 
 export default function InviteScreen() {
   const theme = useTheme();
-  const { user } = useAuthStore();
+  const { currentWorkspace } = useAuthStore();
   const [email, setEmail] = useState('');
   const [role, setRole] = useState<InviteRole>('CUSTOMER');
   const [loading, setLoading] = useState(false);
-  const [invitation, setInvitation] = useState<{
-    token: string;
-    links: { app: string; web: string };
-  } | null>(null);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
 
-  const isAdmin = user?.role === 'ADMIN';
+  // Only workspace admins can invite employees
+  const isAdmin = currentWorkspace?.role === 'OWNER_ADMIN';
 
   const handleInvite = async () => {
     if (!email || !/\S+@\S+\.\S+/.test(email)) {
@@ -35,13 +33,12 @@ export default function InviteScreen() {
       return;
     }
 
+    if (!currentWorkspace) return;
+
     setLoading(true);
     try {
-      const response = await invitationApi.create({ email, role });
-      setInvitation({
-        token: response.data.invitation.token,
-        links: response.data.links,
-      });
+      const response = await inviteApi.create({ workspaceId: currentWorkspace.id, email, role });
+      setInviteLink(`${WEB_URL}/register?invite=${response.data.invite.token}`);
     } catch (error: any) {
       Alert.alert('Error', error.response?.data?.error || 'Failed to create invitation');
     } finally {
@@ -50,11 +47,11 @@ export default function InviteScreen() {
   };
 
   const handleShare = async () => {
-    if (!invitation) return;
+    if (!inviteLink) return;
 
     try {
       await Share.share({
-        message: `You've been invited to join Od Sifra as a ${role.toLowerCase()}!\n\nClick this link to register: ${invitation.links.web}`,
+        message: `You've been invited to join ${currentWorkspace?.name} on Od Sifra as a ${role.toLowerCase()}!\n\nClick this link to register: ${inviteLink}`,
         title: 'Od Sifra Invitation',
       });
     } catch (error) {
@@ -64,10 +61,10 @@ export default function InviteScreen() {
 
   const handleSendAnother = () => {
     setEmail('');
-    setInvitation(null);
+    setInviteLink(null);
   };
 
-  if (invitation) {
+  if (inviteLink) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
         <View style={styles.successContainer}>
@@ -89,7 +86,7 @@ export default function InviteScreen() {
               style={[styles.linkText, { color: theme.colors.text }]}
               numberOfLines={2}
             >
-              {invitation.links.web}
+              {inviteLink}
             </Text>
           </Card>
 
@@ -117,7 +114,7 @@ export default function InviteScreen() {
           Send Invitation
         </Text>
         <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
-          Invite someone to join Od Sifra
+          Invite someone to join {currentWorkspace?.name}
         </Text>
 
         <Input
@@ -176,7 +173,7 @@ export default function InviteScreen() {
                 <Text
                   style={[styles.roleOptionDesc, { color: theme.colors.textSecondary }]}
                 >
-                  Can view properties and communicate
+                  Can view shared boards and send messages
                 </Text>
               </TouchableOpacity>
 
@@ -219,7 +216,7 @@ export default function InviteScreen() {
                 <Text
                   style={[styles.roleOptionDesc, { color: theme.colors.textSecondary }]}
                 >
-                  Can manage customers and properties
+                  Can work on boards and invite customers
                 </Text>
               </TouchableOpacity>
             </View>
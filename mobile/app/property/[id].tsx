@@ -11,48 +11,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { Card, Badge, Button } from '@/components/ui';
 import { propertyApi } from '@/services/api';
-import { format } from 'date-fns';
-
-interface Property {
-  id: string;
-  address: string;
-  city: string;
-  postalCode?: string;
-  country: string;
-  description?: string;
-  purchaseCost: number;
-  monthlyRent: number;
-  tenantName?: string;
-  tenantEmail?: string;
-  tenantPhone?: string;
-  rentalStart?: string;
-  rentalEnd?: string;
-  status: string;
-  customer: {
-    id: string;
-    name: string;
-    email: string;
-  };
-  renovations: {
-    id: string;
-    title: string;
-    status: string;
-    budget?: number;
-    startDate?: string;
-    endDate?: string;
-    steps: {
-      id: string;
-      title: string;
-      status: string;
-      dueDate?: string;
-    }[];
-  }[];
-}
+import type { PropertyDetail, PropertyLedger, RentCharge } from '@shared/types';
+import { format, parseISO } from 'date-fns';
 
 export default function PropertyDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const theme = useTheme();
-  const [property, setProperty] = useState<Property | null>(null);
+  const [property, setProperty] = useState<PropertyDetail | null>(null);
+  const [ledger, setLedger] = useState<PropertyLedger | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -61,8 +27,12 @@ export default function PropertyDetailScreen() {
 
   const fetchProperty = async () => {
     try {
-      const response = await propertyApi.getById(id!);
-      setProperty(response.data.property);
+      const [propertyRes, ledgerRes] = await Promise.all([
+        propertyApi.getById(id!),
+        propertyApi.getLedger(id!),
+      ]);
+      setProperty(propertyRes.data.property);
+      setLedger(ledgerRes.data);
     } catch (error) {
       console.error('Failed to fetch property:', error);
     } finally {
@@ -73,26 +43,38 @@ export default function PropertyDetailScreen() {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: property!.currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
-      case 'ACTIVE':
-        return <Badge text="Active" variant="success" />;
+      case 'OCCUPIED':
+        return <Badge text="Occupied" variant="success" />;
       case 'VACANT':
         return <Badge text="Vacant" variant="warning" />;
       case 'RENOVATION':
         return <Badge text="Renovation" variant="info" />;
-      case 'SOLD':
-        return <Badge text="Sold" variant="default" />;
       default:
         return null;
     }
   };
 
+  const getChargeBadge = (charge: RentCharge) => {
+    if (charge.overdue) {
+      return <Badge text={charge.status === 'PARTIAL' ? 'Part paid, overdue' : 'Overdue'} variant="error" size="sm" />;
+    }
+    switch (charge.status) {
+      case 'PAID':
+        return <Badge text={charge.paidLate ? 'Paid late' : 'Paid'} variant={charge.paidLate ? 'warning' : 'success'} size="sm" />;
+      case 'PARTIAL':
+        return <Badge text="Part paid" variant="warning" size="sm" />;
+      default:
+        return <Badge text="Due" variant="default" size="sm" />;
+    }
+  };
+
   const getRenovationStatusBadge = (status: string) => {
     switch (status) {
       case 'PLANNED':
@@ -124,6 +106,16 @@ export default function PropertyDetailScreen() {
     );
   }
 
+  const lease = property.currentLease;
+  const location = [property.city, [property.postalCode, property.country].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  const pastLeases = property.leases.filter((l) => l.id !== lease?.id);
+  // Latest months of rent across all leases
+  const recentCharges = (ledger?.leases.flatMap((l) => l.charges) || [])
+    .sort((a, b) => b.period.localeCompare(a.period))
+    .slice(0, 6);
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: theme.colors.background }]}
@@ -134,9 +126,11 @@ export default function PropertyDetailScreen() {
         <Text style={[styles.address, { color: theme.colors.text }]}>
           {property.address}
         </Text>
-        <Text style={[styles.location, { color: theme.colors.textSecondary }]}>
-          {property.city}, {property.postalCode} {property.country}
-        </Text>
+        {!!location && (
+          <Text style={[styles.location, { color: theme.colors.textSecondary }]}>
+            {location}
+          </Text>
+        )}
         <View style={styles.statusRow}>
           {getStatusBadge(property.status)}
         </View>
@@ -153,7 +147,7 @@ export default function PropertyDetailScreen() {
               Purchase Cost
             </Text>
             <Text style={[styles.financialValue, { color: theme.colors.text }]}>
-              {formatCurrency(Number(property.purchaseCost))}
+              {property.purchaseCost ? formatCurrency(Number(property.purchaseCost)) : '—'}
             </Text>
           </View>
           <View style={styles.financialItem}>
@@ -161,7 +155,7 @@ export default function PropertyDetailScreen() {
               Monthly Rent
             </Text>
             <Text style={[styles.financialValue, { color: theme.colors.success }]}>
-              {formatCurrency(Number(property.monthlyRent))}
+              {lease ? formatCurrency(Number(lease.monthlyRent)) : '—'}
             </Text>
           </View>
           <View style={styles.financialItem}>
@@ -169,7 +163,7 @@ export default function PropertyDetailScreen() {
               Annual Income
             </Text>
             <Text style={[styles.financialValue, { color: theme.colors.primary }]}>
-              {formatCurrency(Number(property.monthlyRent) * 12)}
+              {lease ? formatCurrency(Number(lease.monthlyRent) * 12) : '—'}
             </Text>
           </View>
           <View style={styles.financialItem}>
@@ -177,14 +171,16 @@ export default function PropertyDetailScreen() {
               ROI
             </Text>
             <Text style={[styles.financialValue, { color: theme.colors.info }]}>
-              {((Number(property.monthlyRent) * 12 / Number(property.purchaseCost)) * 100).toFixed(1)}%
+              {lease && Number(property.purchaseCost) > 0
+                ? `${((Number(lease.monthlyRent) * 12 / Number(property.purchaseCost)) * 100).toFixed(1)}%`
+                : '—'}
             </Text>
           </View>
         </View>
       </Card>
 
       {/* Tenant Info */}
-      {property.tenantName && (
+      {lease && (
         <Card variant="outlined" style={styles.tenantCard}>
           <View style={styles.tenantHeader}>
             <Ionicons name="person" size={24} color={theme.colors.secondary} />
@@ -194,30 +190,87 @@ export default function PropertyDetailScreen() {
           </View>
           <View style={styles.tenantInfo}>
             <Text style={[styles.tenantName, { color: theme.colors.text }]}>
-              {property.tenantName}
+              {lease.tenantName}
             </Text>
-            {property.tenantEmail && (
+            {lease.tenantEmail && (
               <Text style={[styles.tenantContact, { color: theme.colors.textSecondary }]}>
-                {property.tenantEmail}
+                {lease.tenantEmail}
               </Text>
             )}
-            {property.tenantPhone && (
+            {lease.tenantPhone && (
               <Text style={[styles.tenantContact, { color: theme.colors.textSecondary }]}>
-                {property.tenantPhone}
+                {lease.tenantPhone}
               </Text>
             )}
           </View>
-          {property.rentalStart && property.rentalEnd && (
-            <View style={[styles.rentalPeriod, { backgroundColor: theme.colors.surfaceSecondary }]}>
-              <Ionicons name="calendar-outline" size={16} color={theme.colors.textSecondary} />
-              <Text style={[styles.rentalPeriodText, { color: theme.colors.textSecondary }]}>
-                {format(new Date(property.rentalStart), 'MMM d, yyyy')} - {format(new Date(property.rentalEnd), 'MMM d, yyyy')}
-              </Text>
+          <View style={[styles.rentalPeriod, { backgroundColor: theme.colors.surfaceSecondary }]}>
+            <Ionicons name="calendar-outline" size={16} color={theme.colors.textSecondary} />
+            <Text style={[styles.rentalPeriodText, { color: theme.colors.textSecondary }]}>
+              {format(new Date(lease.startDate), 'MMM d, yyyy')} -{' '}
+              {lease.endDate ? format(new Date(lease.endDate), 'MMM d, yyyy') : 'Open-ended'}
+            </Text>
+          </View>
+        </Card>
+      )}
+
+      {/* Rent ledger */}
+      {recentCharges.length > 0 && (
+        <Card variant="outlined" style={styles.tenantCard}>
+          <View style={styles.ledgerHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text, marginBottom: 0 }]}>
+              Rent
+            </Text>
+            <Text
+              style={[
+                styles.ledgerArrears,
+                { color: ledger!.arrears > 0 ? theme.colors.error : theme.colors.success },
+              ]}
+            >
+              {ledger!.arrears > 0 ? `${formatCurrency(ledger!.arrears)} owed` : 'Up to date'}
+            </Text>
+          </View>
+          {recentCharges.map((charge) => (
+            <View key={charge.id} style={[styles.chargeRow, { borderTopColor: theme.colors.border }]}>
+              <View style={styles.renovationInfo}>
+                <Text style={[styles.chargePeriod, { color: theme.colors.text }]}>
+                  {format(parseISO(charge.period.substring(0, 10)), 'MMMM yyyy')}
+                </Text>
+                <Text style={[styles.renovationDateText, { color: theme.colors.textSecondary }]}>
+                  {formatCurrency(charge.paid)} of {formatCurrency(Number(charge.amount))} · due{' '}
+                  {format(parseISO(charge.dueDate.substring(0, 10)), 'MMM d')}
+                </Text>
+              </View>
+              {getChargeBadge(charge)}
             </View>
-          )}
+          ))}
         </Card>
       )}
 
+      {/* Past and upcoming leases */}
+      {pastLeases.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text, marginTop: spacing.lg }]}>
+            Other Leases
+          </Text>
+          {pastLeases.map((l) => (
+            <Card key={l.id} variant="outlined" style={styles.leaseCard}>
+              <View style={styles.renovationHeader}>
+                <Text style={[styles.renovationTitle, { color: theme.colors.text }]}>
+                  {l.tenantName}
+                </Text>
+                <Text style={[styles.renovationBudget, { color: theme.colors.textSecondary }]}>
+                  {formatCurrency(Number(l.monthlyRent))} / month
+                </Text>
+              </View>
+              <Text style={[styles.renovationDateText, { color: theme.colors.textSecondary, marginTop: spacing.xs }]}>
+                {format(new Date(l.startDate), 'MMM d, yyyy')} -{' '}
+                {l.endDate ? format(new Date(l.endDate), 'MMM d, yyyy') : 'Open-ended'}
+              </Text>
+            </Card>
+          ))}
+        </>
+      )}
+
       {/* Renovations */}
       <Text style={[styles.sectionTitle, { color: theme.colors.text, marginTop: spacing.lg }]}>
         Renovations
@@ -281,6 +334,13 @@ export default function PropertyDetailScreen() {
         ))
       )}
 
+      <Button
+        title={`Open on ${property.task.group.board.name}`}
+        variant="outline"
+        onPress={() => router.push(`/board/${property.task.group.board.id}`)}
+        style={styles.boardButton}
+      />
+
       {property.description && (
         <>
           <Text style={[styles.sectionTitle, { color: theme.colors.text, marginTop: spacing.lg }]}>
@@ -385,6 +445,29 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: fontSize.md,
   },
+  ledgerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  ledgerArrears: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+  },
+  chargeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+  },
+  chargePeriod: {
+    fontSize: fontSize.md,
+    fontWeight: '500',
+  },
+  leaseCard: {
+    marginBottom: spacing.sm,
+  },
   renovationCard: {
     marginBottom: spacing.md,
   },
@@ -431,6 +514,9 @@ const styles = StyleSheet.create({
   renovationDateText: {
     fontSize: fontSize.sm,
   },
+  boardButton: {
+    marginTop: spacing.md,
+  },
   description: {
     fontSize: fontSize.md,
     lineHeight: 24,
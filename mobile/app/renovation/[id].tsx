@@ -12,41 +12,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
 import { Card, Badge } from '@/components/ui';
 import { renovationApi } from '@/services/api';
+import type { RenovationDetail, RenovationStep } from '@shared/types';
 import { format } from 'date-fns';
 
-interface RenovationStep {
-  id: string;
-  title: string;
-  description?: string;
-  status: string;
-  dueDate?: string;
-  completedAt?: string;
-  orderIndex: number;
-}
-
-interface Renovation {
-  id: string;
-  title: string;
-  description?: string;
-  status: string;
-  budget?: number;
-  actualCost?: number;
-  startDate?: string;
-  endDate?: string;
-  steps: RenovationStep[];
-  property: {
-    address: string;
-    customer: {
-      id: string;
-      name: string;
-    };
-  };
-}
-
 export default function RenovationDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const theme = useTheme();
-  const [renovation, setRenovation] = useState<Renovation | null>(null);
+  const [renovation, setRenovation] = useState<RenovationDetail | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -57,6 +30,7 @@ export default function RenovationDetailScreen() {
     try {
       const response = await renovationApi.getById(id!);
       setRenovation(response.data.renovation);
+      setCanEdit(response.data.canEdit);
     } catch (error) {
       console.error('Failed to fetch renovation:', error);
     } finally {
@@ -64,10 +38,26 @@ export default function RenovationDetailScreen() {
     }
   };
 
+  // Tapping a step's icon marks it done, or reopens it
+  const handleToggleStep = async (step: RenovationStep) => {
+    if (!renovation || !canEdit) return;
+
+    const status = step.status === 'COMPLETED' ? 'IN_PROGRESS' : 'COMPLETED';
+    try {
+      const response = await renovationApi.updateStep(renovation.id, step.id, { status });
+      setRenovation({
+        ...renovation,
+        steps: renovation.steps.map((s) => (s.id === step.id ? response.data.step : s)),
+      });
+    } catch (error) {
+      console.error('Failed to update step:', error);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: renovation!.property.currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -246,7 +236,6 @@ export default function RenovationDetailScreen() {
         </Card>
       ) : (
         renovation.steps
-          .sort((a, b) => a.orderIndex - b.orderIndex)
           .map((step, index) => {
             const icon = getStepIcon(step.status);
             const isLast = index === renovation.steps.length - 1;
@@ -254,7 +243,9 @@ export default function RenovationDetailScreen() {
             return (
               <View key={step.id} style={styles.stepContainer}>
                 <View style={styles.stepTimeline}>
-                  <Ionicons name={icon.name} size={24} color={icon.color} />
+                  <TouchableOpacity onPress={() => handleToggleStep(step)} disabled={!canEdit}>
+                    <Ionicons name={icon.name} size={24} color={icon.color} />
+                  </TouchableOpacity>
                   {!isLast && (
                     <View
                       style={[
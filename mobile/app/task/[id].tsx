@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme, spacing, fontSize, borderRadius } from '@/theme';
+import { Card, Avatar, Button } from '@/components/ui';
+import { taskApi } from '@/services/api';
+import type { Column, StatusOption, SubTask, TaskDetail } from '@shared/types';
+import { format, formatDistanceToNow } from 'date-fns';
+
+// Read-only rendering of a field value, by column type. MONEY values without a currency of their own are in the
+// column's, or else the workspace's.
+const formatFieldValue = (column: Column, value: any, workspaceCurrency: string): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (column.type) {
+    case 'STATUS':
+    case 'DROPDOWN': {
+      const option = (column.settings?.options || []).find((o: StatusOption) => o.id === value);
+      return option?.label || null;
+    }
+    case 'DATE':
+      return format(new Date(value), 'MMM d, yyyy');
+    case 'TIMELINE':
+      return value.start
+        ? `${format(new Date(value.start), 'MMM d')} – ${format(new Date(value.end || value.start), 'MMM d, yyyy')}`
+        : null;
+    case 'MONEY': {
+      const amount = typeof value === 'object' ? value.amount : value;
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: value.currency || column.settings?.currency || workspaceCurrency,
+      }).format(Number(amount));
+    }
+    case 'CHECKBOX':
+      return value ? 'Yes' : 'No';
+    case 'RATING':
+      return '★'.repeat(Number(value));
+    case 'DEPENDENCY':
+    case 'RELATION':
+      return Array.isArray(value) ? `${value.length} linked` : null;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+export default function TaskDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const theme = useTheme();
+  const [task, setTask] = useState<TaskDetail | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    fetchTask();
+  }, [id]);
+
+  const fetchTask = async () => {
+    try {
+      const response = await taskApi.getById(id!);
+      setTask(response.data.task);
+      setCanEdit(response.data.canEdit);
+    } catch (error) {
+      console.error('Failed to fetch task:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleSubTask = async (subTask: SubTask) => {
+    if (!task || !canEdit) return;
+
+    const isCompleted = !subTask.isCompleted;
+    setTask({
+      ...task,
+      subTasks: task.subTasks.map((s) => (s.id === subTask.id ? { ...s, isCompleted } : s)),
+    });
+
+    try {
+      await taskApi.updateSubTask(task.id, subTask.id, { isCompleted });
+    } catch (error) {
+      console.error('Failed to update subtask:', error);
+      fetchTask();
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!task || !comment.trim() || posting) return;
+
+    setPosting(true);
+    try {
+      const response = await taskApi.addComment(task.id, comment.trim());
+      setTask({ ...task, comments: [response.data.comment, ...task.comments] });
+      setComment('');
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.secondary} />
+      </View>
+    );
+  }
+
+  if (!task) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <Text style={{ color: theme.colors.text }}>Item not found</Text>
+      </View>
+    );
+  }
+
+  const fields = task.fieldValues
+    .filter((fv) => fv.column.isVisible)
+    .sort((a, b) => a.column.position - b.column.position)
+    .map((fv) => ({
+      column: fv.column,
+      text: formatFieldValue(fv.column, fv.value, task.group.board.workspace.defaultCurrency),
+    }))
+    .filter((f) => f.text);
+
+  const completedCount = task.subTasks.filter((s) => s.isCompleted).length;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: task.group.board.name }} />
+      <ScrollView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={[styles.taskName, { color: theme.colors.text }]}>
+            {task.name}
+          </Text>
+          <View style={styles.groupRow}>
+            <View style={[styles.groupDot, { backgroundColor: task.group.color || theme.colors.secondary }]} />
+            <Text style={[styles.groupName, { color: theme.colors.textSecondary }]}>
+              {task.group.name}
+            </Text>
+          </View>
+        </View>
+
+        {task.property && (
+          <Button
+            title="View Property"
+            variant="outline"
+            onPress={() => router.push(`/property/${task.property!.id}`)}
+            style={styles.section}
+          />
+        )}
+
+        {/* Fields */}
+        {fields.length > 0 && (
+          <Card variant="outlined" style={styles.section}>
+            {fields.map(({ column, text }) => (
+              <View key={column.id} style={styles.fieldRow}>
+                <Text style={[styles.fieldLabel, { color: theme.colors.textSecondary }]}>
+                  {column.name}
+                </Text>
+                <Text style={[styles.fieldValue, { color: theme.colors.text }]}>
+                  {text}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        )}
+
+        {/* Assignees */}
+        {task.assignments.length > 0 && (
+          <Card variant="outlined" style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Assigned To
+            </Text>
+            {task.assignments.map(({ user }) => (
+              <View key={user.id} style={styles.personRow}>
+                <Avatar name={user.name} imageUrl={user.avatarUrl} size={28} />
+                <Text style={[styles.personName, { color: theme.colors.text }]}>
+                  {user.name}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        )}
+
+        {/* Subtasks */}
+        {task.subTasks.length > 0 && (
+          <Card variant="outlined" style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Subtasks ({completedCount}/{task.subTasks.length})
+            </Text>
+            {task.subTasks.map((subTask) => (
+              <TouchableOpacity
+                key={subTask.id}
+                style={styles.subTaskRow}
+                onPress={() => handleToggleSubTask(subTask)}
+                disabled={!canEdit}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={subTask.isCompleted ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={subTask.isCompleted ? theme.colors.success : theme.colors.textTertiary}
+                />
+                <Text
+                  style={[
+                    styles.subTaskName,
+                    {
+                      color: subTask.isCompleted ? theme.colors.textTertiary : theme.colors.text,
+                      textDecorationLine: subTask.isCompleted ? 'line-through' : 'none',
+                    },
+                  ]}
+                >
+                  {subTask.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </Card>
+        )}
+
+        {/* Comments */}
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+          Comments
+        </Text>
+        <View style={styles.commentInputRow}>
+          <TextInput
+            style={[
+              styles.commentInput,
+              { backgroundColor: theme.colors.surfaceSecondary, color: theme.colors.text },
+            ]}
+            placeholder="Write a comment..."
+            placeholderTextColor={theme.colors.textTertiary}
+            value={comment}
+            onChangeText={setComment}
+            multiline
+          />
+          <TouchableOpacity
+            style={[
+              styles.sendButton,
+              { backgroundColor: comment.trim() && !posting ? theme.colors.secondary : theme.colors.border },
+            ]}
+            onPress={handleAddComment}
+            disabled={!comment.trim() || posting}
+          >
+            {posting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Ionicons name="send" size={18} color="#FFFFFF" />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {task.comments.length === 0 ? (
+          <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
+            No comments yet
+          </Text>
+        ) : (
+          task.comments.map((c) => (
+            <View key={c.id} style={styles.commentRow}>
+              <Avatar name={c.user.name} imageUrl={c.user.avatarUrl} size={32} />
+              <View style={styles.commentBody}>
+                <View style={styles.commentHeader}>
+                  <Text style={[styles.commentAuthor, { color: theme.colors.text }]}>
+                    {c.user.name}
+                  </Text>
+                  <Text style={[styles.commentTime, { color: theme.colors.textTertiary }]}>
+                    {formatDistanceToNow(new Date(c.createdAt), { addSuffix: true })}
+                  </Text>
+                </View>
+                <Text style={[styles.commentText, { color: theme.colors.text }]}>
+                  {c.content}
+                </Text>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  taskName: {
+    fontSize: fontSize.xxl,
+    fontWeight: '700',
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  groupDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: spacing.xs,
+  },
+  groupName: {
+    fontSize: fontSize.sm,
+  },
+  section: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  fieldLabel: {
+    fontSize: fontSize.sm,
+    marginRight: spacing.md,
+  },
+  fieldValue: {
+    flex: 1,
+    fontSize: fontSize.sm,
+    fontWeight: '500',
+    textAlign: 'right',
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  personName: {
+    fontSize: fontSize.md,
+    marginLeft: spacing.sm,
+  },
+  subTaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  subTaskName: {
+    flex: 1,
+    fontSize: fontSize.md,
+    marginLeft: spacing.sm,
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  commentInput: {
+    flex: 1,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSize.md,
+    maxHeight: 100,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: fontSize.sm,
+  },
+  commentRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  commentBody: {
+    flex: 1,
+    marginLeft: spacing.sm,
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  commentAuthor: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
+  commentTime: {
+    fontSize: fontSize.xs,
+  },
+  commentText: {
+    fontSize: fontSize.md,
+    marginTop: 2,
+  },
+});
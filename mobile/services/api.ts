@@ -1,10 +1,13 @@
 import axios from 'axios';
-import Constants from 'expo-constants';
+import type { RegisterData, RenovationStatus } from '@shared/types';
 
-// API base URL - update this for production
-const API_URL = __DEV__ 
-  ? 'http://localhost:3000/api' 
-  : 'https://api.odsifra.com/api';
+// Server origin - update this for production. The socket connects to the same host.
+export const SERVER_URL = __DEV__ ? 'http://localhost:3000' : 'https://api.odsifra.com';
+
+// Web app origin, for links people open in a browser (invites)
+export const WEB_URL = __DEV__ ? 'http://localhost:3001' : 'https://odsifra.com';
+
+const API_URL = `${SERVER_URL}/api`;
 
 export const api = axios.create({
   baseURL: API_URL,
@@ -27,10 +30,36 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor for error handling
+// The auth store swaps the refresh token for a new access token; resolves null when the session has ended
+let sessionRefresher: (() => Promise<string | null>) | null = null;
+
+export const setSessionRefresher = (refresher: () => Promise<string | null>) => {
+  sessionRefresher = refresher;
+};
+
+export const refreshSession = () => (sessionRefresher ? sessionRefresher() : Promise.resolve(null));
+
+// Response interceptor for error handling. A request rejected for an expired access token is retried once
+// after refreshing it.
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config;
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !config._retried &&
+      !config.url?.startsWith('/auth/login') &&
+      !config.url?.startsWith('/auth/refresh')
+    ) {
+      config._retried = true;
+      const token = await refreshSession();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      }
+    }
+
     if (error.response) {
       // Server responded with error
       console.error('[API Error]', error.response.status, error.response.data);
@@ -44,68 +73,88 @@ api.interceptors.response.use(
   }
 );
 
+// Auth API
+export const authApi = {
+  login: (email: string, password: string, deviceName?: string) =>
+    api.post('/auth/login', { email, password, deviceName }),
+  loginWithCode: (challengeToken: string, code: string, deviceName?: string) =>
+    api.post('/auth/login/2fa', { challengeToken, code, deviceName }),
+  register: (data: RegisterData) => api.post('/auth/register', data),
+  getMe: () => api.get('/auth/me'),
+  updateMe: (data: { name?: string; phone?: string; avatarUrl?: string }) => api.patch('/auth/me', data),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    api.post('/auth/change-password', { currentPassword, newPassword }),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  checkResetToken: (token: string) => api.get(`/auth/reset-password/${token}`),
+  resetPassword: (token: string, password: string) => api.post('/auth/reset-password', { token, password }),
+  refresh: (refreshToken: string) => api.post('/auth/refresh', { refreshToken }),
+  logout: () => api.post('/auth/logout'),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (id: string) => api.delete(`/auth/sessions/${id}`),
+  revokeAllSessions: (exceptCurrent?: boolean) => api.delete('/auth/sessions', { params: { exceptCurrent } }),
+};
+
+// Workspace API
+export const workspaceApi = {
+  getAll: () => api.get('/workspaces'),
+  getById: (id: string) => api.get(`/workspaces/${id}`),
+  getMembers: (id: string) => api.get(`/workspaces/${id}/members`),
+};
+
+// Board API
+export const boardApi = {
+  getByWorkspace: (workspaceId: string) => api.get(`/boards/workspace/${workspaceId}`),
+  getById: (id: string) => api.get(`/boards/${id}`),
+};
+
+// Task API
+export const taskApi = {
+  getById: (id: string) => api.get(`/tasks/${id}`),
+  create: (data: { groupId: string; name: string }) => api.post('/tasks', data),
+  update: (id: string, data: { name?: string; groupId?: string }) => api.patch(`/tasks/${id}`, data),
+  updateField: (taskId: string, columnId: string, value: any) =>
+    api.patch(`/tasks/${taskId}/field/${columnId}`, { value }),
+  addComment: (taskId: string, content: string) => api.post(`/tasks/${taskId}/comments`, { content }),
+  updateSubTask: (taskId: string, subTaskId: string, data: { name?: string; isCompleted?: boolean }) =>
+    api.patch(`/tasks/${taskId}/subtasks/${subTaskId}`, data),
+};
+
 // Property API
 export const propertyApi = {
-  getAll: () => api.get('/properties'),
+  getByWorkspace: (workspaceId: string) => api.get(`/properties/workspace/${workspaceId}`),
   getById: (id: string) => api.get(`/properties/${id}`),
-  create: (data: any) => api.post('/properties', data),
-  update: (id: string, data: any) => api.put(`/properties/${id}`, data),
-  delete: (id: string) => api.delete(`/properties/${id}`),
-  getFinancials: (customerId: string) => 
-    api.get(`/properties/customer/${customerId}/financials`),
+  getLedger: (id: string) => api.get(`/properties/${id}/ledger`),
+  getFinancials: (workspaceId: string, period?: { from: string; to: string }) =>
+    api.get(`/properties/workspace/${workspaceId}/summary`, { params: period }),
 };
 
 // Renovation API
 export const renovationApi = {
   getById: (id: string) => api.get(`/renovations/${id}`),
-  create: (data: any) => api.post('/renovations', data),
-  update: (id: string, data: any) => api.put(`/renovations/${id}`, data),
-  addStep: (renovationId: string, data: any) => 
-    api.post(`/renovations/${renovationId}/steps`, data),
-  updateStep: (stepId: string, data: any) => 
-    api.put(`/renovations/steps/${stepId}`, data),
-  getByProperty: (propertyId: string) => 
-    api.get(`/renovations/property/${propertyId}`),
-};
-
-// Message API
-export const messageApi = {
-  getConversations: () => api.get('/messages/conversations'),
-  getMessages: (userId: string, page = 1) => 
-    api.get(`/messages/with/${userId}?page=${page}`),
-  send: (data: { receiverId: string; content: string }) => 
-    api.post('/messages', data),
-  markAsRead: (id: string) => api.put(`/messages/${id}/read`),
-  getUnreadCount: () => api.get('/messages/unread-count'),
+  updateStep: (renovationId: string, stepId: string, data: { status?: RenovationStatus }) =>
+    api.patch(`/renovations/${renovationId}/steps/${stepId}`, data),
 };
 
-// User API
-export const userApi = {
-  getProfile: () => api.get('/users/me'),
-  updateProfile: (data: any) => api.put('/users/me', data),
-  changePassword: (data: { currentPassword: string; newPassword: string }) => 
-    api.put('/users/me/password', data),
-  getContacts: () => api.get('/users/contacts'),
-  registerPushToken: (token: string, platform: string) => 
-    api.post('/users/push-token', { token, platform }),
+// Thread (message) API
+export const threadApi = {
+  getAll: () => api.get('/threads'),
+  getById: (id: string) => api.get(`/threads/${id}`),
+  create: (data: { workspaceId: string; participantIds: string[]; title?: string; initialMessage?: string }) =>
+    api.post('/threads', data),
+  sendMessage: (threadId: string, content: string) => api.post(`/threads/${threadId}/messages`, { content }),
+  markAsRead: (threadId: string) => api.post(`/threads/${threadId}/read`),
 };
 
-// Invitation API
-export const invitationApi = {
-  validate: (token: string) => api.get(`/invitations/validate/${token}`),
-  create: (data: { email: string; role: string }) => 
-    api.post('/invitations', data),
-  getAll: () => api.get('/invitations'),
-  delete: (id: string) => api.delete(`/invitations/${id}`),
+// Notification API
+export const notificationApi = {
+  getAll: (unreadOnly?: boolean) => api.get('/notifications', { params: unreadOnly ? { unreadOnly: true } : {} }),
+  markAsRead: (id: string) => api.post(`/notifications/${id}/read`),
+  markAllAsRead: () => api.post('/notifications/read-all'),
+  delete: (id: string) => api.delete(`/notifications/${id}`),
 };
 
-// Admin API
-export const adminApi = {
-  getOverview: () => api.get('/admin/overview'),
-  getCustomers: (page = 1) => api.get(`/admin/customers?page=${page}`),
-  getCustomerDetails: (id: string) => api.get(`/admin/customers/${id}`),
-  getEmployees: (page = 1) => api.get(`/admin/employees?page=${page}`),
-  assignCustomer: (customerId: string, employeeId: string) => 
-    api.post('/admin/assign-customer', { customerId, employeeId }),
-  toggleUserStatus: (id: string) => api.put(`/admin/users/${id}/toggle-status`),
+// Invite API
+export const inviteApi = {
+  create: (data: { workspaceId: string; email: string; role: 'EMPLOYEE' | 'CUSTOMER' }) => api.post('/invites', data),
+  getByToken: (token: string) => api.get(`/invites/token/${token}`),
 };
@@ -1,14 +1,13 @@
 import { io, Socket } from 'socket.io-client';
 import * as SecureStore from 'expo-secure-store';
-
-const SOCKET_URL = __DEV__ 
-  ? 'http://localhost:3000' 
-  : 'https://api.odsifra.com';
+import type { Message } from '@shared/types';
+import { SERVER_URL, refreshSession } from './api';
+import { TOKEN_KEY } from '@/store/auth';
 
 let socket: Socket | null = null;
 
 export const initializeSocket = async (): Promise<Socket | null> => {
-  const token = await SecureStore.getItemAsync('od_sifra_token');
+  const token = await SecureStore.getItemAsync(TOKEN_KEY);
   
   if (!token) {
     console.log('No token found, cannot initialize socket');
@@ -19,8 +18,11 @@ export const initializeSocket = async (): Promise<Socket | null> => {
     return socket;
   }
 
-  socket = io(SOCKET_URL, {
-    auth: { token },
+  // The token is read on every (re)connect, so reconnects use the latest refreshed one
+  socket = io(SERVER_URL, {
+    auth: (cb) => {
+      SecureStore.getItemAsync(TOKEN_KEY).then((current) => cb({ token: current }));
+    },
     transports: ['websocket'],
     reconnection: true,
     reconnectionAttempts: 5,
@@ -35,8 +37,12 @@ export const initializeSocket = async (): Promise<Socket | null> => {
     console.log('Socket disconnected:', reason);
   });
 
-  socket.on('connect_error', (error) => {
+  // A rejected handshake isn't retried on its own; when the access token has expired, refresh it and reconnect
+  socket.on('connect_error', async (error) => {
     console.error('Socket connection error:', error.message);
+    if (error.message === 'Invalid token' && socket && !socket.active && (await refreshSession())) {
+      socket.connect();
+    }
   });
 
   return socket;
@@ -51,45 +57,58 @@ export const disconnectSocket = () => {
   }
 };
 
+// Thread rooms carry typing and receipts for an open conversation; new messages also arrive without joining
+export const joinThread = (threadId: string) => {
+  socket?.emit('join-thread', threadId);
+};
+
+export const leaveThread = (threadId: string) => {
+  socket?.emit('leave-thread', threadId);
+};
+
 // Message events
-export const sendMessage = (receiverId: string, content: string) => {
-  socket?.emit('send_message', { receiverId, content });
+export const sendMessage = (threadId: string, content: string) => {
+  socket?.emit('send_message', { threadId, content });
 };
 
-export const sendTyping = (receiverId: string) => {
-  socket?.emit('typing', { receiverId });
+export const sendTyping = (threadId: string) => {
+  socket?.emit('typing', { threadId });
 };
 
-export const sendStopTyping = (receiverId: string) => {
-  socket?.emit('stop_typing', { receiverId });
+export const sendStopTyping = (threadId: string) => {
+  socket?.emit('stop_typing', { threadId });
 };
 
-export const markMessageRead = (messageId: string) => {
-  socket?.emit('mark_read', { messageId });
+// Moves the user's read receipt for the thread up to now
+export const markThreadRead = (threadId: string) => {
+  socket?.emit('mark_read', { threadId });
 };
 
 // Event listeners
-export const onNewMessage = (callback: (message: any) => void) => {
+export const onNewMessage = (callback: (message: Message) => void) => {
   socket?.on('new_message', callback);
   return () => socket?.off('new_message', callback);
 };
 
-export const onMessageSent = (callback: (message: any) => void) => {
+export const onMessageSent = (callback: (message: Message) => void) => {
   socket?.on('message_sent', callback);
   return () => socket?.off('message_sent', callback);
 };
 
-export const onUserTyping = (callback: (data: { userId: string }) => void) => {
+export const onUserTyping = (callback: (data: { threadId: string; userId: string; name: string }) => void) => {
   socket?.on('user_typing', callback);
   return () => socket?.off('user_typing', callback);
 };
 
-export const onUserStopTyping = (callback: (data: { userId: string }) => void) => {
+export const onUserStopTyping = (callback: (data: { threadId: string; userId: string }) => void) => {
   socket?.on('user_stop_typing', callback);
   return () => socket?.off('user_stop_typing', callback);
 };
 
-export const onMessageRead = (callback: (data: { messageId: string; readAt: string }) => void) => {
+// Sent when any participant reads the thread; userId is the reader
+export const onMessageRead = (
+  callback: (data: { threadId: string; userId: string; readAt: string; messageId?: string }) => void
+) => {
   socket?.on('message_read', callback);
   return () => socket?.off('message_read', callback);
 };
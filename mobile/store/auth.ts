@@ -1,82 +1,114 @@
 import { create } from 'zustand';
+import { Platform } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
-import { api } from '@/services/api';
+import { api, authApi, setSessionRefresher } from '@/services/api';
+import type { RegisterData, User, UserRole, UserWorkspace } from '@shared/types';
 
-export type UserRole = 'ADMIN' | 'EMPLOYEE' | 'CUSTOMER';
-
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: UserRole;
-  avatarUrl?: string;
-  phone?: string;
-}
+export type { User, UserRole, UserWorkspace };
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  currentWorkspace: UserWorkspace | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  
+
   // Actions
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to a challenge token when the account has 2FA; finish with loginWithCode
+  login: (email: string, password: string) => Promise<string | null>;
+  loginWithCode: (challengeToken: string, code: string) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   loadStoredAuth: () => Promise<void>;
   updateUser: (user: Partial<User>) => void;
+  setCurrentWorkspace: (workspace: UserWorkspace) => void;
 }
 
-interface RegisterData {
-  email: string;
-  password: string;
-  name: string;
-  phone?: string;
-  invitationToken?: string;
-}
-
-const TOKEN_KEY = 'od_sifra_token';
+export const TOKEN_KEY = 'od_sifra_token';
+const REFRESH_TOKEN_KEY = 'od_sifra_refresh_token';
 const USER_KEY = 'od_sifra_user';
+const WORKSPACE_KEY = 'od_sifra_workspace';
+
+// Shown in the list of signed-in devices
+const DEVICE_NAME = Platform.OS === 'ios' ? 'iOS app' : 'Android app';
+
+const saveTokens = async (token: string, refreshToken: string) => {
+  await SecureStore.setItemAsync(TOKEN_KEY, token);
+  await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refreshToken);
+  api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+};
+
+const clearStoredAuth = async () => {
+  await SecureStore.deleteItemAsync(TOKEN_KEY);
+  await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+  await SecureStore.deleteItemAsync(USER_KEY);
+  delete api.defaults.headers.common['Authorization'];
+};
+
+// The stored workspace if the user is still a member of it, otherwise their first one
+const pickWorkspace = (user: User, workspaceId?: string | null) =>
+  user.workspaces.find((w) => w.id === workspaceId) || user.workspaces[0] || null;
 
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   token: null,
+  currentWorkspace: null,
   isLoading: true,
   isAuthenticated: false,
 
   login: async (email: string, password: string) => {
     try {
-      const response = await api.post('/auth/login', { email, password });
-      const { user, accessToken } = response.data;
+      const response = await authApi.login(email, password, DEVICE_NAME);
+      if (response.data.twoFactorRequired) return response.data.challengeToken as string;
 
-      await SecureStore.setItemAsync(TOKEN_KEY, accessToken);
-      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
+      const { user, token, refreshToken } = response.data;
 
-      api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+      await saveTokens(token, refreshToken);
+      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
 
       set({
         user,
-        token: accessToken,
+        token,
+        currentWorkspace: pickWorkspace(user, await SecureStore.getItemAsync(WORKSPACE_KEY)),
         isAuthenticated: true,
       });
+      return null;
     } catch (error: any) {
       throw new Error(error.response?.data?.error || 'Login failed');
     }
   },
 
-  register: async (data: RegisterData) => {
+  loginWithCode: async (challengeToken: string, code: string) => {
     try {
-      const response = await api.post('/auth/register', data);
-      const { user, accessToken } = response.data;
+      const response = await authApi.loginWithCode(challengeToken, code, DEVICE_NAME);
+      const { user, token, refreshToken } = response.data;
 
-      await SecureStore.setItemAsync(TOKEN_KEY, accessToken);
+      await saveTokens(token, refreshToken);
       await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
 
-      api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+      set({
+        user,
+        token,
+        currentWorkspace: pickWorkspace(user, await SecureStore.getItemAsync(WORKSPACE_KEY)),
+        isAuthenticated: true,
+      });
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Verification failed');
+    }
+  },
+
+  register: async (data: RegisterData) => {
+    try {
+      const response = await authApi.register({ ...data, deviceName: DEVICE_NAME });
+      const { user, token, refreshToken } = response.data;
+
+      await saveTokens(token, refreshToken);
+      await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
 
       set({
         user,
-        token: accessToken,
+        token,
+        currentWorkspace: pickWorkspace(user),
         isAuthenticated: true,
       });
     } catch (error: any) {
@@ -85,13 +117,14 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   logout: async () => {
-    await SecureStore.deleteItemAsync(TOKEN_KEY);
-    await SecureStore.deleteItemAsync(USER_KEY);
-    delete api.defaults.headers.common['Authorization'];
+    // Ends the session on the server too; signing out on the device doesn't depend on it
+    await authApi.logout().catch(() => {});
+    await clearStoredAuth();
 
     set({
       user: null,
       token: null,
+      currentWorkspace: null,
       isAuthenticated: false,
     });
   },
@@ -102,22 +135,22 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const userJson = await SecureStore.getItemAsync(USER_KEY);
 
       if (token && userJson) {
-        const user = JSON.parse(userJson);
         api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
 
         // Verify token is still valid
         try {
-          const response = await api.get('/auth/me');
+          const response = await authApi.getMe();
+          const user: User = response.data.user;
           set({
-            user: response.data.user,
-            token,
+            user,
+            token: get().token || token,
+            currentWorkspace: pickWorkspace(user, await SecureStore.getItemAsync(WORKSPACE_KEY)),
             isAuthenticated: true,
             isLoading: false,
           });
         } catch {
-          // Token expired, clear storage
-          await SecureStore.deleteItemAsync(TOKEN_KEY);
-          await SecureStore.deleteItemAsync(USER_KEY);
+          // Session ended (an expired access token is refreshed by the API client), clear storage
+          await clearStoredAuth();
           set({ isLoading: false });
         }
       } else {
@@ -136,4 +169,38 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       SecureStore.setItemAsync(USER_KEY, JSON.stringify(updatedUser));
     }
   },
+
+  setCurrentWorkspace: (workspace: UserWorkspace) => {
+    set({ currentWorkspace: workspace });
+    SecureStore.setItemAsync(WORKSPACE_KEY, workspace.id);
+  },
 }));
+
+// Swaps the stored refresh token for new tokens when a request fails with an expired access token. Requests that
+// fail together share one refresh, since each refresh token only works once. A refresh the server rejects means
+// the session was revoked, so the app signs out.
+let refreshing: Promise<string | null> | null = null;
+
+setSessionRefresher(() => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return null;
+      try {
+        const response = await authApi.refresh(refreshToken);
+        await saveTokens(response.data.token, response.data.refreshToken);
+        useAuthStore.setState({ token: response.data.token });
+        return response.data.token as string;
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          await clearStoredAuth();
+          useAuthStore.setState({ user: null, token: null, currentWorkspace: null, isAuthenticated: false });
+        }
+        return null;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+});
@@ -1,30 +1,14 @@
 import { create } from 'zustand';
-import { api } from '@/services/api';
+import { notificationApi } from '@/services/api';
+import type { Notification, NotificationType } from '@shared/types';
 
-export type NotificationType = 
-  | 'STATUS_CHANGE' 
-  | 'VISIT_SCHEDULED' 
-  | 'VISIT_COMPLETED' 
-  | 'MESSAGE' 
-  | 'RENOVATION_UPDATE' 
-  | 'SYSTEM';
-
-export interface Notification {
-  id: string;
-  title: string;
-  body: string;
-  type: NotificationType;
-  metadata?: Record<string, any>;
-  isRead: boolean;
-  readAt?: string;
-  createdAt: string;
-}
+export type { Notification, NotificationType };
 
 interface NotificationState {
   notifications: Notification[];
   unreadCount: number;
   isLoading: boolean;
-  
+
   fetchNotifications: () => Promise<void>;
   markAsRead: (id: string) => Promise<void>;
   markAllAsRead: () => Promise<void>;
@@ -39,7 +23,7 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   fetchNotifications: async () => {
     set({ isLoading: true });
     try {
-      const response = await api.get('/notifications');
+      const response = await notificationApi.getAll();
       set({
         notifications: response.data.notifications,
         unreadCount: response.data.unreadCount,
@@ -53,10 +37,10 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
 
   markAsRead: async (id: string) => {
     try {
-      await api.put(`/notifications/${id}/read`);
+      await notificationApi.markAsRead(id);
       set((state) => ({
         notifications: state.notifications.map((n) =>
-          n.id === id ? { ...n, isRead: true, readAt: new Date().toISOString() } : n
+          n.id === id ? { ...n, isRead: true } : n
         ),
         unreadCount: Math.max(0, state.unreadCount - 1),
       }));
@@ -67,13 +51,9 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
 
   markAllAsRead: async () => {
     try {
-      await api.put('/notifications/read-all');
+      await notificationApi.markAllAsRead();
       set((state) => ({
-        notifications: state.notifications.map((n) => ({
-          ...n,
-          isRead: true,
-          readAt: new Date().toISOString(),
-        })),
+        notifications: state.notifications.map((n) => ({ ...n, isRead: true })),
         unreadCount: 0,
       }));
     } catch (error) {
@@ -1,51 +1,281 @@
-// Shared types between backend and mobile app
+// Shared types between backend and mobile app. They describe the JSON the API returns (dates are ISO strings).
 
-export type UserRole = 'ADMIN' | 'EMPLOYEE' | 'CUSTOMER';
+export type UserRole = 'OWNER_ADMIN' | 'EMPLOYEE' | 'CUSTOMER';
 
-export type PropertyStatus = 'ACTIVE' | 'VACANT' | 'RENOVATION' | 'SOLD';
+export type BoardType = 'GENERAL' | 'PROPERTY' | 'PROJECT' | 'CRM';
 
-export type RenovationStatus = 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+export type FieldType =
+  | 'TEXT'
+  | 'NUMBER'
+  | 'DATE'
+  | 'STATUS'
+  | 'PERSON'
+  | 'MONEY'
+  | 'FILE'
+  | 'CHECKBOX'
+  | 'DROPDOWN'
+  | 'LINK'
+  | 'EMAIL'
+  | 'PHONE'
+  | 'RATING'
+  | 'TIMELINE'
+  | 'DEPENDENCY'
+  | 'FORMULA'
+  | 'RELATION'
+  | 'MIRROR';
 
-export type NotificationType = 
-  | 'STATUS_CHANGE' 
-  | 'VISIT_SCHEDULED' 
-  | 'VISIT_COMPLETED' 
-  | 'MESSAGE' 
-  | 'RENOVATION_UPDATE' 
+export type NotificationType =
+  | 'TASK_ASSIGNED'
+  | 'TASK_UPDATED'
+  | 'TASK_COMMENT'
+  | 'MESSAGE_RECEIVED'
+  | 'INVITE_RECEIVED'
+  | 'BOARD_SHARED'
+  | 'MENTION'
   | 'SYSTEM';
 
+export type InviteStatus = 'PENDING' | 'ACCEPTED' | 'EXPIRED' | 'CANCELLED';
+
+export type OccupancyStatus = 'VACANT' | 'OCCUPIED' | 'RENOVATION';
+
+export type RenovationStatus = 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+export type PaymentMethod = 'BANK_TRANSFER' | 'CASH' | 'CARD' | 'CHECK' | 'OTHER';
+
+export type ChargeStatus = 'PAID' | 'PARTIAL' | 'UNPAID';
+
+export type ExpenseCategory =
+  | 'MORTGAGE'
+  | 'TAX'
+  | 'INSURANCE'
+  | 'MAINTENANCE'
+  | 'MANAGEMENT_FEE'
+  | 'RENOVATION'
+  | 'OTHER';
+
+export type ExpenseRecurrence = 'ONE_OFF' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export type Currency = 'USD' | 'ILS' | 'EUR' | 'GBP';
+
+export type EmailStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED';
+
+export interface UserSummary {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  email?: string;
+}
+
+// A workspace as listed on the signed-in user, with their role in it
+export interface UserWorkspace {
+  id: string;
+  name: string;
+  slug: string;
+  logoUrl?: string;
+  role: UserRole;
+}
+
 export interface User {
   id: string;
   email: string;
   name: string;
+  avatarUrl?: string;
   phone?: string;
   role: UserRole;
-  avatarUrl?: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // A workspace requires 2FA of the user and they haven't turned it on; workspace data is withheld until they do
+  twoFactorSetupRequired: boolean;
+  workspaces: UserWorkspace[];
+}
+
+export interface WorkspaceMember {
+  id: string;
+  userId: string;
+  role: UserRole;
   isActive: boolean;
+  user: UserSummary & { role?: UserRole; phone?: string };
+}
+
+export interface BoardSummary {
+  id: string;
+  workspaceId: string;
+  name: string;
+  description?: string;
+  type: BoardType;
+  color?: string;
+  icon?: string;
+  isPublic: boolean;
+  taskCount: number;
   createdAt: string;
-  lastLoginAt?: string;
+  updatedAt: string;
 }
 
-export interface Property {
+export interface StatusOption {
   id: string;
-  customerId: string;
-  address: string;
-  city: string;
-  postalCode?: string;
-  country: string;
+  label: string;
+  color: string;
+}
+
+export interface Column {
+  id: string;
+  name: string;
+  type: FieldType;
+  settings?: any;
+  width?: number;
+  position: number;
+  isVisible: boolean;
+}
+
+export interface FieldValue {
+  id: string;
+  columnId: string;
+  value: any;
+}
+
+// A MONEY cell's value. Values saved before amounts carried a currency are bare numbers in the column's currency.
+export interface MoneyValue {
+  amount: number;
+  currency: Currency;
+}
+
+// A stored rate a conversion used, with the day it was set for
+export interface RateUsed {
+  from: Currency;
+  to: Currency;
+  rate: number;
+  date: string;
+}
+
+// Amounts converted into one currency, with the rates used and the currencies there was no rate for
+export interface Converted {
+  currency: Currency;
+  rates: RateUsed[];
+  missing: Currency[];
+}
+
+// Per group, per MONEY column; null when some amount couldn't be converted
+export interface MoneyTotals extends Converted {
+  groups: Record<string, Record<string, number | null>>;
+}
+
+// GET /workspaces/:id/exchange-rates
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  rate: string;
+  date: string;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+}
+
+// GET /workspaces/:id/emails
+export interface OutboundEmail {
+  id: string;
+  to: string;
+  subject: string;
+  template: string;
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface Task {
+  id: string;
+  groupId: string;
+  name: string;
+  position: number;
+  fieldValues: FieldValue[];
+  assignments: { user: UserSummary }[];
+  _count: { comments: number; subTasks: number };
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  color?: string;
+  position: number;
+  collapsed: boolean;
+  tasks: Task[];
+}
+
+export interface Board {
+  id: string;
+  workspaceId: string;
+  name: string;
   description?: string;
-  purchaseCost: number;
-  monthlyRent: number;
-  tenantName?: string;
+  type: BoardType;
+  columns: Column[];
+  groups: Group[];
+  workspace?: { id: string; name: string; defaultCurrency?: Currency };
+}
+
+export interface BoardResponse {
+  board: Board;
+  totals: MoneyTotals;
+  canEdit: boolean;
+}
+
+export interface Comment {
+  id: string;
+  content: string;
+  createdAt: string;
+  user: UserSummary;
+}
+
+export interface SubTask {
+  id: string;
+  name: string;
+  isCompleted: boolean;
+  position: number;
+}
+
+// GET /tasks/:id
+export interface TaskDetail {
+  id: string;
+  name: string;
+  fieldValues: (FieldValue & { column: Column })[];
+  assignments: { user: UserSummary }[];
+  comments: Comment[];
+  subTasks: SubTask[];
+  createdBy: UserSummary;
+  createdAt: string;
+  group: {
+    id: string;
+    name: string;
+    color?: string;
+    board: { id: string; name: string; workspaceId: string; workspace: { defaultCurrency: Currency } };
+  };
+  property: { id: string } | null;
+}
+
+// Money amounts are decimals and arrive as strings ("1250.00")
+export interface Lease {
+  id: string;
+  propertyId: string;
+  tenantName: string;
   tenantEmail?: string;
   tenantPhone?: string;
-  rentalStart?: string;
-  rentalEnd?: string;
-  status: PropertyStatus;
-  imageUrl?: string;
+  monthlyRent: string;
+  deposit?: string;
+  startDate: string;
+  endDate?: string;
   notes?: string;
-  createdAt: string;
-  updatedAt: string;
+}
+
+export interface RenovationStep {
+  id: string;
+  renovationId: string;
+  title: string;
+  description?: string;
+  status: RenovationStatus;
+  position: number;
+  dueDate?: string;
+  completedAt?: string;
 }
 
 export interface Renovation {
@@ -54,131 +284,245 @@ export interface Renovation {
   title: string;
   description?: string;
   status: RenovationStatus;
-  budget?: number;
-  actualCost?: number;
+  budget?: string;
+  actualCost?: string;
   startDate?: string;
   endDate?: string;
   steps: RenovationStep[];
+}
+
+// A property and the board item it's shown as
+export interface Property {
+  id: string;
+  workspaceId: string;
+  taskId: string;
+  address: string;
+  city?: string;
+  postalCode?: string;
+  country?: string;
+  description?: string;
+  purchaseCost?: string;
+  purchaseDate?: string;
+  cashInvested?: string;
+  currency: Currency;
+  status: OccupancyStatus;
+  notes?: string;
+  currentLease: Lease | null;
+  task: { id: string; name: string; group: { id: string; name: string; board: { id: string; name: string } } };
+}
+
+// GET /properties/:id
+export interface PropertyDetail extends Property {
+  leases: Lease[];
+  renovations: Renovation[];
+}
+
+export interface RentPayment {
+  id: string;
+  leaseId: string;
+  chargeId: string;
+  amount: string;
+  paidAt: string;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
   createdAt: string;
-  updatedAt: string;
+  recordedBy: { id: string; name: string } | null;
 }
 
-export interface RenovationStep {
+// A month's rent on a lease; balances are computed and arrive as numbers
+export interface RentCharge {
   id: string;
-  renovationId: string;
-  title: string;
+  leaseId: string;
+  period: string;
+  amount: string;
+  dueDate: string;
+  payments: RentPayment[];
+  paid: number;
+  balance: number;
+  status: ChargeStatus;
+  overdue: boolean;
+  paidLate: boolean;
+}
+
+// GET /properties/:id/ledger
+export interface PropertyLedger {
+  leases: (Lease & { arrears: number; charges: RentCharge[] })[];
+  arrears: number;
+  canEdit: boolean;
+}
+
+// GET /properties/workspace/:workspaceId/summary
+export interface PortfolioSummary extends Converted {
+  from: string;
+  to: string;
+  expected: number;
+  collected: number;
+  outstanding: number;
+  occupancy: { properties: number; occupied: number; rate: number };
+}
+
+export interface PropertyExpense {
+  id: string;
+  propertyId: string;
+  renovationId?: string;
+  category: ExpenseCategory;
   description?: string;
-  status: RenovationStatus;
-  orderIndex: number;
-  dueDate?: string;
-  completedAt?: string;
+  amount: string;
+  date: string;
+  recurrence: ExpenseRecurrence;
+  endDate?: string;
   createdAt: string;
-  updatedAt: string;
+  renovation: { id: string; title: string } | null;
+}
+
+// Yields and returns are annualized fractions (0.05 = 5%), null when they can't be worked out
+interface Returns {
+  grossYield: number | null;
+  netYield: number | null;
+  cashOnCashReturn: number | null;
+  paybackYears: number | null;
+}
+
+// GET /properties/:id/report
+export interface PropertyReport extends Returns {
+  id: string;
+  address: string;
+  status: OccupancyStatus;
+  // The report's currency, or the property's own when there's no rate for it
+  currency: Currency;
+  purchaseCost: number | null;
+  cashInvested: number;
+  monthlyRent: number;
+  rentCollected: number;
+  expenses: number;
+  expensesByCategory: Record<ExpenseCategory, number>;
+  netCashFlow: number;
+  from?: string;
+  to?: string;
+  rates?: RateUsed[];
+  missing?: Currency[];
+}
+
+// GET /properties/workspace/:workspaceId/report
+export interface CustomerFinancials extends Returns, Converted {
+  from: string;
+  to: string;
+  totalProperties: number;
+  activeProperties: number;
+  vacantProperties: number;
+  totalPurchaseCost: number;
+  totalMonthlyRent: number;
+  estimatedAnnualIncome: number;
+  rentCollected: number;
+  expenses: number;
+  netCashFlow: number;
+  properties: PropertyReport[];
+}
+
+// GET /renovations/:id
+export interface RenovationDetail extends Renovation {
+  property: { id: string; address: string; city?: string; currency: Currency };
 }
 
 export interface Message {
   id: string;
+  threadId: string;
   senderId: string;
-  receiverId: string;
   content: string;
-  isRead: boolean;
-  readAt?: string;
   createdAt: string;
+  sender: UserSummary;
+}
+
+export interface ThreadParticipant {
+  userId: string;
+  lastReadAt: string | null;
+}
+
+// GET /threads
+export interface ThreadSummary {
+  id: string;
+  workspaceId: string;
+  title?: string;
+  isGroup: boolean;
+  updatedAt: string;
+  participants: ThreadParticipant[];
+  participantUsers: UserSummary[];
+  lastMessage: Message | null;
+  unreadCount: number;
+  workspace: { id: string; name: string };
+}
+
+// GET /threads/:id
+export interface Thread {
+  id: string;
+  workspaceId: string;
+  title?: string;
+  isGroup: boolean;
+  participants: ThreadParticipant[];
+  participantUsers: UserSummary[];
+  messages: Message[];
 }
 
 export interface Notification {
   id: string;
-  userId: string;
-  title: string;
-  body: string;
   type: NotificationType;
-  metadata?: Record<string, any>;
+  title: string;
+  message?: string;
+  link?: string;
   isRead: boolean;
-  readAt?: string;
+  data?: Record<string, any>;
   createdAt: string;
 }
 
-export interface Invitation {
+export interface Invite {
   id: string;
-  inviterId: string;
+  workspaceId: string;
   email: string;
   role: UserRole;
   token: string;
+  status: InviteStatus;
   expiresAt: string;
-  usedAt?: string;
   createdAt: string;
+  workspace: { id?: string; name: string; logoUrl?: string };
+  invitedBy: { name: string };
 }
 
-// API Response types
-export interface ApiResponse<T> {
-  data?: T;
-  error?: string;
-  message?: string;
+// Auth types
+export interface AuthResponse {
+  token: string;
+  refreshToken: string;
+  user: User;
 }
 
-export interface PaginatedResponse<T> {
-  data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+// What login returns instead of tokens when the account has 2FA; send the challenge with a code to /auth/login/2fa
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
 }
 
-// Auth types
-export interface LoginResponse {
-  user: User;
-  accessToken: string;
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
 }
 
 export interface RegisterData {
   email: string;
   password: string;
   name: string;
-  phone?: string;
-  invitationToken?: string;
-}
-
-// Dashboard types
-export interface AdminOverview {
-  totalCustomers: number;
-  totalEmployees: number;
-  totalProperties: number;
-  activeProperties: number;
-  vacantProperties: number;
-  totalMonthlyRent: number;
-  estimatedAnnualRevenue: number;
-  recentCustomers: Pick<User, 'id' | 'name' | 'email' | 'createdAt'>[];
+  inviteToken?: string;
+  deviceName?: string;
 }
 
-export interface CustomerFinancials {
-  totalProperties: number;
-  activeProperties: number;
-  vacantProperties: number;
-  totalPurchaseCost: number;
-  totalMonthlyRent: number;
-  estimatedAnnualIncome: number;
-  properties: {
-    id: string;
-    address: string;
-    purchaseCost: number;
-    monthlyRent: number;
-    status: PropertyStatus;
-  }[];
-}
-
-export interface CustomerWithStats extends User {
-  totalProperties: number;
-  activeProperties: number;
-  totalMonthlyRent: number;
-  daysSinceOnboarding: number;
-  assignedEmployee?: Pick<User, 'id' | 'name' | 'email'>;
-}
-
-// Conversation types
-export interface Conversation {
-  partner: Pick<User, 'id' | 'name' | 'email' | 'avatarUrl' | 'role'>;
-  lastMessage?: Message;
-  unreadCount: number;
+// A signed-in device. current marks the one making the request.
+export interface Session {
+  id: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
 }
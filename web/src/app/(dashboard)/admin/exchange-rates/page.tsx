@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeftRight, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth';
+import { workspaceApi } from '@/lib/api';
+import { CURRENCIES, ImportRowError } from '@/components/board/types';
+
+interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+  date: string;
+  createdBy: { id: string; name: string } | null;
+}
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20';
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+export default function ExchangeRatesPage() {
+  const { user, currentWorkspace } = useAuthStore();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ fromCurrency: 'EUR', toCurrency: 'USD', rate: '', date: today() });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [dateOrder, setDateOrder] = useState<'MDY' | 'DMY'>('MDY');
+  const [uploading, setUploading] = useState(false);
+  const [uploadResult, setUploadResult] = useState<{ imported: number; errors: ImportRowError[] } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const isAdmin = user?.role === 'OWNER_ADMIN';
+
+  useEffect(() => {
+    if (currentWorkspace) {
+      fetchRates();
+    }
+  }, [currentWorkspace]);
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true);
+      const res = await workspaceApi.getExchangeRates(currentWorkspace!.id);
+      setRates(res.data.rates || []);
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentWorkspace || !form.rate) return;
+
+    setError('');
+    setSaving(true);
+    try {
+      await workspaceApi.setExchangeRate(currentWorkspace.id, { ...form, rate: parseFloat(form.rate) });
+      setForm({ ...form, rate: '' });
+      fetchRates();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!currentWorkspace) return;
+
+    setError('');
+    setUploadResult(null);
+    setUploading(true);
+    try {
+      const res = await workspaceApi.uploadExchangeRates(currentWorkspace.id, file, dateOrder);
+      setUploadResult(res.data);
+      fetchRates();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to upload rates');
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm('Delete this exchange rate?')) return;
+    try {
+      await workspaceApi.deleteExchangeRate(currentWorkspace!.id, rateId);
+      setRates((prev) => prev.filter((r) => r.id !== rateId));
+    } catch (error) {
+      console.error('Failed to delete exchange rate:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 sm:mb-6">
+        <div>
+          <h1 className="text-lg sm:text-xl font-semibold text-[var(--text)]">Exchange Rates</h1>
+          <p className="text-xs sm:text-sm text-[var(--text-tertiary)] mt-0.5">
+            Rates used to convert totals, exports and reports. Each conversion uses the latest rate on or before its date.
+          </p>
+        </div>
+        {isAdmin && (
+          <div className="flex items-center gap-2">
+            <select
+              value={dateOrder}
+              onChange={(e) => setDateOrder(e.target.value as 'MDY' | 'DMY')}
+              title="How dates in the file are written"
+              className={inputClass}
+            >
+              <option value="MDY">MM/DD/YYYY</option>
+              <option value="DMY">DD/MM/YYYY</option>
+            </select>
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={uploading}
+              title="CSV or Excel file with date, from, to and rate columns"
+              className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-2 rounded-lg border border-[var(--border)] text-[var(--text)] text-xs sm:text-sm font-medium hover:bg-[var(--surface-hover)] transition-colors"
+            >
+              {uploading ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+              Upload
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {isAdmin && (
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-wrap items-center gap-2 mb-4 sm:mb-6 p-3 sm:p-4 bg-[var(--surface)] rounded-xl border border-[var(--border)]"
+        >
+          <span className="text-sm text-[var(--text-secondary)]">1</span>
+          <select
+            value={form.fromCurrency}
+            onChange={(e) => setForm({ ...form, fromCurrency: e.target.value })}
+            className={inputClass}
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <span className="text-sm text-[var(--text-secondary)]">=</span>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={form.rate}
+            onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            placeholder="Rate"
+            className={`${inputClass} w-28`}
+          />
+          <select
+            value={form.toCurrency}
+            onChange={(e) => setForm({ ...form, toCurrency: e.target.value })}
+            className={inputClass}
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <span className="text-sm text-[var(--text-secondary)]">on</span>
+          <input
+            type="date"
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={saving || !form.rate || form.fromCurrency === form.toCurrency}
+            className="flex items-center gap-1.5 px-4 h-9 rounded-lg bg-[var(--primary)] text-white text-sm font-medium hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            Add
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mb-4 text-sm text-[var(--error)]">{error}</p>}
+
+      {uploadResult && (
+        <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-[var(--surface)] rounded-xl border border-[var(--border)] text-sm">
+          <p className="text-[var(--text)]">
+            Imported {uploadResult.imported} {uploadResult.imported === 1 ? 'rate' : 'rates'}
+            {uploadResult.errors.length > 0 && `, skipped ${uploadResult.errors.length} rows`}
+          </p>
+          {uploadResult.errors.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-[var(--text-tertiary)]">
+              {uploadResult.errors.slice(0, 20).map((e) => (
+                <li key={`${e.row}:${e.column}`}>
+                  Row {e.row}
+                  {e.column && ` (${e.column})`}: {e.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <div className="text-center py-12 bg-[var(--surface)] rounded-xl border border-[var(--border)]">
+          <ArrowLeftRight className="w-10 h-10 mx-auto mb-3 text-[var(--text-muted)]" />
+          <p className="text-sm text-[var(--text-secondary)]">No exchange rates yet</p>
+          <p className="text-xs text-[var(--text-muted)] mt-1">Amounts in other currencies are left out of converted totals</p>
+        </div>
+      ) : (
+        <div className="bg-[var(--surface)] rounded-xl border border-[var(--border)] divide-y divide-[var(--border)]">
+          {rates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between px-3 sm:px-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-[var(--text)]">
+                  1 {rate.fromCurrency} = {Number(rate.rate)} {rate.toCurrency}
+                </p>
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  {rate.date.substring(0, 10)}
+                  {rate.createdBy && ` · ${rate.createdBy.name}`}
+                </p>
+              </div>
+              {isAdmin && (
+                <button
+                  onClick={() => handleDelete(rate.id)}
+                  className="p-2 rounded-lg text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
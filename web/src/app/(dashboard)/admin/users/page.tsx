@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Users, UserPlus, Mail, Shield, User, MoreHorizontal, Trash2, Loader2, X, Edit2, Phone, Lock, CheckCircle, Copy } from 'lucide-react';
+import { Users, UserPlus, Mail, Shield, User, MoreHorizontal, Trash2, Loader2, X, Edit2, Phone, CheckCircle, Copy } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
 import { workspaceApi, inviteApi } from '@/lib/api';
 
@@ -53,10 +53,10 @@ export default function UsersPage() {
   
   // Add Member Modal State
   const [showAddModal, setShowAddModal] = useState(false);
-  const [addForm, setAddForm] = useState({ name: '', email: '', phone: '', role: 'CUSTOMER', password: '' });
+  const [addForm, setAddForm] = useState({ name: '', email: '', phone: '', role: 'CUSTOMER' });
   const [addError, setAddError] = useState('');
   const [addLoading, setAddLoading] = useState(false);
-  const [addSuccess, setAddSuccess] = useState<{ name: string; email: string; password: string } | null>(null);
+  const [addSuccess, setAddSuccess] = useState<{ name: string; email: string; isNewUser: boolean } | null>(null);
   
   // Edit Member Modal State
   const [editingMember, setEditingMember] = useState<Member | null>(null);
@@ -111,7 +111,6 @@ export default function UsersPage() {
         email: addForm.email.trim().toLowerCase(),
         phone: addForm.phone.trim() || undefined,
         role: addForm.role,
-        password: addForm.password || undefined,
       });
       
       console.log('Add member response:', res.data);
@@ -119,9 +118,9 @@ export default function UsersPage() {
       setAddSuccess({
         name: addForm.name,
         email: addForm.email,
-        password: addForm.password || 'Welcome123!',
+        isNewUser: res.data.isNewUser,
       });
-      setAddForm({ name: '', email: '', phone: '', role: 'CUSTOMER', password: '' });
+      setAddForm({ name: '', email: '', phone: '', role: 'CUSTOMER' });
       fetchData();
     } catch (err: any) {
       console.error('Add member error:', err.response?.data || err);
@@ -183,7 +182,7 @@ export default function UsersPage() {
 
   const closeAddModal = () => {
     setShowAddModal(false);
-    setAddForm({ name: '', email: '', phone: '', role: 'CUSTOMER', password: '' });
+    setAddForm({ name: '', email: '', phone: '', role: 'CUSTOMER' });
     setAddError('');
     setAddSuccess(null);
   };
@@ -436,11 +435,13 @@ export default function UsersPage() {
                   {addSuccess.name} has been added to the workspace.
                 </p>
                 
-                <div className="bg-[var(--surface-hover)] rounded-lg p-4 text-left mb-4">
-                  <p className="text-xs text-[var(--text-tertiary)] mb-2">Login Credentials:</p>
-                  <p className="text-sm text-[var(--text)]"><strong>Email:</strong> {addSuccess.email}</p>
-                  <p className="text-sm text-[var(--text)]"><strong>Password:</strong> {addSuccess.password}</p>
-                </div>
+                {addSuccess.isNewUser && (
+                  <div className="bg-[var(--surface-hover)] rounded-lg p-4 text-left mb-4">
+                    <p className="text-sm text-[var(--text)]">
+                      We emailed <strong>{addSuccess.email}</strong> a link to set their password. It&apos;s valid for 7 days.
+                    </p>
+                  </div>
+                )}
 
                 <button
                   onClick={closeAddModal}
@@ -507,23 +508,6 @@ export default function UsersPage() {
                   </div>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-[var(--text)] mb-1.5">
-                    Password (optional)
-                  </label>
-                  <div className="relative">
-                    <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
-                    <input
-                      type="text"
-                      value={addForm.password}
-                      onChange={(e) => setAddForm({ ...addForm, password: e.target.value })}
-                      placeholder="Leave empty for default: Welcome123!"
-                      className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm"
-                    />
-                  </div>
-                  <p className="text-[10px] text-[var(--text-muted)] mt-1">Default password: Welcome123!</p>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-[var(--text)] mb-2">
                     Role <span className="text-red-500">*</span>
@@ -17,46 +17,86 @@ import {
   DollarSign,
   Loader2,
   GripVertical,
+  Table2,
+  Columns3,
+  CalendarDays,
+  GanttChart,
+  ListFilter,
+  Zap,
+  LayoutTemplate,
+  Copy,
+  Upload,
+  Download,
 } from 'lucide-react';
-import { boardApi, groupApi, taskApi } from '@/lib/api';
+import { boardApi, columnApi, groupApi, taskApi, viewApi } from '@/lib/api';
+import { getSocket } from '@/lib/socket';
 import { useAuthStore } from '@/stores/auth';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import {
+  Board,
+  BoardFilters,
+  BoardSettings,
+  BoardViewer,
+  Column,
+  CURRENCIES,
+  Group,
+  MoneyTotals,
+  SavedView,
+  SortRule,
+  Task,
+  columnCurrency,
+  getDateSpan,
+  getFieldValue,
+  getMoney,
+} from '@/components/board/types';
+import { KanbanView } from '@/components/board/KanbanView';
+import { CalendarView } from '@/components/board/CalendarView';
+import { GanttView } from '@/components/board/GanttView';
+import { FilterPanel, isConditionComplete } from '@/components/board/FilterPanel';
+import { ViewTabs } from '@/components/board/ViewTabs';
+import { ColumnEditor } from '@/components/board/ColumnEditor';
+import { RelationCell } from '@/components/board/RelationCell';
+import { AutomationsPanel } from '@/components/board/AutomationsPanel';
+import { SaveTemplateDialog } from '@/components/board/SaveTemplateDialog';
+import { DuplicateDialog, DuplicateMode } from '@/components/board/DuplicateDialog';
+import { ImportWizard } from '@/components/board/ImportWizard';
+import { applyBoardEvent, BOARD_EVENTS, BoardEventName, PRESENCE_HEARTBEAT_MS, TASK_MATCH_EVENTS } from '@/components/board/boardEvents';
+import { EditingMarker, PresenceAvatars } from '@/components/board/BoardPresence';
 
-interface Column {
-  id: string;
-  name: string;
-  type: string;
-  width?: number;
-  settings?: any;
-  position: number;
-}
+type BoardView = 'table' | 'kanban' | 'calendar' | 'gantt';
 
-interface Task {
-  id: string;
-  name: string;
-  position: number;
-  fieldValues: { id: string; columnId: string; value: any }[];
-  assignments: { user: { id: string; name: string; avatarUrl?: string } }[];
-  _count: { comments: number; subTasks: number };
-}
+const isMoneyColumn = (board: Board | null, columnId: string) =>
+  !!board?.columns.some((c) => c.id === columnId && c.type === 'MONEY');
 
-interface Group {
-  id: string;
-  name: string;
-  color?: string;
-  collapsed: boolean;
-  position: number;
-  tasks: Task[];
-}
+// "1 EUR = 1.0832 USD (2024-03-01)" for each rate the totals used
+const describeRates = (totals: MoneyTotals) => totals.rates.map((r) => `1 ${r.from} = ${r.rate} ${r.to} (${r.date})`);
 
-interface Board {
-  id: string;
-  name: string;
-  type: string;
-  description?: string;
-  columns: Column[];
-  groups: Group[];
-  workspace: { members: { user: { id: string; name: string; avatarUrl?: string; role: string } }[] };
-}
+const BOARD_VIEWS: { id: BoardView; label: string; icon: typeof Table2 }[] = [
+  { id: 'table', label: 'Table', icon: Table2 },
+  { id: 'kanban', label: 'Kanban', icon: Columns3 },
+  { id: 'calendar', label: 'Calendar', icon: CalendarDays },
+  { id: 'gantt', label: 'Gantt', icon: GanttChart },
+];
+
+// Saved views store their type in upper case
+const toViewType = (view: BoardView) => view.toUpperCase() as SavedView['type'];
+const fromViewType = (type: SavedView['type']) => type.toLowerCase() as BoardView;
+
+const EXPORT_FORMATS: { id: 'csv' | 'xlsx' | 'pdf'; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel (.xlsx)' },
+  { id: 'pdf', label: 'PDF' },
+];
+
+const NO_FILTERS: BoardFilters = { match: 'all', conditions: [] };
+
+// Compares view settings regardless of key order, which the database doesn't preserve
+const toComparable = (value: any) =>
+  JSON.stringify(value, (_, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
 
 const STATUS_COLORS: Record<string, string> = {
   '1': '#6B7280',
@@ -73,25 +113,59 @@ export default function BoardPage() {
   const boardId = params.id as string;
 
   const [board, setBoard] = useState<Board | null>(null);
+  const [totals, setTotals] = useState<MoneyTotals | null>(null);
+  // The currency totals and exports are shown in; empty for the workspace's
+  const [currency, setCurrency] = useState('');
   const [canEdit, setCanEdit] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [view, setView] = useState<BoardView>('table');
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<BoardFilters>(NO_FILTERS);
+  const [sort, setSort] = useState<SortRule[]>([]);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [columnEditor, setColumnEditor] = useState<{ column?: Column } | null>(null);
+  const [showAutomations, setShowAutomations] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [duplicating, setDuplicating] = useState<{ kind: 'board' | 'group' | 'task'; id: string; name: string; groupId?: string } | null>(null);
   const [editingTask, setEditingTask] = useState<{ groupId: string; taskId?: string; name: string } | null>(null);
   const [editingGroup, setEditingGroup] = useState<{ id: string; name: string } | null>(null);
   const [addingTask, setAddingTask] = useState<string | null>(null);
   const [newTaskName, setNewTaskName] = useState('');
+  const [viewers, setViewers] = useState<BoardViewer[]>([]);
+  // The item whose row has focus, shared with the others viewing the board
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
+
+  // Only complete conditions reach the server, so half-edited filters don't empty the board
+  const activeFilters = { ...filters, conditions: filters.conditions.filter(isConditionComplete) };
+  const hasQuery = activeFilters.conditions.length > 0 || sort.length > 0 || searchQuery.trim() !== '';
+  const queryKey = JSON.stringify([activeFilters, sort, searchQuery.trim(), currency]);
 
   useEffect(() => {
     if (boardId) {
-      fetchBoard();
+      fetchViews();
     }
   }, [boardId]);
 
+  useEffect(() => {
+    if (!boardId) return;
+    // Debounced so typing in search doesn't refetch on every keystroke
+    const timer = setTimeout(fetchBoard, board ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [boardId, queryKey]);
+
   const fetchBoard = async () => {
     try {
       setLoading(true);
-      const res = await boardApi.getById(boardId);
+      const res = hasQuery
+        ? await boardApi.query(boardId, { filters: activeFilters, sort, search: searchQuery.trim(), currency: currency || undefined })
+        : await boardApi.getById(boardId, { currency: currency || undefined });
       setBoard(res.data.board);
+      setTotals(res.data.totals);
       setCanEdit(res.data.canEdit);
     } catch (error) {
       console.error('Failed to fetch board:', error);
@@ -100,6 +174,135 @@ export default function BoardPage() {
     }
   };
 
+  // The socket handlers outlive renders, so they read the latest fetch and query through refs
+  const fetchBoardRef = useRef<() => void>(() => {});
+  fetchBoardRef.current = fetchBoard;
+  const hasQueryRef = useRef(hasQuery);
+  hasQueryRef.current = hasQuery;
+  const activeTaskIdRef = useRef(activeTaskId);
+  activeTaskIdRef.current = activeTaskId;
+  const totalsTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (!boardId) return;
+    const socket = getSocket();
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Bursts of changes (imports, automations) collapse into one reload
+    const refetch = () => {
+      clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(() => fetchBoardRef.current(), 300);
+    };
+
+    // Rooms don't survive a reconnect, so join again each time
+    const join = () => socket.emit('join-board', boardId);
+    join();
+    socket.on('connect', join);
+
+    const handlers = BOARD_EVENTS.map((event) => {
+      const handler = (data: any) => {
+        if (data?.boardId !== boardId) return;
+        if (hasQueryRef.current && TASK_MATCH_EVENTS.includes(event)) return refetch();
+        setBoard((prev) => {
+          const next = prev && applyBoardEvent(prev, event as BoardEventName, data);
+          // Group totals are converted server-side, so a changed amount reloads them
+          if (!next || (event === 'field_updated' && isMoneyColumn(prev, data.columnId))) refetch();
+          return next || prev;
+        });
+      };
+      socket.on(event, handler);
+      return [event, handler] as const;
+    });
+
+    const onPresence = (data: { boardId: string; viewers: BoardViewer[] }) => {
+      if (data?.boardId === boardId) setViewers(data.viewers);
+    };
+    socket.on('presence_updated', onPresence);
+
+    const heartbeat = setInterval(
+      () => socket.emit('presence-heartbeat', { boardId, taskId: activeTaskIdRef.current }),
+      PRESENCE_HEARTBEAT_MS
+    );
+
+    return () => {
+      clearTimeout(refetchTimer);
+      clearInterval(heartbeat);
+      socket.emit('leave-board', boardId);
+      socket.off('connect', join);
+      socket.off('presence_updated', onPresence);
+      handlers.forEach(([event, handler]) => socket.off(event, handler));
+      setViewers([]);
+    };
+  }, [boardId]);
+
+  // Others see the editing marker move without waiting for the next heartbeat
+  useEffect(() => {
+    if (boardId) getSocket().emit('presence-heartbeat', { boardId, taskId: activeTaskId });
+  }, [boardId, activeTaskId]);
+
+  const fetchViews = async () => {
+    try {
+      const res = await viewApi.getByBoard(boardId);
+      setViews(res.data.views);
+    } catch (error) {
+      console.error('Failed to fetch views:', error);
+    }
+  };
+
+  const handleSelectView = (saved: SavedView | null) => {
+    setActiveViewId(saved?.id || null);
+    setView(saved ? fromViewType(saved.type) : 'table');
+    setFilters(saved?.filters || NO_FILTERS);
+    setSort(saved?.sort || []);
+    setHiddenColumns(saved?.hiddenColumns || []);
+  };
+
+  const handleCreateView = async (name: string, isShared: boolean) => {
+    try {
+      const res = await viewApi.create({
+        boardId,
+        name,
+        isShared,
+        type: toViewType(view),
+        filters: activeFilters,
+        sort,
+        hiddenColumns,
+      });
+      setViews((prev) => [...prev, res.data.view]);
+      setActiveViewId(res.data.view.id);
+    } catch (error: any) {
+      console.error('Failed to save view:', error);
+      alert(error.response?.data?.error || 'Failed to save view');
+    }
+  };
+
+  const handleSaveView = async () => {
+    if (!activeViewId) return;
+    try {
+      const res = await viewApi.update(activeViewId, {
+        type: toViewType(view),
+        filters: activeFilters,
+        sort,
+        hiddenColumns,
+      });
+      setViews((prev) => prev.map((v) => (v.id === activeViewId ? res.data.view : v)));
+    } catch (error: any) {
+      console.error('Failed to update view:', error);
+      alert(error.response?.data?.error || 'Failed to update view');
+    }
+  };
+
+  const handleDeleteView = async (saved: SavedView) => {
+    if (!confirm(`Delete the "${saved.name}" view?`)) return;
+    try {
+      await viewApi.delete(saved.id);
+      setViews((prev) => prev.filter((v) => v.id !== saved.id));
+      if (activeViewId === saved.id) handleSelectView(null);
+    } catch (error) {
+      console.error('Failed to delete view:', error);
+    }
+  };
+
   const handleAddGroup = async () => {
     if (!canEdit) return;
     try {
@@ -181,38 +384,143 @@ export default function BoardPage() {
     }
   };
 
+  // Errors are left to the duplicate dialog to show
+  const handleDuplicate = async (data: { mode: DuplicateMode; name?: string; groupId?: string }) => {
+    if (!duplicating) return;
+    if (duplicating.kind === 'board') {
+      const res = await boardApi.duplicate(duplicating.id, { name: data.name, mode: data.mode });
+      router.push(`/boards/${res.data.board.id}`);
+      return;
+    }
+    if (duplicating.kind === 'group') {
+      await groupApi.duplicate(duplicating.id, data.mode);
+    } else {
+      await taskApi.duplicate(duplicating.id, { mode: data.mode, groupId: data.groupId });
+    }
+    fetchBoard();
+  };
+
+  const applyFieldValue = (taskId: string, columnId: string, value: any) => {
+    setBoard((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        groups: prev.groups.map((g) => ({
+          ...g,
+          tasks: g.tasks.map((t) => {
+            if (t.id !== taskId) return t;
+            const existingIdx = t.fieldValues.findIndex((fv) => fv.columnId === columnId);
+            const newFieldValues = [...t.fieldValues];
+            if (existingIdx >= 0) {
+              newFieldValues[existingIdx] = { ...newFieldValues[existingIdx], value };
+            } else {
+              newFieldValues.push({ id: 'temp', columnId, value });
+            }
+            return { ...t, fieldValues: newFieldValues };
+          }),
+        })),
+      };
+    });
+  };
+
   const handleUpdateField = async (taskId: string, columnId: string, value: any) => {
     try {
-      await taskApi.updateField(taskId, columnId, value);
+      const res = await taskApi.updateField(taskId, columnId, value);
+      // Links change the other side and any mirrors too, so reload rather than patch locally
+      if (board?.columns.find((c) => c.id === columnId)?.type === 'RELATION') {
+        fetchBoard();
+        return;
+      }
+      // Amounts are typed a keystroke at a time, so totals reload once typing pauses
+      if (isMoneyColumn(board, columnId)) {
+        clearTimeout(totalsTimer.current);
+        totalsTimer.current = setTimeout(() => fetchBoardRef.current(), 500);
+      }
       // Optimistically update
-      setBoard((prev) => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          groups: prev.groups.map((g) => ({
-            ...g,
-            tasks: g.tasks.map((t) => {
-              if (t.id !== taskId) return t;
-              const existingIdx = t.fieldValues.findIndex((fv) => fv.columnId === columnId);
-              const newFieldValues = [...t.fieldValues];
-              if (existingIdx >= 0) {
-                newFieldValues[existingIdx] = { ...newFieldValues[existingIdx], value };
-              } else {
-                newFieldValues.push({ id: 'temp', columnId, value });
+      applyFieldValue(taskId, columnId, value);
+      // Formulas reading this column come back recalculated
+      res.data.formulas?.forEach((f: { columnId: string; value: any }) => applyFieldValue(taskId, f.columnId, f.value));
+    } catch (error: any) {
+      console.error('Failed to update field:', error);
+      if (error.response?.status === 400) {
+        alert(error.response.data.error);
+      }
+    }
+  };
+
+  const handleAddColumn = async (name: string, type: string) => {
+    try {
+      await columnApi.create({ boardId, name, type });
+      fetchBoard();
+    } catch (error) {
+      console.error('Failed to add column:', error);
+    }
+  };
+
+  // Errors are left to the column editor to show
+  const handleSaveColumn = async (data: { name: string; type: string; settings?: any }, column?: Column) => {
+    if (column) {
+      await columnApi.update(column.id, { name: data.name, ...(data.settings && { settings: data.settings }) });
+    } else {
+      await columnApi.create({ boardId, ...data });
+    }
+    fetchBoard();
+  };
+
+  const handleReorderTasks = async (groupId: string, taskIds: string[]) => {
+    // Optimistically update; the reorder route also moves listed tasks into the group
+    setBoard((prev) => {
+      if (!prev) return prev;
+      const allTasks = prev.groups.flatMap((g) => g.tasks);
+      return {
+        ...prev,
+        groups: prev.groups.map((g) =>
+          g.id === groupId
+            ? {
+                ...g,
+                tasks: taskIds
+                  .map((id) => allTasks.find((t) => t.id === id))
+                  .filter((t): t is Task => !!t)
+                  .map((t, idx) => ({ ...t, position: idx })),
               }
-              return { ...t, fieldValues: newFieldValues };
-            }),
-          })),
-        };
-      });
+            : { ...g, tasks: g.tasks.filter((t) => !taskIds.includes(t.id)) }
+        ),
+      };
+    });
+    try {
+      await taskApi.reorder(groupId, taskIds);
     } catch (error) {
-      console.error('Failed to update field:', error);
+      console.error('Failed to reorder tasks:', error);
+      fetchBoard();
+    }
+  };
+
+  // Exports apply the active saved view's filters, sort and hidden columns
+  const handleExport = async (format: 'csv' | 'xlsx' | 'pdf') => {
+    if (!board) return;
+    setShowExport(false);
+    try {
+      const res = await boardApi.export(boardId, format, activeViewId || undefined, currency || undefined);
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${board.name}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export board:', error);
     }
   };
 
-  const getFieldValue = (task: Task, columnId: string) => {
-    const fv = task.fieldValues.find((v) => v.columnId === columnId);
-    return fv?.value;
+  const handleUpdateSettings = async (data: Partial<BoardSettings>) => {
+    if (!board) return;
+    const settings = { ...board.settings, ...data };
+    setBoard({ ...board, settings });
+    try {
+      await boardApi.update(boardId, { settings });
+    } catch (error) {
+      console.error('Failed to save board settings:', error);
+    }
   };
 
   const renderCell = (task: Task, column: Column) => {
@@ -263,7 +571,39 @@ export default function BoardPage() {
           />
         );
 
-      case 'MONEY':
+      case 'MONEY': {
+        const money = getMoney(board!, column, value);
+        const moneyCurrency = money?.currency || columnCurrency(board!, column);
+        return (
+          <div className="flex items-center h-full">
+            <input
+              type="number"
+              value={money?.amount ?? ''}
+              onChange={(e) =>
+                handleUpdateField(
+                  task.id,
+                  column.id,
+                  e.target.value ? { amount: parseFloat(e.target.value), currency: moneyCurrency } : null
+                )
+              }
+              disabled={!canEdit}
+              placeholder="0"
+              className="min-w-0 flex-1 h-full px-2 bg-transparent border-0 text-xs text-right focus:outline-none"
+            />
+            <select
+              value={moneyCurrency}
+              onChange={(e) => money && handleUpdateField(task.id, column.id, { ...money, currency: e.target.value })}
+              disabled={!canEdit || !money}
+              className="h-full pr-1 bg-transparent border-0 text-[10px] text-[var(--text-muted)] cursor-pointer focus:outline-none"
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </div>
+        );
+      }
+
       case 'NUMBER':
         return (
           <input
@@ -276,6 +616,97 @@ export default function BoardPage() {
           />
         );
 
+      case 'TIMELINE': {
+        const span = getDateSpan(column, value);
+        const updateSpan = (start: string, end: string) =>
+          handleUpdateField(task.id, column.id, start ? { start, end: end && end >= start ? end : start } : null);
+        return (
+          <div className="flex items-center h-full px-1 gap-0.5">
+            <input
+              type="date"
+              value={span?.start || ''}
+              onChange={(e) => updateSpan(e.target.value, span?.end || '')}
+              disabled={!canEdit}
+              className="min-w-0 flex-1 bg-transparent border-0 text-[10px] focus:outline-none"
+            />
+            <span className="text-[var(--text-muted)] text-[10px]">–</span>
+            <input
+              type="date"
+              value={span?.end || ''}
+              min={span?.start}
+              onChange={(e) => span && updateSpan(span.start, e.target.value)}
+              disabled={!canEdit || !span}
+              className="min-w-0 flex-1 bg-transparent border-0 text-[10px] focus:outline-none"
+            />
+          </div>
+        );
+      }
+
+      case 'DEPENDENCY': {
+        const predecessorIds: string[] = Array.isArray(value) ? value : [];
+        const boardTasks = board!.groups.flatMap((g) => g.tasks);
+        const predecessors = boardTasks.filter((t) => predecessorIds.includes(t.id));
+        return (
+          <div className="flex items-center h-full px-1 gap-1 overflow-hidden">
+            {predecessors.map((p) => (
+              <span
+                key={p.id}
+                className="flex items-center gap-0.5 max-w-[6rem] px-1.5 py-0.5 rounded bg-[var(--surface-hover)] text-[10px] text-[var(--text-secondary)]"
+              >
+                <span className="truncate">{p.name}</span>
+                {canEdit && (
+                  <button
+                    onClick={() => handleUpdateField(task.id, column.id, predecessorIds.filter((id) => id !== p.id))}
+                    className="text-[var(--text-muted)] hover:text-[var(--error)]"
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </span>
+            ))}
+            {canEdit && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleUpdateField(task.id, column.id, [...predecessorIds, e.target.value])}
+                className="min-w-0 flex-1 bg-transparent border-0 text-[10px] text-[var(--text-muted)] cursor-pointer focus:outline-none"
+              >
+                <option value="">+ Add</option>
+                {boardTasks
+                  .filter((t) => t.id !== task.id && !predecessorIds.includes(t.id))
+                  .map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+              </select>
+            )}
+          </div>
+        );
+      }
+
+      case 'RELATION':
+        return (
+          <RelationCell
+            column={column}
+            value={value}
+            canEdit={canEdit}
+            onChange={(ids) => handleUpdateField(task.id, column.id, ids)}
+          />
+        );
+
+      case 'MIRROR': {
+        // Read from linked tasks server-side
+        const numeric = typeof value === 'number';
+        return (
+          <div
+            className={cn(
+              'flex items-center h-full px-2 text-xs text-[var(--text-secondary)] truncate',
+              numeric && 'justify-end'
+            )}
+          >
+            {value === null || value === undefined ? '' : numeric ? value.toLocaleString() : String(value)}
+          </div>
+        );
+      }
+
       case 'CHECKBOX':
         return (
           <div className="flex items-center justify-center h-full">
@@ -289,6 +720,38 @@ export default function BoardPage() {
           </div>
         );
 
+      case 'FORMULA': {
+        // Calculated server-side; errors come back as { error } so they can be explained
+        if (value && typeof value === 'object') {
+          return (
+            <div title={value.error} className="flex items-center h-full px-2 text-xs text-[var(--error)] cursor-help">
+              #ERROR
+            </div>
+          );
+        }
+        const resultType = column.settings?.resultType;
+        const display =
+          value === null || value === undefined
+            ? ''
+            : resultType === 'number'
+              ? Number(value).toLocaleString()
+              : resultType === 'date'
+                ? formatDate(value)
+                : resultType === 'boolean'
+                  ? (value ? '✓' : '✗')
+                  : String(value);
+        return (
+          <div
+            className={cn(
+              'flex items-center h-full px-2 text-xs text-[var(--text-secondary)] truncate',
+              resultType === 'number' && 'justify-end'
+            )}
+          >
+            {display}
+          </div>
+        );
+      }
+
       default:
         return (
           <input
@@ -303,7 +766,7 @@ export default function BoardPage() {
     }
   };
 
-  if (loading) {
+  if (loading && !board) {
     return (
       <div className="flex items-center justify-center h-screen">
         <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
@@ -319,12 +782,13 @@ export default function BoardPage() {
     );
   }
 
-  const filteredGroups = board.groups.map((g) => ({
-    ...g,
-    tasks: g.tasks.filter((t) =>
-      searchQuery === '' || t.name.toLowerCase().includes(searchQuery.toLowerCase())
-    ),
-  }));
+  const visibleColumns = board.columns.filter((c) => !hiddenColumns.includes(c.id));
+  const otherViewers = viewers.filter((v) => v.id !== user?.id);
+  const activeView = views.find((v) => v.id === activeViewId);
+  const hasViewChanges =
+    !!activeView &&
+    toComparable([toViewType(view), activeFilters, sort, hiddenColumns]) !==
+      toComparable([activeView.type, activeView.filters || NO_FILTERS, activeView.sort || [], activeView.hiddenColumns]);
 
   return (
     <div className="h-[calc(100vh-3.5rem)] lg:h-screen flex flex-col bg-[var(--background)]">
@@ -347,6 +811,131 @@ export default function BoardPage() {
           </div>
 
           <div className="flex items-center gap-2 sm:gap-3">
+            <PresenceAvatars viewers={otherViewers} />
+
+            <div className="flex items-center p-0.5 rounded-lg border border-[var(--border)] bg-[var(--background)]">
+              {BOARD_VIEWS.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  title={v.label}
+                  className={cn(
+                    'flex items-center gap-1.5 h-7 px-2 rounded-md text-xs font-medium transition-colors',
+                    view === v.id
+                      ? 'bg-[var(--surface)] text-[var(--text)] shadow-sm'
+                      : 'text-[var(--text-tertiary)] hover:text-[var(--text)]'
+                  )}
+                >
+                  <v.icon size={14} />
+                  <span className="hidden sm:inline">{v.label}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="relative">
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                title="Filter & sort"
+                className={cn(
+                  'flex items-center gap-1.5 h-8 px-2 rounded-lg border text-xs font-medium transition-colors',
+                  activeFilters.conditions.length > 0 || sort.length > 0
+                    ? 'border-[var(--primary)] text-[var(--primary)]'
+                    : 'border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--surface-hover)]'
+                )}
+              >
+                <ListFilter size={14} />
+                <span className="hidden sm:inline">Filter</span>
+                {activeFilters.conditions.length > 0 && <span>{activeFilters.conditions.length}</span>}
+              </button>
+              {showFilters && (
+                <FilterPanel
+                  board={board}
+                  filters={filters}
+                  sort={sort}
+                  hiddenColumns={hiddenColumns}
+                  onChangeFilters={setFilters}
+                  onChangeSort={setSort}
+                  onChangeHiddenColumns={setHiddenColumns}
+                  onClose={() => setShowFilters(false)}
+                />
+              )}
+            </div>
+
+            <button
+              onClick={() => setShowAutomations(true)}
+              title="Automations"
+              className="flex items-center gap-1.5 h-8 px-2 rounded-lg border border-[var(--border)] text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--surface-hover)] transition-colors"
+            >
+              <Zap size={14} />
+              <span className="hidden sm:inline">Automate</span>
+            </button>
+
+            {board.columns.some((c) => c.type === 'MONEY') && (
+              <select
+                value={currency || board.workspace.defaultCurrency}
+                onChange={(e) => setCurrency(e.target.value === board.workspace.defaultCurrency ? '' : e.target.value)}
+                title="Show totals and exports in"
+                className="h-8 px-2 rounded-lg border border-[var(--border)] bg-[var(--background)] text-xs font-medium text-[var(--text-secondary)] focus:outline-none"
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            )}
+
+            <div className="relative">
+              <button
+                onClick={() => setShowExport(!showExport)}
+                title="Export"
+                className="flex items-center justify-center w-8 h-8 rounded-lg border border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--surface-hover)] transition-colors"
+              >
+                <Download size={14} />
+              </button>
+              {showExport && (
+                <div className="absolute right-0 top-full mt-1 z-30 w-40 rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg py-1">
+                  {EXPORT_FORMATS.map((f) => (
+                    <button
+                      key={f.id}
+                      onClick={() => handleExport(f.id)}
+                      className="w-full px-3 py-1.5 text-left text-xs text-[var(--text)] hover:bg-[var(--surface-hover)]"
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {canEdit && (
+              <button
+                onClick={() => setShowImport(true)}
+                title="Import from CSV or Excel"
+                className="flex items-center justify-center w-8 h-8 rounded-lg border border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--surface-hover)] transition-colors"
+              >
+                <Upload size={14} />
+              </button>
+            )}
+
+            {user?.role !== 'CUSTOMER' && (
+              <button
+                onClick={() => setDuplicating({ kind: 'board', id: board.id, name: board.name })}
+                title="Duplicate board"
+                className="flex items-center justify-center w-8 h-8 rounded-lg border border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--surface-hover)] transition-colors"
+              >
+                <Copy size={14} />
+              </button>
+            )}
+
+            {user?.role === 'OWNER_ADMIN' && (
+              <button
+                onClick={() => setShowSaveTemplate(true)}
+                title="Save as template"
+                className="flex items-center justify-center w-8 h-8 rounded-lg border border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--surface-hover)] transition-colors"
+              >
+                <LayoutTemplate size={14} />
+              </button>
+            )}
+
             <div className="relative hidden sm:block">
               <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
               <input
@@ -360,6 +949,19 @@ export default function BoardPage() {
           </div>
         </div>
         
+        {/* Saved views */}
+        <ViewTabs
+          views={views}
+          activeViewId={activeViewId}
+          userId={user?.id}
+          canEdit={canEdit}
+          hasChanges={hasViewChanges}
+          onSelect={handleSelectView}
+          onSave={handleSaveView}
+          onCreate={handleCreateView}
+          onDelete={handleDeleteView}
+        />
+
         {/* Mobile Search */}
         <div className="sm:hidden px-3 pb-2">
           <div className="relative">
@@ -376,202 +978,343 @@ export default function BoardPage() {
       </div>
 
       {/* Board Content */}
-      <div className="flex-1 overflow-auto p-2 sm:p-4">
-        {filteredGroups.map((group) => (
-          <div key={group.id} className="mb-4 sm:mb-6">
-            {/* Group Header */}
-            <div className="flex items-center gap-2 mb-2 px-1">
-              <button
-                onClick={() => handleToggleCollapse(group)}
-                className="p-1 rounded hover:bg-[var(--surface-hover)]"
-              >
-                {group.collapsed ? (
-                  <ChevronRight size={16} className="text-[var(--text-tertiary)]" />
-                ) : (
-                  <ChevronDown size={16} className="text-[var(--text-tertiary)]" />
-                )}
-              </button>
-
-              <div
-                className="w-2 h-2 rounded-full flex-shrink-0"
-                style={{ backgroundColor: group.color || 'var(--primary)' }}
-              />
-
-              {editingGroup?.id === group.id ? (
-                <input
-                  type="text"
-                  value={editingGroup.name}
-                  onChange={(e) => setEditingGroup({ ...editingGroup, name: e.target.value })}
-                  onBlur={() => handleUpdateGroup(group.id, { name: editingGroup.name })}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') handleUpdateGroup(group.id, { name: editingGroup.name });
-                    if (e.key === 'Escape') setEditingGroup(null);
-                  }}
-                  autoFocus
-                  className="px-2 py-1 text-sm font-medium bg-transparent border border-[var(--primary)] rounded focus:outline-none"
-                />
-              ) : (
+      {view === 'kanban' ? (
+        <div className="flex-1 overflow-hidden p-2 sm:p-4">
+          <KanbanView
+            board={board}
+            groups={board.groups}
+            canEdit={canEdit}
+            onUpdateField={handleUpdateField}
+            onReorder={handleReorderTasks}
+            onChangeLaneColumn={(columnId) => handleUpdateSettings({ kanbanColumnId: columnId })}
+          />
+        </div>
+      ) : view === 'calendar' ? (
+        <div className="flex-1 overflow-hidden p-2 sm:p-4">
+          <CalendarView
+            board={board}
+            canEdit={canEdit}
+            searchQuery={searchQuery}
+            onUpdateField={handleUpdateField}
+            onChangeCalendarColumn={(columnId) => handleUpdateSettings({ calendarColumnId: columnId })}
+          />
+        </div>
+      ) : view === 'gantt' ? (
+        <div className="flex-1 overflow-hidden p-2 sm:p-4">
+          <GanttView
+            board={board}
+            canEdit={canEdit}
+            searchQuery={searchQuery}
+            onFieldValueChanged={applyFieldValue}
+            onChangeGanttColumn={(columnId) => handleUpdateSettings({ ganttColumnId: columnId })}
+            onAddColumn={handleAddColumn}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-2 sm:p-4">
+          {board.groups.map((group) => (
+            <div key={group.id} className="mb-4 sm:mb-6">
+              {/* Group Header */}
+              <div className="flex items-center gap-2 mb-2 px-1">
                 <button
-                  onClick={() => canEdit && setEditingGroup({ id: group.id, name: group.name })}
-                  className="text-sm font-medium text-[var(--text)] hover:text-[var(--primary)] truncate"
+                  onClick={() => handleToggleCollapse(group)}
+                  className="p-1 rounded hover:bg-[var(--surface-hover)]"
                 >
-                  {group.name}
+                  {group.collapsed ? (
+                    <ChevronRight size={16} className="text-[var(--text-tertiary)]" />
+                  ) : (
+                    <ChevronDown size={16} className="text-[var(--text-tertiary)]" />
+                  )}
                 </button>
-              )}
 
-              <span className="text-xs text-[var(--text-muted)] flex-shrink-0">
-                {group.tasks.length} items
-              </span>
+                <div
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: group.color || 'var(--primary)' }}
+                />
 
-              {canEdit && (
-                <button
-                  onClick={() => handleDeleteGroup(group.id)}
-                  className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)] ml-auto flex-shrink-0"
-                >
-                  <Trash2 size={14} />
-                </button>
-              )}
-            </div>
+                {editingGroup?.id === group.id ? (
+                  <input
+                    type="text"
+                    value={editingGroup.name}
+                    onChange={(e) => setEditingGroup({ ...editingGroup, name: e.target.value })}
+                    onBlur={() => handleUpdateGroup(group.id, { name: editingGroup.name })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleUpdateGroup(group.id, { name: editingGroup.name });
+                      if (e.key === 'Escape') setEditingGroup(null);
+                    }}
+                    autoFocus
+                    className="px-2 py-1 text-sm font-medium bg-transparent border border-[var(--primary)] rounded focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => canEdit && setEditingGroup({ id: group.id, name: group.name })}
+                    className="text-sm font-medium text-[var(--text)] hover:text-[var(--primary)] truncate"
+                  >
+                    {group.name}
+                  </button>
+                )}
 
-            {/* Table */}
-            {!group.collapsed && (
-              <div className="border border-[var(--border)] rounded-lg overflow-hidden bg-[var(--surface)]">
-                <div className="overflow-x-auto">
-                  {/* Header Row */}
-                  <div className="flex items-center border-b border-[var(--border)] bg-[var(--surface-hover)] min-w-max">
-                    <div className="w-6 sm:w-8 flex-shrink-0" />
-                    <div className="w-[140px] sm:w-[200px] flex-shrink-0 px-2 sm:px-3 py-2 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)]">
-                      Item
-                    </div>
-                    {board.columns.map((col) => (
-                      <div
-                        key={col.id}
-                        style={{ width: Math.max(100, (col.width || 150) * 0.8) }}
-                        className="flex-shrink-0 px-2 py-2 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)] border-l border-[var(--border)] sm:w-auto"
-                      >
-                        {col.name}
-                      </div>
-                    ))}
-                    <div className="w-8 sm:w-10 flex-shrink-0" />
-                  </div>
+                <span className="text-xs text-[var(--text-muted)] flex-shrink-0">
+                  {group.tasks.length} items
+                </span>
 
-                  {/* Task Rows */}
-                  {group.tasks.map((task) => (
-                    <div
-                      key={task.id}
-                      className="flex items-center border-b border-[var(--border)] last:border-b-0 hover:bg-[var(--surface-hover)] group min-w-max"
+                {canEdit && (
+                  <div className="flex items-center gap-0.5 ml-auto flex-shrink-0">
+                    <button
+                      onClick={() => setDuplicating({ kind: 'group', id: group.id, name: group.name })}
+                      title="Duplicate group"
+                      className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text)] hover:bg-[var(--surface-hover)]"
                     >
-                      <div className="w-6 sm:w-8 flex-shrink-0 flex items-center justify-center opacity-0 group-hover:opacity-100">
-                        <GripVertical size={12} className="text-[var(--text-muted)] sm:w-3.5 sm:h-3.5" />
-                      </div>
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteGroup(group.id)}
+                      className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
 
-                      {/* Task Name */}
-                      <div className="w-[140px] sm:w-[200px] flex-shrink-0 px-2 sm:px-3 py-2">
-                        {editingTask?.taskId === task.id ? (
-                          <input
-                            type="text"
-                            value={editingTask.name}
-                            onChange={(e) => setEditingTask({ ...editingTask, name: e.target.value })}
-                            onBlur={() => handleUpdateTask(task.id, { name: editingTask.name })}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') handleUpdateTask(task.id, { name: editingTask.name });
-                              if (e.key === 'Escape') setEditingTask(null);
-                            }}
-                            autoFocus
-                            className="w-full px-2 py-1 text-xs sm:text-sm bg-transparent border border-[var(--primary)] rounded focus:outline-none"
-                          />
-                        ) : (
-                          <button
-                            onClick={() => canEdit && setEditingTask({ groupId: group.id, taskId: task.id, name: task.name })}
-                            className="text-xs sm:text-sm text-[var(--text)] hover:text-[var(--primary)] text-left truncate w-full"
-                          >
-                            {task.name}
-                          </button>
-                        )}
+              {/* Table */}
+              {!group.collapsed && (
+                <div className="border border-[var(--border)] rounded-lg overflow-hidden bg-[var(--surface)]">
+                  <div className="overflow-x-auto">
+                    {/* Header Row */}
+                    <div className="flex items-center border-b border-[var(--border)] bg-[var(--surface-hover)] min-w-max">
+                      <div className="w-6 sm:w-8 flex-shrink-0" />
+                      <div className="w-[140px] sm:w-[200px] flex-shrink-0 px-2 sm:px-3 py-2 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)]">
+                        Item
                       </div>
-
-                      {/* Field Cells */}
-                      {board.columns.map((col) => (
+                      {visibleColumns.map((col) => (
                         <div
                           key={col.id}
                           style={{ width: Math.max(100, (col.width || 150) * 0.8) }}
-                          className="flex-shrink-0 h-8 sm:h-9 border-l border-[var(--border)]"
+                          className="flex-shrink-0 px-2 py-2 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)] border-l border-[var(--border)] sm:w-auto"
                         >
-                          {renderCell(task, col)}
+                          {canEdit ? (
+                            <button
+                              onClick={() => setColumnEditor({ column: col })}
+                              title={col.type === 'FORMULA' ? col.settings?.expression : undefined}
+                              className="truncate w-full text-left hover:text-[var(--text)]"
+                            >
+                              {col.name}
+                            </button>
+                          ) : (
+                            col.name
+                          )}
                         </div>
                       ))}
-
-                      {/* Actions */}
-                      <div className="w-8 sm:w-10 flex-shrink-0 flex items-center justify-center opacity-0 group-hover:opacity-100">
+                      <div className="w-14 sm:w-16 flex-shrink-0 flex items-center justify-center">
                         {canEdit && (
                           <button
-                            onClick={() => handleDeleteTask(task.id)}
-                            className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                            onClick={() => setColumnEditor({})}
+                            title="Add column"
+                            className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text)] hover:bg-[var(--surface)]"
                           >
-                            <Trash2 size={12} className="sm:w-3.5 sm:h-3.5" />
+                            <Plus size={12} className="sm:w-3.5 sm:h-3.5" />
                           </button>
                         )}
                       </div>
                     </div>
-                  ))}
 
-                  {/* Add Task Row */}
-                  {canEdit && (
-                    <div className="flex items-center min-w-max">
-                      <div className="w-6 sm:w-8 flex-shrink-0" />
-                      {addingTask === group.id ? (
-                        <div className="flex-1 px-2 sm:px-3 py-2 flex items-center gap-2">
-                          <input
-                            type="text"
-                            value={newTaskName}
-                            onChange={(e) => setNewTaskName(e.target.value)}
-                            onBlur={() => handleAddTask(group.id)}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') handleAddTask(group.id);
-                              if (e.key === 'Escape') {
-                                setNewTaskName('');
-                                setAddingTask(null);
-                              }
-                            }}
-                            placeholder="Enter item name..."
-                            autoFocus
-                            className="flex-1 min-w-[120px] px-2 py-1 text-xs sm:text-sm bg-transparent border border-[var(--primary)] rounded focus:outline-none"
-                          />
+                    {/* Task Rows */}
+                    {group.tasks.map((task) => (
+                      <div
+                        key={task.id}
+                        onFocus={() => setActiveTaskId(task.id)}
+                        onBlur={(e) => !e.currentTarget.contains(e.relatedTarget) && setActiveTaskId(null)}
+                        className="flex items-center border-b border-[var(--border)] last:border-b-0 hover:bg-[var(--surface-hover)] group min-w-max"
+                      >
+                        <div className="w-6 sm:w-8 flex-shrink-0 flex items-center justify-center opacity-0 group-hover:opacity-100">
+                          <GripVertical size={12} className="text-[var(--text-muted)] sm:w-3.5 sm:h-3.5" />
+                        </div>
+
+                        {/* Task Name */}
+                        <div className="w-[140px] sm:w-[200px] flex-shrink-0 px-2 sm:px-3 py-2">
+                          {editingTask?.taskId === task.id ? (
+                            <input
+                              type="text"
+                              value={editingTask.name}
+                              onChange={(e) => setEditingTask({ ...editingTask, name: e.target.value })}
+                              onBlur={() => handleUpdateTask(task.id, { name: editingTask.name })}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleUpdateTask(task.id, { name: editingTask.name });
+                                if (e.key === 'Escape') setEditingTask(null);
+                              }}
+                              autoFocus
+                              className="w-full px-2 py-1 text-xs sm:text-sm bg-transparent border border-[var(--primary)] rounded focus:outline-none"
+                            />
+                          ) : (
+                            <div className="flex items-center gap-1.5 min-w-0">
+                              <button
+                                onClick={() => canEdit && setEditingTask({ groupId: group.id, taskId: task.id, name: task.name })}
+                                className="text-xs sm:text-sm text-[var(--text)] hover:text-[var(--primary)] text-left truncate w-full"
+                              >
+                                {task.name}
+                              </button>
+                              <EditingMarker editors={otherViewers.filter((v) => v.taskId === task.id)} />
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Field Cells */}
+                        {visibleColumns.map((col) => (
+                          <div
+                            key={col.id}
+                            style={{ width: Math.max(100, (col.width || 150) * 0.8) }}
+                            className="flex-shrink-0 h-8 sm:h-9 border-l border-[var(--border)]"
+                          >
+                            {renderCell(task, col)}
+                          </div>
+                        ))}
+
+                        {/* Actions */}
+                        <div className="w-14 sm:w-16 flex-shrink-0 flex items-center justify-center gap-0.5 opacity-0 group-hover:opacity-100">
                           <button
-                            onClick={() => { setNewTaskName(''); setAddingTask(null); }}
-                            className="p-1 rounded text-[var(--text-muted)] hover:bg-[var(--surface-hover)]"
+                            onClick={() => setDuplicating({ kind: 'task', id: task.id, name: task.name, groupId: group.id })}
+                            title="Duplicate item"
+                            className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--text)] hover:bg-[var(--surface-hover)]"
                           >
-                            <X size={14} />
+                            <Copy size={12} className="sm:w-3.5 sm:h-3.5" />
                           </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => handleDeleteTask(task.id)}
+                              className="p-1 rounded text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                            >
+                              <Trash2 size={12} className="sm:w-3.5 sm:h-3.5" />
+                            </button>
+                          )}
                         </div>
-                      ) : (
-                        <button
-                          onClick={() => setAddingTask(group.id)}
-                          className="flex-1 px-2 sm:px-3 py-2 text-xs sm:text-sm text-[var(--text-muted)] hover:text-[var(--text)] text-left flex items-center gap-2"
-                        >
-                          <Plus size={14} />
-                          Add item
-                        </button>
-                      )}
-                    </div>
-                  )}
+                      </div>
+                    ))}
+
+                    {/* Totals Row */}
+                    {totals?.groups[group.id] && group.tasks.length > 0 && visibleColumns.some((c) => c.type === 'MONEY') && (
+                      <div className="flex items-center border-t border-[var(--border)] bg-[var(--surface-hover)] min-w-max">
+                        <div className="w-6 sm:w-8 flex-shrink-0" />
+                        <div className="w-[140px] sm:w-[200px] flex-shrink-0 px-2 sm:px-3 py-2 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)]">
+                          Total
+                        </div>
+                        {visibleColumns.map((col) => {
+                          const total = totals.groups[group.id][col.id];
+                          return (
+                            <div
+                              key={col.id}
+                              style={{ width: Math.max(100, (col.width || 150) * 0.8) }}
+                              title={total === null ? `No exchange rate to ${totals.currency} for some amounts` : undefined}
+                              className="flex-shrink-0 px-2 py-2 text-xs font-medium text-right text-[var(--text)] border-l border-[var(--border)]"
+                            >
+                              {col.type !== 'MONEY' ? '' : total === null ? '—' : formatCurrency(total, totals.currency)}
+                            </div>
+                          );
+                        })}
+                        <div className="w-14 sm:w-16 flex-shrink-0" />
+                      </div>
+                    )}
+
+                    {/* Add Task Row */}
+                    {canEdit && (
+                      <div className="flex items-center min-w-max">
+                        <div className="w-6 sm:w-8 flex-shrink-0" />
+                        {addingTask === group.id ? (
+                          <div className="flex-1 px-2 sm:px-3 py-2 flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={newTaskName}
+                              onChange={(e) => setNewTaskName(e.target.value)}
+                              onBlur={() => handleAddTask(group.id)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleAddTask(group.id);
+                                if (e.key === 'Escape') {
+                                  setNewTaskName('');
+                                  setAddingTask(null);
+                                }
+                              }}
+                              placeholder="Enter item name..."
+                              autoFocus
+                              className="flex-1 min-w-[120px] px-2 py-1 text-xs sm:text-sm bg-transparent border border-[var(--primary)] rounded focus:outline-none"
+                            />
+                            <button
+                              onClick={() => { setNewTaskName(''); setAddingTask(null); }}
+                              className="p-1 rounded text-[var(--text-muted)] hover:bg-[var(--surface-hover)]"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setAddingTask(group.id)}
+                            className="flex-1 px-2 sm:px-3 py-2 text-xs sm:text-sm text-[var(--text-muted)] hover:text-[var(--text)] text-left flex items-center gap-2"
+                          >
+                            <Plus size={14} />
+                            Add item
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          ))}
 
-        {/* Add Group */}
-        {canEdit && (
-          <button
-            onClick={handleAddGroup}
-            className="flex items-center gap-2 px-4 py-2 text-sm text-[var(--primary)] hover:bg-[var(--surface)] rounded-lg"
-          >
-            <Plus size={16} />
-            Add new group
-          </button>
-        )}
-      </div>
+          {/* Which rates the totals were converted at */}
+          {totals && (totals.rates.length > 0 || totals.missing.length > 0) && (
+            <p className="mb-3 px-1 text-[10px] text-[var(--text-muted)]">
+              Totals in {totals.currency}
+              {totals.rates.length > 0 && ` at ${describeRates(totals).join(', ')}`}
+              {totals.missing.length > 0 && `. No rate for ${totals.missing.join(', ')}`}
+            </p>
+          )}
+
+          {/* Add Group */}
+          {canEdit && (
+            <button
+              onClick={handleAddGroup}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-[var(--primary)] hover:bg-[var(--surface)] rounded-lg"
+            >
+              <Plus size={16} />
+              Add new group
+            </button>
+          )}
+        </div>
+      )}
+
+      {columnEditor && (
+        <ColumnEditor
+          board={board}
+          column={columnEditor.column}
+          onSave={(data) => handleSaveColumn(data, columnEditor.column)}
+          onClose={() => setColumnEditor(null)}
+        />
+      )}
+
+      {showAutomations && (
+        <AutomationsPanel
+          board={board}
+          canManage={canEdit && user?.role !== 'CUSTOMER'}
+          isAdmin={user?.role === 'OWNER_ADMIN'}
+          onClose={() => setShowAutomations(false)}
+        />
+      )}
+
+      {showSaveTemplate && <SaveTemplateDialog board={board} onClose={() => setShowSaveTemplate(false)} />}
+
+      {showImport && <ImportWizard board={board} onImported={fetchBoard} onClose={() => setShowImport(false)} />}
+
+      {duplicating && (
+        <DuplicateDialog
+          kind={duplicating.kind}
+          name={duplicating.name}
+          board={board}
+          groupId={duplicating.groupId}
+          onDuplicate={handleDuplicate}
+          onClose={() => setDuplicating(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { ArrowLeft, LayoutGrid, Building2, FolderKanban, Users, Loader2 } from 'lucide-react';
+import { ArrowLeft, LayoutGrid, Building2, FolderKanban, Users, Loader2, LayoutTemplate, Trash2 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
 import { boardApi } from '@/lib/api';
 
@@ -37,15 +37,28 @@ const BOARD_TYPES = [
   },
 ];
 
+// A board saved as a template in this workspace
+interface WorkspaceTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  columns: { name: string; type: string }[];
+  groups: { id: string; name: string }[];
+  taskCount: number;
+}
+
 export default function NewBoardPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { currentWorkspace } = useAuthStore();
+  const { user, currentWorkspace } = useAuthStore();
+  const isAdmin = user?.role === 'OWNER_ADMIN';
 
   const preselectedType = searchParams.get('type');
 
   const [step, setStep] = useState(preselectedType ? 2 : 1);
   const [selectedType, setSelectedType] = useState(preselectedType || 'GENERAL');
+  const [templates, setTemplates] = useState<WorkspaceTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<WorkspaceTemplate | null>(null);
   const [form, setForm] = useState({
     name: '',
     description: '',
@@ -54,11 +67,42 @@ export default function NewBoardPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    if (currentWorkspace) {
+      fetchTemplates();
+    }
+  }, [currentWorkspace]);
+
+  const fetchTemplates = async () => {
+    try {
+      const res = await boardApi.getTemplates(currentWorkspace!.id);
+      setTemplates(res.data.templates || []);
+    } catch (error) {
+      console.error('Failed to fetch templates:', error);
+    }
+  };
+
   const handleSelectType = (typeId: string) => {
     setSelectedType(typeId);
+    setSelectedTemplate(null);
+    setStep(2);
+  };
+
+  const handleSelectTemplate = (template: WorkspaceTemplate) => {
+    setSelectedTemplate(template);
     setStep(2);
   };
 
+  const handleDeleteTemplate = async (template: WorkspaceTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await boardApi.delete(template.id);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+    }
+  };
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.name.trim() || !currentWorkspace) return;
@@ -70,7 +114,7 @@ export default function NewBoardPage() {
       const res = await boardApi.create({
         workspaceId: currentWorkspace.id,
         name: form.name.trim(),
-        type: selectedType,
+        ...(selectedTemplate ? { templateId: selectedTemplate.id } : { type: selectedType }),
         description: form.description || undefined,
         isPublic: form.isPublic,
       });
@@ -82,7 +126,14 @@ export default function NewBoardPage() {
     }
   };
 
-  const selectedTypeData = BOARD_TYPES.find((t) => t.id === selectedType);
+  const selectedTypeData = selectedTemplate
+    ? {
+        name: selectedTemplate.name,
+        description: selectedTemplate.description || `${selectedTemplate.columns.length} columns, ${selectedTemplate.groups.length} groups`,
+        icon: LayoutTemplate,
+        color: 'bg-amber-500',
+      }
+    : BOARD_TYPES.find((t) => t.id === selectedType);
 
   return (
     <div className="min-h-screen bg-[var(--background)] p-6 lg:p-8">
@@ -102,29 +153,72 @@ export default function NewBoardPage() {
             <p className="text-sm text-[var(--text-tertiary)] mt-0.5">
               {step === 1
                 ? 'Select a template that fits your needs'
-                : `Creating a ${selectedTypeData?.name.toLowerCase()}`}
+                : selectedTemplate
+                  ? `Creating a board from ${selectedTemplate.name}`
+                  : `Creating a ${selectedTypeData?.name.toLowerCase()}`}
             </p>
           </div>
         </div>
 
         {step === 1 ? (
           /* Type Selection */
-          <div className="grid gap-4 md:grid-cols-2">
-            {BOARD_TYPES.map((type) => (
-              <button
-                key={type.id}
-                onClick={() => handleSelectType(type.id)}
-                className="bg-[var(--surface)] rounded-xl border border-[var(--border)] p-5 text-left hover:border-[var(--primary)] transition-colors group"
-              >
-                <div className={`w-12 h-12 rounded-xl ${type.color} flex items-center justify-center mb-4`}>
-                  <type.icon size={24} className="text-white" />
+          <div className="space-y-8">
+            <div className="grid gap-4 md:grid-cols-2">
+              {BOARD_TYPES.map((type) => (
+                <button
+                  key={type.id}
+                  onClick={() => handleSelectType(type.id)}
+                  className="bg-[var(--surface)] rounded-xl border border-[var(--border)] p-5 text-left hover:border-[var(--primary)] transition-colors group"
+                >
+                  <div className={`w-12 h-12 rounded-xl ${type.color} flex items-center justify-center mb-4`}>
+                    <type.icon size={24} className="text-white" />
+                  </div>
+                  <h3 className="font-medium text-[var(--text)] mb-1 group-hover:text-[var(--primary)]">
+                    {type.name}
+                  </h3>
+                  <p className="text-sm text-[var(--text-tertiary)]">{type.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {templates.length > 0 && (
+              <div>
+                <h2 className="text-sm font-medium text-[var(--text)] mb-3">Workspace templates</h2>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {templates.map((template) => (
+                    <div
+                      key={template.id}
+                      onClick={() => handleSelectTemplate(template)}
+                      className="relative bg-[var(--surface)] rounded-xl border border-[var(--border)] p-5 text-left hover:border-[var(--primary)] transition-colors group cursor-pointer"
+                    >
+                      {isAdmin && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteTemplate(template);
+                          }}
+                          title="Delete template"
+                          className="absolute top-3 right-3 p-1.5 rounded-lg text-[var(--text-muted)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                      <div className="w-12 h-12 rounded-xl bg-amber-500 flex items-center justify-center mb-4">
+                        <LayoutTemplate size={24} className="text-white" />
+                      </div>
+                      <h3 className="font-medium text-[var(--text)] mb-1 group-hover:text-[var(--primary)]">
+                        {template.name}
+                      </h3>
+                      <p className="text-sm text-[var(--text-tertiary)]">
+                        {template.description ||
+                          `${template.columns.length} columns, ${template.groups.length} groups` +
+                            (template.taskCount ? `, ${template.taskCount} sample items` : '')}
+                      </p>
+                    </div>
+                  ))}
                 </div>
-                <h3 className="font-medium text-[var(--text)] mb-1 group-hover:text-[var(--primary)]">
-                  {type.name}
-                </h3>
-                <p className="text-sm text-[var(--text-tertiary)]">{type.description}</p>
-              </button>
-            ))}
+              </div>
+            )}
           </div>
         ) : (
           /* Board Details Form */
@@ -20,8 +20,12 @@ import {
   Loader2,
   Menu,
   X,
+  ArrowLeftRight,
+  Mail,
+  ShieldAlert,
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
+import { authApi } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
@@ -31,6 +35,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
   const [darkMode, setDarkMode] = useState(false);
   const [showWorkspaceMenu, setShowWorkspaceMenu] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [verificationNotice, setVerificationNotice] = useState('');
 
   useEffect(() => {
     fetchUser();
@@ -62,6 +67,15 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     document.documentElement.classList.toggle('dark');
   };
 
+  const resendVerification = async () => {
+    try {
+      await authApi.resendVerification();
+      setVerificationNotice(`Sent - check ${user?.email}`);
+    } catch (err: any) {
+      setVerificationNotice(err.response?.data?.error || 'Failed to send');
+    }
+  };
+
   const handleLogout = () => {
     logout();
     router.push('/login');
@@ -89,6 +103,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
   const adminNav = [
     { name: 'Team', href: '/admin/users', icon: Users },
     { name: 'Invite', href: '/admin/invite', icon: UserPlus },
+    { name: 'Exchange Rates', href: '/admin/exchange-rates', icon: ArrowLeftRight },
   ];
 
   return (
@@ -255,7 +270,31 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 lg:ml-60 pt-14 lg:pt-0">{children}</main>
+      <main className="flex-1 lg:ml-60 pt-14 lg:pt-0">
+        {!user.emailVerified && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-sm text-amber-600 dark:text-amber-400">
+            <Mail size={16} className="flex-shrink-0" />
+            <span className="flex-1">Please verify your email address. We sent a link to {user.email}.</span>
+            {verificationNotice ? (
+              <span className="text-xs">{verificationNotice}</span>
+            ) : (
+              <button onClick={resendVerification} className="text-xs font-medium underline">
+                Resend link
+              </button>
+            )}
+          </div>
+        )}
+        {user.twoFactorSetupRequired && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 text-sm text-amber-600 dark:text-amber-400">
+            <ShieldAlert size={16} className="flex-shrink-0" />
+            <span className="flex-1">Your workspace requires two-factor authentication.</span>
+            <Link href="/settings" className="text-xs font-medium underline">
+              Turn it on
+            </Link>
+          </div>
+        )}
+        {children}
+      </main>
     </div>
   );
 }
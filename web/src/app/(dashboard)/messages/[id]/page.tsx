@@ -5,10 +5,12 @@ import { useParams, useRouter } from 'next/navigation';
 import { ArrowLeft, Send, Loader2, RefreshCw, Phone, Video, MoreVertical, CheckCheck, Check } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
 import { threadApi } from '@/lib/api';
+import { getSocket } from '@/lib/socket';
 import { format, isToday, isYesterday, isSameDay } from 'date-fns';
 
 interface Message {
   id: string;
+  threadId?: string;
   content: string;
   createdAt: string;
   sender: { id: string; name: string; avatarUrl?: string };
@@ -18,10 +20,19 @@ interface Thread {
   id: string;
   title?: string;
   isGroup: boolean;
+  participants: { userId: string; lastReadAt: string | null }[];
   participantUsers: { id: string; name: string; avatarUrl?: string; email?: string; role?: string }[];
   messages: Message[];
 }
 
+// Typing stops showing if the stop event is lost (closed tab, dropped connection)
+const TYPING_TIMEOUT_MS = 5000;
+// How often typing is re-announced while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+
+const withMessage = (thread: Thread, message: Message): Thread =>
+  thread.messages.some((m) => m.id === message.id) ? thread : { ...thread, messages: [...thread.messages, message] };
+
 export default function ThreadPage() {
   const params = useParams();
   const router = useRouter();
@@ -32,30 +43,24 @@ export default function ThreadPage() {
   const [loading, setLoading] = useState(true);
   const [message, setMessage] = useState('');
   const [sending, setSending] = useState(false);
-  const [isPolling, setIsPolling] = useState(true);
+  const [typing, setTyping] = useState<Record<string, string>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const lastMessageCountRef = useRef(0);
+  const typingTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentRef = useRef(0);
+  const stopTypingTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   const fetchThread = useCallback(async (showLoading = false) => {
     if (showLoading) setLoading(true);
     try {
       const res = await threadApi.getById(threadId);
-      const newThread = res.data.thread;
-      
-      // Only update if there are new messages to avoid re-render flicker
-      if (newThread.messages.length !== lastMessageCountRef.current) {
-        setThread(newThread);
-        lastMessageCountRef.current = newThread.messages.length;
-      } else if (!thread) {
-        setThread(newThread);
-      }
+      setThread(res.data.thread);
     } catch (error) {
       console.error('Failed to fetch thread:', error);
     } finally {
       if (showLoading) setLoading(false);
     }
-  }, [threadId, thread]);
+  }, [threadId]);
 
   // Initial fetch
   useEffect(() => {
@@ -64,16 +69,77 @@ export default function ThreadPage() {
     }
   }, [threadId]);
 
-  // Polling for new messages every 3 seconds
+  // New messages, typing and read receipts arrive over the thread room
   useEffect(() => {
-    if (!threadId || !isPolling) return;
+    if (!threadId) return;
+    const socket = getSocket();
+    const timers = typingTimersRef.current;
+
+    const stopTyping = (userId: string) => {
+      clearTimeout(timers[userId]);
+      delete timers[userId];
+      setTyping((prev) => {
+        const next = { ...prev };
+        delete next[userId];
+        return next;
+      });
+    };
 
-    const interval = setInterval(() => {
+    // Rooms don't survive a reconnect, and messages sent meanwhile are picked up by refetching
+    const join = () => socket.emit('join-thread', threadId);
+    const rejoin = () => {
+      join();
       fetchThread(false);
-    }, 3000);
+    };
+    join();
+    socket.on('connect', rejoin);
+
+    const onMessage = (msg: Message & { senderId: string }) => {
+      if (msg.threadId !== threadId) return;
+      setThread((prev) => prev && withMessage(prev, msg));
+      stopTyping(msg.senderId);
+      if (msg.senderId !== user?.id) socket.emit('mark_read', { threadId });
+    };
+
+    const onTyping = (data: { threadId: string; userId: string; name: string }) => {
+      if (data.threadId !== threadId) return;
+      clearTimeout(timers[data.userId]);
+      timers[data.userId] = setTimeout(() => stopTyping(data.userId), TYPING_TIMEOUT_MS);
+      setTyping((prev) => ({ ...prev, [data.userId]: data.name }));
+    };
+
+    const onStopTyping = (data: { threadId: string; userId: string }) => {
+      if (data.threadId === threadId) stopTyping(data.userId);
+    };
+
+    const onRead = (data: { threadId: string; userId: string; readAt: string }) => {
+      if (data.threadId !== threadId) return;
+      setThread((prev) => prev && {
+        ...prev,
+        participants: prev.participants.map((p) => (p.userId === data.userId ? { ...p, lastReadAt: data.readAt } : p)),
+      });
+    };
 
-    return () => clearInterval(interval);
-  }, [threadId, isPolling, fetchThread]);
+    socket.on('new_message', onMessage);
+    socket.on('message_sent', onMessage);
+    socket.on('user_typing', onTyping);
+    socket.on('user_stop_typing', onStopTyping);
+    socket.on('message_read', onRead);
+
+    return () => {
+      socket.emit('stop_typing', { threadId });
+      socket.emit('leave-thread', threadId);
+      socket.off('connect', rejoin);
+      socket.off('new_message', onMessage);
+      socket.off('message_sent', onMessage);
+      socket.off('user_typing', onTyping);
+      socket.off('user_stop_typing', onStopTyping);
+      socket.off('message_read', onRead);
+      Object.values(timers).forEach(clearTimeout);
+      clearTimeout(stopTypingTimerRef.current);
+      setTyping({});
+    };
+  }, [threadId, fetchThread, user?.id]);
 
   // Auto-scroll when new messages arrive
   useEffect(() => {
@@ -84,6 +150,24 @@ export default function ThreadPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const stopTyping = () => {
+    clearTimeout(stopTypingTimerRef.current);
+    if (lastTypingSentRef.current) getSocket().emit('stop_typing', { threadId });
+    lastTypingSentRef.current = 0;
+  };
+
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    if (!value.trim()) return stopTyping();
+
+    if (Date.now() - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      getSocket().emit('typing', { threadId });
+      lastTypingSentRef.current = Date.now();
+    }
+    clearTimeout(stopTypingTimerRef.current);
+    stopTypingTimerRef.current = setTimeout(stopTyping, TYPING_TIMEOUT_MS - 1000);
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim() || sending) return;
@@ -91,6 +175,7 @@ export default function ThreadPage() {
     const content = message.trim();
     setMessage('');
     setSending(true);
+    stopTyping();
 
     // Optimistic update
     const optimisticMessage: Message = {
@@ -107,18 +192,17 @@ export default function ThreadPage() {
         messages: [...prev.messages, optimisticMessage],
       };
     });
-    lastMessageCountRef.current++;
 
     try {
       const res = await threadApi.sendMessage(threadId, content);
-      // Replace optimistic message with real one
+      // Replace optimistic message with real one (message_sent may have delivered it already)
       setThread((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
-          messages: prev.messages.map((m) => 
-            m.id === optimisticMessage.id ? res.data.message : m
-          ),
+          messages: prev.messages
+            .filter((m) => m.id !== res.data.message.id)
+            .map((m) => (m.id === optimisticMessage.id ? res.data.message : m)),
         };
       });
     } catch (error) {
@@ -131,7 +215,6 @@ export default function ThreadPage() {
           messages: prev.messages.filter((m) => m.id !== optimisticMessage.id),
         };
       });
-      lastMessageCountRef.current--;
       setMessage(content);
     } finally {
       setSending(false);
@@ -165,6 +248,15 @@ export default function ThreadPage() {
     return otherParticipants.map((p) => p.name).join(', ') || 'Conversation';
   };
 
+  // Other participants whose read marker has reached the message
+  const getReaders = (msg: Message) => {
+    if (!thread) return [];
+    const readIds = thread.participants
+      .filter((p) => p.userId !== user?.id && p.lastReadAt && new Date(p.lastReadAt) >= new Date(msg.createdAt))
+      .map((p) => p.userId);
+    return thread.participantUsers.filter((p) => readIds.includes(p.id));
+  };
+
   const getOtherParticipant = () => {
     if (!thread) return null;
     return thread.participantUsers.find((p) => p.id !== user?.id);
@@ -197,6 +289,8 @@ export default function ThreadPage() {
   }
 
   const otherParticipant = getOtherParticipant();
+  const otherCount = thread.participantUsers.filter((p) => p.id !== user?.id).length;
+  const typingNames = Object.values(typing);
   const roleBadge = otherParticipant ? getRoleBadge(otherParticipant.role) : null;
 
   return (
@@ -272,6 +366,7 @@ export default function ThreadPage() {
               const showAvatar = !prevMsg || prevMsg.sender.id !== msg.sender.id || showDateDivider;
               const isLastFromSender = idx === thread.messages.length - 1 || thread.messages[idx + 1].sender.id !== msg.sender.id;
               const isOptimistic = msg.id.startsWith('temp-');
+              const readers = isOwn && isLastFromSender && !isOptimistic ? getReaders(msg) : [];
 
               return (
                 <div key={msg.id}>
@@ -319,8 +414,18 @@ export default function ThreadPage() {
                           <span className="text-[10px] text-[var(--text-muted)]">
                             {formatMessageTime(msg.createdAt)}
                           </span>
-                          {isOwn && !isOptimistic && (
-                            <CheckCheck size={12} className="text-[var(--primary)]" />
+                          {isOwn && !isOptimistic && readers.length > 0 && (
+                            <span title={`Seen by ${readers.map((r) => r.name).join(', ')}`}>
+                              <CheckCheck
+                                size={12}
+                                className={readers.length === otherCount ? 'text-[var(--primary)]' : 'text-[var(--text-muted)]'}
+                              />
+                            </span>
+                          )}
+                          {isOwn && !isOptimistic && readers.length === 0 && (
+                            <span title="Sent">
+                              <Check size={12} className="text-[var(--text-muted)]" />
+                            </span>
                           )}
                           {isOwn && isOptimistic && (
                             <Check size={12} className="text-[var(--text-muted)]" />
@@ -337,6 +442,12 @@ export default function ThreadPage() {
         <div ref={messagesEndRef} />
       </div>
 
+      {typingNames.length > 0 && (
+        <p className="flex-shrink-0 px-4 pb-1 text-[10px] sm:text-xs italic text-[var(--text-tertiary)] bg-[var(--background)]">
+          {typingNames.length === 1 ? `${typingNames[0]} is typing...` : `${typingNames.join(', ')} are typing...`}
+        </p>
+      )}
+
       {/* Input */}
       <div className="flex-shrink-0 p-3 sm:p-4 border-t border-[var(--border)] bg-[var(--surface)]">
         <form onSubmit={handleSend} className="flex items-end gap-2 sm:gap-3">
@@ -345,7 +456,7 @@ export default function ThreadPage() {
               ref={inputRef}
               type="text"
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
+              onChange={(e) => handleMessageChange(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
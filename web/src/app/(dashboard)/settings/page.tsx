@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth';
+import { authApi, workspaceApi } from '@/lib/api';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  requiredBy: string[];
+}
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20';
+const primaryButton =
+  'flex items-center justify-center gap-1.5 px-4 h-9 rounded-lg bg-[var(--primary)] text-white text-sm font-medium hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50';
+const secondaryButton =
+  'flex items-center justify-center gap-1.5 px-4 h-9 rounded-lg border border-[var(--border)] text-[var(--text)] text-sm font-medium hover:bg-[var(--surface-hover)] transition-colors disabled:opacity-50';
+
+export default function SettingsPage() {
+  const { currentWorkspace, updateUser } = useAuthStore();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+  // Shown once, right after they are issued
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [requireTwoFactor, setRequireTwoFactor] = useState<boolean | null>(null);
+  const [workspaceError, setWorkspaceError] = useState('');
+
+  const isWorkspaceAdmin = currentWorkspace?.role === 'OWNER_ADMIN';
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  useEffect(() => {
+    if (currentWorkspace && isWorkspaceAdmin) {
+      workspaceApi
+        .getById(currentWorkspace.id)
+        .then((res) => setRequireTwoFactor(!!res.data.workspace.requireTwoFactor))
+        .catch(() => setRequireTwoFactor(null));
+    }
+  }, [currentWorkspace, isWorkspaceAdmin]);
+
+  const fetchStatus = async () => {
+    try {
+      const res = await authApi.getTwoFactor();
+      setStatus(res.data);
+    } catch (error) {
+      console.error('Failed to fetch two-factor status:', error);
+    }
+  };
+
+  // Runs a 2FA action, clearing the form fields afterwards
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setBusy(true);
+    try {
+      await action();
+      setCode('');
+      setPassword('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const res = await authApi.setupTwoFactor();
+      setEnrollment(res.data);
+    });
+
+  const enable = () =>
+    run(async () => {
+      const res = await authApi.enableTwoFactor(code);
+      setEnrollment(null);
+      setRecoveryCodes(res.data.recoveryCodes);
+      updateUser({ twoFactorEnabled: true, twoFactorSetupRequired: false });
+      await fetchStatus();
+    });
+
+  const regenerate = () =>
+    run(async () => {
+      const res = await authApi.regenerateRecoveryCodes(code);
+      setRecoveryCodes(res.data.recoveryCodes);
+      await fetchStatus();
+    });
+
+  const disable = () => {
+    if (!confirm('Turn off two-factor authentication?')) return;
+    run(async () => {
+      await authApi.disableTwoFactor(password, code);
+      updateUser({ twoFactorEnabled: false });
+      await fetchStatus();
+    });
+  };
+
+  const toggleRequirement = async (value: boolean) => {
+    if (!currentWorkspace) return;
+    setWorkspaceError('');
+    try {
+      await workspaceApi.update(currentWorkspace.id, { requireTwoFactor: value });
+      setRequireTwoFactor(value);
+    } catch (err: any) {
+      setWorkspaceError(err.response?.data?.error || 'Failed to update workspace');
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-2xl mx-auto">
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-lg sm:text-xl font-semibold text-[var(--text)]">Settings</h1>
+      </div>
+
+      <section className="p-4 sm:p-5 mb-4 bg-[var(--surface)] rounded-xl border border-[var(--border)]">
+        <div className="flex items-start gap-3 mb-4">
+          {status.enabled ? (
+            <ShieldCheck size={20} className="text-[var(--success)] flex-shrink-0 mt-0.5" />
+          ) : (
+            <ShieldAlert size={20} className="text-[var(--text-muted)] flex-shrink-0 mt-0.5" />
+          )}
+          <div>
+            <h2 className="text-sm font-semibold text-[var(--text)]">
+              Two-factor authentication {status.enabled ? 'is on' : 'is off'}
+            </h2>
+            <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+              Signing in asks for a code from an authenticator app as well as your password.
+            </p>
+          </div>
+        </div>
+
+        {status.requiredBy.length > 0 && !status.enabled && (
+          <div className="mb-4 p-3 rounded-lg bg-amber-500/10 text-sm text-amber-600 dark:text-amber-400">
+            {status.requiredBy.join(', ')} requires two-factor authentication. Turn it on to keep working there.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-[var(--error-light)] text-sm text-[var(--error)]">{error}</div>
+        )}
+
+        {recoveryCodes && (
+          <div className="mb-4 p-4 rounded-lg border border-[var(--border)] bg-[var(--background)]">
+            <p className="text-sm text-[var(--text)] mb-3">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they
+              won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm text-[var(--text)] mb-3">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <button onClick={() => setRecoveryCodes(null)} className={secondaryButton}>
+              I&apos;ve saved them
+            </button>
+          </div>
+        )}
+
+        {!status.enabled && !enrollment && (
+          <button onClick={startSetup} disabled={busy} className={primaryButton}>
+            {busy && <Loader2 size={14} className="animate-spin" />}
+            Set up
+          </button>
+        )}
+
+        {!status.enabled && enrollment && (
+          <div className="space-y-3">
+            <p className="text-sm text-[var(--text-secondary)]">
+              Scan the QR code with your authenticator app, then enter the code it shows.
+            </p>
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-44 h-44 rounded-lg bg-white p-2" />
+            <p className="text-xs text-[var(--text-tertiary)]">
+              Can&apos;t scan it? Enter this key instead:{' '}
+              <span className="font-mono text-[var(--text)] break-all">{enrollment.secret}</span>
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className={`${inputClass} w-32`}
+              />
+              <button onClick={enable} disabled={busy || !code} className={primaryButton}>
+                {busy && <Loader2 size={14} className="animate-spin" />}
+                Turn on
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-[var(--text-secondary)]">
+              {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Authenticator code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className={`${inputClass} w-44`}
+              />
+              <button onClick={regenerate} disabled={busy || !code} className={secondaryButton}>
+                New recovery codes
+              </button>
+            </div>
+            {status.requiredBy.length === 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  className={`${inputClass} w-44`}
+                />
+                <button
+                  onClick={disable}
+                  disabled={busy || !code || !password}
+                  className={`${secondaryButton} hover:text-[var(--error)]`}
+                >
+                  Turn off
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {isWorkspaceAdmin && requireTwoFactor !== null && (
+        <section className="p-4 sm:p-5 bg-[var(--surface)] rounded-xl border border-[var(--border)]">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={requireTwoFactor}
+              onChange={(e) => toggleRequirement(e.target.checked)}
+              className="mt-1"
+            />
+            <div>
+              <p className="text-sm font-semibold text-[var(--text)]">
+                Require two-factor authentication in {currentWorkspace?.name}
+              </p>
+              <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                Admins and employees can&apos;t open the workspace until they turn it on. Customers aren&apos;t affected.
+              </p>
+            </div>
+          </label>
+          {workspaceError && <p className="text-sm text-[var(--error)] mt-3">{workspaceError}</p>}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Mail, Loader2, CheckCircle } from 'lucide-react';
+import { authApi } from '@/lib/api';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await authApi.forgotPassword(email.trim().toLowerCase());
+      setSent(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--background)]">
+        <div className="w-full max-w-sm text-center">
+          <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--success-light)] flex items-center justify-center">
+            <CheckCircle className="w-6 h-6 text-[var(--success)]" />
+          </div>
+          <h1 className="text-lg font-semibold text-[var(--text)] mb-2">Check your email</h1>
+          <p className="text-sm text-[var(--text-secondary)] mb-6">
+            If {email} has an account, we&apos;ve sent it a link to reset the password. The link expires in an hour.
+          </p>
+          <Link
+            href="/login"
+            className="inline-flex items-center justify-center w-full h-10 rounded-lg border border-[var(--border)] text-[var(--text)] font-medium text-sm hover:bg-[var(--surface-hover)] transition-colors"
+          >
+            Back to Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--background)]">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <img src="/logo.png" alt="Od Sifra" className="w-12 h-12 mx-auto mb-4 rounded-xl" />
+          <h1 className="text-xl font-semibold text-[var(--text)]">Forgot your password?</h1>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">We&apos;ll email you a link to choose a new one</p>
+        </div>
+
+        <div className="bg-[var(--surface)] rounded-xl border border-[var(--border)] p-6">
+          {error && (
+            <div className="mb-4 p-3 rounded-lg bg-[var(--error-light)] text-sm text-[var(--error)]">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Email</label>
+              <div className="relative">
+                <Mail size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full h-10 rounded-lg bg-[var(--primary)] text-white font-medium text-sm hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 flex items-center justify-center"
+            >
+              {loading ? <Loader2 size={16} className="animate-spin" /> : 'Send reset link'}
+            </button>
+          </form>
+        </div>
+
+        <p className="text-center text-sm text-[var(--text-tertiary)] mt-6">
+          Remembered it?{' '}
+          <Link href="/login" className="text-[var(--primary)] hover:underline">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
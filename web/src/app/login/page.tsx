@@ -3,17 +3,20 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Mail, Lock, Loader2 } from 'lucide-react';
+import { Mail, Lock, Loader2, ShieldCheck } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
 import { authApi } from '@/lib/api';
 
 function LoginContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { login, isLoading, user, isInitialized, fetchUser } = useAuthStore();
+  const { login, loginWithCode, isLoading, user, isInitialized, fetchUser } = useAuthStore();
   const [checkingSetup, setCheckingSetup] = useState(true);
   const [error, setError] = useState('');
   const [form, setForm] = useState({ email: '', password: '' });
+  // Set once the password is accepted for an account with 2FA; the code is asked for next
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
 
   const redirectTo = searchParams.get('redirect') || '/dashboard';
 
@@ -50,9 +53,30 @@ function LoginContent() {
     setError('');
 
     try {
-      await login(form.email, form.password);
+      const challenge = await login(form.email, form.password);
+      if (challenge) {
+        setChallengeToken(challenge);
+        return;
+      }
+      router.push(redirectTo);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Login failed');
+    }
+  };
+
+  const handleCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await loginWithCode(challengeToken!, code);
       router.push(redirectTo);
     } catch (err: any) {
+      // An expired challenge means starting over with the password
+      if (err.response?.status === 401) {
+        setChallengeToken(null);
+        setCode('');
+      }
       setError(err.response?.data?.error || 'Login failed');
     }
   };
@@ -83,45 +107,94 @@ function LoginContent() {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Email</label>
-              <div className="relative">
-                <Mail size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
-                <input
-                  type="email"
-                  value={form.email}
-                  onChange={(e) => setForm({ ...form, email: e.target.value })}
-                  placeholder="you@example.com"
-                  className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
-                  required
-                />
+          {challengeToken ? (
+            <form onSubmit={handleCode} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Authentication code</label>
+                <div className="relative">
+                  <ShieldCheck size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                    required
+                  />
+                </div>
+                <p className="text-xs text-[var(--text-tertiary)] mt-1.5">
+                  Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
               </div>
-            </div>
 
-            <div>
-              <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Password</label>
-              <div className="relative">
-                <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
-                <input
-                  type="password"
-                  value={form.password}
-                  onChange={(e) => setForm({ ...form, password: e.target.value })}
-                  placeholder="••••••••"
-                  className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
-                  required
-                />
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full h-10 rounded-lg bg-[var(--primary)] text-white font-medium text-sm hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 flex items-center justify-center"
+              >
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : 'Verify'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setChallengeToken(null);
+                  setCode('');
+                  setError('');
+                }}
+                className="w-full text-xs text-[var(--text-tertiary)] hover:underline"
+              >
+                Use a different account
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Email</label>
+                <div className="relative">
+                  <Mail size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    placeholder="you@example.com"
+                    className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="block text-sm font-medium text-[var(--text)]">Password</label>
+                  <Link href="/forgot-password" className="text-xs text-[var(--primary)] hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="relative">
+                  <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                  <input
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    placeholder="••••••••"
+                    className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                    required
+                  />
+                </div>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full h-10 rounded-lg bg-[var(--primary)] text-white font-medium text-sm hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 flex items-center justify-center"
-            >
-              {isLoading ? <Loader2 size={16} className="animate-spin" /> : 'Sign in'}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full h-10 rounded-lg bg-[var(--primary)] text-white font-medium text-sm hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 flex items-center justify-center"
+              >
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : 'Sign in'}
+              </button>
+            </form>
+          )}
         </div>
 
         <p className="text-center text-sm text-[var(--text-tertiary)] mt-6">
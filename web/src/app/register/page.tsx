@@ -107,7 +107,7 @@ function RegisterContent() {
           </div>
           <h1 className="text-lg font-semibold text-[var(--text)] mb-2">Account Created</h1>
           <p className="text-sm text-[var(--text-secondary)] mb-6">
-            Your account is pending approval. You&apos;ll be notified once an admin approves your access.
+            We sent a link to {form.email} to verify your email address. Once it&apos;s verified, an admin can add you to their workspace.
           </p>
           <Link
             href="/login"
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Lock, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { authApi } from '@/lib/api';
+
+// Opened from a forgot-password email, or the set-your-password email of an account an admin created
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [account, setAccount] = useState<{ email: string; name: string } | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [invalid, setInvalid] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({ password: '', confirmPassword: '' });
+
+  useEffect(() => {
+    if (!token) {
+      setInvalid('This link is missing its reset token.');
+      setChecking(false);
+      return;
+    }
+    authApi
+      .checkResetToken(token)
+      .then((res) => setAccount(res.data))
+      .catch((err) => setInvalid(err.response?.data?.error || 'Reset link is invalid or has expired'))
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (form.password !== form.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (form.password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await authApi.resetPassword(token!, form.password);
+      setDone(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to reset password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--background)]">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  if (invalid || done) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--background)]">
+        <div className="w-full max-w-sm text-center">
+          {done ? (
+            <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--success-light)] flex items-center justify-center">
+              <CheckCircle className="w-6 h-6 text-[var(--success)]" />
+            </div>
+          ) : (
+            <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--error-light)] flex items-center justify-center">
+              <AlertCircle className="w-6 h-6 text-[var(--error)]" />
+            </div>
+          )}
+          <h1 className="text-lg font-semibold text-[var(--text)] mb-2">{done ? 'Password set' : 'Link not valid'}</h1>
+          <p className="text-sm text-[var(--text-secondary)] mb-6">
+            {done ? 'You can now sign in with your new password.' : `${invalid} You can ask for a new one.`}
+          </p>
+          <Link
+            href={done ? '/login' : '/forgot-password'}
+            className="inline-flex items-center justify-center w-full h-10 rounded-lg border border-[var(--border)] text-[var(--text)] font-medium text-sm hover:bg-[var(--surface-hover)] transition-colors"
+          >
+            {done ? 'Sign In' : 'Send a new link'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--background)]">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8">
+          <img src="/logo.png" alt="Od Sifra" className="w-12 h-12 mx-auto mb-4 rounded-xl" />
+          <h1 className="text-xl font-semibold text-[var(--text)]">Choose a password</h1>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">For {account?.email}</p>
+        </div>
+
+        <div className="bg-[var(--surface)] rounded-xl border border-[var(--border)] p-6">
+          {error && (
+            <div className="mb-4 p-3 rounded-lg bg-[var(--error-light)] text-sm text-[var(--error)]">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-[var(--text)] mb-1.5">New password</label>
+              <div className="relative">
+                <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                <input
+                  type="password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  placeholder="••••••••"
+                  className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-[var(--text)] mb-1.5">Confirm password</label>
+              <div className="relative">
+                <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--text-muted)]" />
+                <input
+                  type="password"
+                  value={form.confirmPassword}
+                  onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                  placeholder="••••••••"
+                  className="w-full h-10 pl-10 pr-4 rounded-lg border border-[var(--border)] bg-[var(--background)] text-sm text-[var(--text)] placeholder:text-[var(--text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]/20 focus:border-[var(--primary)]"
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full h-10 rounded-lg bg-[var(--primary)] text-white font-medium text-sm hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 flex items-center justify-center"
+            >
+              {saving ? <Loader2 size={16} className="animate-spin" /> : 'Set password'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-[var(--background)]">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    }>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
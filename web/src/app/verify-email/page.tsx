@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { authApi } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+
+// Opened from the verification email
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { updateUser } = useAuthStore();
+  const [verifying, setVerifying] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is missing its verification token.');
+      setVerifying(false);
+      return;
+    }
+    authApi
+      .verifyEmail(token)
+      .then(() => updateUser({ emailVerified: true }))
+      .catch((err) => setError(err.response?.data?.error || 'Verification link is invalid or has expired'))
+      .finally(() => setVerifying(false));
+  }, [token]);
+
+  if (verifying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--background)]">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--background)]">
+      <div className="w-full max-w-sm text-center">
+        {error ? (
+          <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--error-light)] flex items-center justify-center">
+            <AlertCircle className="w-6 h-6 text-[var(--error)]" />
+          </div>
+        ) : (
+          <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-[var(--success-light)] flex items-center justify-center">
+            <CheckCircle className="w-6 h-6 text-[var(--success)]" />
+          </div>
+        )}
+        <h1 className="text-lg font-semibold text-[var(--text)] mb-2">{error ? 'Link not valid' : 'Email verified'}</h1>
+        <p className="text-sm text-[var(--text-secondary)] mb-6">
+          {error
+            ? `${error} Sign in to have a new link sent.`
+            : 'Thanks for confirming your email address. Your account is ready to use.'}
+        </p>
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center justify-center w-full h-10 rounded-lg border border-[var(--border)] text-[var(--text)] font-medium text-sm hover:bg-[var(--surface-hover)] transition-colors"
+        >
+          Continue
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-[var(--background)]">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--primary)]" />
+      </div>
+    }>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,634 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { automationApi } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+import {
+  Automation,
+  AutomationAction,
+  AutomationActionType,
+  AutomationRun,
+  AutomationTrigger,
+  AutomationTriggerConfig,
+  Board,
+  Column,
+} from './types';
+
+interface AutomationsPanelProps {
+  board: Board;
+  canManage: boolean;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+const TRIGGERS: { id: AutomationTrigger; label: string }[] = [
+  { id: 'STATUS_CHANGED', label: 'When a status changes' },
+  { id: 'TASK_CREATED', label: 'When an item is created' },
+  { id: 'DATE_ARRIVED', label: 'When a date arrives' },
+  { id: 'PERSON_ASSIGNED', label: 'When someone is assigned' },
+  { id: 'COMMENT_ADDED', label: 'When a comment is added' },
+];
+
+const ACTIONS: { id: AutomationActionType; label: string }[] = [
+  { id: 'SET_FIELD', label: 'Set a field' },
+  { id: 'MOVE_TO_GROUP', label: 'Move to group' },
+  { id: 'ASSIGN', label: 'Assign someone' },
+  { id: 'CREATE_TASK', label: 'Create an item' },
+  { id: 'CREATE_SUBTASK', label: 'Create a subtask' },
+  { id: 'NOTIFY', label: 'Notify' },
+  { id: 'SEND_EMAIL', label: 'Send an email' },
+];
+
+const RECIPIENTS = [
+  { id: 'assignees', label: 'Assignees' },
+  { id: 'creator', label: 'Item creator' },
+  { id: 'user', label: 'Someone specific' },
+  { id: 'column', label: 'Person in column' },
+];
+
+// Calculated and linked columns can't be written by a rule
+const SETTABLE_TYPES = ['TEXT', 'NUMBER', 'MONEY', 'STATUS', 'DATE', 'PERSON', 'CHECKBOX', 'EMAIL', 'PHONE', 'LINK'];
+
+const inputClass =
+  'w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none';
+
+export function AutomationsPanel({ board, canManage, isAdmin, onClose }: AutomationsPanelProps) {
+  const [tab, setTab] = useState<'rules' | 'log'>('rules');
+  const [automations, setAutomations] = useState<Automation[]>([]);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Automation | 'new' | null>(null);
+
+  useEffect(() => {
+    if (tab === 'rules') fetchAutomations();
+    else fetchRuns();
+  }, [tab]);
+
+  const fetchAutomations = async () => {
+    try {
+      setLoading(true);
+      const res = await automationApi.getByBoard(board.id);
+      setAutomations(res.data.automations);
+    } catch (error) {
+      console.error('Failed to fetch automations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRuns = async () => {
+    try {
+      setLoading(true);
+      const res = await automationApi.getRuns(board.id);
+      setRuns(res.data.runs);
+    } catch (error) {
+      console.error('Failed to fetch automation log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (automation: Automation) => {
+    try {
+      await automationApi.update(automation.id, { isActive: !automation.isActive });
+      fetchAutomations();
+    } catch (error) {
+      console.error('Failed to update automation:', error);
+    }
+  };
+
+  const handleDelete = async (automation: Automation) => {
+    if (!confirm(`Delete automation "${automation.name}"?`)) return;
+    try {
+      await automationApi.delete(automation.id);
+      fetchAutomations();
+    } catch (error) {
+      console.error('Failed to delete automation:', error);
+    }
+  };
+
+  const triggerLabel = (trigger: AutomationTrigger) => TRIGGERS.find((t) => t.id === trigger)?.label;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border)]">
+          <div className="flex items-center gap-3">
+            <h3 className="text-sm font-medium text-[var(--text)]">Automations</h3>
+            {isAdmin && (
+              <div className="flex items-center gap-1">
+                {(['rules', 'log'] as const).map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={cn(
+                      'h-6 px-2 rounded text-xs font-medium',
+                      tab === t ? 'bg-[var(--surface-hover)] text-[var(--text)]' : 'text-[var(--text-tertiary)] hover:text-[var(--text)]'
+                    )}
+                  >
+                    {t === 'rules' ? 'Rules' : 'Run log'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 size={18} className="animate-spin text-[var(--text-muted)]" />
+            </div>
+          ) : tab === 'rules' ? (
+            editing ? (
+              <AutomationForm
+                board={board}
+                automation={editing === 'new' ? undefined : editing}
+                onSaved={() => {
+                  setEditing(null);
+                  fetchAutomations();
+                }}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <>
+                {automations.map((automation) => {
+                  const lastRun = automation.runs?.[0];
+                  return (
+                    <div
+                      key={automation.id}
+                      className="flex items-center gap-3 px-3 py-2 rounded-md border border-[var(--border)]"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={automation.isActive}
+                        onChange={() => handleToggle(automation)}
+                        disabled={!canManage}
+                        title={automation.isActive ? 'On' : 'Off'}
+                        className="w-4 h-4 rounded"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-medium text-[var(--text)] truncate">{automation.name}</p>
+                        <p className="text-[10px] text-[var(--text-muted)] truncate">
+                          {triggerLabel(automation.trigger)} → {automation.actions.map((a) => ACTIONS.find((x) => x.id === a.type)?.label).join(', ')}
+                        </p>
+                      </div>
+                      {lastRun &&
+                        (lastRun.status === 'SUCCESS' ? (
+                          <CheckCircle2 size={14} className="text-[var(--success)]" />
+                        ) : (
+                          <span title={lastRun.error || undefined}>
+                            <AlertCircle size={14} className="text-[var(--error)]" />
+                          </span>
+                        ))}
+                      {canManage && (
+                        <>
+                          <button
+                            onClick={() => setEditing(automation)}
+                            className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]"
+                          >
+                            <Pencil size={12} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(automation)}
+                            className="p-1 rounded text-[var(--text-tertiary)] hover:text-[var(--error)] hover:bg-[var(--surface-hover)]"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+                {automations.length === 0 && (
+                  <p className="py-6 text-xs text-center text-[var(--text-muted)]">No automations on this board yet</p>
+                )}
+                {canManage && (
+                  <button
+                    onClick={() => setEditing('new')}
+                    className="flex items-center gap-1.5 h-8 px-2 rounded-md text-xs text-[var(--text-secondary)] hover:bg-[var(--surface-hover)]"
+                  >
+                    <Plus size={14} />
+                    Add automation
+                  </button>
+                )}
+              </>
+            )
+          ) : (
+            <>
+              {runs.map((run) => (
+                <div key={run.id} className="px-3 py-2 rounded-md border border-[var(--border)] space-y-1">
+                  <div className="flex items-center gap-2">
+                    {run.status === 'SUCCESS' ? (
+                      <CheckCircle2 size={14} className="text-[var(--success)]" />
+                    ) : (
+                      <AlertCircle size={14} className="text-[var(--error)]" />
+                    )}
+                    <span className="text-xs font-medium text-[var(--text)]">{run.automation?.name}</span>
+                    {run.task && <span className="text-xs text-[var(--text-tertiary)] truncate">· {run.task.name}</span>}
+                    <span className="ml-auto text-[10px] text-[var(--text-muted)] whitespace-nowrap">
+                      {formatDate(run.createdAt)} {new Date(run.createdAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  {run.results?.map((result, idx) => (
+                    <p
+                      key={idx}
+                      className={cn('pl-6 text-[10px]', result.ok ? 'text-[var(--text-tertiary)]' : 'text-[var(--error)]')}
+                    >
+                      {ACTIONS.find((a) => a.id === result.type)?.label}: {result.ok ? result.detail : result.error}
+                    </p>
+                  ))}
+                </div>
+              ))}
+              {runs.length === 0 && (
+                <p className="py-6 text-xs text-center text-[var(--text-muted)]">No automation runs yet</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface AutomationFormProps {
+  board: Board;
+  automation?: Automation;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function AutomationForm({ board, automation, onSaved, onCancel }: AutomationFormProps) {
+  const [name, setName] = useState(automation?.name || '');
+  const [trigger, setTrigger] = useState<AutomationTrigger>(automation?.trigger || 'STATUS_CHANGED');
+  const [config, setConfig] = useState<AutomationTriggerConfig>(automation?.triggerConfig || {});
+  const [actions, setActions] = useState<AutomationAction[]>(automation?.actions || [{ type: 'NOTIFY', to: 'assignees' }]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const members = board.workspace.members.map((m) => m.user);
+  const columnsOf = (...types: string[]) => board.columns.filter((c) => types.includes(c.type));
+  const statusOptions = board.columns.find((c) => c.id === config.columnId)?.settings?.options || [];
+
+  const updateAction = (index: number, data: Partial<AutomationAction>) =>
+    setActions(actions.map((a, i) => (i === index ? { ...a, ...data } : a)));
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError('');
+    try {
+      // Empty selects mean "any", which the server reads as a missing key
+      const triggerConfig = Object.fromEntries(Object.entries(config).filter(([, v]) => v !== '' && v !== undefined));
+      const data = { name: name.trim(), trigger, triggerConfig, actions };
+      if (automation) {
+        await automationApi.update(automation.id, data);
+      } else {
+        await automationApi.create({ boardId: board.id, ...data });
+      }
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save automation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Automation name"
+        autoFocus
+        className={inputClass}
+      />
+
+      <div className="space-y-2">
+        <select
+          value={trigger}
+          onChange={(e) => {
+            setTrigger(e.target.value as AutomationTrigger);
+            setConfig({});
+          }}
+          className={inputClass}
+        >
+          {TRIGGERS.map((t) => (
+            <option key={t.id} value={t.id}>{t.label}</option>
+          ))}
+        </select>
+
+        {trigger === 'STATUS_CHANGED' && (
+          <div className="grid grid-cols-3 gap-2">
+            <select value={config.columnId || ''} onChange={(e) => setConfig({ columnId: e.target.value })} className={inputClass}>
+              <option value="">Any status column</option>
+              {columnsOf('STATUS').map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <select
+              value={config.from || ''}
+              onChange={(e) => setConfig({ ...config, from: e.target.value })}
+              disabled={!config.columnId}
+              className={inputClass}
+            >
+              <option value="">From anything</option>
+              {statusOptions.map((o: any) => (
+                <option key={o.id} value={o.id}>From {o.label}</option>
+              ))}
+            </select>
+            <select
+              value={config.to || ''}
+              onChange={(e) => setConfig({ ...config, to: e.target.value })}
+              disabled={!config.columnId}
+              className={inputClass}
+            >
+              <option value="">To anything</option>
+              {statusOptions.map((o: any) => (
+                <option key={o.id} value={o.id}>To {o.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {trigger === 'TASK_CREATED' && (
+          <select value={config.groupId || ''} onChange={(e) => setConfig({ groupId: e.target.value })} className={inputClass}>
+            <option value="">In any group</option>
+            {board.groups.map((g) => (
+              <option key={g.id} value={g.id}>In {g.name}</option>
+            ))}
+          </select>
+        )}
+
+        {trigger === 'DATE_ARRIVED' && (
+          <div className="grid grid-cols-3 gap-2">
+            <select value={config.columnId || ''} onChange={(e) => setConfig({ ...config, columnId: e.target.value })} className={inputClass}>
+              <option value="">Date column...</option>
+              {columnsOf('DATE', 'TIMELINE').map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <select
+              value={config.edge || 'start'}
+              onChange={(e) => setConfig({ ...config, edge: e.target.value as 'start' | 'end' })}
+              className={inputClass}
+            >
+              <option value="start">Start date</option>
+              <option value="end">End date</option>
+            </select>
+            <input
+              type="number"
+              value={config.offsetDays ?? 0}
+              onChange={(e) => setConfig({ ...config, offsetDays: parseInt(e.target.value) || 0 })}
+              title="Days after the date (negative for before)"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {trigger === 'PERSON_ASSIGNED' && (
+          <select value={config.userId || ''} onChange={(e) => setConfig({ userId: e.target.value })} className={inputClass}>
+            <option value="">Anyone</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        )}
+
+        {trigger === 'COMMENT_ADDED' && (
+          <input
+            type="text"
+            value={config.contains || ''}
+            onChange={(e) => setConfig({ contains: e.target.value })}
+            placeholder="Only comments containing... (optional)"
+            className={inputClass}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[10px] font-medium uppercase tracking-wide text-[var(--text-muted)]">Then</p>
+        {actions.map((action, idx) => (
+          <div key={idx} className="flex items-start gap-2 p-2 rounded-md border border-[var(--border)]">
+            <div className="flex-1 space-y-2">
+              <select
+                value={action.type}
+                onChange={(e) => updateAction(idx, { type: e.target.value as AutomationActionType })}
+                className={inputClass}
+              >
+                {ACTIONS.map((a) => (
+                  <option key={a.id} value={a.id}>{a.label}</option>
+                ))}
+              </select>
+              <ActionFields board={board} action={action} onChange={(data) => updateAction(idx, data)} />
+            </div>
+            <button
+              onClick={() => setActions(actions.filter((_, i) => i !== idx))}
+              disabled={actions.length === 1}
+              className="p-1 rounded text-[var(--text-tertiary)] hover:text-[var(--error)] disabled:opacity-30"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setActions([...actions, { type: 'NOTIFY', to: 'assignees' }])}
+          className="flex items-center gap-1.5 h-7 px-2 rounded-md text-xs text-[var(--text-secondary)] hover:bg-[var(--surface-hover)]"
+        >
+          <Plus size={12} />
+          Add action
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-[var(--error)]">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="h-8 px-3 rounded-md text-xs text-[var(--text-secondary)] hover:bg-[var(--surface-hover)]">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !name.trim()}
+          className={cn(
+            'h-8 px-3 flex items-center gap-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium',
+            (saving || !name.trim()) && 'opacity-50'
+          )}
+        >
+          {saving && <Loader2 size={12} className="animate-spin" />}
+          {automation ? 'Save' : 'Create automation'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ActionFieldsProps {
+  board: Board;
+  action: AutomationAction;
+  onChange: (data: Partial<AutomationAction>) => void;
+}
+
+function ActionFields({ board, action, onChange }: ActionFieldsProps) {
+  const members = board.workspace.members.map((m) => m.user);
+  const settable = board.columns.filter((c) => SETTABLE_TYPES.includes(c.type));
+  const target = board.columns.find((c) => c.id === action.columnId);
+
+  switch (action.type) {
+    case 'SET_FIELD':
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <select value={action.columnId || ''} onChange={(e) => onChange({ columnId: e.target.value, value: null })} className={inputClass}>
+            <option value="">Column...</option>
+            {settable.map((c) => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          {target && <ValueInput column={target} members={members} value={action.value} onChange={(value) => onChange({ value })} />}
+        </div>
+      );
+
+    case 'MOVE_TO_GROUP':
+      return (
+        <select value={action.groupId || ''} onChange={(e) => onChange({ groupId: e.target.value })} className={inputClass}>
+          <option value="">Group...</option>
+          {board.groups.map((g) => (
+            <option key={g.id} value={g.id}>{g.name}</option>
+          ))}
+        </select>
+      );
+
+    case 'ASSIGN':
+      return (
+        <select value={action.userId || ''} onChange={(e) => onChange({ userId: e.target.value })} className={inputClass}>
+          <option value="">Person...</option>
+          {members.map((m) => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+      );
+
+    case 'CREATE_TASK':
+    case 'CREATE_SUBTASK':
+      return (
+        <div className={cn('grid gap-2', action.type === 'CREATE_TASK' && 'grid-cols-2')}>
+          <input
+            type="text"
+            value={action.name || ''}
+            onChange={(e) => onChange({ name: e.target.value })}
+            placeholder="Name, e.g. Renovate {task}"
+            className={inputClass}
+          />
+          {action.type === 'CREATE_TASK' && (
+            <select value={action.groupId || ''} onChange={(e) => onChange({ groupId: e.target.value || undefined })} className={inputClass}>
+              <option value="">Same group</option>
+              {board.groups.map((g) => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      );
+
+    case 'NOTIFY':
+    case 'SEND_EMAIL':
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select value={action.to || 'assignees'} onChange={(e) => onChange({ to: e.target.value as AutomationAction['to'] })} className={inputClass}>
+              {RECIPIENTS.map((r) => (
+                <option key={r.id} value={r.id}>{r.label}</option>
+              ))}
+            </select>
+            {action.to === 'user' && (
+              <select value={action.userId || ''} onChange={(e) => onChange({ userId: e.target.value })} className={inputClass}>
+                <option value="">Person...</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+            )}
+            {action.to === 'column' && (
+              <select value={action.columnId || ''} onChange={(e) => onChange({ columnId: e.target.value })} className={inputClass}>
+                <option value="">Person column...</option>
+                {board.columns.filter((c) => c.type === 'PERSON').map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {action.type === 'SEND_EMAIL' && (
+            <input
+              type="text"
+              value={action.subject || ''}
+              onChange={(e) => onChange({ subject: e.target.value })}
+              placeholder="Subject"
+              className={inputClass}
+            />
+          )}
+          <textarea
+            value={action.message || ''}
+            onChange={(e) => onChange({ message: e.target.value })}
+            placeholder="Message. {task} and {board} are filled in."
+            rows={2}
+            className="w-full px-2 py-1.5 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+          />
+        </div>
+      );
+  }
+}
+
+interface ValueInputProps {
+  column: Column;
+  members: { id: string; name: string }[];
+  value: any;
+  onChange: (value: any) => void;
+}
+
+function ValueInput({ column, members, value, onChange }: ValueInputProps) {
+  switch (column.type) {
+    case 'STATUS':
+      return (
+        <select value={value || ''} onChange={(e) => onChange(e.target.value || null)} className={inputClass}>
+          <option value="">Clear</option>
+          {(column.settings?.options || []).map((o: any) => (
+            <option key={o.id} value={o.id}>{o.label}</option>
+          ))}
+        </select>
+      );
+    case 'PERSON':
+      return (
+        <select value={value || ''} onChange={(e) => onChange(e.target.value || null)} className={inputClass}>
+          <option value="">Clear</option>
+          {members.map((m) => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+      );
+    case 'CHECKBOX':
+      return (
+        <select value={value ? 'true' : 'false'} onChange={(e) => onChange(e.target.value === 'true')} className={inputClass}>
+          <option value="true">Checked</option>
+          <option value="false">Unchecked</option>
+        </select>
+      );
+    case 'DATE':
+      return <input type="date" value={value || ''} onChange={(e) => onChange(e.target.value || null)} className={inputClass} />;
+    case 'NUMBER':
+    case 'MONEY':
+      return (
+        <input
+          type="number"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          className={inputClass}
+        />
+      );
+    default:
+      return <input type="text" value={value || ''} onChange={(e) => onChange(e.target.value || null)} className={inputClass} />;
+  }
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Avatar } from '@/components/ui';
+import { BoardViewer } from './types';
+
+const MAX_AVATARS = 4;
+
+// Everyone else who has the board open
+export function PresenceAvatars({ viewers }: { viewers: BoardViewer[] }) {
+  if (viewers.length === 0) return null;
+
+  const extra = viewers.length - MAX_AVATARS;
+
+  return (
+    <div className="flex -space-x-1.5" title={`Also viewing: ${viewers.map((v) => v.name).join(', ')}`}>
+      {viewers.slice(0, MAX_AVATARS).map((v) => (
+        <Avatar key={v.id} name={v.name} imageUrl={v.avatarUrl || undefined} size="xs" className="ring-2 ring-[var(--surface)]" />
+      ))}
+      {extra > 0 && (
+        <span className="flex items-center justify-center w-6 h-6 rounded-full ring-2 ring-[var(--surface)] bg-[var(--surface-tertiary)] text-[10px] font-medium text-[var(--text-secondary)]">
+          +{extra}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Shown on an item other people are editing
+export function EditingMarker({ editors }: { editors: BoardViewer[] }) {
+  if (editors.length === 0) return null;
+
+  const label = editors.length === 1 ? `${editors[0].name} is editing` : `${editors.length} people are editing`;
+
+  return (
+    <span
+      title={editors.map((e) => e.name).join(', ')}
+      className="flex items-center gap-1 flex-shrink-0 max-w-[8rem] px-1.5 h-5 rounded-full bg-[var(--primary)]/10 text-[10px] text-[var(--primary)]"
+    >
+      <Avatar name={editors[0].name} imageUrl={editors[0].avatarUrl || undefined} size="xs" className="w-3.5 h-3.5 text-[8px]" />
+      <span className="truncate">{label}</span>
+    </span>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { boardApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board, Column, Task, getDateSpan, getFieldValue } from './types';
+
+type CalendarMode = 'month' | 'week' | 'day';
+
+interface CalendarTask extends Task {
+  group: { id: string; name: string; color?: string };
+}
+
+interface CalendarViewProps {
+  board: Board;
+  canEdit: boolean;
+  searchQuery: string;
+  onUpdateField: (taskId: string, columnId: string, value: any) => Promise<void>;
+  onChangeCalendarColumn: (columnId: string) => void;
+}
+
+const MODES: { id: CalendarMode; label: string }[] = [
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'day', label: 'Day' },
+];
+
+export function getCalendarColumn(board: Board): Column | undefined {
+  const dateColumns = board.columns.filter((c) => c.type === 'DATE' || c.type === 'TIMELINE');
+  return dateColumns.find((c) => c.id === board.settings?.calendarColumnId) || dateColumns[0];
+}
+
+function getRange(mode: CalendarMode, cursor: Date) {
+  if (mode === 'month') {
+    return { start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) };
+  }
+  if (mode === 'week') {
+    return { start: startOfWeek(cursor), end: endOfWeek(cursor) };
+  }
+  return { start: cursor, end: cursor };
+}
+
+function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+export function CalendarView({ board, canEdit, searchQuery, onUpdateField, onChangeCalendarColumn }: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [tasks, setTasks] = useState<CalendarTask[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+
+  const dateColumns = board.columns.filter((c) => c.type === 'DATE' || c.type === 'TIMELINE');
+  const column = getCalendarColumn(board);
+  const range = getRange(mode, cursor);
+  const days = eachDayOfInterval(range);
+
+  useEffect(() => {
+    if (column) {
+      fetchTasks();
+    }
+  }, [board.id, column?.id, mode, cursor]);
+
+  const fetchTasks = async () => {
+    if (!column) return;
+    try {
+      setLoading(true);
+      const res = await boardApi.getCalendar(board.id, {
+        columnId: column.id,
+        from: format(range.start, 'yyyy-MM-dd'),
+        to: format(range.end, 'yyyy-MM-dd'),
+      });
+      setTasks(res.data.tasks);
+    } catch (error) {
+      console.error('Failed to fetch calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!column) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-sm text-[var(--text-secondary)]">
+          Add a Date or Timeline column to this board to use the Calendar view
+        </p>
+      </div>
+    );
+  }
+
+  const visibleTasks = tasks.filter(
+    (t) => searchQuery === '' || t.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const getTasksForDay = (dayKey: string) =>
+    visibleTasks.filter((task) => {
+      const span = getDateSpan(column, getFieldValue(task, column.id));
+      return span && span.start <= dayKey && span.end >= dayKey;
+    });
+
+  const handleDrop = async (dayKey: string) => {
+    const taskId = draggingTaskId;
+    setDraggingTaskId(null);
+    setDropDay(null);
+    if (!taskId || !canEdit) return;
+
+    const task = tasks.find((t) => t.id === taskId);
+    const span = task && getDateSpan(column, getFieldValue(task, column.id));
+    if (!span) return;
+
+    // Timelines keep their length and move by the same number of days as their start
+    const delta = differenceInCalendarDays(parseISO(dayKey), parseISO(span.start));
+    if (delta === 0) return;
+
+    const value = column.type === 'TIMELINE'
+      ? { start: shiftDate(span.start, delta), end: shiftDate(span.end, delta) }
+      : dayKey;
+
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === taskId
+          ? { ...t, fieldValues: t.fieldValues.map((fv) => (fv.columnId === column.id ? { ...fv, value } : fv)) }
+          : t
+      )
+    );
+    await onUpdateField(taskId, column.id, value);
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    if (mode === 'month') setCursor(addMonths(cursor, direction));
+    else if (mode === 'week') setCursor(addWeeks(cursor, direction));
+    else setCursor(addDays(cursor, direction));
+  };
+
+  const title =
+    mode === 'month'
+      ? format(cursor, 'MMMM yyyy')
+      : mode === 'week'
+        ? `${format(range.start, 'MMM d')} – ${format(range.end, 'MMM d, yyyy')}`
+        : format(cursor, 'EEEE, MMMM d, yyyy');
+
+  const renderTask = (task: CalendarTask) => (
+    <div
+      key={task.id}
+      draggable={canEdit}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggingTaskId(task.id);
+      }}
+      onDragEnd={() => {
+        setDraggingTaskId(null);
+        setDropDay(null);
+      }}
+      title={`${task.name} · ${task.group.name}`}
+      className={cn(
+        'flex items-center gap-1.5 px-1.5 py-1 rounded text-[10px] sm:text-xs bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] truncate',
+        canEdit && 'cursor-grab active:cursor-grabbing',
+        draggingTaskId === task.id && 'opacity-50'
+      )}
+    >
+      <span
+        className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+        style={{ backgroundColor: task.group.color || 'var(--primary)' }}
+      />
+      <span className="truncate">{task.name}</span>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 px-1">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-1.5 rounded-lg text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="h-7 px-2 rounded-md border border-[var(--border)] text-xs text-[var(--text)] hover:bg-[var(--surface-hover)]"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="p-1.5 rounded-lg text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+
+        <h2 className="text-sm font-medium text-[var(--text)]">{title}</h2>
+        {loading && <Loader2 size={14} className="animate-spin text-[var(--text-muted)]" />}
+
+        <div className="flex items-center gap-2 ml-auto">
+          {dateColumns.length > 1 && (
+            <select
+              value={column.id}
+              onChange={(e) => onChangeCalendarColumn(e.target.value)}
+              disabled={!canEdit}
+              className="h-7 px-2 rounded-md border border-[var(--border)] bg-[var(--surface)] text-xs text-[var(--text)] focus:outline-none"
+            >
+              {dateColumns.map((col) => (
+                <option key={col.id} value={col.id}>{col.name}</option>
+              ))}
+            </select>
+          )}
+
+          <div className="flex items-center p-0.5 rounded-lg border border-[var(--border)] bg-[var(--background)]">
+            {MODES.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={cn(
+                  'h-6 px-2 rounded-md text-xs font-medium transition-colors',
+                  mode === m.id
+                    ? 'bg-[var(--surface)] text-[var(--text)] shadow-sm'
+                    : 'text-[var(--text-tertiary)] hover:text-[var(--text)]'
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-auto border border-[var(--border)] rounded-lg bg-[var(--surface)]">
+        {mode !== 'day' && (
+          <div className="grid grid-cols-7 border-b border-[var(--border)] bg-[var(--surface-hover)]">
+            {days.slice(0, 7).map((day) => (
+              <div key={day.toISOString()} className="px-2 py-1.5 text-[10px] sm:text-xs font-medium text-[var(--text-tertiary)]">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className={cn('grid', mode === 'day' ? 'grid-cols-1 h-full' : 'grid-cols-7', mode === 'week' && 'h-[calc(100%-2rem)]')}>
+          {days.map((day) => {
+            const dayKey = format(day, 'yyyy-MM-dd');
+            const dayTasks = getTasksForDay(dayKey);
+
+            return (
+              <div
+                key={dayKey}
+                onDragOver={(e) => {
+                  if (!draggingTaskId) return;
+                  e.preventDefault();
+                  setDropDay(dayKey);
+                }}
+                onDragLeave={() => setDropDay(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(dayKey);
+                }}
+                className={cn(
+                  'p-1 sm:p-1.5 border-b border-r border-[var(--border)] space-y-1 overflow-hidden',
+                  mode === 'month' && 'min-h-[5.5rem] sm:min-h-[7rem]',
+                  mode === 'month' && !isSameMonth(day, cursor) && 'bg-[var(--background)]',
+                  dropDay === dayKey && 'bg-[var(--primary)]/10'
+                )}
+              >
+                <div
+                  className={cn(
+                    'w-6 h-6 flex items-center justify-center rounded-full text-[10px] sm:text-xs',
+                    isToday(day) ? 'bg-[var(--primary)] text-white font-medium' : 'text-[var(--text-tertiary)]'
+                  )}
+                >
+                  {format(day, 'd')}
+                </div>
+                {dayTasks.map(renderTask)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
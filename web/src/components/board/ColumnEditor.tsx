@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { boardApi, columnApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board, Column, CURRENCIES } from './types';
+
+interface ColumnEditorProps {
+  board: Board;
+  column?: Column;
+  onSave: (data: { name: string; type: string; settings?: any }) => Promise<void>;
+  onClose: () => void;
+}
+
+const COLUMN_TYPES = [
+  { id: 'TEXT', label: 'Text' },
+  { id: 'NUMBER', label: 'Number' },
+  { id: 'MONEY', label: 'Money' },
+  { id: 'STATUS', label: 'Status' },
+  { id: 'DATE', label: 'Date' },
+  { id: 'TIMELINE', label: 'Timeline' },
+  { id: 'PERSON', label: 'Person' },
+  { id: 'CHECKBOX', label: 'Checkbox' },
+  { id: 'EMAIL', label: 'Email' },
+  { id: 'PHONE', label: 'Phone' },
+  { id: 'LINK', label: 'Link' },
+  { id: 'FORMULA', label: 'Formula' },
+  { id: 'RELATION', label: 'Relation' },
+  { id: 'MIRROR', label: 'Mirror' },
+];
+
+const MIRROR_AGGREGATES = [
+  { id: 'sum', label: 'Sum' },
+  { id: 'count', label: 'Count' },
+  { id: 'min', label: 'Min' },
+  { id: 'max', label: 'Max' },
+  { id: 'latest', label: 'Latest' },
+];
+
+const DEFAULT_STATUS_OPTIONS = [
+  { id: '1', label: 'To Do', color: '#6B7280' },
+  { id: '2', label: 'In Progress', color: '#F59E0B' },
+  { id: '3', label: 'Done', color: '#10B981' },
+];
+
+const FORMULA_HELP =
+  'Reference columns as {Column Name}. Use + - * / %, & to join text, comparisons (= != < >), ' +
+  'IF, AND, OR, NOT, ROUND, ROUNDUP, ROUNDDOWN, ABS, MIN, MAX, SUM, AVERAGE, CONCAT, UPPER, LOWER, LEN, ' +
+  'TODAY, DAYS, ADD_DAYS, YEAR, MONTH, DAY. Dates plus or minus a number move by days.';
+
+export function ColumnEditor({ board, column, onSave, onClose }: ColumnEditorProps) {
+  const columns = board.columns;
+  const [name, setName] = useState(column?.name || '');
+  const [type, setType] = useState(column?.type || 'TEXT');
+  const [expression, setExpression] = useState(column?.settings?.expression || '');
+  const [linkedBoardId, setLinkedBoardId] = useState('');
+  const [pairedName, setPairedName] = useState('');
+  const [relationColumnId, setRelationColumnId] = useState(column?.settings?.relationColumnId || '');
+  const [mirrorColumnId, setMirrorColumnId] = useState(column?.settings?.mirrorColumnId || '');
+  const [aggregate, setAggregate] = useState(column?.settings?.aggregate || 'latest');
+  const [currency, setCurrency] = useState(column?.settings?.currency || '');
+  const [boards, setBoards] = useState<{ id: string; name: string }[]>([]);
+  const [linkedColumns, setLinkedColumns] = useState<Column[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const referenceable = columns.filter(
+    (c) => c.id !== column?.id && !['DEPENDENCY', 'TIMELINE', 'RELATION'].includes(c.type)
+  );
+  const relationColumns = columns.filter((c) => c.type === 'RELATION');
+
+  useEffect(() => {
+    if (type !== 'RELATION' || column) return;
+    boardApi
+      .getByWorkspace(board.workspaceId)
+      .then((res) => setBoards((res.data.boards || []).filter((b: { id: string }) => b.id !== board.id)))
+      .catch((err) => console.error('Failed to fetch boards:', err));
+  }, [type]);
+
+  // The linked board's columns come with the relation's options
+  useEffect(() => {
+    if (type !== 'MIRROR' || !relationColumnId) return;
+    columnApi
+      .getRelationOptions(relationColumnId)
+      .then((res) => setLinkedColumns(res.data.board.columns))
+      .catch((err) => console.error('Failed to fetch linked columns:', err));
+  }, [type, relationColumnId]);
+
+  const buildSettings = () => {
+    switch (type) {
+      case 'FORMULA':
+        return { ...column?.settings, expression };
+      case 'STATUS':
+        return column ? undefined : { options: DEFAULT_STATUS_OPTIONS };
+      case 'RELATION':
+        return column ? undefined : { boardId: linkedBoardId, pairedName: pairedName.trim() || undefined };
+      case 'MIRROR':
+        return { relationColumnId, mirrorColumnId: mirrorColumnId || undefined, aggregate };
+      case 'MONEY':
+        return { ...column?.settings, currency: currency || undefined };
+      default:
+        return undefined;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError('');
+    try {
+      await onSave({ name: name.trim(), type, settings: buildSettings() });
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save column');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-sm rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-[var(--text)]">{column ? 'Edit column' : 'Add column'}</h3>
+          <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+            <X size={14} />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Column name"
+          autoFocus
+          className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+        />
+
+        {!column && (
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+          >
+            {COLUMN_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+        )}
+
+        {type === 'FORMULA' && (
+          <div className="space-y-2">
+            <textarea
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="{Monthly Rent} * 12 / {Purchase Price}"
+              rows={3}
+              className="w-full px-2 py-1.5 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs font-mono text-[var(--text)] focus:outline-none"
+            />
+            {referenceable.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {referenceable.map((c) => (
+                  <button
+                    key={c.id}
+                    onClick={() => setExpression(`${expression}{${c.name}}`)}
+                    className="px-1.5 py-0.5 rounded bg-[var(--surface-hover)] text-[10px] text-[var(--text-secondary)] hover:text-[var(--text)]"
+                  >
+                    {c.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] leading-relaxed text-[var(--text-muted)]">{FORMULA_HELP}</p>
+          </div>
+        )}
+
+        {type === 'MONEY' && (
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+          >
+            <option value="">Workspace currency ({board.workspace.defaultCurrency})</option>
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        )}
+
+        {type === 'RELATION' && !column && (
+          <div className="space-y-2">
+            <select value={linkedBoardId} onChange={(e) => setLinkedBoardId(e.target.value)} className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none">
+              <option value="">Link to board...</option>
+              {boards.map((b) => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={pairedName}
+              onChange={(e) => setPairedName(e.target.value)}
+              placeholder={`Column name on linked board (default: ${board.name})`}
+              className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+            />
+          </div>
+        )}
+
+        {type === 'MIRROR' && (
+          <div className="space-y-2">
+            <select
+              value={relationColumnId}
+              onChange={(e) => {
+                setRelationColumnId(e.target.value);
+                setMirrorColumnId('');
+              }}
+              className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+            >
+              <option value="">Through relation...</option>
+              {relationColumns.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <select value={mirrorColumnId} onChange={(e) => setMirrorColumnId(e.target.value)} className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none">
+              <option value="">{aggregate === 'count' ? 'Count linked items' : 'Show column...'}</option>
+              {linkedColumns.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <select value={aggregate} onChange={(e) => setAggregate(e.target.value)} className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none">
+              {MIRROR_AGGREGATES.map((a) => (
+                <option key={a.id} value={a.id}>{a.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-[var(--error)]">{error}</p>}
+
+        <button
+          onClick={handleSave}
+          disabled={saving || !name.trim()}
+          className={cn(
+            'w-full h-8 flex items-center justify-center gap-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium',
+            (saving || !name.trim()) && 'opacity-50'
+          )}
+        >
+          {saving && <Loader2 size={12} className="animate-spin" />}
+          {column ? 'Save' : 'Add column'}
+        </button>
+      </div>
+    </div>
+  );
+}
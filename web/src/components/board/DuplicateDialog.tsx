@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { boardApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board } from './types';
+
+export type DuplicateMode = 'structure' | 'items' | 'updates';
+
+interface DuplicateDialogProps {
+  kind: 'board' | 'group' | 'task';
+  name: string;
+  board: Board;
+  // The task's current group, preselected as the destination
+  groupId?: string;
+  onDuplicate: (data: { mode: DuplicateMode; name?: string; groupId?: string }) => Promise<void>;
+  onClose: () => void;
+}
+
+const MODES: Record<DuplicateDialogProps['kind'], { id: DuplicateMode; label: string }[]> = {
+  board: [
+    { id: 'structure', label: 'Structure only (columns and groups)' },
+    { id: 'items', label: 'Structure and items' },
+    { id: 'updates', label: 'Items with comments and subtasks' },
+  ],
+  group: [
+    { id: 'structure', label: 'Empty group' },
+    { id: 'items', label: 'Group and items' },
+    { id: 'updates', label: 'Items with comments and subtasks' },
+  ],
+  task: [
+    { id: 'structure', label: 'Name only' },
+    { id: 'items', label: 'Name and values' },
+    { id: 'updates', label: 'Values, comments and subtasks' },
+  ],
+};
+
+export function DuplicateDialog({ kind, name, board, groupId, onDuplicate, onClose }: DuplicateDialogProps) {
+  const [mode, setMode] = useState<DuplicateMode>('items');
+  const [copyName, setCopyName] = useState(`${name} (copy)`);
+  const [boards, setBoards] = useState<{ id: string; name: string }[]>([]);
+  const [targetBoardId, setTargetBoardId] = useState(board.id);
+  const [groups, setGroups] = useState(board.groups.map((g) => ({ id: g.id, name: g.name })));
+  const [targetGroupId, setTargetGroupId] = useState(groupId || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (kind !== 'task') return;
+    boardApi
+      .getByWorkspace(board.workspaceId)
+      .then((res) => setBoards(res.data.boards || []))
+      .catch((err) => console.error('Failed to fetch boards:', err));
+  }, [kind]);
+
+  const handleChangeBoard = async (boardId: string) => {
+    setTargetBoardId(boardId);
+    setTargetGroupId('');
+    if (boardId === board.id) {
+      setGroups(board.groups.map((g) => ({ id: g.id, name: g.name })));
+      return;
+    }
+    try {
+      const res = await boardApi.getById(boardId);
+      setGroups(res.data.board.groups.map((g: { id: string; name: string }) => ({ id: g.id, name: g.name })));
+    } catch (err) {
+      console.error('Failed to fetch board groups:', err);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await onDuplicate({
+        mode,
+        ...(kind === 'board' && { name: copyName.trim() || undefined }),
+        ...(kind === 'task' && { groupId: targetGroupId }),
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || `Failed to duplicate ${kind}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const disabled = saving || (kind === 'task' && !targetGroupId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-sm rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-[var(--text)] truncate">Duplicate {name}</h3>
+          <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+            <X size={14} />
+          </button>
+        </div>
+
+        {kind === 'board' && (
+          <input
+            type="text"
+            value={copyName}
+            onChange={(e) => setCopyName(e.target.value)}
+            placeholder="Board name"
+            autoFocus
+            className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+          />
+        )}
+
+        <div className="space-y-1.5">
+          {MODES[kind].map((m) => (
+            <label key={m.id} className="flex items-center gap-2 text-xs text-[var(--text)] cursor-pointer">
+              <input type="radio" checked={mode === m.id} onChange={() => setMode(m.id)} className="w-3.5 h-3.5" />
+              {m.label}
+            </label>
+          ))}
+        </div>
+
+        {kind === 'task' && (
+          <div className="space-y-2">
+            <select
+              value={targetBoardId}
+              onChange={(e) => handleChangeBoard(e.target.value)}
+              className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+            >
+              <option value={board.id}>{board.name}</option>
+              {boards.filter((b) => b.id !== board.id).map((b) => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+            <select
+              value={targetGroupId}
+              onChange={(e) => setTargetGroupId(e.target.value)}
+              className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+            >
+              <option value="">Group...</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </select>
+            {targetBoardId !== board.id && (
+              <p className="text-[10px] text-[var(--text-muted)]">
+                Values go to columns with the same name and type on the other board.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-[var(--error)]">{error}</p>}
+
+        <button
+          onClick={handleDuplicate}
+          disabled={disabled}
+          className={cn(
+            'w-full h-8 flex items-center justify-center gap-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium',
+            disabled && 'opacity-50'
+          )}
+        >
+          {saving && <Loader2 size={12} className="animate-spin" />}
+          Duplicate
+        </button>
+      </div>
+    </div>
+  );
+}
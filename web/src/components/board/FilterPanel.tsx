@@ -0,0 +1,403 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Board, BoardFilters, Column, FilterCondition, SortRule } from './types';
+
+interface FilterPanelProps {
+  board: Board;
+  filters: BoardFilters;
+  sort: SortRule[];
+  hiddenColumns: string[];
+  onChangeFilters: (filters: BoardFilters) => void;
+  onChangeSort: (sort: SortRule[]) => void;
+  onChangeHiddenColumns: (hiddenColumns: string[]) => void;
+  onClose: () => void;
+}
+
+interface Field {
+  id: string;
+  name: string;
+  type: string;
+  options?: { id: string; label: string }[];
+}
+
+const OPERATORS: Record<string, { id: string; label: string }[]> = {
+  TEXT: [
+    { id: 'contains', label: 'contains' },
+    { id: 'not_contains', label: 'does not contain' },
+    { id: 'is', label: 'is' },
+    { id: 'is_not', label: 'is not' },
+  ],
+  NUMBER: [
+    { id: 'is', label: '=' },
+    { id: 'is_not', label: '≠' },
+    { id: 'gt', label: '>' },
+    { id: 'gte', label: '≥' },
+    { id: 'lt', label: '<' },
+    { id: 'lte', label: '≤' },
+  ],
+  DATE: [
+    { id: 'is', label: 'is' },
+    { id: 'before', label: 'is before' },
+    { id: 'after', label: 'is after' },
+  ],
+  OPTION: [
+    { id: 'is', label: 'is' },
+    { id: 'is_not', label: 'is not' },
+  ],
+  CHECKBOX: [{ id: 'is', label: 'is' }],
+  NONE: [],
+};
+
+const EMPTY_OPERATORS = [
+  { id: 'is_empty', label: 'is empty' },
+  { id: 'is_not_empty', label: 'is not empty' },
+];
+
+const RELATIVE_DATES = [
+  { id: 'today', label: 'Today' },
+  { id: 'yesterday', label: 'Yesterday' },
+  { id: 'tomorrow', label: 'Tomorrow' },
+  { id: 'this_week', label: 'This week' },
+  { id: 'last_week', label: 'Last week' },
+  { id: 'next_week', label: 'Next week' },
+  { id: 'this_month', label: 'This month' },
+  { id: 'last_month', label: 'Last month' },
+  { id: 'next_month', label: 'Next month' },
+];
+
+// Formula columns filter like the kind of value they produce
+const FORMULA_FIELD_TYPES: Record<string, string> = {
+  number: 'NUMBER',
+  date: 'DATE',
+  boolean: 'CHECKBOX',
+  text: 'TEXT',
+};
+
+function filterType(column: Column) {
+  if (column.type === 'FORMULA') return FORMULA_FIELD_TYPES[column.settings?.resultType] || 'TEXT';
+  if (column.type === 'MIRROR') return ['sum', 'count'].includes(column.settings?.aggregate) ? 'NUMBER' : 'TEXT';
+  return column.type;
+}
+
+function getOperatorGroup(type: string) {
+  switch (type) {
+    case 'NUMBER':
+    case 'MONEY':
+    case 'RATING':
+      return 'NUMBER';
+    case 'DATE':
+    case 'TIMELINE':
+    case 'CREATED':
+      return 'DATE';
+    case 'STATUS':
+    case 'DROPDOWN':
+    case 'PERSON':
+      return 'OPTION';
+    case 'CHECKBOX':
+      return 'CHECKBOX';
+    case 'DEPENDENCY':
+    case 'RELATION':
+      return 'NONE';
+    default:
+      return 'TEXT';
+  }
+}
+
+function getOperators(type: string) {
+  const operators = OPERATORS[getOperatorGroup(type)];
+  // Created date is always set, so emptiness checks make no sense there
+  return type === 'CREATED' || type === 'CHECKBOX' ? operators : [...operators, ...EMPTY_OPERATORS];
+}
+
+// Conditions still missing a value are left out of the query until they're filled in
+export function isConditionComplete(condition: FilterCondition) {
+  if (condition.operator === 'is_empty' || condition.operator === 'is_not_empty') return true;
+  return condition.value !== undefined && condition.value !== null && condition.value !== '';
+}
+
+const selectClass =
+  'h-7 px-2 rounded-md border border-[var(--border)] bg-[var(--surface)] text-xs text-[var(--text)] focus:outline-none';
+
+export function FilterPanel({
+  board,
+  filters,
+  sort,
+  hiddenColumns,
+  onChangeFilters,
+  onChangeSort,
+  onChangeHiddenColumns,
+  onClose,
+}: FilterPanelProps) {
+  const members = board.workspace.members.map((m) => m.user);
+  const fields: Field[] = [
+    { id: 'name', name: 'Name', type: 'TEXT' },
+    { id: 'assignee', name: 'Assignee', type: 'PERSON' },
+    { id: 'createdAt', name: 'Created', type: 'CREATED' },
+    ...board.columns.map((c) => ({
+      id: c.id,
+      name: c.name,
+      type: filterType(c),
+      options: c.settings?.options,
+    })),
+  ];
+  const getField = (id: string) => fields.find((f) => f.id === id);
+
+  const updateCondition = (index: number, data: Partial<FilterCondition>) => {
+    onChangeFilters({
+      ...filters,
+      conditions: filters.conditions.map((c, i) => (i === index ? { ...c, ...data } : c)),
+    });
+  };
+
+  const addCondition = () => {
+    const field = fields[0];
+    onChangeFilters({
+      ...filters,
+      conditions: [...filters.conditions, { columnId: field.id, operator: getOperators(field.type)[0].id }],
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    onChangeFilters({ ...filters, conditions: filters.conditions.filter((_, i) => i !== index) });
+  };
+
+  const updateSort = (index: number, data: Partial<SortRule>) => {
+    onChangeSort(sort.map((s, i) => (i === index ? { ...s, ...data } : s)));
+  };
+
+  const renderValueInput = (condition: FilterCondition, index: number, field: Field) => {
+    if (condition.operator === 'is_empty' || condition.operator === 'is_not_empty') return null;
+
+    switch (field.type) {
+      case 'STATUS':
+      case 'DROPDOWN':
+        return (
+          <select
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+            className={cn(selectClass, 'flex-1 min-w-0')}
+          >
+            <option value="">Select...</option>
+            {(field.options || []).map((opt) => (
+              <option key={opt.id} value={opt.id}>{opt.label}</option>
+            ))}
+          </select>
+        );
+
+      case 'PERSON':
+        return (
+          <select
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+            className={cn(selectClass, 'flex-1 min-w-0')}
+          >
+            <option value="">Select...</option>
+            <option value="me">Me</option>
+            {members.map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+        );
+
+      case 'CHECKBOX':
+        return (
+          <select
+            value={condition.value === undefined ? '' : String(condition.value)}
+            onChange={(e) => updateCondition(index, { value: e.target.value === 'true' })}
+            className={cn(selectClass, 'flex-1 min-w-0')}
+          >
+            <option value="">Select...</option>
+            <option value="true">Checked</option>
+            <option value="false">Unchecked</option>
+          </select>
+        );
+
+      case 'DATE':
+      case 'TIMELINE':
+      case 'CREATED': {
+        const isRelative = RELATIVE_DATES.some((d) => d.id === condition.value);
+        return (
+          <div className="flex flex-1 min-w-0 gap-1">
+            <select
+              value={isRelative ? condition.value : condition.value ? 'exact' : ''}
+              onChange={(e) =>
+                updateCondition(index, {
+                  value: e.target.value === 'exact' ? new Date().toISOString().substring(0, 10) : e.target.value,
+                })
+              }
+              className={cn(selectClass, 'flex-1 min-w-0')}
+            >
+              <option value="">Select...</option>
+              {RELATIVE_DATES.map((d) => (
+                <option key={d.id} value={d.id}>{d.label}</option>
+              ))}
+              <option value="exact">Exact date…</option>
+            </select>
+            {condition.value && !isRelative && (
+              <input
+                type="date"
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                className={cn(selectClass, 'w-32')}
+              />
+            )}
+          </div>
+        );
+      }
+
+      case 'NUMBER':
+      case 'MONEY':
+      case 'RATING':
+        return (
+          <input
+            type="number"
+            value={condition.value ?? ''}
+            onChange={(e) => updateCondition(index, { value: e.target.value === '' ? '' : parseFloat(e.target.value) })}
+            placeholder="0"
+            className={cn(selectClass, 'flex-1 min-w-0')}
+          />
+        );
+
+      default:
+        return (
+          <input
+            type="text"
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+            placeholder="Value"
+            className={cn(selectClass, 'flex-1 min-w-0')}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-1 z-30 w-[calc(100vw-1.5rem)] sm:w-[28rem] max-h-[70vh] overflow-y-auto rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg p-3 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-[var(--text)]">Filter &amp; sort</h3>
+        <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+          <span>Show tasks matching</span>
+          <select
+            value={filters.match}
+            onChange={(e) => onChangeFilters({ ...filters, match: e.target.value as BoardFilters['match'] })}
+            className={selectClass}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these conditions</span>
+        </div>
+
+        {filters.conditions.map((condition, index) => {
+          const field = getField(condition.columnId) || fields[0];
+          return (
+            <div key={index} className="flex items-center gap-1">
+              <select
+                value={field.id}
+                onChange={(e) => {
+                  const next = getField(e.target.value)!;
+                  updateCondition(index, { columnId: next.id, operator: getOperators(next.type)[0].id, value: undefined });
+                }}
+                className={cn(selectClass, 'w-28')}
+              >
+                {fields.map((f) => (
+                  <option key={f.id} value={f.id}>{f.name}</option>
+                ))}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value })}
+                className={cn(selectClass, 'w-28')}
+              >
+                {getOperators(field.type).map((op) => (
+                  <option key={op.id} value={op.id}>{op.label}</option>
+                ))}
+              </select>
+              {renderValueInput(condition, index, field)}
+              <button
+                onClick={() => removeCondition(index)}
+                className="p-1 rounded text-[var(--text-muted)] hover:text-red-500 flex-shrink-0"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          onClick={addCondition}
+          className="flex items-center gap-1 text-xs text-[var(--primary)] hover:underline"
+        >
+          <Plus size={12} /> Add filter
+        </button>
+      </div>
+
+      {/* Sort */}
+      <div className="space-y-2 pt-3 border-t border-[var(--border)]">
+        <p className="text-xs text-[var(--text-secondary)]">Sort by</p>
+        {sort.map((rule, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <select
+              value={rule.columnId}
+              onChange={(e) => updateSort(index, { columnId: e.target.value })}
+              className={cn(selectClass, 'flex-1 min-w-0')}
+            >
+              {fields.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <select
+              value={rule.direction}
+              onChange={(e) => updateSort(index, { direction: e.target.value as SortRule['direction'] })}
+              className={cn(selectClass, 'w-28')}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+            <button
+              onClick={() => onChangeSort(sort.filter((_, i) => i !== index))}
+              className="p-1 rounded text-[var(--text-muted)] hover:text-red-500 flex-shrink-0"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChangeSort([...sort, { columnId: 'name', direction: 'asc' }])}
+          className="flex items-center gap-1 text-xs text-[var(--primary)] hover:underline"
+        >
+          <Plus size={12} /> Add sort
+        </button>
+      </div>
+
+      {/* Hidden columns */}
+      <div className="space-y-1 pt-3 border-t border-[var(--border)]">
+        <p className="text-xs text-[var(--text-secondary)] mb-2">Columns</p>
+        {board.columns.map((col) => (
+          <label key={col.id} className="flex items-center gap-2 text-xs text-[var(--text)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!hiddenColumns.includes(col.id)}
+              onChange={(e) =>
+                onChangeHiddenColumns(
+                  e.target.checked ? hiddenColumns.filter((id) => id !== col.id) : [...hiddenColumns, col.id]
+                )
+              }
+              className="w-3.5 h-3.5 rounded"
+            />
+            {col.name}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { boardApi, taskApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board, Column } from './types';
+
+interface GanttTask {
+  id: string;
+  name: string;
+  group: { id: string; name: string; color?: string };
+  start: string | null;
+  end: string | null;
+}
+
+interface GanttData {
+  tasks: GanttTask[];
+  dependencies: { predecessorId: string; successorId: string }[];
+  criticalPath: string[];
+}
+
+interface DragState {
+  taskId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  days: number;
+}
+
+interface GanttViewProps {
+  board: Board;
+  canEdit: boolean;
+  searchQuery: string;
+  onFieldValueChanged: (taskId: string, columnId: string, value: any) => void;
+  onChangeGanttColumn: (columnId: string) => void;
+  onAddColumn: (name: string, type: string) => Promise<void>;
+}
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const CRITICAL_COLOR = '#EF4444';
+
+export function getGanttColumn(board: Board): Column | undefined {
+  const timelineColumns = board.columns.filter((c) => c.type === 'TIMELINE');
+  return timelineColumns.find((c) => c.id === board.settings?.ganttColumnId) || timelineColumns[0];
+}
+
+function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+export function GanttView({
+  board,
+  canEdit,
+  searchQuery,
+  onFieldValueChanged,
+  onChangeGanttColumn,
+  onAddColumn,
+}: GanttViewProps) {
+  const [data, setData] = useState<GanttData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [error, setError] = useState('');
+
+  const timelineColumns = board.columns.filter((c) => c.type === 'TIMELINE');
+  const column = getGanttColumn(board);
+  const hasDependencyColumn = board.columns.some((c) => c.type === 'DEPENDENCY');
+
+  useEffect(() => {
+    if (column) {
+      fetchGantt();
+    }
+  }, [board.id, column?.id]);
+
+  const fetchGantt = async () => {
+    if (!column) return;
+    try {
+      setLoading(true);
+      const res = await boardApi.getGantt(board.id, column.id);
+      setData(res.data);
+    } catch (error) {
+      console.error('Failed to fetch gantt:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTimeline = async (taskId: string, value: { start: string; end: string }) => {
+    if (!column) return;
+    setError('');
+    setData((prev) => prev && {
+      ...prev,
+      tasks: prev.tasks.map((t) => (t.id === taskId ? { ...t, ...value } : t)),
+    });
+
+    try {
+      // Moving a predecessor pushes out any dependents it now overlaps
+      const res = await taskApi.updateField(taskId, column.id, value, { shiftDependents: true });
+      onFieldValueChanged(taskId, column.id, value);
+      for (const shift of res.data.shifted || []) {
+        onFieldValueChanged(shift.taskId, column.id, shift.value);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update timeline');
+    }
+    fetchGantt();
+  };
+
+  // Track the pointer on the window so a drag keeps working when it leaves the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const days = Math.round((e.clientX - drag.originX) / DAY_WIDTH);
+      if (days !== drag.days) setDrag({ ...drag, days });
+    };
+
+    const handleUp = () => {
+      const task = data?.tasks.find((t) => t.id === drag.taskId);
+      setDrag(null);
+      if (!task?.start || !task.end || drag.days === 0) return;
+
+      if (drag.mode === 'move') {
+        saveTimeline(task.id, { start: shiftDate(task.start, drag.days), end: shiftDate(task.end, drag.days) });
+      } else {
+        const end = shiftDate(task.end, drag.days);
+        saveTimeline(task.id, { start: task.start, end: end < task.start ? task.start : end });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, data]);
+
+  if (!column) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3">
+        <p className="text-sm text-[var(--text-secondary)]">
+          Add a Timeline column to this board to use the Gantt view
+        </p>
+        {canEdit && (
+          <button
+            onClick={() => onAddColumn('Timeline', 'TIMELINE')}
+            className="flex items-center gap-2 h-8 px-3 rounded-lg bg-[var(--primary)] text-white text-sm font-medium hover:bg-[var(--primary-hover)]"
+          >
+            <Plus size={14} />
+            Add Timeline column
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="w-6 h-6 animate-spin text-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  const tasks = data.tasks.filter(
+    (t) => searchQuery === '' || t.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+  const critical = new Set(data.criticalPath);
+
+  // Show a few days of margin around the scheduled work
+  const scheduled = tasks.filter((t) => t.start && t.end);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const rangeStart = shiftDate(
+    scheduled.reduce((min, t) => (t.start! < min ? t.start! : min), scheduled[0]?.start || today),
+    -3
+  );
+  const rangeEnd = shiftDate(
+    scheduled.reduce((max, t) => (t.end! > max ? t.end! : max), scheduled[0]?.end || shiftDate(today, 30)),
+    7
+  );
+  const totalDays = differenceInCalendarDays(parseISO(rangeEnd), parseISO(rangeStart)) + 1;
+  const days = Array.from({ length: totalDays }, (_, i) => addDays(parseISO(rangeStart), i));
+
+  const getBar = (task: GanttTask) => {
+    if (!task.start || !task.end) return null;
+    let start = differenceInCalendarDays(parseISO(task.start), parseISO(rangeStart));
+    let length = differenceInCalendarDays(parseISO(task.end), parseISO(task.start)) + 1;
+    if (drag?.taskId === task.id) {
+      if (drag.mode === 'move') start += drag.days;
+      else length = Math.max(1, length + drag.days);
+    }
+    return { left: start * DAY_WIDTH, width: length * DAY_WIDTH };
+  };
+
+  const rowIndex = new Map(tasks.map((t, idx) => [t.id, idx]));
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-3 px-1">
+        {timelineColumns.length > 1 && (
+          <select
+            value={column.id}
+            onChange={(e) => onChangeGanttColumn(e.target.value)}
+            disabled={!canEdit}
+            className="h-7 px-2 rounded-md border border-[var(--border)] bg-[var(--surface)] text-xs text-[var(--text)] focus:outline-none"
+          >
+            {timelineColumns.map((col) => (
+              <option key={col.id} value={col.id}>{col.name}</option>
+            ))}
+          </select>
+        )}
+        <span className="flex items-center gap-1.5 text-xs text-[var(--text-tertiary)]">
+          <span className="w-3 h-2 rounded-sm" style={{ backgroundColor: CRITICAL_COLOR }} />
+          Critical path
+        </span>
+        {loading && <Loader2 size={14} className="animate-spin text-[var(--text-muted)]" />}
+        {error && <span className="text-xs text-[var(--error)]">{error}</span>}
+        {canEdit && !hasDependencyColumn && (
+          <button
+            onClick={() => onAddColumn('Depends On', 'DEPENDENCY')}
+            className="flex items-center gap-1 ml-auto h-7 px-2 rounded-md text-xs text-[var(--primary)] hover:bg-[var(--surface-hover)]"
+          >
+            <Plus size={12} />
+            Add dependency column
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto border border-[var(--border)] rounded-lg bg-[var(--surface)]">
+        <div className="flex min-w-max">
+          {/* Task names */}
+          <div className="sticky left-0 z-10 w-[160px] sm:w-[220px] flex-shrink-0 bg-[var(--surface)] border-r border-[var(--border)]">
+            <div className="h-12 border-b border-[var(--border)] bg-[var(--surface-hover)] px-3 flex items-end pb-1.5 text-xs font-medium text-[var(--text-tertiary)]">
+              Item
+            </div>
+            {tasks.map((task) => (
+              <div
+                key={task.id}
+                style={{ height: ROW_HEIGHT }}
+                className="flex items-center gap-2 px-3 border-b border-[var(--border)] text-xs sm:text-sm text-[var(--text)]"
+              >
+                <span
+                  className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: task.group.color || 'var(--primary)' }}
+                />
+                <span className="truncate">{task.name}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Chart */}
+          <div className="relative" style={{ width: totalDays * DAY_WIDTH }}>
+            <div className="flex h-12 border-b border-[var(--border)] bg-[var(--surface-hover)]">
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  style={{ width: DAY_WIDTH }}
+                  className={cn(
+                    'flex-shrink-0 flex flex-col items-center justify-end pb-1.5 text-[10px] text-[var(--text-tertiary)] border-l border-[var(--border-light)]',
+                    format(day, 'yyyy-MM-dd') === today && 'text-[var(--primary)] font-semibold'
+                  )}
+                >
+                  {day.getDate() === 1 || day.getTime() === days[0].getTime() ? (
+                    <span className="font-medium text-[var(--text-secondary)]">{format(day, 'MMM')}</span>
+                  ) : null}
+                  <span>{format(day, 'd')}</span>
+                </div>
+              ))}
+            </div>
+
+            {tasks.map((task) => {
+              const bar = getBar(task);
+              const isCritical = critical.has(task.id);
+
+              return (
+                <div
+                  key={task.id}
+                  style={{ height: ROW_HEIGHT }}
+                  className="relative border-b border-[var(--border)]"
+                  onClick={(e) => {
+                    // Clicking an empty row schedules the task for a single day at that spot
+                    if (bar || !canEdit) return;
+                    const offset = e.clientX - e.currentTarget.getBoundingClientRect().left;
+                    const date = shiftDate(rangeStart, Math.floor(offset / DAY_WIDTH));
+                    saveTimeline(task.id, { start: date, end: date });
+                  }}
+                >
+                  {bar && (
+                    <div
+                      onMouseDown={(e) => {
+                        if (!canEdit) return;
+                        e.preventDefault();
+                        setDrag({ taskId: task.id, mode: 'move', originX: e.clientX, days: 0 });
+                      }}
+                      title={`${task.name}: ${task.start} – ${task.end}`}
+                      style={{
+                        left: bar.left,
+                        width: bar.width,
+                        backgroundColor: isCritical ? CRITICAL_COLOR : task.group.color || 'var(--primary)',
+                      }}
+                      className={cn(
+                        'absolute top-1.5 bottom-1.5 rounded-md text-white text-[10px] px-2 flex items-center shadow-sm overflow-hidden',
+                        canEdit && 'cursor-grab active:cursor-grabbing',
+                        drag?.taskId === task.id && 'opacity-80 ring-2 ring-[var(--primary)]/30'
+                      )}
+                    >
+                      <span className="truncate">{task.name}</span>
+                      {canEdit && (
+                        <div
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setDrag({ taskId: task.id, mode: 'resize', originX: e.clientX, days: 0 });
+                          }}
+                          className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {/* Finish-to-start arrows */}
+            <svg
+              className="absolute left-0 pointer-events-none"
+              style={{ top: 48, width: totalDays * DAY_WIDTH, height: tasks.length * ROW_HEIGHT }}
+            >
+              <defs>
+                <marker id="gantt-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill="var(--text-tertiary)" />
+                </marker>
+              </defs>
+              {data.dependencies.map((dep) => {
+                const from = tasks.find((t) => t.id === dep.predecessorId);
+                const to = tasks.find((t) => t.id === dep.successorId);
+                const fromBar = from && getBar(from);
+                const toBar = to && getBar(to);
+                if (!fromBar || !toBar) return null;
+
+                const x1 = fromBar.left + fromBar.width;
+                const y1 = rowIndex.get(from.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const x2 = toBar.left;
+                const y2 = rowIndex.get(to.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const bend = x1 + 8;
+
+                return (
+                  <path
+                    key={`${dep.predecessorId}-${dep.successorId}`}
+                    d={`M${x1},${y1} H${bend} V${y2} H${x2 - 1}`}
+                    fill="none"
+                    stroke={critical.has(dep.predecessorId) && critical.has(dep.successorId) ? CRITICAL_COLOR : 'var(--text-tertiary)'}
+                    strokeWidth={1.5}
+                    markerEnd="url(#gantt-arrow)"
+                  />
+                );
+              })}
+            </svg>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, Upload, X } from 'lucide-react';
+import { boardApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board, ImportPreview, ImportRowError } from './types';
+
+interface ImportWizardProps {
+  board: Board;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+// Column types the server can parse cells into
+const IMPORT_TYPES = [
+  { id: 'TEXT', label: 'Text' },
+  { id: 'NUMBER', label: 'Number' },
+  { id: 'MONEY', label: 'Money' },
+  { id: 'STATUS', label: 'Status' },
+  { id: 'DATE', label: 'Date' },
+  { id: 'PERSON', label: 'Person (by email)' },
+  { id: 'CHECKBOX', label: 'Checkbox' },
+  { id: 'EMAIL', label: 'Email' },
+  { id: 'PHONE', label: 'Phone' },
+  { id: 'LINK', label: 'Link' },
+];
+
+// Each source column is skipped (''), fills an existing column ('col:<id>') or creates one ('new:<type>')
+type Target = string;
+
+interface MappedColumn {
+  index: number;
+  columnId?: string;
+  create?: { name: string; type: string };
+}
+
+const inputClass =
+  'w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none';
+
+export function ImportWizard({ board, onImported, onClose }: ImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'map' | 'result'>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [nameColumn, setNameColumn] = useState(0);
+  const [targets, setTargets] = useState<Target[]>([]);
+  const [groupId, setGroupId] = useState(board.groups[0]?.id || '');
+  const [dateOrder, setDateOrder] = useState<'MDY' | 'DMY'>('MDY');
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [imported, setImported] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const importable = board.columns.filter((c) => IMPORT_TYPES.some((t) => t.id === c.type));
+
+  const handleUpload = async (selected: File) => {
+    setFile(selected);
+    setLoading(true);
+    setError('');
+    try {
+      const res = await boardApi.importPreview(board.id, selected);
+      const data: ImportPreview = res.data;
+      setPreview(data);
+      const nameIndex = data.headers.findIndex((h) => /^(name|title|item|property)$/i.test(h.trim()));
+      setNameColumn(nameIndex === -1 ? 0 : nameIndex);
+      setTargets(data.suggestions.map((s) => (s.columnId ? `col:${s.columnId}` : `new:${s.inferredType}`)));
+      setStep('map');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to read file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async (skipInvalidRows = false) => {
+    if (!file || !preview) return;
+    setLoading(true);
+    setError('');
+
+    const columns = targets.flatMap((target, index): MappedColumn[] => {
+      if (index === nameColumn || !target) return [];
+      if (target.startsWith('col:')) return [{ index, columnId: target.slice(4) }];
+      return [{ index, create: { name: preview.headers[index], type: target.slice(4) } }];
+    });
+
+    try {
+      const res = await boardApi.import(board.id, file, { nameColumn, groupId, dateOrder, columns, skipInvalidRows });
+      setImported(res.data.imported);
+      setRowErrors(res.data.errors);
+      setStep('result');
+      onImported();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to import');
+      setRowErrors(err.response?.data?.errors || []);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setTarget = (index: number, target: Target) =>
+    setTargets(targets.map((t, i) => (i === index ? target : t)));
+
+  // Rows that failed, so the user can tell how many would be skipped
+  const failedRows = new Set(rowErrors.map((e) => e.row)).size;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border)]">
+          <h3 className="text-sm font-medium text-[var(--text)] truncate">
+            Import into {board.name}
+            {file && step !== 'upload' && <span className="text-[var(--text-muted)] font-normal"> · {file.name}</span>}
+          </h3>
+          <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {step === 'upload' && (
+            <label
+              className={cn(
+                'flex flex-col items-center justify-center gap-2 h-40 rounded-lg border-2 border-dashed border-[var(--border)] text-xs text-[var(--text-secondary)] cursor-pointer hover:bg-[var(--surface-hover)]',
+                loading && 'opacity-50 pointer-events-none'
+              )}
+            >
+              {loading ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
+              <span>Choose a CSV or XLSX file</span>
+              <span className="text-[10px] text-[var(--text-muted)]">The first row should hold the column names</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {step === 'map' && preview && (
+            <>
+              <div className="overflow-x-auto rounded-md border border-[var(--border)]">
+                <table className="text-[10px] text-[var(--text-secondary)]">
+                  <thead>
+                    <tr className="bg-[var(--surface-hover)]">
+                      {preview.headers.map((h, i) => (
+                        <th key={i} className="px-2 py-1 text-left font-medium text-[var(--text)] whitespace-nowrap">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row, r) => (
+                      <tr key={r} className="border-t border-[var(--border)]">
+                        {row.map((cell, i) => (
+                          <td key={i} className="px-2 py-1 max-w-[10rem] truncate whitespace-nowrap">{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[10px] text-[var(--text-muted)]">
+                Showing {preview.rows.length} of {preview.rowCount} rows
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <p className="text-[10px] text-[var(--text-muted)]">Item name</p>
+                  <select value={nameColumn} onChange={(e) => setNameColumn(Number(e.target.value))} className={inputClass}>
+                    {preview.headers.map((h, i) => (
+                      <option key={i} value={i}>{h}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-[10px] text-[var(--text-muted)]">Group</p>
+                  <select value={groupId} onChange={(e) => setGroupId(e.target.value)} className={inputClass}>
+                    {board.groups.map((g) => (
+                      <option key={g.id} value={g.id}>{g.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-[10px] text-[var(--text-muted)]">Dates like 03/04/2024</p>
+                  <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as 'MDY' | 'DMY')} className={inputClass}>
+                    <option value="MDY">Month first (March 4)</option>
+                    <option value="DMY">Day first (3 April)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                {preview.headers.map((header, index) =>
+                  index === nameColumn ? null : (
+                    <div key={index} className="flex items-center gap-2">
+                      <div className="w-1/3 min-w-0">
+                        <p className="text-xs text-[var(--text)] truncate">{header}</p>
+                        <p className="text-[10px] text-[var(--text-muted)] truncate">{preview.rows[0]?.[index]}</p>
+                      </div>
+                      <select value={targets[index]} onChange={(e) => setTarget(index, e.target.value)} className={inputClass}>
+                        <option value="">Don't import</option>
+                        {importable.length > 0 && (
+                          <optgroup label="Existing column">
+                            {importable.map((c) => (
+                              <option key={c.id} value={`col:${c.id}`}>{c.name}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                        <optgroup label={`New column "${header}"`}>
+                          {IMPORT_TYPES.map((t) => (
+                            <option key={t.id} value={`new:${t.id}`}>
+                              {t.label}
+                              {preview.suggestions[index]?.inferredType === t.id ? ' (detected)' : ''}
+                            </option>
+                          ))}
+                        </optgroup>
+                      </select>
+                    </div>
+                  )
+                )}
+              </div>
+            </>
+          )}
+
+          {step === 'result' && (
+            <div className="flex items-center gap-2 text-xs text-[var(--text)]">
+              <CheckCircle2 size={16} className="text-[var(--success)]" />
+              Imported {imported} {imported === 1 ? 'item' : 'items'}
+              {failedRows > 0 && `, skipped ${failedRows} ${failedRows === 1 ? 'row' : 'rows'}`}
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-xs text-[var(--error)]">
+              <AlertCircle size={12} />
+              {error}
+            </p>
+          )}
+
+          {rowErrors.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-md border border-[var(--border)] divide-y divide-[var(--border)]">
+              {rowErrors.map((e, i) => (
+                <div key={i} className="flex gap-2 px-2 py-1 text-[10px]">
+                  <span className="w-12 flex-shrink-0 text-[var(--text-muted)]">Row {e.row}</span>
+                  {e.column && <span className="w-24 flex-shrink-0 truncate text-[var(--text-secondary)]">{e.column}</span>}
+                  <span className="text-[var(--text)]">{e.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {step === 'map' && (
+          <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-[var(--border)]">
+            {failedRows > 0 && failedRows < (preview?.rowCount ?? 0) && (
+              <button
+                onClick={() => handleImport(true)}
+                disabled={loading}
+                className="h-8 px-3 rounded-md border border-[var(--border)] text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--surface-hover)]"
+              >
+                Skip {failedRows} invalid {failedRows === 1 ? 'row' : 'rows'}
+              </button>
+            )}
+            <button
+              onClick={() => handleImport()}
+              disabled={loading || !groupId}
+              className={cn(
+                'h-8 px-3 flex items-center gap-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium',
+                (loading || !groupId) && 'opacity-50'
+              )}
+            >
+              {loading && <Loader2 size={12} className="animate-spin" />}
+              Import {preview?.rowCount} {preview?.rowCount === 1 ? 'row' : 'rows'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
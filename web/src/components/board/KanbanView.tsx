@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageSquare, ListChecks } from 'lucide-react';
+import { Avatar } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import { Board, Column, Group, StatusOption, Task, getFieldValue } from './types';
+
+interface KanbanViewProps {
+  board: Board;
+  groups: Group[];
+  canEdit: boolean;
+  onUpdateField: (taskId: string, columnId: string, value: any) => void;
+  onReorder: (groupId: string, taskIds: string[]) => void;
+  onChangeLaneColumn: (columnId: string) => void;
+}
+
+interface Lane {
+  id: string;
+  label: string;
+  color: string;
+  tasks: (Task & { group: Group })[];
+}
+
+const NO_STATUS_LANE = '';
+
+// Lanes come from the options of a STATUS column; tasks without a matching option land in "No status"
+export function getKanbanColumn(board: Board): Column | undefined {
+  const statusColumns = board.columns.filter((c) => c.type === 'STATUS');
+  return statusColumns.find((c) => c.id === board.settings?.kanbanColumnId) || statusColumns[0];
+}
+
+export function KanbanView({ board, groups, canEdit, onUpdateField, onReorder, onChangeLaneColumn }: KanbanViewProps) {
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const statusColumns = board.columns.filter((c) => c.type === 'STATUS');
+  const laneColumn = getKanbanColumn(board);
+
+  if (!laneColumn) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-sm text-[var(--text-secondary)]">
+          Add a Status column to this board to use the Kanban view
+        </p>
+      </div>
+    );
+  }
+
+  const options: StatusOption[] = laneColumn.settings?.options || [];
+  const lanes: Lane[] = [
+    ...options.map((opt) => ({ id: opt.id, label: opt.label, color: opt.color, tasks: [] as Lane['tasks'] })),
+    { id: NO_STATUS_LANE, label: 'No status', color: '#9CA3AF', tasks: [] },
+  ];
+
+  for (const group of groups) {
+    for (const task of group.tasks) {
+      const value = getFieldValue(task, laneColumn.id);
+      const lane = lanes.find((l) => l.id === value) || lanes[lanes.length - 1];
+      lane.tasks.push({ ...task, group });
+    }
+  }
+
+  const handleDrop = (laneId: string, beforeTaskId?: string) => {
+    const taskId = draggingTaskId;
+    setDraggingTaskId(null);
+    setDropTarget(null);
+    if (!taskId || !canEdit) return;
+
+    const task = board.groups.flatMap((g) => g.tasks).find((t) => t.id === taskId);
+    if (!task) return;
+
+    if ((getFieldValue(task, laneColumn.id) || NO_STATUS_LANE) !== laneId) {
+      onUpdateField(taskId, laneColumn.id, laneId || null);
+    }
+
+    if (!beforeTaskId || beforeTaskId === taskId) return;
+
+    // Lanes cut across groups, and a card keeps its group: dropping it on a card from another group only changes
+    // its status, without reordering
+    const ownGroup = board.groups.find((g) => g.tasks.some((t) => t.id === taskId));
+    if (!ownGroup || !ownGroup.tasks.some((t) => t.id === beforeTaskId)) return;
+
+    const taskIds = ownGroup.tasks.map((t) => t.id).filter((id) => id !== taskId);
+    taskIds.splice(taskIds.indexOf(beforeTaskId), 0, taskId);
+    onReorder(ownGroup.id, taskIds);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {statusColumns.length > 1 && (
+        <div className="flex items-center gap-2 mb-3 px-1">
+          <span className="text-xs text-[var(--text-tertiary)]">Lanes by</span>
+          <select
+            value={laneColumn.id}
+            onChange={(e) => onChangeLaneColumn(e.target.value)}
+            disabled={!canEdit}
+            className="h-7 px-2 rounded-md border border-[var(--border)] bg-[var(--surface)] text-xs text-[var(--text)] focus:outline-none"
+          >
+            {statusColumns.map((col) => (
+              <option key={col.id} value={col.id}>{col.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex-1 flex gap-3 overflow-x-auto pb-2">
+        {lanes.map((lane) => (
+          <div
+            key={lane.id || 'none'}
+            onDragOver={(e) => {
+              if (!draggingTaskId) return;
+              e.preventDefault();
+              setDropTarget(`lane:${lane.id}`);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(lane.id);
+            }}
+            className={cn(
+              'w-64 sm:w-72 flex-shrink-0 flex flex-col rounded-lg bg-[var(--surface-hover)] border border-transparent',
+              dropTarget === `lane:${lane.id}` && 'border-[var(--primary)]'
+            )}
+          >
+            <div className="flex items-center gap-2 px-3 py-2">
+              <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: lane.color }} />
+              <span className="text-sm font-medium text-[var(--text)] truncate">{lane.label}</span>
+              <span className="text-xs text-[var(--text-muted)] ml-auto">{lane.tasks.length}</span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2">
+              {lane.tasks.map((task) => (
+                <div
+                  key={task.id}
+                  draggable={canEdit}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingTaskId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingTaskId(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggingTaskId) return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setDropTarget(`task:${task.id}`);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleDrop(lane.id, task.id);
+                  }}
+                  className={cn(
+                    'p-3 rounded-lg bg-[var(--surface)] border border-[var(--border)] shadow-sm',
+                    canEdit && 'cursor-grab active:cursor-grabbing',
+                    draggingTaskId === task.id && 'opacity-50',
+                    dropTarget === `task:${task.id}` && 'border-t-2 border-t-[var(--primary)]'
+                  )}
+                >
+                  <p className="text-sm text-[var(--text)] break-words">{task.name}</p>
+
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="flex items-center gap-1 text-[10px] text-[var(--text-tertiary)] truncate">
+                      <span
+                        className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: task.group.color || 'var(--primary)' }}
+                      />
+                      {task.group.name}
+                    </span>
+
+                    {task._count.comments > 0 && (
+                      <span className="flex items-center gap-0.5 text-[10px] text-[var(--text-muted)]">
+                        <MessageSquare size={10} />
+                        {task._count.comments}
+                      </span>
+                    )}
+                    {task._count.subTasks > 0 && (
+                      <span className="flex items-center gap-0.5 text-[10px] text-[var(--text-muted)]">
+                        <ListChecks size={10} />
+                        {task._count.subTasks}
+                      </span>
+                    )}
+
+                    <div className="flex -space-x-1.5 ml-auto">
+                      {task.assignments.slice(0, 3).map((a) => (
+                        <Avatar
+                          key={a.user.id}
+                          name={a.user.name}
+                          imageUrl={a.user.avatarUrl}
+                          size="xs"
+                          className="ring-2 ring-[var(--surface)]"
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
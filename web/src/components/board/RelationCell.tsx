@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { columnApi } from '@/lib/api';
+import { Column, LinkedTask } from './types';
+
+interface RelationCellProps {
+  column: Column;
+  value: LinkedTask[] | undefined;
+  canEdit: boolean;
+  onChange: (taskIds: string[]) => void;
+}
+
+interface RelationOption {
+  id: string;
+  name: string;
+  group: { id: string; name: string; color?: string };
+}
+
+export function RelationCell({ column, value, canEdit, onChange }: RelationCellProps) {
+  const linked = Array.isArray(value) ? value : [];
+  const [picking, setPicking] = useState(false);
+  const [search, setSearch] = useState('');
+  const [options, setOptions] = useState<RelationOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!picking) return;
+    const timer = setTimeout(fetchOptions, 250);
+    return () => clearTimeout(timer);
+  }, [picking, search]);
+
+  const fetchOptions = async () => {
+    try {
+      setLoading(true);
+      const res = await columnApi.getRelationOptions(column.id, search || undefined);
+      setOptions(res.data.tasks);
+    } catch (error) {
+      console.error('Failed to fetch linkable items:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ids = linked.map((t) => t.id);
+
+  return (
+    <div className="flex items-center h-full px-1 gap-1 overflow-hidden">
+      {linked.map((task) => (
+        <span
+          key={task.id}
+          className="flex items-center gap-0.5 max-w-[6rem] px-1.5 py-0.5 rounded bg-[var(--surface-hover)] text-[10px] text-[var(--text-secondary)]"
+        >
+          <span className="truncate">{task.name}</span>
+          {canEdit && (
+            <button
+              onClick={() => onChange(ids.filter((id) => id !== task.id))}
+              className="text-[var(--text-muted)] hover:text-[var(--error)]"
+            >
+              <X size={10} />
+            </button>
+          )}
+        </span>
+      ))}
+      {canEdit && (
+        <button
+          onClick={() => setPicking(true)}
+          className="flex-shrink-0 p-0.5 rounded text-[var(--text-muted)] hover:text-[var(--text)]"
+          title="Link item"
+        >
+          <Plus size={12} />
+        </button>
+      )}
+
+      {picking && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => setPicking(false)}>
+          <div
+            className="w-full max-w-sm rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg p-3 space-y-2"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={`Search ${column.name}...`}
+                autoFocus
+                className="flex-1 h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+              />
+              {loading && <Loader2 size={14} className="animate-spin text-[var(--text-muted)]" />}
+              <button onClick={() => setPicking(false)} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+                <X size={14} />
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto">
+              {options.map((option) => (
+                <label
+                  key={option.id}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded text-xs text-[var(--text)] hover:bg-[var(--surface-hover)] cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={ids.includes(option.id)}
+                    onChange={(e) =>
+                      onChange(e.target.checked ? [...ids, option.id] : ids.filter((id) => id !== option.id))
+                    }
+                    className="w-3.5 h-3.5 rounded"
+                  />
+                  <span className="truncate">{option.name}</span>
+                  <span className="ml-auto text-[10px] text-[var(--text-muted)] truncate">{option.group.name}</span>
+                </label>
+              ))}
+              {!loading && options.length === 0 && (
+                <p className="px-2 py-3 text-xs text-center text-[var(--text-muted)]">No items found</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { boardApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Board } from './types';
+
+interface SaveTemplateDialogProps {
+  board: Board;
+  onClose: () => void;
+}
+
+export function SaveTemplateDialog({ board, onClose }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(`${board.name} template`);
+  const [includeTasks, setIncludeTasks] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError('');
+    try {
+      await boardApi.saveAsTemplate(board.id, { name: name.trim(), description: board.description, includeTasks });
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="w-full max-w-sm rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-[var(--text)]">Save as template</h3>
+          <button onClick={onClose} className="p-1 rounded text-[var(--text-tertiary)] hover:bg-[var(--surface-hover)]">
+            <X size={14} />
+          </button>
+        </div>
+
+        {saved ? (
+          <>
+            <p className="text-xs text-[var(--text-secondary)]">
+              &quot;{name.trim()}&quot; is now available when creating a new board in this workspace.
+            </p>
+            <button
+              onClick={onClose}
+              className="w-full h-8 rounded-md bg-[var(--primary)] text-white text-xs font-medium"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Template name"
+              autoFocus
+              className="w-full h-8 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+            />
+
+            <label className="flex items-center gap-2 text-xs text-[var(--text)]">
+              <input
+                type="checkbox"
+                checked={includeTasks}
+                onChange={(e) => setIncludeTasks(e.target.checked)}
+                className="w-3.5 h-3.5 rounded"
+              />
+              Include items and subtasks as samples
+            </label>
+            <p className="text-[10px] text-[var(--text-muted)]">
+              Columns, their settings and groups are always kept. Relation and mirror columns are left out.
+            </p>
+
+            {error && <p className="text-xs text-[var(--error)]">{error}</p>}
+
+            <button
+              onClick={handleSave}
+              disabled={saving || !name.trim()}
+              className={cn(
+                'w-full h-8 flex items-center justify-center gap-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium',
+                (saving || !name.trim()) && 'opacity-50'
+              )}
+            >
+              {saving && <Loader2 size={12} className="animate-spin" />}
+              Save template
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock, Plus, Users, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SavedView } from './types';
+
+interface ViewTabsProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  userId?: string;
+  canEdit: boolean;
+  hasChanges: boolean;
+  onSelect: (view: SavedView | null) => void;
+  onSave: () => void;
+  onCreate: (name: string, isShared: boolean) => Promise<void>;
+  onDelete: (view: SavedView) => void;
+}
+
+export function ViewTabs({
+  views,
+  activeViewId,
+  userId,
+  canEdit,
+  hasChanges,
+  onSelect,
+  onSave,
+  onCreate,
+  onDelete,
+}: ViewTabsProps) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  // Mirrors the server rule: creators manage their views, editors manage shared ones
+  const canManage = (view: SavedView) => view.createdBy.id === userId || (view.isShared && canEdit);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setCreating(false);
+      return;
+    }
+    await onCreate(name.trim(), isShared);
+    setName('');
+    setIsShared(false);
+    setCreating(false);
+  };
+
+  const tabClass = (active: boolean) =>
+    cn(
+      'group flex items-center gap-1.5 h-8 px-3 border-b-2 text-xs font-medium whitespace-nowrap transition-colors',
+      active
+        ? 'border-[var(--primary)] text-[var(--text)]'
+        : 'border-transparent text-[var(--text-tertiary)] hover:text-[var(--text)]'
+    );
+
+  return (
+    <div className="flex items-center gap-1 px-3 sm:px-4 overflow-x-auto">
+      <button onClick={() => onSelect(null)} className={tabClass(activeViewId === null)}>
+        Main table
+      </button>
+
+      {views.map((view) => (
+        <div key={view.id} className={tabClass(view.id === activeViewId)}>
+          <button onClick={() => onSelect(view)} className="flex items-center gap-1.5">
+            {view.isShared ? <Users size={12} /> : <Lock size={12} />}
+            {view.name}
+          </button>
+          {canManage(view) && (
+            <button
+              onClick={() => onDelete(view)}
+              title="Delete view"
+              className="opacity-0 group-hover:opacity-100 text-[var(--text-muted)] hover:text-red-500"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {creating ? (
+        <div className="flex items-center gap-2 h-8 px-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setCreating(false);
+            }}
+            placeholder="View name"
+            autoFocus
+            className="w-32 h-6 px-2 rounded-md border border-[var(--border)] bg-[var(--background)] text-xs text-[var(--text)] focus:outline-none"
+          />
+          {canEdit && (
+            <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)] whitespace-nowrap cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+                className="w-3.5 h-3.5 rounded"
+              />
+              Shared
+            </label>
+          )}
+          <button onClick={handleCreate} className="text-xs font-medium text-[var(--primary)] hover:underline">
+            Save
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setCreating(true)}
+          title="Save current filters as a view"
+          className="flex items-center gap-1 h-8 px-2 text-xs text-[var(--text-tertiary)] hover:text-[var(--text)] whitespace-nowrap"
+        >
+          <Plus size={12} /> Save view
+        </button>
+      )}
+
+      {activeView && hasChanges && canManage(activeView) && (
+        <button
+          onClick={onSave}
+          className="ml-auto h-6 px-2 rounded-md bg-[var(--primary)] text-white text-xs font-medium whitespace-nowrap"
+        >
+          Update &quot;{activeView.name}&quot;
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { Board, Column, Group, Task } from './types';
+
+// Events the server sends to the board:<id> room; board_changed asks for a reload
+export const BOARD_EVENTS = [
+  'task_created',
+  'task_updated',
+  'task_deleted',
+  'tasks_reordered',
+  'field_updated',
+  'assignment_added',
+  'assignment_removed',
+  'comment_added',
+  'comment_deleted',
+  'group_created',
+  'group_updated',
+  'group_deleted',
+  'groups_reordered',
+  'column_created',
+  'column_updated',
+  'column_deleted',
+  'columns_reordered',
+  'board_changed',
+] as const;
+
+export type BoardEventName = (typeof BOARD_EVENTS)[number];
+
+// Matches the server's presence TTL of three missed heartbeats
+export const PRESENCE_HEARTBEAT_MS = 20 * 1000;
+
+// Changes that decide which tasks match, so a filtered board reloads instead of patching
+export const TASK_MATCH_EVENTS: BoardEventName[] = ['task_created', 'task_updated', 'tasks_reordered', 'field_updated'];
+
+const mapTasks = (board: Board, fn: (task: Task) => Task): Board => ({
+  ...board,
+  groups: board.groups.map((g) => ({ ...g, tasks: g.tasks.map(fn) })),
+});
+
+const mapTask = (board: Board, taskId: string, fn: (task: Task) => Task) =>
+  mapTasks(board, (t) => (t.id === taskId ? fn(t) : t));
+
+const withValue = (task: Task, columnId: string, value: any): Task => ({
+  ...task,
+  fieldValues: [
+    ...task.fieldValues.filter((fv) => fv.columnId !== columnId),
+    { id: `${task.id}:${columnId}`, columnId, value },
+  ],
+});
+
+const findTask = (board: Board, taskId: string) =>
+  board.groups.flatMap((g) => g.tasks).find((t) => t.id === taskId);
+
+// Orders items by the ids a reorder event lists, or null when one of them isn't on the board yet
+function inOrder<T extends { id: string }>(items: T[], ids: string[]) {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const ordered = ids.map((id, position) => byId.get(id) && { ...byId.get(id)!, position });
+  return ordered.every(Boolean) ? (ordered as T[]) : null;
+}
+
+// Applies a change from another client to the loaded board. Returns null when the board should be reloaded instead.
+export function applyBoardEvent(board: Board, event: BoardEventName, data: any): Board | null {
+  switch (event) {
+    case 'task_created': {
+      const task: Task & { groupId: string } = data.task;
+      if (findTask(board, task.id)) return board;
+      if (!board.groups.some((g) => g.id === task.groupId)) return null;
+      return {
+        ...board,
+        groups: board.groups.map((g) => (g.id === task.groupId ? { ...g, tasks: [...g.tasks, task] } : g)),
+      };
+    }
+
+    case 'task_updated': {
+      const { id, name, groupId, position } = data.task;
+      const existing = findTask(board, id);
+      if (!existing) return null;
+      const updated = { ...existing, name, position };
+      // Moved to another board: it just leaves this one
+      const groups = board.groups.map((g) => ({ ...g, tasks: g.tasks.filter((t) => t.id !== id) }));
+      return {
+        ...board,
+        groups: groups.map((g) =>
+          g.id === groupId ? { ...g, tasks: [...g.tasks, updated].sort((a, b) => a.position - b.position) } : g
+        ),
+      };
+    }
+
+    case 'task_deleted':
+      return {
+        ...board,
+        groups: board.groups.map((g) => ({ ...g, tasks: g.tasks.filter((t) => t.id !== data.taskId) })),
+      };
+
+    case 'tasks_reordered': {
+      const tasks = inOrder(board.groups.flatMap((g) => g.tasks), data.taskIds);
+      if (!tasks) return null;
+      return {
+        ...board,
+        groups: board.groups.map((g) =>
+          g.id === data.groupId
+            ? { ...g, tasks }
+            : { ...g, tasks: g.tasks.filter((t) => !data.taskIds.includes(t.id)) }
+        ),
+      };
+    }
+
+    case 'field_updated': {
+      let next = mapTask(board, data.taskId, (t) => {
+        const updated = withValue(t, data.columnId, data.value);
+        return data.formulas.reduce((task: Task, f: { columnId: string; value: any }) => withValue(task, f.columnId, f.value), updated);
+      });
+      for (const shift of data.shifted as { taskId: string; value: any }[]) {
+        next = mapTask(next, shift.taskId, (t) => withValue(t, data.columnId, shift.value));
+      }
+      return next;
+    }
+
+    case 'assignment_added':
+      return mapTask(board, data.taskId, (t) =>
+        t.assignments.some((a) => a.user.id === data.assignment.user.id)
+          ? t
+          : { ...t, assignments: [...t.assignments, data.assignment] }
+      );
+
+    case 'assignment_removed':
+      return mapTask(board, data.taskId, (t) => ({
+        ...t,
+        assignments: t.assignments.filter((a) => a.user.id !== data.userId),
+      }));
+
+    case 'comment_added':
+    case 'comment_deleted':
+      return mapTask(board, data.taskId, (t) => ({ ...t, _count: { ...t._count, comments: data.commentCount } }));
+
+    case 'group_created': {
+      const group: Group = data.group;
+      if (board.groups.some((g) => g.id === group.id)) return board;
+      return { ...board, groups: [...board.groups, group] };
+    }
+
+    case 'group_updated':
+      return {
+        ...board,
+        groups: board.groups.map((g) => (g.id === data.group.id ? { ...g, ...data.group, tasks: g.tasks } : g)),
+      };
+
+    case 'group_deleted':
+      return { ...board, groups: board.groups.filter((g) => g.id !== data.groupId) };
+
+    case 'groups_reordered': {
+      const groups = inOrder(board.groups, data.groupIds);
+      return groups && { ...board, groups };
+    }
+
+    case 'column_created': {
+      const column: Column = data.column;
+      if (board.columns.some((c) => c.id === column.id)) return board;
+      return { ...board, columns: [...board.columns, column] };
+    }
+
+    case 'column_updated':
+      return { ...board, columns: board.columns.map((c) => (c.id === data.column.id ? data.column : c)) };
+
+    case 'column_deleted': {
+      // Formulas that read the column were recalculated
+      if (board.columns.some((c) => c.type === 'FORMULA')) return null;
+      return {
+        ...mapTasks(board, (t) => ({ ...t, fieldValues: t.fieldValues.filter((fv) => fv.columnId !== data.columnId) })),
+        columns: board.columns.filter((c) => c.id !== data.columnId),
+      };
+    }
+
+    case 'columns_reordered': {
+      const columns = inOrder(board.columns, data.columnIds);
+      return columns && { ...board, columns };
+    }
+
+    case 'board_changed':
+      return null;
+  }
+}
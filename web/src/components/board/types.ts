@@ -0,0 +1,234 @@
+export interface StatusOption {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface Column {
+  id: string;
+  name: string;
+  type: string;
+  width?: number;
+  settings?: any;
+  position: number;
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  position: number;
+  fieldValues: { id: string; columnId: string; value: any }[];
+  assignments: { user: { id: string; name: string; avatarUrl?: string } }[];
+  _count: { comments: number; subTasks: number };
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  color?: string;
+  collapsed: boolean;
+  position: number;
+  tasks: Task[];
+}
+
+export interface BoardSettings {
+  kanbanColumnId?: string;
+  calendarColumnId?: string;
+  ganttColumnId?: string;
+}
+
+export interface Board {
+  id: string;
+  workspaceId: string;
+  name: string;
+  type: string;
+  description?: string;
+  settings?: BoardSettings | null;
+  columns: Column[];
+  groups: Group[];
+  workspace: { defaultCurrency: string; members: { user: { id: string; name: string; avatarUrl?: string; role: string } }[] };
+}
+
+// RELATION cells hold the linked tasks the viewer is allowed to see
+export interface LinkedTask {
+  id: string;
+  name: string;
+  boardId: string;
+}
+
+export function getFieldValue(task: Task, columnId: string) {
+  const fv = task.fieldValues.find((v) => v.columnId === columnId);
+  return fv?.value;
+}
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'ILS'];
+
+// MONEY values are { amount, currency }; older ones are bare numbers in the column's currency
+export interface MoneyValue {
+  amount: number;
+  currency: string;
+}
+
+export function columnCurrency(board: Board, column: Column): string {
+  return column.settings?.currency || board.workspace.defaultCurrency;
+}
+
+export function getMoney(board: Board, column: Column, value: any): MoneyValue | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'object') {
+    const amount = Number(value.amount);
+    return isNaN(amount) ? null : { amount, currency: value.currency || columnCurrency(board, column) };
+  }
+  const amount = Number(value);
+  return isNaN(amount) ? null : { amount, currency: columnCurrency(board, column) };
+}
+
+export interface RateUsed {
+  from: string;
+  to: string;
+  rate: number;
+  date: string;
+}
+
+// Group totals of the MONEY columns, converted server-side; a null total had an amount with no rate
+export interface MoneyTotals {
+  currency: string;
+  rates: RateUsed[];
+  missing: string[];
+  groups: Record<string, Record<string, number | null>>;
+}
+
+// DATE values are "yyyy-MM-dd" strings, TIMELINE values are { start, end } pairs of them
+export interface DateSpan {
+  start: string;
+  end: string;
+}
+
+export function getDateSpan(column: Column, value: any): DateSpan | null {
+  if (column.type === 'DATE') {
+    return typeof value === 'string' && value ? { start: value.substring(0, 10), end: value.substring(0, 10) } : null;
+  }
+
+  if (column.type === 'TIMELINE' && value?.start) {
+    const start = String(value.start).substring(0, 10);
+    const end = value.end ? String(value.end).substring(0, 10) : start;
+    return end < start ? { start: end, end: start } : { start, end };
+  }
+
+  return null;
+}
+
+// Filters and sort are evaluated server-side; see POST /boards/:id/query
+export interface FilterCondition {
+  columnId: string;
+  operator: string;
+  value?: any;
+}
+
+export interface BoardFilters {
+  match: 'all' | 'any';
+  conditions: FilterCondition[];
+}
+
+export interface SortRule {
+  columnId: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface SavedView {
+  id: string;
+  boardId: string;
+  name: string;
+  type: 'TABLE' | 'KANBAN' | 'CALENDAR' | 'GANTT';
+  isShared: boolean;
+  filters: BoardFilters | null;
+  sort: SortRule[] | null;
+  hiddenColumns: string[];
+  createdBy: { id: string; name: string };
+}
+
+export type AutomationTrigger = 'STATUS_CHANGED' | 'TASK_CREATED' | 'DATE_ARRIVED' | 'PERSON_ASSIGNED' | 'COMMENT_ADDED';
+
+export type AutomationActionType =
+  | 'SET_FIELD'
+  | 'MOVE_TO_GROUP'
+  | 'ASSIGN'
+  | 'CREATE_TASK'
+  | 'CREATE_SUBTASK'
+  | 'NOTIFY'
+  | 'SEND_EMAIL';
+
+export interface AutomationTriggerConfig {
+  columnId?: string;
+  from?: string;
+  to?: string;
+  groupId?: string;
+  userId?: string;
+  contains?: string;
+  offsetDays?: number;
+  edge?: 'start' | 'end';
+}
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  columnId?: string;
+  value?: any;
+  groupId?: string;
+  userId?: string;
+  name?: string;
+  to?: 'assignees' | 'creator' | 'user' | 'column';
+  subject?: string;
+  message?: string;
+}
+
+export interface AutomationRun {
+  id: string;
+  status: 'SUCCESS' | 'FAILED';
+  event: Record<string, any> | null;
+  results: { type: AutomationActionType; ok: boolean; detail?: string; error?: string }[] | null;
+  error: string | null;
+  createdAt: string;
+  automation?: { id: string; name: string; trigger: AutomationTrigger };
+  task?: { id: string; name: string } | null;
+}
+
+export interface Automation {
+  id: string;
+  boardId: string;
+  name: string;
+  trigger: AutomationTrigger;
+  triggerConfig: AutomationTriggerConfig | null;
+  actions: AutomationAction[];
+  isActive: boolean;
+  createdBy: { id: string; name: string };
+  runs?: AutomationRun[];
+}
+
+export interface ImportSuggestion {
+  index: number;
+  header: string;
+  inferredType: string;
+  columnId: string | null;
+}
+
+export interface ImportPreview {
+  headers: string[];
+  rows: string[][];
+  rowCount: number;
+  suggestions: ImportSuggestion[];
+}
+
+// Rows are numbered as in the spreadsheet, header included
+export interface ImportRowError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+// Someone with the board open; taskId is the item they're editing, if any
+export interface BoardViewer {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+  taskId: string | null;
+}
@@ -18,12 +18,46 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
-// Handle auth errors
+// Swaps the stored refresh token for a new pair. Requests that fail together share one refresh, since each
+// refresh token only works once.
+let refreshing: Promise<string | null> | null = null;
+
+export function refreshSession(): Promise<string | null> {
+  if (!refreshing) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshing = (refreshToken
+      ? axios.post(`${API_URL}/auth/refresh`, { refreshToken }).then((res) => {
+          localStorage.setItem('token', res.data.token);
+          localStorage.setItem('refreshToken', res.data.refreshToken);
+          return res.data.token as string;
+        })
+      : Promise.resolve(null)
+    )
+      .catch(() => null)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// An expired access token is refreshed and the request retried once; if the session is gone, sign in again
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config;
     if (error.response?.status === 401 && typeof window !== 'undefined') {
+      if (config && !config._retried && !config.url?.startsWith('/auth/login')) {
+        config._retried = true;
+        const token = await refreshSession();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+          return api(config);
+        }
+      }
+
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       if (!window.location.pathname.startsWith('/login') && !window.location.pathname.startsWith('/register')) {
         window.location.href = '/login';
       }
@@ -36,6 +70,8 @@ api.interceptors.response.use(
 export const authApi = {
   login: (email: string, password: string) =>
     api.post('/auth/login', { email, password }),
+  loginWithCode: (challengeToken: string, code: string) =>
+    api.post('/auth/login/2fa', { challengeToken, code }),
   register: (data: { email: string; password: string; name: string; inviteToken?: string }) =>
     api.post('/auth/register', data),
   setup: (data: { email: string; password: string; name: string; workspaceName: string; workspaceSlug: string }) =>
@@ -46,6 +82,21 @@ export const authApi = {
     api.patch('/auth/me', data),
   changePassword: (currentPassword: string, newPassword: string) =>
     api.post('/auth/change-password', { currentPassword, newPassword }),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  checkResetToken: (token: string) => api.get(`/auth/reset-password/${token}`),
+  resetPassword: (token: string, password: string) => api.post('/auth/reset-password', { token, password }),
+  verifyEmail: (token: string) => api.post('/auth/verify-email', { token }),
+  resendVerification: () => api.post('/auth/resend-verification'),
+  // Takes the token explicitly, since signing out clears it from storage before the request goes out
+  logout: (token: string) => api.post('/auth/logout', null, { headers: { Authorization: `Bearer ${token}` } }),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (id: string) => api.delete(`/auth/sessions/${id}`),
+  revokeAllSessions: (exceptCurrent?: boolean) => api.delete('/auth/sessions', { params: { exceptCurrent } }),
+  getTwoFactor: () => api.get('/auth/2fa'),
+  setupTwoFactor: () => api.post('/auth/2fa/setup'),
+  enableTwoFactor: (code: string) => api.post('/auth/2fa/enable', { code }),
+  disableTwoFactor: (password: string, code: string) => api.post('/auth/2fa/disable', { password, code }),
+  regenerateRecoveryCodes: (code: string) => api.post('/auth/2fa/recovery-codes', { code }),
 };
 
 // Workspaces
@@ -58,34 +109,99 @@ export const workspaceApi = {
   getMembers: (id: string) => api.get(`/workspaces/${id}/members`),
   getMember: (workspaceId: string, userId: string) =>
     api.get(`/workspaces/${workspaceId}/members/${userId}`),
-  addMember: (workspaceId: string, data: { email: string; name: string; role: string; phone?: string; password?: string }) =>
+  addMember: (workspaceId: string, data: { email: string; name: string; role: string; phone?: string }) =>
     api.post(`/workspaces/${workspaceId}/members`, data),
   updateMember: (workspaceId: string, userId: string, data: { role?: string }) =>
     api.patch(`/workspaces/${workspaceId}/members/${userId}`, data),
   removeMember: (workspaceId: string, userId: string) =>
     api.delete(`/workspaces/${workspaceId}/members/${userId}`),
+  getExchangeRates: (workspaceId: string, params?: { fromCurrency?: string; toCurrency?: string }) =>
+    api.get(`/workspaces/${workspaceId}/exchange-rates`, { params }),
+  setExchangeRate: (workspaceId: string, data: { fromCurrency: string; toCurrency: string; rate: number; date: string }) =>
+    api.post(`/workspaces/${workspaceId}/exchange-rates`, data),
+  uploadExchangeRates: (workspaceId: string, file: File, dateOrder?: string) => {
+    const form = new FormData();
+    form.append('file', file);
+    if (dateOrder) form.append('dateOrder', dateOrder);
+    return api.post(`/workspaces/${workspaceId}/exchange-rates/upload`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  deleteExchangeRate: (workspaceId: string, rateId: string) =>
+    api.delete(`/workspaces/${workspaceId}/exchange-rates/${rateId}`),
+  getEmails: (workspaceId: string, params?: { status?: string; limit?: number }) =>
+    api.get(`/workspaces/${workspaceId}/emails`, { params }),
+  retryEmail: (workspaceId: string, emailId: string) =>
+    api.post(`/workspaces/${workspaceId}/emails/${emailId}/retry`),
 };
 
 // Boards
 export const boardApi = {
   getByWorkspace: (workspaceId: string) => api.get(`/boards/workspace/${workspaceId}`),
-  getById: (id: string) => api.get(`/boards/${id}`),
-  create: (data: { workspaceId: string; name: string; type?: string; description?: string; color?: string; isPublic?: boolean }) =>
+  getById: (id: string, params?: { currency?: string }) => api.get(`/boards/${id}`, { params }),
+  getTemplates: (workspaceId: string) => api.get(`/boards/workspace/${workspaceId}/templates`),
+  query: (id: string, data: { filters?: any; sort?: any[]; search?: string; currency?: string }) =>
+    api.post(`/boards/${id}/query`, data),
+  create: (data: { workspaceId: string; name: string; type?: string; templateId?: string; description?: string; color?: string; isPublic?: boolean }) =>
     api.post('/boards', data),
+  saveAsTemplate: (id: string, data: { name?: string; description?: string; includeTasks?: boolean }) =>
+    api.post(`/boards/${id}/template`, data),
+  duplicate: (id: string, data: { name?: string; mode?: string }) =>
+    api.post(`/boards/${id}/duplicate`, data),
+  export: (id: string, format: 'csv' | 'xlsx' | 'pdf', viewId?: string, currency?: string) =>
+    api.get(`/boards/${id}/export`, { params: { format, viewId, currency }, responseType: 'blob' }),
+  importPreview: (id: string, file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    return api.post(`/boards/${id}/import/preview`, form, { headers: { 'Content-Type': 'multipart/form-data' } });
+  },
+  import: (id: string, file: File, mapping: any) => {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('mapping', JSON.stringify(mapping));
+    return api.post(`/boards/${id}/import`, form, { headers: { 'Content-Type': 'multipart/form-data' } });
+  },
   update: (id: string, data: any) => api.patch(`/boards/${id}`, data),
   delete: (id: string) => api.delete(`/boards/${id}`),
+  getCalendar: (id: string, params: { columnId: string; from: string; to: string }) =>
+    api.get(`/boards/${id}/calendar`, { params }),
+  getGantt: (id: string, columnId: string) =>
+    api.get(`/boards/${id}/gantt`, { params: { columnId } }),
   addMember: (boardId: string, userId: string, canEdit?: boolean) =>
     api.post(`/boards/${boardId}/members`, { userId, canEdit }),
   removeMember: (boardId: string, userId: string) =>
     api.delete(`/boards/${boardId}/members/${userId}`),
 };
 
+// Saved board views
+export const viewApi = {
+  getByBoard: (boardId: string) => api.get(`/views/board/${boardId}`),
+  create: (data: { boardId: string; name: string; type?: string; isShared?: boolean; filters?: any; sort?: any[]; hiddenColumns?: string[] }) =>
+    api.post('/views', data),
+  update: (id: string, data: { name?: string; type?: string; isShared?: boolean; filters?: any; sort?: any[]; hiddenColumns?: string[] }) =>
+    api.patch(`/views/${id}`, data),
+  delete: (id: string) => api.delete(`/views/${id}`),
+};
+
+// Board automations
+export const automationApi = {
+  getByBoard: (boardId: string) => api.get(`/automations/board/${boardId}`),
+  getRuns: (boardId: string, params?: { automationId?: string; status?: string }) =>
+    api.get(`/automations/board/${boardId}/runs`, { params }),
+  create: (data: { boardId: string; name: string; trigger: string; triggerConfig?: any; actions: any[]; isActive?: boolean }) =>
+    api.post('/automations', data),
+  update: (id: string, data: { name?: string; trigger?: string; triggerConfig?: any; actions?: any[]; isActive?: boolean }) =>
+    api.patch(`/automations/${id}`, data),
+  delete: (id: string) => api.delete(`/automations/${id}`),
+};
+
 // Groups
 export const groupApi = {
   create: (data: { boardId: string; name: string; color?: string }) =>
     api.post('/groups', data),
   update: (id: string, data: { name?: string; color?: string; collapsed?: boolean }) =>
     api.patch(`/groups/${id}`, data),
+  duplicate: (id: string, mode?: string) => api.post(`/groups/${id}/duplicate`, { mode }),
   reorder: (boardId: string, groupIds: string[]) =>
     api.post('/groups/reorder', { boardId, groupIds }),
   delete: (id: string) => api.delete(`/groups/${id}`),
@@ -96,6 +212,8 @@ export const columnApi = {
   create: (data: { boardId: string; name: string; type: string; settings?: any; width?: number }) =>
     api.post('/columns', data),
   update: (id: string, data: any) => api.patch(`/columns/${id}`, data),
+  getRelationOptions: (id: string, search?: string) =>
+    api.get(`/columns/${id}/relation-options`, { params: { search } }),
   reorder: (boardId: string, columnIds: string[]) =>
     api.post('/columns/reorder', { boardId, columnIds }),
   delete: (id: string) => api.delete(`/columns/${id}`),
@@ -108,8 +226,10 @@ export const taskApi = {
     api.post('/tasks', data),
   update: (id: string, data: { name?: string; groupId?: string }) =>
     api.patch(`/tasks/${id}`, data),
-  updateField: (taskId: string, columnId: string, value: any) =>
-    api.patch(`/tasks/${taskId}/field/${columnId}`, { value }),
+  updateField: (taskId: string, columnId: string, value: any, options?: { shiftDependents?: boolean }) =>
+    api.patch(`/tasks/${taskId}/field/${columnId}`, { value, ...options }),
+  duplicate: (id: string, data: { mode?: string; groupId?: string }) =>
+    api.post(`/tasks/${id}/duplicate`, data),
   reorder: (groupId: string, taskIds: string[]) =>
     api.post('/tasks/reorder', { groupId, taskIds }),
   delete: (id: string) => api.delete(`/tasks/${id}`),
@@ -0,0 +1,28 @@
+import { io, Socket } from 'socket.io-client';
+import { refreshSession } from './api';
+
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3000';
+
+let socket: Socket | null = null;
+
+// One connection per tab, opened on first use. The token is read on every (re)connect so it follows logins.
+export function getSocket(): Socket {
+  if (!socket) {
+    socket = io(SOCKET_URL, {
+      auth: (cb) => cb({ token: localStorage.getItem('token') }),
+      transports: ['websocket'],
+      reconnection: true,
+    });
+    // A rejected handshake isn't retried on its own; when the access token has expired, refresh it and reconnect
+    socket.on('connect_error', async (err) => {
+      if (err.message !== 'Invalid token' || !socket || socket.active) return;
+      if (await refreshSession()) socket.connect();
+    });
+  }
+  return socket;
+}
+
+export function disconnectSocket() {
+  socket?.disconnect();
+  socket = null;
+}
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { authApi } from '@/lib/api';
+import { disconnectSocket } from '@/lib/socket';
 
 interface Workspace {
   id: string;
@@ -17,6 +18,9 @@ interface User {
   avatarUrl?: string;
   phone?: string;
   role: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean;
   workspaces: Workspace[];
 }
 
@@ -27,7 +31,9 @@ interface AuthState {
   isLoading: boolean;
   isInitialized: boolean;
 
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to a challenge token when the account has 2FA; finish with loginWithCode
+  login: (email: string, password: string) => Promise<string | null>;
+  loginWithCode: (challengeToken: string, code: string) => Promise<void>;
   register: (data: { email: string; password: string; name: string; inviteToken?: string }) => Promise<void>;
   setup: (data: { email: string; password: string; name: string; workspaceName: string; workspaceSlug: string }) => Promise<void>;
   logout: () => void;
@@ -49,9 +55,37 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const res = await authApi.login(email, password);
-          const { token, user } = res.data;
+          if (res.data.twoFactorRequired) {
+            set({ isLoading: false });
+            return res.data.challengeToken as string;
+          }
+          const { token, refreshToken, user } = res.data;
 
           localStorage.setItem('token', token);
+          localStorage.setItem('refreshToken', refreshToken);
+
+          set({
+            token,
+            user,
+            currentWorkspace: user.workspaces[0] || null,
+            isLoading: false,
+            isInitialized: true,
+          });
+          return null;
+        } catch (error) {
+          set({ isLoading: false });
+          throw error;
+        }
+      },
+
+      loginWithCode: async (challengeToken, code) => {
+        set({ isLoading: true });
+        try {
+          const res = await authApi.loginWithCode(challengeToken, code);
+          const { token, refreshToken, user } = res.data;
+
+          localStorage.setItem('token', token);
+          localStorage.setItem('refreshToken', refreshToken);
 
           set({
             token,
@@ -70,9 +104,10 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const res = await authApi.register(data);
-          const { token, user } = res.data;
+          const { token, refreshToken, user } = res.data;
 
           localStorage.setItem('token', token);
+          localStorage.setItem('refreshToken', refreshToken);
 
           set({
             token,
@@ -91,9 +126,10 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true });
         try {
           const res = await authApi.setup(data);
-          const { token, user } = res.data;
+          const { token, refreshToken, user } = res.data;
 
           localStorage.setItem('token', token);
+          localStorage.setItem('refreshToken', refreshToken);
 
           set({
             token,
@@ -109,7 +145,12 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: () => {
+        // Ends the session on the server too; signing out locally doesn't wait for it
+        const token = localStorage.getItem('token');
+        if (token) authApi.logout(token).catch(() => {});
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
+        disconnectSocket();
         set({
           token: null,
           user: null,
@@ -142,6 +183,7 @@ export const useAuthStore = create<AuthState>()(
           });
         } catch (error) {
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
           set({
             token: null,
             user: null,